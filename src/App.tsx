@@ -1,7 +1,9 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import HistoryPanel from './components/HistoryPanel'
 import LeftPanel from './components/LeftPanel'
 import MeshCanvas from './components/MeshCanvas'
 import RightPanel from './components/RightPanel'
+import TimelinePanel from './components/TimelinePanel'
 import Toolbar from './components/Toolbar'
 import { store } from './mesh/store'
 
@@ -205,6 +207,7 @@ export default function App() {
       <div style={{ flex: 1, display: 'flex', overflow: 'hidden', minHeight: 0 }}>
         <LeftPanel />
 
+        <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
         {/* ── Canvas viewport ─────────────────────────────────────────────── */}
         <div style={{
           flex: 1,
@@ -256,6 +259,15 @@ export default function App() {
             </div>
           </div>
 
+          <div style={{
+            position: 'absolute',
+            left: VIEWPORT_PADDING + 8,
+            top: VIEWPORT_PADDING + 8,
+            zIndex: 6,
+          }}>
+            <HistoryPanel />
+          </div>
+
           <div style={{
             position: 'absolute',
             left: VIEWPORT_PADDING + 8,
@@ -326,6 +338,10 @@ export default function App() {
           </div>
         </div>
 
+        {/* ── Keyframe timeline ───────────────────────────────────────────── */}
+        <TimelinePanel />
+        </div>
+
         {/* ── Right panel ─────────────────────────────────────────────────── */}
         <RightPanel />
       </div>
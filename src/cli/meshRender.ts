@@ -0,0 +1,94 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { basename, extname } from 'node:path'
+import { parseArgs } from 'node:util'
+import { renderDocumentCpu } from '../mesh/cpuRenderer'
+import { encodePng } from '../mesh/encoders/png'
+import { readProject } from '../mesh/project'
+
+// ─── mesh-render ──────────────────────────────────────────────────────────────
+// Renders a preset (.mesh / exported JSON) to PNG without a browser or GPU:
+//
+//   mesh-render preset.json --out hero.png --scale 2 --time 1.5
+//
+// Built with `npm run build:cli`; uses the CPU renderer, so glass is skipped.
+
+const USAGE = `Usage: mesh-render <preset.json> [options]
+
+Options:
+  --out <file>          Output PNG (default: <preset>.png)
+  --scale <n>           Export scale, like 1x/2x/3x in the editor (default: 1)
+  --time <sec>          Animation time in seconds (default: 0)
+  --subdivision <n>     Patch subdivision (default: 20)
+  --uniform             Subdivide every patch fully instead of adaptively
+  --samples <n>         Edge supersampling per axis, 1-8 (default: 2)
+  -h, --help            Show this help`
+
+function numberOption(value: string | undefined, name: string, fallback: number, min: number) {
+  if (value === undefined) return fallback
+  const n = Number(value)
+  if (!Number.isFinite(n) || n < min) throw new Error(`--${name} must be a number >= ${min}`)
+  return n
+}
+
+function readCanvasSize(raw: unknown) {
+  if (typeof raw !== 'object' || raw === null) return undefined
+  const size = (raw as { canvasSize?: { width?: unknown; height?: unknown } }).canvasSize
+  if (typeof size?.width !== 'number' || typeof size?.height !== 'number') return undefined
+  if (size.width <= 0 || size.height <= 0) return undefined
+  return { width: size.width, height: size.height }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      scale: { type: 'string' },
+      time: { type: 'string' },
+      subdivision: { type: 'string' },
+      uniform: { type: 'boolean' },
+      samples: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+  if (positionals.length !== 1) throw new Error(`Expected one preset file\n\n${USAGE}`)
+
+  const input = positionals[0]
+  const out = values.out ?? `${basename(input, extname(input))}.png`
+  const scale = numberOption(values.scale, 'scale', 1, 0.1)
+  const time = numberOption(values.time, 'time', 0, 0)
+  const subdivision = Math.round(numberOption(values.subdivision, 'subdivision', 20, 1))
+  const samples = Math.round(numberOption(values.samples, 'samples', 2, 1))
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(await readFile(input, 'utf8'))
+  } catch (err) {
+    if (err instanceof SyntaxError) throw new Error(`${input}: not a valid project file (invalid JSON)`)
+    throw err
+  }
+  const { document, warnings } = readProject(raw)
+  for (const warning of warnings) console.warn(`warning: ${warning}`)
+
+  const result = renderDocumentCpu(document, {
+    scale,
+    time,
+    subdivision,
+    adaptive: !values.uniform,
+    samples,
+    canvasSize: readCanvasSize(raw),
+  })
+  for (const effect of result.skipped) console.warn(`warning: ${effect} is not supported by the CPU renderer and was skipped`)
+
+  await writeFile(out, await encodePng(result.data, result.width, result.height))
+  console.log(`${out} (${result.width}×${result.height})`)
+}
+
+main().catch(err => {
+  console.error(`mesh-render: ${err instanceof Error ? err.message : String(err)}`)
+  process.exitCode = 1
+})
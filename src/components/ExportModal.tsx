@@ -1,14 +1,25 @@
 import { useEffect, useState } from 'react'
-import { getMeshExportApi } from '../mesh/exportApi'
+import { getMeshExportApi, isAnimatedImageFormat, type ExportVideoFormat } from '../mesh/exportApi'
+import { downloadBlob } from '../mesh/files'
+import { hasKeyframes } from '../mesh/keyframes'
+import { buildProjectFile } from '../mesh/project'
 import { store } from '../mesh/store'
 
 type ExportTab = 'component' | 'image' | 'video'
 type ComponentTarget = 'react' | 'html' | 'reactNative' | 'swiftui'
 type ImageFormat = 'png' | 'jpeg' | 'svg'
-type VideoFormat = 'webm' | 'mp4'
 type ExportScale = 1 | 2 | 3
 type ExportFps = 24 | 30 | 60
 
+const RUNTIME_FILE_NAME = 'mesh-runtime.js'
+
+const COMPONENT_FILE_NAMES: Record<ComponentTarget, string> = {
+  react: 'MeshGradient.tsx',
+  html: 'index.html',
+  reactNative: 'meshGradientPreset.ts',
+  swiftui: 'MeshGradientPreset.swift',
+}
+
 interface Props {
   open: boolean
   onClose: () => void
@@ -70,32 +81,9 @@ const actionBtn = (busy: boolean): React.CSSProperties => ({
   cursor: busy ? 'not-allowed' : 'pointer',
 })
 
-function downloadBlob(blob: Blob, filename: string) {
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = filename
-  a.click()
-  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
-}
-
 function buildExportPayload() {
   const s = store.state
-  return {
-    version: 1,
-    exportedAt: new Date().toISOString(),
-    canvasSize: s.canvasSize,
-    artboardSize: s.artboardSize,
-    grid: s.grid,
-    animation: s.animation,
-    canvasBackground: s.canvasBackground,
-    effect: s.effect,
-    noise: s.noise,
-    glass: s.glass,
-    hexagon: s.hexagon,
-    squares: s.squares,
-    pixelation: s.pixelation,
-  }
+  return buildProjectFile(s, s.canvasSize)
 }
 
 function buildComponentCode(target: ComponentTarget) {
@@ -162,18 +150,25 @@ export default function ExportModal({ open, onClose }: Props) {
   const [componentTarget, setComponentTarget] = useState<ComponentTarget>('react')
   const [imageFormat, setImageFormat] = useState<ImageFormat>('png')
   const [imageScale, setImageScale] = useState<ExportScale>(1)
-  const [videoFormat, setVideoFormat] = useState<VideoFormat>('webm')
+  const [videoFormat, setVideoFormat] = useState<ExportVideoFormat>('webm')
   const [videoScale, setVideoScale] = useState<ExportScale>(1)
   const [videoFps, setVideoFps] = useState<ExportFps>(30)
   const [videoDuration, setVideoDuration] = useState('5')
+  const [videoLoops, setVideoLoops] = useState('0')
   const [busy, setBusy] = useState(false)
   const [notice, setNotice] = useState('')
+  const [videoProgress, setVideoProgress] = useState<{ done: number; total: number } | null>(null)
 
   useEffect(() => {
     const unsub = store.subscribe(() => setTick(n => n + 1))
     return () => unsub()
   }, [])
 
+  // A keyframed document records one pass of its timeline by default.
+  useEffect(() => {
+    if (open && hasKeyframes(store.state.grid)) setVideoDuration(String(store.state.timeline.duration))
+  }, [open])
+
   useEffect(() => {
     if (!open) return
     const onKey = (e: KeyboardEvent) => {
@@ -184,6 +179,7 @@ export default function ExportModal({ open, onClose }: Props) {
   }, [onClose, open])
 
   const codeText = buildComponentCode(componentTarget)
+  const usesRuntime = componentTarget === 'react' || componentTarget === 'html'
   const baseSize = store.state.artboardSize
   const imageW = Math.max(1, Math.round(baseSize.width * imageScale))
   const imageH = Math.max(1, Math.round(baseSize.height * imageScale))
@@ -194,7 +190,7 @@ export default function ExportModal({ open, onClose }: Props) {
 
   return (
     <div style={backdropStyle} onClick={onClose}>
-      <div style={panelStyle} onClick={e => e.stopPropagation()}>
+      <div role="dialog" aria-modal="true" style={panelStyle} onClick={e => e.stopPropagation()}>
         <div style={{ padding: '18px 20px 10px 20px', borderBottom: '1px solid rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center' }}>
           <div style={{ fontSize: 36, color: 'rgba(255,255,255,0.95)', lineHeight: 0.8 }}>Export</div>
           <button onClick={onClose} style={{ marginLeft: 'auto', background: 'transparent', border: 'none', color: 'rgba(255,255,255,0.6)', fontSize: 34, cursor: 'pointer', lineHeight: 0.8 }}>×</button>
@@ -229,7 +225,38 @@ export default function ExportModal({ open, onClose }: Props) {
               </div>
 
               <div style={{ border: '1px solid rgba(255,255,255,0.14)', borderRadius: 12, background: 'rgba(0,0,0,0.35)', overflow: 'hidden' }}>
-                <div style={{ display: 'flex', justifyContent: 'flex-end', padding: 10, borderBottom: '1px solid rgba(255,255,255,0.08)' }}>
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, padding: 10, borderBottom: '1px solid rgba(255,255,255,0.08)' }}>
+                  {usesRuntime && (
+                    <>
+                      <button
+                        style={{ ...tabBtn(false), padding: '6px 12px' }}
+                        onClick={() => {
+                          downloadBlob(new Blob([codeText], { type: 'text/plain;charset=utf-8' }), COMPONENT_FILE_NAMES[componentTarget])
+                          setNotice(`${COMPONENT_FILE_NAMES[componentTarget]} downloaded`)
+                        }}
+                      >
+                        Download code
+                      </button>
+                      <button
+                        disabled={busy}
+                        style={{ ...tabBtn(false), padding: '6px 12px' }}
+                        onClick={async () => {
+                          try {
+                            setBusy(true)
+                            const { default: source } = await import('virtual:mesh-runtime-bundle')
+                            downloadBlob(new Blob([source], { type: 'text/javascript;charset=utf-8' }), RUNTIME_FILE_NAME)
+                            setNotice(`${RUNTIME_FILE_NAME} downloaded — place it next to ${COMPONENT_FILE_NAMES[componentTarget]}`)
+                          } catch (err) {
+                            setNotice(err instanceof Error ? err.message : 'Runtime download failed')
+                          } finally {
+                            setBusy(false)
+                          }
+                        }}
+                      >
+                        {RUNTIME_FILE_NAME}
+                      </button>
+                    </>
+                  )}
                   <button
                     style={{ ...tabBtn(false), padding: '6px 12px' }}
                     onClick={async () => {
@@ -260,7 +287,7 @@ export default function ExportModal({ open, onClose }: Props) {
                 </button>
                 <button style={cardBtn(imageFormat === 'svg')} onClick={() => setImageFormat('svg')}>
                   <div style={{ fontSize: 22, marginBottom: 6 }}>SVG</div>
-                  <div style={{ fontSize: 13, color: 'rgba(255,255,255,0.55)' }}>Raster wrapped in SVG</div>
+                  <div style={{ fontSize: 13, color: 'rgba(255,255,255,0.55)' }}>Vector mesh and patterns</div>
                 </button>
               </div>
 
@@ -285,7 +312,9 @@ export default function ExportModal({ open, onClose }: Props) {
                     if (!api) throw new Error('Export API hazir degil')
                     const res = await api.captureImage({ format: imageFormat, scale: imageScale })
                     downloadBlob(res.blob, `mesh-gradient-${res.width}x${res.height}.${res.ext}`)
-                    setNotice(`Image exported (${res.ext.toUpperCase()})`)
+                    setNotice(res.omitted?.length
+                      ? `Image exported (${res.ext.toUpperCase()}) — not included: ${res.omitted.join(', ')}`
+                      : `Image exported (${res.ext.toUpperCase()})`)
                   } catch (err) {
                     setNotice(err instanceof Error ? err.message : 'Export failed')
                   } finally {
@@ -311,6 +340,29 @@ export default function ExportModal({ open, onClose }: Props) {
                 </button>
               </div>
 
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 12, marginBottom: 12 }}>
+                <button style={cardBtn(videoFormat === 'gif')} onClick={() => setVideoFormat('gif')}>
+                  <div style={{ fontSize: 22, marginBottom: 6 }}>GIF</div>
+                  <div style={{ fontSize: 13, color: 'rgba(255,255,255,0.55)' }}>Email / docs, max 50 fps</div>
+                </button>
+                <button style={cardBtn(videoFormat === 'apng')} onClick={() => setVideoFormat('apng')}>
+                  <div style={{ fontSize: 22, marginBottom: 6 }}>APNG</div>
+                  <div style={{ fontSize: 13, color: 'rgba(255,255,255,0.55)' }}>Lossless, full colour</div>
+                </button>
+                <button style={cardBtn(videoFormat === 'webp')} onClick={() => setVideoFormat('webp')}>
+                  <div style={{ fontSize: 22, marginBottom: 6 }}>WebP</div>
+                  <div style={{ fontSize: 13, color: 'rgba(255,255,255,0.55)' }}>Animated, lossless</div>
+                </button>
+              </div>
+
+              <button
+                style={{ ...cardBtn(videoFormat === 'png-sequence'), width: '100%', marginBottom: 12 }}
+                onClick={() => setVideoFormat('png-sequence')}
+              >
+                <div style={{ fontSize: 22, marginBottom: 6 }}>Image sequence</div>
+                <div style={{ fontSize: 13, color: 'rgba(255,255,255,0.55)' }}>Numbered PNG frames + JSON in a ZIP (After Effects, Nuke)</div>
+              </button>
+
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 10, marginBottom: 12 }}>
                 {[1, 2, 3].map(s => (
                   <button key={s} style={tabBtn(videoScale === s)} onClick={() => setVideoScale(s as ExportScale)}>{s}x</button>
@@ -340,8 +392,19 @@ export default function ExportModal({ open, onClose }: Props) {
                 </label>
               </div>
 
+              {isAnimatedImageFormat(videoFormat) && (
+                <label style={{ display: 'flex', flexDirection: 'column', gap: 6, color: 'rgba(255,255,255,0.72)', marginBottom: 12 }}>
+                  Loop count (0 = forever)
+                  <input
+                    value={videoLoops}
+                    onChange={e => setVideoLoops(e.target.value)}
+                    style={{ borderRadius: 10, border: '1px solid rgba(255,255,255,0.16)', background: 'rgba(255,255,255,0.04)', color: '#fff', padding: '10px 12px', fontSize: 18 }}
+                  />
+                </label>
+              )}
+
               <div style={{ fontSize: 14, color: 'rgba(255,255,255,0.62)', marginBottom: 12 }}>
-                {videoW} × {videoH}px • {videoFps} fps
+                {videoW} × {videoH}px • {videoFormat === 'gif' ? Math.min(videoFps, 50) : videoFps} fps
               </div>
 
               <button
@@ -359,21 +422,28 @@ export default function ExportModal({ open, onClose }: Props) {
                       durationSec: duration,
                       fps: videoFps,
                       scale: videoScale,
+                      loopCount: Math.max(0, Math.floor(Number(videoLoops) || 0)),
+                      onProgress: (done, total) => setVideoProgress({ done, total }),
                     })
-                    downloadBlob(res.blob, `mesh-gradient-${res.width}x${res.height}-${videoFps}fps.${res.ext}`)
+                    downloadBlob(res.blob, `mesh-gradient-${res.width}x${res.height}-${res.fps}fps.${res.ext}`)
                     if (res.usedFallback) {
-                      setNotice('MP4 desteklenmedi, WebM fallback ile indirildi')
+                      setNotice(`${videoFormat.toUpperCase()} desteklenmedi, ${res.ext.toUpperCase()} fallback ile indirildi`)
                     } else {
-                      setNotice(`Video exported (${res.ext.toUpperCase()})`)
+                      setNotice(videoFormat === 'png-sequence'
+                        ? `Image sequence exported (${Math.round(duration * res.fps)} frames)`
+                        : `Video exported (${videoFormat.toUpperCase()})`)
                     }
                   } catch (err) {
                     setNotice(err instanceof Error ? err.message : 'Video export failed')
                   } finally {
                     setBusy(false)
+                    setVideoProgress(null)
                   }
                 }}
               >
-                {busy ? 'Recording...' : 'Record & Download'}
+                {busy
+                  ? videoProgress ? `Rendering frame ${videoProgress.done} / ${videoProgress.total}` : 'Recording...'
+                  : 'Render & Download'}
               </button>
             </>
           )}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react'
+import { store } from '../mesh/store'
+
+const shell: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  width: 220,
+  borderRadius: 8,
+  background: 'rgba(16,16,20,0.78)',
+  border: '1px solid rgba(255,255,255,0.12)',
+  backdropFilter: 'blur(8px)',
+  overflow: 'hidden',
+}
+
+const headerBtn: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: 8,
+  padding: '7px 10px',
+  background: 'transparent',
+  border: 'none',
+  color: 'rgba(255,255,255,0.8)',
+  fontSize: 11,
+  letterSpacing: '0.02em',
+  cursor: 'pointer',
+}
+
+const entryBtn = (active: boolean, undone: boolean): React.CSSProperties => ({
+  display: 'block',
+  width: '100%',
+  textAlign: 'left',
+  padding: '5px 10px',
+  background: active ? 'rgba(108,99,255,0.3)' : 'transparent',
+  border: 'none',
+  borderLeft: `2px solid ${active ? 'rgba(180,175,255,0.9)' : 'transparent'}`,
+  color: active ? '#c5c2ff' : undone ? 'rgba(255,255,255,0.3)' : 'rgba(255,255,255,0.65)',
+  fontSize: 11,
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+})
+
+export default function HistoryPanel() {
+  const [, setTick] = useState(0)
+  const [open, setOpen] = useState(false)
+  const activeRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    const unsub = store.subscribe(() => setTick(n => n + 1))
+    return () => unsub()
+  }, [])
+
+  const { entries, index } = store.getHistory()
+
+  useEffect(() => {
+    if (open) activeRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [open, index, entries.length])
+
+  return (
+    <div style={shell}>
+      <button style={headerBtn} onClick={() => setOpen(v => !v)} title="Document history">
+        <span>History</span>
+        <span style={{ color: 'rgba(255,255,255,0.4)', fontVariantNumeric: 'tabular-nums' }}>
+          {index + 1}/{entries.length} {open ? '▾' : '▸'}
+        </span>
+      </button>
+      {open && (
+        <div
+          data-scrollbar="panel"
+          style={{ maxHeight: 260, overflowY: 'auto', borderTop: '1px solid rgba(255,255,255,0.08)', padding: '4px 0' }}
+        >
+          <button
+            ref={index === -1 ? activeRef : undefined}
+            style={entryBtn(index === -1, false)}
+            disabled={entries.length === 0}
+            onClick={() => store.jumpToHistory(-1)}
+          >
+            Initial state
+          </button>
+          {entries.map((entry, i) => (
+            <button
+              key={entry.id}
+              ref={i === index ? activeRef : undefined}
+              style={entryBtn(i === index, i > index)}
+              onClick={() => store.jumpToHistory(i)}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { store } from '../mesh/store'
+
+interface Props {
+  min: number
+  max: number
+  step: number
+  value: number
+  onChange: (value: number) => void
+  width?: number | string
+}
+
+// Range input for a store setting whose changes merge into one history
+// entry while it is dragged. Releasing it (pointer or arrow key) ends the
+// gesture, so the next drag gets an entry of its own.
+export default function HistorySlider({ min, max, step, value, onChange, width = '100%' }: Props) {
+  return (
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      onPointerUp={() => store.endGesture()}
+      onKeyUp={() => store.endGesture()}
+      style={{ width, accentColor: '#6c63ff', cursor: 'pointer' }}
+    />
+  )
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react'
+import { pickFile } from '../mesh/files'
+import {
+  fitGridToImage,
+  MAX_FIT_GRID_SIZE,
+  MIN_FIT_GRID_SIZE,
+  readFitImage,
+  type FitImage,
+} from '../mesh/imageFit'
+import { store } from '../mesh/store'
+import NumberField from './NumberField'
+
+interface Props {
+  open: boolean
+  // Image dropped onto the editor; null lets the user pick one.
+  file: File | null
+  onClose: () => void
+}
+
+const backdropStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  background: 'rgba(8, 8, 14, 0.68)',
+  backdropFilter: 'blur(3px)',
+  zIndex: 1000,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  padding: 24,
+}
+
+const panelStyle: React.CSSProperties = {
+  width: 'min(640px, calc(100vw - 48px))',
+  maxHeight: 'calc(100vh - 48px)',
+  background: '#0f1020',
+  border: '1px solid rgba(120,115,255,0.35)',
+  borderRadius: 16,
+  boxShadow: '0 30px 80px rgba(0,0,0,0.55)',
+  display: 'flex',
+  flexDirection: 'column',
+  overflow: 'hidden',
+}
+
+const cardBtn = (active: boolean): React.CSSProperties => ({
+  flex: 1,
+  textAlign: 'left',
+  padding: 12,
+  borderRadius: 12,
+  border: `1px solid ${active ? 'rgba(110,102,255,0.9)' : 'rgba(255,255,255,0.12)'}`,
+  background: active ? 'rgba(110,102,255,0.15)' : 'rgba(255,255,255,0.03)',
+  color: 'rgba(255,255,255,0.88)',
+  cursor: 'pointer',
+})
+
+const actionBtn = (busy: boolean): React.CSSProperties => ({
+  width: '100%',
+  padding: '12px 16px',
+  borderRadius: 12,
+  border: '1px solid rgba(132,125,255,0.9)',
+  background: busy ? 'rgba(132,125,255,0.45)' : '#7f74ff',
+  color: '#fff',
+  fontSize: 16,
+  fontWeight: 700,
+  cursor: busy ? 'not-allowed' : 'pointer',
+})
+
+const clampGridSize = (n: number) => Math.round(Math.max(MIN_FIT_GRID_SIZE, Math.min(MAX_FIT_GRID_SIZE, n)))
+
+interface LoadedImage {
+  name: string
+  url: string
+  image: FitImage
+  width: number
+  height: number
+}
+
+// Turns a photo into an editable mesh: colors are sampled from the image and,
+// optionally, points and handles are moved to follow it.
+export default function ImageFitModal({ open, file, onClose }: Props) {
+  const [source, setSource] = useState<File | null>(null)
+  const [loaded, setLoaded] = useState<LoadedImage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [rows, setRows] = useState(4)
+  const [cols, setCols] = useState(4)
+  const [optimize, setOptimize] = useState(true)
+  const [matchArtboard, setMatchArtboard] = useState(true)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const { grid } = store.state
+    setRows(clampGridSize(grid.rows))
+    setCols(clampGridSize(grid.cols))
+    setSource(file)
+    setError(null)
+  }, [file, open])
+
+  useEffect(() => {
+    if (!source) {
+      setLoaded(null)
+      return
+    }
+    let cancelled = false
+    const url = URL.createObjectURL(source)
+    readFitImage(source).then(
+      ({ image, width, height }) => {
+        if (!cancelled) setLoaded({ name: source.name, url, image, width, height })
+      },
+      () => {
+        if (!cancelled) setError(`Could not read ${source.name} as an image`)
+      },
+    )
+    return () => {
+      cancelled = true
+      URL.revokeObjectURL(url)
+    }
+  }, [source])
+
+  const chooseImage = async () => {
+    const picked = await pickFile('image/*')
+    if (!picked) return
+    setError(null)
+    setSource(picked)
+  }
+
+  const generate = async () => {
+    if (!loaded || progress) return
+    setProgress({ done: 0, total: 1 })
+    setError(null)
+    try {
+      const grid = await fitGridToImage(loaded.image, {
+        rows,
+        cols,
+        optimize,
+        interpolation: store.state.colorInterpolation,
+        onProgress: (done, total) => setProgress({ done, total }),
+      })
+      store.setGridFromImage(grid, matchArtboard ? fitArtboard(loaded.width, loaded.height) : null)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not build a mesh from the image')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  if (!open) return null
+
+  const busy = progress !== null
+
+  return (
+    <div style={backdropStyle} onClick={busy ? undefined : onClose}>
+      <div role="dialog" aria-modal="true" style={panelStyle} onClick={e => e.stopPropagation()}>
+        <div style={{ padding: '18px 20px 14px 20px', borderBottom: '1px solid rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center' }}>
+          <div style={{ fontSize: 22, color: 'rgba(255,255,255,0.95)' }}>Mesh from Image</div>
+          <button onClick={onClose} disabled={busy} style={{ marginLeft: 'auto', background: 'transparent', border: 'none', color: 'rgba(255,255,255,0.6)', fontSize: 28, cursor: 'pointer', lineHeight: 0.8 }}>×</button>
+        </div>
+
+        <div style={{ padding: 20, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 16 }}>
+          <button
+            onClick={() => void chooseImage()}
+            disabled={busy}
+            style={{
+              height: 220,
+              borderRadius: 12,
+              border: '1px dashed rgba(255,255,255,0.2)',
+              background: loaded ? `center / contain no-repeat url(${loaded.url}) rgba(0,0,0,0.3)` : 'rgba(255,255,255,0.03)',
+              color: 'rgba(255,255,255,0.55)',
+              fontSize: 13,
+              cursor: 'pointer',
+            }}
+            title="Choose another image"
+          >
+            {!loaded && (error ?? (source ? 'Loading…' : 'Choose an image, or drop one onto the editor'))}
+          </button>
+          {loaded && (
+            <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.45)', marginTop: -8 }}>
+              {loaded.name} · {loaded.width}×{loaded.height}px
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: 10 }}>
+            <NumberField
+              label="Rows"
+              value={rows}
+              unit=""
+              precision={0}
+              step={1}
+              onChange={update => setRows(clampGridSize(update(rows)))}
+            />
+            <NumberField
+              label="Columns"
+              value={cols}
+              unit=""
+              precision={0}
+              step={1}
+              onChange={update => setCols(clampGridSize(update(cols)))}
+            />
+          </div>
+
+          <div style={{ display: 'flex', gap: 10 }}>
+            <button style={cardBtn(optimize)} onClick={() => setOptimize(!optimize)} disabled={busy}>
+              <div style={{ fontSize: 13, fontWeight: 600 }}>Optimize shape</div>
+              <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.5)', marginTop: 4 }}>
+                Move points and handles to follow the image more closely. Slower.
+              </div>
+            </button>
+            <button style={cardBtn(matchArtboard)} onClick={() => setMatchArtboard(!matchArtboard)} disabled={busy}>
+              <div style={{ fontSize: 13, fontWeight: 600 }}>Match artboard</div>
+              <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.5)', marginTop: 4 }}>
+                Resize the artboard to the image. Otherwise the image is stretched to it.
+              </div>
+            </button>
+          </div>
+
+          <button style={actionBtn(busy || !loaded)} disabled={busy || !loaded} onClick={() => void generate()}>
+            {progress
+              ? progress.total > 1 ? `Optimizing… ${progress.done}/${progress.total}` : 'Sampling…'
+              : `Generate ${rows}×${cols} mesh`}
+          </button>
+          {loaded && error && (
+            <div style={{ fontSize: 13, color: 'rgba(210,207,255,0.9)', marginTop: -8 }}>
+              {error}
+            </div>
+          )}
+          <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginTop: -8 }}>
+            Replaces the current mesh. Undo restores it.
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// The image's size, scaled into the artboard's 128–8192px range.
+function fitArtboard(width: number, height: number) {
+  const scale = Math.min(8192 / Math.max(width, height), Math.max(1, 128 / Math.min(width, height)))
+  return { width: width * scale, height: height * scale }
+}
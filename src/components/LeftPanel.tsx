@@ -1,7 +1,13 @@
 import { useEffect, useState } from 'react'
 import { store } from '../mesh/store'
-import type { Color } from '../mesh/types'
+import { MAX_COLOR_TANGENT } from '../mesh/math'
+import type { Color, ColorBlendMode, ColorInterpolationSpace, HandleType, HueInterpolation, MeshPoint, Vec2 } from '../mesh/types'
 import ColorPicker from './ColorPicker'
+import HistorySlider from './HistorySlider'
+import ImageFitModal from './ImageFitModal'
+import PaletteModal from './PaletteModal'
+import RandomizeModal from './RandomizeModal'
+import NumberField from './NumberField'
 
 const panel: React.CSSProperties = {
   width: 268,
@@ -58,6 +64,13 @@ const modeBtn = (active: boolean): React.CSSProperties => ({
   transition: 'all 0.1s',
 })
 
+// Patch to split when inserting from the panel: the one after the selected
+// point (or before it on the last row/column), the middle one otherwise.
+function insertPatch(index: number | undefined, count: number) {
+  if (index === undefined) return Math.floor((count - 1) / 2)
+  return Math.min(index, count - 2)
+}
+
 const actionBtn: React.CSSProperties = {
   flex: 1,
   padding: '6px 0',
@@ -76,11 +89,87 @@ const dangerBtn: React.CSSProperties = {
   color: 'rgba(255,140,120,0.8)',
 }
 
+const sectionHeader: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  marginBottom: 10,
+}
+
+const toggleBtn = (active: boolean): React.CSSProperties => ({
+  ...modeBtn(active),
+  flex: 'none',
+  padding: '2px 8px',
+})
+
 const helperText: React.CSSProperties = {
   color: 'rgba(255,255,255,0.4)',
   fontSize: 11,
 }
 
+const disabledBtn: React.CSSProperties = {
+  opacity: 0.35,
+  cursor: 'default',
+}
+
+const HANDLE_TYPE_OPTIONS: { type: HandleType; label: string; hint: string }[] = [
+  { type: 'mirrorAngle', label: 'Mirror angle', hint: 'Opposite handles stay aligned; each keeps its length.' },
+  { type: 'mirrorLength', label: 'Mirror length', hint: 'The opposite handle mirrors direction and length.' },
+  { type: 'free', label: 'Free', hint: 'Each handle moves on its own.' },
+  { type: 'auto', label: 'Auto', hint: 'Smooth handles follow the neighbouring points. Editing one switches to mirror angle.' },
+]
+
+type FieldUnit = 'px' | '%'
+type HandleSide = 'left' | 'right' | 'up' | 'down'
+
+const HANDLE_SIDES: { side: HandleSide; label: string }[] = [
+  { side: 'left', label: 'Left' },
+  { side: 'right', label: 'Right' },
+  { side: 'up', label: 'Up' },
+  { side: 'down', label: 'Down' },
+]
+
+// Handle vector in artboard pixels as an angle (degrees, counter-clockwise
+// from +x, as seen on screen) and a length.
+function handlePolar(h: Vec2, width: number, height: number) {
+  const x = h.x * width
+  const y = h.y * height
+  return { angle: (Math.atan2(-y, x) * 180) / Math.PI, length: Math.hypot(x, y) }
+}
+
+function handleFromPolar(angle: number, length: number, width: number, height: number): Vec2 {
+  const a = (angle * Math.PI) / 180
+  return { x: (length * Math.cos(a)) / width, y: (-length * Math.sin(a)) / height }
+}
+
+const INTERPOLATION_OPTIONS: { space: ColorInterpolationSpace; label: string }[] = [
+  { space: 'srgb', label: 'sRGB' },
+  { space: 'linear', label: 'Linear' },
+  { space: 'oklab', label: 'OKLab' },
+  { space: 'oklch', label: 'OKLCH' },
+]
+
+const BLEND_MODE_OPTIONS: { mode: ColorBlendMode; label: string }[] = [
+  { mode: 'bilinear', label: 'Bilinear' },
+  { mode: 'bicubic', label: 'Smooth' },
+]
+
+const HUE_OPTIONS: { hue: HueInterpolation; label: string }[] = [
+  { hue: 'shorter', label: 'Shorter' },
+  { hue: 'longer', label: 'Longer' },
+  { hue: 'increasing', label: 'Increasing' },
+  { hue: 'decreasing', label: 'Decreasing' },
+]
+
+// Value shared by every point of the selection, or null when they differ.
+function shared<T>(points: MeshPoint[], read: (p: MeshPoint) => T): T | null {
+  if (points.length === 0) return null
+  const first = read(points[0])
+  return points.every(p => read(p) === first) ? first : null
+}
+
+const MIXED = 'Mixed'
+
 const c = (hex: string) => {
   const n = parseInt(hex.replace('#', ''), 16)
   return { r: ((n >> 16) & 0xff) / 255, g: ((n >> 8) & 0xff) / 255, b: (n & 0xff) / 255, a: 1 }
@@ -205,11 +294,59 @@ export default function LeftPanel() {
     return () => unsub()
   }, [])
 
+  const [imageFitOpen, setImageFitOpen] = useState(false)
+  const [imageFile, setImageFile] = useState<File | null>(null)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [randomizeOpen, setRandomizeOpen] = useState(false)
+
+  // An image dropped anywhere on the editor opens the mesh-from-image dialog.
+  useEffect(() => {
+    const imageIn = (e: DragEvent) => Array.from(e.dataTransfer?.items ?? []).some(item => item.kind === 'file' && item.type.startsWith('image/'))
+    const onDragOver = (e: DragEvent) => {
+      if (imageIn(e)) e.preventDefault()
+    }
+    const onDrop = (e: DragEvent) => {
+      const file = Array.from(e.dataTransfer?.files ?? []).find(f => f.type.startsWith('image/'))
+      if (!file || e.defaultPrevented) return
+      e.preventDefault()
+      setImageFile(file)
+      setImageFitOpen(true)
+    }
+    window.addEventListener('dragover', onDragOver)
+    window.addEventListener('drop', onDrop)
+    return () => {
+      window.removeEventListener('dragover', onDragOver)
+      window.removeEventListener('drop', onDrop)
+    }
+  }, [])
+
   const sel = store.state.selectedPoint
   const point = store.getSelectedPoint()
+  const selection = store.getSelectedPoints()
+  const multi = selection.length > 1
   const grid = store.state.grid
   const artboard = store.state.artboardSize
+  // Inspector fields show artboard pixels or percent of the artboard; polar
+  // handle lengths in % are relative to its shorter side.
+  const [unit, setUnit] = useState<FieldUnit>('px')
+  const [handleFields, setHandleFields] = useState<'vector' | 'polar'>('vector')
+  const scaleX = unit === 'px' ? artboard.width : 100
+  const scaleY = unit === 'px' ? artboard.height : 100
+  const lengthScale = unit === 'px' ? 1 : 100 / Math.min(artboard.width, artboard.height)
+  const precision = unit === 'px' ? 1 : 2
+  const step = unit === 'px' ? 1 : 0.1
+  const round = (v: number) => Number(v.toFixed(precision))
+  const sharedX = shared(selection, p => round(p.position.x * scaleX))
+  const sharedY = shared(selection, p => round(p.position.y * scaleY))
+  const sharedHex = shared(selection, p => toHex(p.color))
+  const sharedOpacity = shared(selection, p => Math.round(p.color.a * 100))
+  const sharedColorTangent = shared(selection, p => Math.round(p.colorTangent * 100))
+  const sharedHandleType = shared(selection, p => p.handles.type)
+  // Only interior rows/columns can be removed; the outer ones bound the mesh.
+  const canDeleteRow = !!sel && sel.row > 0 && sel.row < grid.rows - 1
+  const canDeleteCol = !!sel && sel.col > 0 && sel.col < grid.cols - 1
   const canvasBackground = store.state.canvasBackground
+  const colorInterpolation = store.state.colorInterpolation
   const [customW, setCustomW] = useState(String(artboard.width))
   const [customH, setCustomH] = useState(String(artboard.height))
 
@@ -221,54 +358,254 @@ export default function LeftPanel() {
   return (
     <div style={panel} data-scrollbar="panel">
       <div style={section}>
-        <span style={sectionLabel}>Position</span>
+        <div style={sectionHeader}>
+          <span style={{ ...sectionLabel, marginBottom: 0 }}>Position</span>
+          <div style={{ display: 'flex', gap: 4 }}>
+            {(['px', '%'] as const).map(u => (
+              <button key={u} style={toggleBtn(unit === u)} onClick={() => setUnit(u)}>
+                {u}
+              </button>
+            ))}
+          </div>
+        </div>
         {sel && point ? (
           <div style={row}>
-            <div style={{ flex: 1, minWidth: 0 }}>
-              <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.28)', marginBottom: 3 }}>X</div>
-              <input style={inputStyle} readOnly value={(point.position.x * grid.width).toFixed(1)} />
-            </div>
-            <div style={{ flex: 1, minWidth: 0 }}>
-              <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.28)', marginBottom: 3 }}>Y</div>
-              <input style={inputStyle} readOnly value={(point.position.y * grid.height).toFixed(1)} />
-            </div>
+            <NumberField
+              label="X"
+              value={sharedX}
+              unit={unit}
+              precision={precision}
+              step={step}
+              onChange={update => store.setSelectionPosition(p => ({ x: update(p.x * scaleX) / scaleX, y: p.y }))}
+            />
+            <NumberField
+              label="Y"
+              value={sharedY}
+              unit={unit}
+              precision={precision}
+              step={step}
+              onChange={update => store.setSelectionPosition(p => ({ x: p.x, y: update(p.y * scaleY) / scaleY }))}
+            />
           </div>
         ) : (
           <div style={helperText}>Select a mesh point to inspect position.</div>
         )}
       </div>
 
+      <div style={section}>
+        <span style={sectionLabel}>Selection</span>
+        <div style={row}>
+          <button
+            style={{ ...actionBtn, ...(sel ? null : disabledBtn) }}
+            disabled={!sel}
+            onClick={() => sel && store.selectRow(sel.row)}
+          >
+            Row
+          </button>
+          <button
+            style={{ ...actionBtn, ...(sel ? null : disabledBtn) }}
+            disabled={!sel}
+            onClick={() => sel && store.selectColumn(sel.col)}
+          >
+            Column
+          </button>
+          <button style={actionBtn} onClick={() => store.selectAll()}>
+            All
+          </button>
+        </div>
+        <div style={{ ...helperText, marginTop: 8, lineHeight: 1.5 }}>
+          {selection.length === 0
+            ? 'Drag on the canvas to select several points; Shift/Cmd+click adds or removes one.'
+            : `${selection.length} point${selection.length === 1 ? '' : 's'} selected`}
+        </div>
+      </div>
+
       <div style={section}>
         <span style={sectionLabel}>Color</span>
         {sel && point ? (
           <>
+            {multi && sharedHex === null && (
+              <div style={{ ...helperText, marginBottom: 8 }}>
+                {MIXED} — picking a color applies it to all {selection.length} points.
+              </div>
+            )}
             <ColorPicker
               color={point.color}
-              onChange={color => store.setPointColor(sel.row, sel.col, color)}
+              onChange={color => store.setSelectionColor(color)}
             />
             <div style={{ marginTop: 10 }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: 'rgba(255,255,255,0.55)', marginBottom: 6 }}>
                 <span>Point Opacity</span>
-                <span>{Math.round(point.color.a * 100)}%</span>
+                <span>{sharedOpacity === null ? MIXED : `${sharedOpacity}%`}</span>
               </div>
-              <input
-                type="range"
+              <HistorySlider
                 min={0}
                 max={1}
                 step={0.01}
                 value={point.color.a}
-                onChange={e => store.setPointOpacity(sel.row, sel.col, Number(e.target.value))}
-                onPointerUp={() => store.commitSnapshot()}
-                onKeyUp={() => store.commitSnapshot()}
-                style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                onChange={value => store.setSelectionOpacity(value)}
               />
             </div>
+            {colorInterpolation.mode === 'bicubic' && (
+              <div style={{ marginTop: 10 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: 'rgba(255,255,255,0.55)', marginBottom: 6 }}>
+                  <span>Color Tangent</span>
+                  <span>{sharedColorTangent === null ? MIXED : `${sharedColorTangent}%`}</span>
+                </div>
+                <HistorySlider
+                  min={0}
+                  max={MAX_COLOR_TANGENT}
+                  step={0.01}
+                  value={point.colorTangent}
+                  onChange={value => store.setSelectionColorTangent(value)}
+                />
+              </div>
+            )}
           </>
         ) : (
           <div style={helperText}>Select a mesh point to edit color and opacity.</div>
         )}
       </div>
 
+      <div style={section}>
+        <span style={sectionLabel}>Handles</span>
+        {sel && point ? (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6 }}>
+              {HANDLE_TYPE_OPTIONS.map(option => (
+                <button
+                  key={option.type}
+                  style={modeBtn(sharedHandleType === option.type)}
+                  onClick={() => store.setSelectionHandleType(option.type)}
+                  title={option.hint}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div style={{ ...helperText, marginTop: 8 }}>
+              {sharedHandleType === null
+                ? MIXED
+                : HANDLE_TYPE_OPTIONS.find(option => option.type === sharedHandleType)?.hint}
+            </div>
+            <div style={{ ...sectionHeader, marginTop: 12 }}>
+              <span style={helperText}>
+                {multi ? 'Active point' : handleFields === 'vector' ? 'Vectors' : 'Angle & length'} ({unit})
+              </span>
+              <div style={{ display: 'flex', gap: 4 }}>
+                <button style={toggleBtn(handleFields === 'vector')} onClick={() => setHandleFields('vector')}>
+                  X / Y
+                </button>
+                <button style={toggleBtn(handleFields === 'polar')} onClick={() => setHandleFields('polar')}>
+                  Angle
+                </button>
+              </div>
+            </div>
+            {HANDLE_SIDES.map(({ side, label }) => {
+              const h = point.handles[side]
+              const { angle, length } = handlePolar(h, artboard.width, artboard.height)
+              const setVector = (v: Vec2) => store.setHandle(sel.row, sel.col, side, v)
+              return (
+                <div key={side} style={{ ...row, marginTop: 6 }}>
+                  {handleFields === 'vector' ? (
+                    <>
+                      <NumberField
+                        label={`${label} X`}
+                        value={round(h.x * scaleX)}
+                        unit={unit}
+                        precision={precision}
+                        step={step}
+                        onChange={update => setVector({ x: update(h.x * scaleX) / scaleX, y: h.y })}
+                      />
+                      <NumberField
+                        label={`${label} Y`}
+                        value={round(h.y * scaleY)}
+                        unit={unit}
+                        precision={precision}
+                        step={step}
+                        onChange={update => setVector({ x: h.x, y: update(h.y * scaleY) / scaleY })}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <NumberField
+                        label={`${label} angle`}
+                        value={Number(angle.toFixed(1))}
+                        unit="°"
+                        precision={1}
+                        step={1}
+                        onChange={update => setVector(handleFromPolar(update(angle), length, artboard.width, artboard.height))}
+                      />
+                      <NumberField
+                        label={`${label} length`}
+                        value={round(length * lengthScale)}
+                        unit={unit}
+                        precision={precision}
+                        step={step}
+                        onChange={update => setVector(handleFromPolar(
+                          angle,
+                          Math.max(0, update(length * lengthScale) / lengthScale),
+                          artboard.width,
+                          artboard.height,
+                        ))}
+                      />
+                    </>
+                  )}
+                </div>
+              )
+            })}
+          </>
+        ) : (
+          <div style={helperText}>Select a mesh point to change how its handles move.</div>
+        )}
+      </div>
+
+      <div style={section}>
+        <span style={sectionLabel}>Color Blending</span>
+        <div style={{ ...row, marginBottom: 8 }}>
+          {BLEND_MODE_OPTIONS.map(option => (
+            <button
+              key={option.mode}
+              style={modeBtn(colorInterpolation.mode === option.mode)}
+              onClick={() => store.setColorBlendMode(option.mode)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div style={row}>
+          {INTERPOLATION_OPTIONS.map(option => (
+            <button
+              key={option.space}
+              style={modeBtn(colorInterpolation.space === option.space)}
+              onClick={() => store.setColorInterpolationSpace(option.space)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {colorInterpolation.space === 'oklch' && (
+          <>
+            <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.55)', margin: '10px 0 6px' }}>Hue path</div>
+            <div style={row}>
+              {HUE_OPTIONS.map(option => (
+                <button
+                  key={option.hue}
+                  style={modeBtn(colorInterpolation.hue === option.hue)}
+                  onClick={() => store.setHueInterpolation(option.hue)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+        <div style={{ ...helperText, marginTop: 8 }}>
+          Space used to blend point colors. OKLab and OKLCH avoid grey midpoints between complementary colors.
+          Smooth removes creases at points; tune it per point with Color Tangent.
+        </div>
+      </div>
+
       <div style={section}>
         <span style={sectionLabel}>Canvas Background</span>
         <div style={{ ...row, marginBottom: 10 }}>
@@ -293,14 +630,12 @@ export default function LeftPanel() {
             <span>Opacity</span>
             <span>{Math.round(canvasBackground.opacity * 100)}%</span>
           </div>
-          <input
-            type="range"
+          <HistorySlider
             min={0}
             max={1}
             step={0.01}
             value={canvasBackground.opacity}
-            onChange={e => store.setCanvasBackgroundOpacity(Number(e.target.value))}
-            style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+            onChange={value => store.setCanvasBackgroundOpacity(value)}
           />
         </div>
       </div>
@@ -400,6 +735,13 @@ export default function LeftPanel() {
             </button>
           ))}
         </div>
+        <button
+          style={{ ...actionBtn, width: '100%', padding: '7px', marginTop: 8, fontSize: 12 }}
+          onClick={() => setPaletteOpen(true)}
+          title="Color harmonies, colors from an image or a hex list"
+        >
+          Generate Palette…
+        </button>
       </div>
 
       <div style={section}>
@@ -411,6 +753,35 @@ export default function LeftPanel() {
             </button>
           ))}
         </div>
+        <div style={{ ...row, marginTop: 6 }}>
+          <button style={{ ...actionBtn, flex: 1 }} onClick={() => store.insertRow(insertPatch(sel?.row, grid.rows), 0.5)}>
+            + Row
+          </button>
+          <button style={{ ...actionBtn, flex: 1 }} onClick={() => store.insertColumn(insertPatch(sel?.col, grid.cols), 0.5)}>
+            + Column
+          </button>
+        </div>
+        <div style={{ ...row, marginTop: 6 }}>
+          <button
+            style={{ ...dangerBtn, ...(canDeleteRow ? null : disabledBtn) }}
+            disabled={!canDeleteRow}
+            title="Remove the selected point's row"
+            onClick={() => sel && store.deleteRow(sel.row)}
+          >
+            − Row
+          </button>
+          <button
+            style={{ ...dangerBtn, ...(canDeleteCol ? null : disabledBtn) }}
+            disabled={!canDeleteCol}
+            title="Remove the selected point's column"
+            onClick={() => sel && store.deleteColumn(sel.col)}
+          >
+            − Column
+          </button>
+        </div>
+        <div style={{ ...helperText, marginTop: 8, lineHeight: 1.5 }}>
+          {grid.rows}×{grid.cols} points · Alt+click the mesh to add a column, Alt+Shift+click to add a row
+        </div>
       </div>
 
       <div style={{ ...section, borderBottom: 'none', paddingTop: 10 }}>
@@ -425,9 +796,20 @@ export default function LeftPanel() {
             color: 'rgba(180,175,255,0.9)',
             fontSize: 12,
           }}
-          onClick={() => store.randomize()}
+          onClick={() => setRandomizeOpen(true)}
+          title="Seeded randomization with color bounds, harmonies and jitter"
+        >
+          ✦ Randomize…
+        </button>
+        <button
+          style={{ ...actionBtn, width: '100%', padding: '7px', marginBottom: 6, fontSize: 12 }}
+          onClick={() => {
+            setImageFile(null)
+            setImageFitOpen(true)
+          }}
+          title="Sample a mesh from a photo (or drop an image onto the editor)"
         >
-          ✦ Randomize Colors
+          Mesh from Image…
         </button>
         <button
           style={{ ...dangerBtn, width: '100%', padding: '7px', fontSize: 12 }}
@@ -436,6 +818,10 @@ export default function LeftPanel() {
           Reset Grid
         </button>
       </div>
+
+      <ImageFitModal open={imageFitOpen} file={imageFile} onClose={() => setImageFitOpen(false)} />
+      <PaletteModal open={paletteOpen} onClose={() => setPaletteOpen(false)} />
+      <RandomizeModal open={randomizeOpen} onClose={() => setRandomizeOpen(false)} />
     </div>
   )
 }
@@ -1,13 +1,40 @@
 import { useEffect, useRef, useCallback, useState } from 'react'
+import { GlassRenderer } from '../mesh/glass'
+import {
+  composeLayers,
+  createOverlayCache,
+  drawHexagonOverlay as drawHexagonLayer,
+  drawNoiseOverlay as drawNoiseLayer,
+  drawPixelationOverlay as drawPixelationLayer,
+  drawSquaresOverlay as drawSquaresLayer,
+  type OverlayCache,
+} from '../mesh/overlays'
+import { hasKeyframes, KeyframePlayer, timelineTime } from '../mesh/keyframes'
+import { findShortcut } from '../mesh/keymap'
+import { evalPatchPosition } from '../mesh/math'
+import { buildMeshSvg } from '../mesh/svg'
+import { encodeAnimatedImage, encodeImageSequence, encodeOfflineVideo, supportsOfflineVideo } from '../mesh/videoExport'
 import { MeshRenderer } from '../mesh/renderer'
-import type {
-  CaptureImageOptions,
-  CaptureImageResult,
-  RecordVideoOptions,
-  RecordVideoResult,
+import {
+  SNAP_DISTANCE,
+  snapHandleAngle,
+  snapPosition,
+  snapTargets,
+  type SnapGuide,
+  type SnapTargets,
+} from '../mesh/snapping'
+import {
+  isAnimatedImageFormat,
+  type CaptureImageOptions,
+  type CaptureImageResult,
+  type ExportAnimatedImageFormat,
+  type ExportMovieFormat,
+  type RecordVideoOptions,
+  type RecordVideoResult,
 } from '../mesh/exportApi'
 import { store } from '../mesh/store'
-import type { AnimationSettings } from '../mesh/types'
+import { locatePatch } from '../mesh/topology'
+import type { AnimationSettings, EffectType, MeshGrid, PointRef, Vec2 } from '../mesh/types'
 
 const POINT_RADIUS = 6
 const HANDLE_RADIUS = 4
@@ -16,269 +43,35 @@ const OVERLAY_PAD = 200 // allow drawing/interacting outside artboard bounds
 const VIEWPORT_RADIUS = 10
 
 interface DragState {
-  type: 'point' | 'handle'
+  type: 'point' | 'handle' | 'marquee'
   row: number
   col: number
   handle?: 'left' | 'right' | 'up' | 'down'
   lastX: number
   lastY: number
+  // Marquee only: drag origin and whether it adds to the selection.
+  startX?: number
+  startY?: number
+  additive?: boolean
+  // Point/handle drags: where the pointer started, the dragged point's
+  // position (or the handle vector) at that moment, and the snap targets
+  // (null with snapping off). Positions are recomputed from the start so
+  // snapping never accumulates drift.
+  originX?: number
+  originY?: number
+  anchor?: Vec2
+  snap?: SnapTargets | null
 }
 
-interface GlassCaptureState {
-  canvas: HTMLCanvasElement
-  ctx: CanvasRenderingContext2D | null
-}
+const MARQUEE_MIN = 3 // px — smaller drags count as a click on empty space
 
-interface GlassGLResources {
-  canvas: HTMLCanvasElement
-  gl: WebGLRenderingContext
-  program: WebGLProgram
-  texture: WebGLTexture
-  uniforms: {
-    tDiffuse: WebGLUniformLocation | null
-    resolution: WebGLUniformLocation | null
-    uShape: WebGLUniformLocation | null
-    uCells: WebGLUniformLocation | null
-    uDistortion: WebGLUniformLocation | null
-    uAngle: WebGLUniformLocation | null
-    uAberration: WebGLUniformLocation | null
-    uEdge: WebGLUniformLocation | null
-    uIOR: WebGLUniformLocation | null
-    uFresnel: WebGLUniformLocation | null
-    uFrost: WebGLUniformLocation | null
-    uBevel: WebGLUniformLocation | null
-    uCornerRadius: WebGLUniformLocation | null
-    uRingThickness: WebGLUniformLocation | null
-  }
+// Alt-hover preview of the row/column an Alt-click would insert.
+interface InsertPreview {
+  axis: 'row' | 'col'
+  index: number // patch row / patch column being split
+  t: number
 }
 
-const GLASS_VERTEX_SHADER = `
-  attribute vec2 a_pos;
-  varying vec2 v_uv;
-  void main() {
-    v_uv = a_pos * 0.5 + 0.5;
-    gl_Position = vec4(a_pos, 0.0, 1.0);
-  }
-`
-
-const GLASS_FRAGMENT_SHADER = `
-  precision highp float;
-  varying vec2 v_uv;
-  uniform sampler2D tDiffuse;
-  uniform vec2 resolution;
-  uniform int uShape;
-  uniform float uCells;
-  uniform float uDistortion;
-  uniform float uAngle;
-  uniform float uAberration;
-  uniform float uEdge;
-  uniform float uIOR;
-  uniform float uFresnel;
-  uniform float uFrost;
-  uniform float uBevel;
-  uniform float uCornerRadius;
-  uniform float uRingThickness;
-
-  #define PI 3.14159265359
-
-  vec2 rotate(vec2 v, float angle) {
-    float c = cos(angle);
-    float s = sin(angle);
-    return vec2(v.x * c - v.y * s, v.x * s + v.y * c);
-  }
-
-  float hash(vec2 p) {
-    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
-  }
-
-  vec4 patternStrips(vec2 uv, float cells) {
-    float stripPos = uv.x * cells;
-    float localX = fract(stripPos);
-    float t = (localX - 0.5) * 2.0;
-    float normalX = sin(t * PI * 0.5);
-    float normalY = 0.0;
-    float edgeDist = cos(t * PI * 0.5);
-    vec2 cellId = vec2(floor(stripPos), 0.0);
-    float variation = hash(cellId) * 0.2 + 0.9;
-    return vec4(normalX, normalY, edgeDist, variation);
-  }
-
-  vec4 patternGrid(vec2 uv, float cells, float bevelWidth, float cornerRadius) {
-    vec2 cellPos = uv * cells;
-    vec2 local = fract(cellPos) - 0.5;
-    float dist;
-    vec2 normal2D = vec2(0.0);
-    vec2 absLocal = abs(local);
-
-    if (cornerRadius > 0.001) {
-      float k = 1.0 / (cornerRadius * 2.0 + 0.01);
-      float smoothMaxVal = log(exp(k * absLocal.x) + exp(k * absLocal.y)) / k;
-      dist = 0.5 - smoothMaxVal;
-      float eps = 0.005;
-      vec2 dxLocal = absLocal + vec2(eps, 0.0);
-      vec2 dyLocal = absLocal + vec2(0.0, eps);
-      float dxSmooth = log(exp(k * dxLocal.x) + exp(k * dxLocal.y)) / k;
-      float dySmooth = log(exp(k * dyLocal.x) + exp(k * dyLocal.y)) / k;
-      vec2 grad = vec2(dxSmooth - smoothMaxVal, dySmooth - smoothMaxVal) / eps;
-      if (length(grad) > 0.01) {
-        normal2D = normalize(grad) * sign(local);
-      }
-    } else {
-      float boxD = max(absLocal.x, absLocal.y);
-      dist = 0.5 - boxD;
-      if (absLocal.x > absLocal.y) {
-        normal2D = vec2(sign(local.x), 0.0);
-      } else {
-        normal2D = vec2(0.0, sign(local.y));
-      }
-    }
-
-    if (dist < 0.0) return vec4(0.0, 0.0, 0.0, 1.0);
-
-    if (bevelWidth > 0.001) {
-      float refractionStrength = 1.0 - smoothstep(0.0, bevelWidth, dist);
-      normal2D *= refractionStrength;
-    } else {
-      normal2D = vec2(0.0);
-    }
-
-    float edgeDist = bevelWidth > 0.001 ? smoothstep(0.0, bevelWidth, dist) : 1.0;
-    edgeDist = clamp(edgeDist, 0.0, 1.0);
-    vec2 cellId = floor(cellPos);
-    float variation = hash(cellId) * 0.2 + 0.9;
-    return vec4(normal2D.x, normal2D.y, edgeDist, variation);
-  }
-
-  vec4 patternCircle(vec2 uv, float cells, float ringThickness) {
-    // Global concentric rings from canvas center (not per-cell circles).
-    float r = length(uv);
-    float ringPos = r * max(1.0, cells);
-    float local = fract(ringPos);
-    float t = (local - 0.5) * 2.0;
-    float k = mix(2.8, 0.8, clamp(ringThickness, 0.05, 1.0));
-    float tt = t * k;
-
-    vec2 dir = r > 0.0001 ? normalize(uv) : vec2(1.0, 0.0);
-    float edgeDist = clamp(cos(tt * PI * 0.5), 0.0, 1.0);
-    float normalMag = sin(tt * PI * 0.5) * edgeDist;
-    vec2 normal2D = dir * normalMag;
-
-    float ringId = floor(ringPos);
-    float variation = hash(vec2(ringId, 0.0)) * 0.2 + 0.9;
-    return vec4(normal2D.x, normal2D.y, edgeDist, variation);
-  }
-
-  vec4 getPattern(vec2 uv, float cells, int shape, float bevelWidth, float cornerRadius, float ringThickness) {
-    if (shape == 0) return patternStrips(uv, cells);
-    if (shape == 1) return patternGrid(uv, cells, bevelWidth, cornerRadius);
-    if (shape == 2) return patternCircle(uv, cells, ringThickness);
-    return patternStrips(uv, cells);
-  }
-
-  vec2 refract2D(vec2 incident, vec2 normal, float eta) {
-    float cosI = -dot(incident, normal);
-    float sinT2 = eta * eta * (1.0 - cosI * cosI);
-    if (sinT2 > 1.0) return reflect(incident, normal);
-    float cosT = sqrt(1.0 - sinT2);
-    return eta * incident + (eta * cosI - cosT) * normal;
-  }
-
-  float fresnelSchlick(float cosTheta, float ior) {
-    float r0 = pow((1.0 - ior) / (1.0 + ior), 2.0);
-    return r0 + (1.0 - r0) * pow(1.0 - cosTheta, 5.0);
-  }
-
-  vec3 kawaseBlur(vec2 uv, vec2 pixelSize, float radius) {
-    vec3 c = vec3(0.0);
-    vec2 o = pixelSize * radius;
-    c += texture2D(tDiffuse, clamp(uv, vec2(0.0), vec2(1.0))).rgb * 0.4;
-    c += texture2D(tDiffuse, clamp(uv + vec2(-o.x, 0.0), vec2(0.0), vec2(1.0))).rgb * 0.15;
-    c += texture2D(tDiffuse, clamp(uv + vec2( o.x, 0.0), vec2(0.0), vec2(1.0))).rgb * 0.15;
-    c += texture2D(tDiffuse, clamp(uv + vec2(0.0, -o.y), vec2(0.0), vec2(1.0))).rgb * 0.15;
-    c += texture2D(tDiffuse, clamp(uv + vec2(0.0,  o.y), vec2(0.0), vec2(1.0))).rgb * 0.15;
-    return c;
-  }
-
-  vec3 frostBlur(vec2 uv, vec2 pixelSize, float frostAmount) {
-    if (frostAmount < 0.01) return texture2D(tDiffuse, clamp(uv, vec2(0.0), vec2(1.0))).rgb;
-    float maxRadius = 20.0;
-    float baseRadius = frostAmount * maxRadius;
-    vec3 c = vec3(0.0);
-    if (frostAmount < 1.0) {
-      c += kawaseBlur(uv, pixelSize, baseRadius * 0.3) * 0.2;
-      c += kawaseBlur(uv, pixelSize, baseRadius * 0.6) * 0.3;
-      c += kawaseBlur(uv, pixelSize, baseRadius * 1.0) * 0.5;
-    } else {
-      c += kawaseBlur(uv, pixelSize, baseRadius * 0.25) * 0.1;
-      c += kawaseBlur(uv, pixelSize, baseRadius * 0.5)  * 0.2;
-      c += kawaseBlur(uv, pixelSize, baseRadius * 0.75) * 0.3;
-      c += kawaseBlur(uv, pixelSize, baseRadius * 1.0)  * 0.4;
-    }
-    return c;
-  }
-
-  vec3 sampleWithFrost(vec2 uv, vec2 pixelSize, float frostAmount) {
-    if (frostAmount < 0.01) return texture2D(tDiffuse, clamp(uv, vec2(0.0), vec2(1.0))).rgb;
-    return frostBlur(uv, pixelSize, frostAmount);
-  }
-
-  vec3 sampleWithAberration(vec2 baseUV, vec2 refractOffset, float aberration, vec2 pixelSize, float frostAmount) {
-    if (aberration < 0.01) return sampleWithFrost(baseUV + refractOffset, pixelSize, frostAmount);
-    float dispersionStrength = aberration * 0.5;
-    vec3 color = vec3(0.0);
-    vec3 weights = vec3(0.0);
-    int samples = 24;
-    if (frostAmount > 0.01) samples = frostAmount < 1.0 ? 12 : 8;
-    for (int i = 0; i < 24; i++) {
-      if (i >= samples) break;
-      float t = float(i) / float(samples - 1);
-      float scale = 1.0 + (t - 0.5) * 2.0 * dispersionStrength;
-      vec2 sampleUV = baseUV + refractOffset * scale;
-      vec3 texSample = sampleWithFrost(sampleUV, pixelSize, frostAmount);
-      float rWeight = exp(-4.0 * t * t);
-      float gWeight = exp(-4.0 * (t - 0.5) * (t - 0.5));
-      float bWeight = exp(-4.0 * (t - 1.0) * (t - 1.0));
-      color.r += texSample.r * rWeight;
-      color.g += texSample.g * gWeight;
-      color.b += texSample.b * bWeight;
-      weights += vec3(rWeight, gWeight, bWeight);
-    }
-    return color / max(weights, vec3(0.001));
-  }
-
-  void main() {
-    vec2 uv = v_uv;
-    vec2 pixelSize = 1.0 / resolution;
-    float aspect = resolution.x / resolution.y;
-    vec2 centeredUV = uv - 0.5;
-    vec2 aspectCorrectedUV = vec2(centeredUV.x * aspect, centeredUV.y);
-    vec2 rotatedUV = rotate(aspectCorrectedUV, uAngle);
-
-    vec4 pattern = getPattern(rotatedUV, uCells, uShape, uBevel, uCornerRadius, uRingThickness);
-    vec2 surfaceNormal = pattern.xy;
-    float edgeDist = pattern.z;
-    float cellVariation = pattern.w;
-
-    surfaceNormal = rotate(surfaceNormal, -uAngle);
-    surfaceNormal.x /= aspect;
-    surfaceNormal *= cellVariation;
-
-    float cosTheta = max(edgeDist, 0.1);
-    float eta = 1.0 / uIOR;
-    vec2 incident = vec2(0.0, -1.0);
-    vec2 refracted = refract2D(incident, surfaceNormal, eta);
-    float edgeBoost = 1.0 + (1.0 - edgeDist) * 0.3;
-    vec2 refractOffset = (refracted - incident) * pixelSize * uDistortion * 0.5 * edgeBoost;
-
-    vec3 color = sampleWithAberration(uv, refractOffset, uAberration, pixelSize, uFrost);
-    float fresnelFactor = fresnelSchlick(cosTheta, uIOR);
-    if (uFresnel > 0.01) {
-      color = mix(color, color * 1.3 + vec3(0.1), fresnelFactor * uFresnel * 0.5);
-    }
-    gl_FragColor = vec4(color, 1.0);
-  }
-`
-
 export default function MeshCanvas() {
   const glCanvasRef  = useRef<HTMLCanvasElement>(null)
   const pixelationCanvasRef = useRef<HTMLCanvasElement>(null)
@@ -290,27 +83,15 @@ export default function MeshCanvas() {
   const containerRef = useRef<HTMLDivElement>(null)
   const rendererRef  = useRef<MeshRenderer | null>(null)
   const dragRef      = useRef<DragState | null>(null)
+  const insertPreviewRef = useRef<InsertPreview | null>(null)
+  const snapGuidesRef = useRef<SnapGuide[]>([])
   const reducedMotionRef = useRef(false)
-  const noiseScratchRef = useRef<{
-    canvas: HTMLCanvasElement
-    ctx: CanvasRenderingContext2D | null
-    imageData: ImageData | null
-    w: number
-    h: number
-  } | null>(null)
-  const pixelationScratchRef = useRef<{
-    canvas: HTMLCanvasElement
-    ctx: CanvasRenderingContext2D | null
-    cols: number
-    rows: number
-  } | null>(null)
-  const hexagonDrawKeyRef = useRef('')
-  const squaresDrawKeyRef = useRef('')
-  const glassCaptureRef = useRef<GlassCaptureState | null>(null)
-  const glassGLRef = useRef<GlassGLResources | null>(null)
+  const overlayCacheRef = useRef<OverlayCache>(createOverlayCache())
+  const glassRendererRef = useRef<GlassRenderer | null>(null)
+  const keyframePlayerRef = useRef(new KeyframePlayer())
   const exportRenderLockRef = useRef(false)
   const exportScaleRef = useRef<1 | 2 | 3>(1)
-  const [cursor, setCursor] = useState<'crosshair' | 'grab' | 'grabbing'>('crosshair')
+  const [cursor, setCursor] = useState<'crosshair' | 'grab' | 'grabbing' | 'copy'>('crosshair')
 
   useEffect(() => {
     const mql = window.matchMedia('(prefers-reduced-motion: reduce)')
@@ -320,508 +101,43 @@ export default function MeshCanvas() {
     return () => mql.removeEventListener('change', update)
   }, [])
 
-  const initGlassGL = useCallback(() => {
-    if (glassGLRef.current) return glassGLRef.current
-
-    const canvas = document.createElement('canvas')
-    const gl = canvas.getContext('webgl', { premultipliedAlpha: false })
-    if (!gl) return null
-
-    const compileShader = (type: number, source: string) => {
-      const shader = gl.createShader(type)
-      if (!shader) return null
-      gl.shaderSource(shader, source)
-      gl.compileShader(shader)
-      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-        console.error('Glass shader compile error:', gl.getShaderInfoLog(shader))
-        gl.deleteShader(shader)
-        return null
-      }
-      return shader
-    }
-
-    const vs = compileShader(gl.VERTEX_SHADER, GLASS_VERTEX_SHADER)
-    const fs = compileShader(gl.FRAGMENT_SHADER, GLASS_FRAGMENT_SHADER)
-    if (!vs || !fs) return null
-
-    const program = gl.createProgram()
-    if (!program) return null
-    gl.attachShader(program, vs)
-    gl.attachShader(program, fs)
-    gl.linkProgram(program)
-    gl.deleteShader(vs)
-    gl.deleteShader(fs)
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      console.error('Glass program link error:', gl.getProgramInfoLog(program))
-      gl.deleteProgram(program)
-      return null
-    }
-
-    const buf = gl.createBuffer()
-    if (!buf) {
-      gl.deleteProgram(program)
-      return null
-    }
-    gl.bindBuffer(gl.ARRAY_BUFFER, buf)
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW)
-    const posLoc = gl.getAttribLocation(program, 'a_pos')
-    gl.enableVertexAttribArray(posLoc)
-    gl.vertexAttribPointer(posLoc, 2, gl.FLOAT, false, 0, 0)
-
-    const texture = gl.createTexture()
-    if (!texture) {
-      gl.deleteBuffer(buf)
-      gl.deleteProgram(program)
-      return null
-    }
-    gl.bindTexture(gl.TEXTURE_2D, texture)
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
-
-    const uniforms = {
-      tDiffuse: gl.getUniformLocation(program, 'tDiffuse'),
-      resolution: gl.getUniformLocation(program, 'resolution'),
-      uShape: gl.getUniformLocation(program, 'uShape'),
-      uCells: gl.getUniformLocation(program, 'uCells'),
-      uDistortion: gl.getUniformLocation(program, 'uDistortion'),
-      uAngle: gl.getUniformLocation(program, 'uAngle'),
-      uAberration: gl.getUniformLocation(program, 'uAberration'),
-      uEdge: gl.getUniformLocation(program, 'uEdge'),
-      uIOR: gl.getUniformLocation(program, 'uIOR'),
-      uFresnel: gl.getUniformLocation(program, 'uFresnel'),
-      uFrost: gl.getUniformLocation(program, 'uFrost'),
-      uBevel: gl.getUniformLocation(program, 'uBevel'),
-      uCornerRadius: gl.getUniformLocation(program, 'uCornerRadius'),
-      uRingThickness: gl.getUniformLocation(program, 'uRingThickness'),
-    }
-
-    glassGLRef.current = { canvas, gl, program, texture, uniforms }
-    return glassGLRef.current
-  }, [])
-
   const drawGlassOverlay = useCallback(() => {
     const canvas = glassCanvasRef.current
     const sourceCanvas = glCanvasRef.current
     if (!canvas || !sourceCanvas) return
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    const { effect, glass, canvasBackground } = store.state
-    const exportScale = exportScaleRef.current
-    const W = canvas.width
-    const H = canvas.height
-    if (W <= 0 || H <= 0) return
-
-    if (effect.type !== 'glass') {
-      ctx.clearRect(0, 0, W, H)
-      return
-    }
-
-    const resources = initGlassGL()
-    if (!resources) {
-      ctx.clearRect(0, 0, W, H)
-      return
-    }
-
-    let capture = glassCaptureRef.current
-    if (!capture) {
-      const capCanvas = document.createElement('canvas')
-      capture = { canvas: capCanvas, ctx: capCanvas.getContext('2d') }
-      glassCaptureRef.current = capture
-    }
-    if (capture.canvas.width !== W || capture.canvas.height !== H) {
-      capture.canvas.width = W
-      capture.canvas.height = H
-    }
-    capture.ctx?.clearRect(0, 0, W, H)
-    if (capture.ctx) {
-      const bg = canvasBackground.color
-      const bgOpacity = Math.max(0, Math.min(1, canvasBackground.opacity))
-      const br = Math.round(Math.max(0, Math.min(1, bg.r)) * 255)
-      const bgc = Math.round(Math.max(0, Math.min(1, bg.g)) * 255)
-      const bb = Math.round(Math.max(0, Math.min(1, bg.b)) * 255)
-
-      // Match viewport behavior: when background is translucent, keep checkerboard in the refraction source.
-      if (bgOpacity < 0.999) {
-        const tile = 20
-        const half = tile / 2
-        capture.ctx.fillStyle = '#d9d9d9'
-        capture.ctx.fillRect(0, 0, W, H)
-        capture.ctx.fillStyle = 'rgba(255,255,255,0.55)'
-        for (let y = 0; y < H; y += tile) {
-          for (let x = 0; x < W; x += tile) {
-            capture.ctx.fillRect(x, y, half, half)
-            capture.ctx.fillRect(x + half, y + half, half, half)
-          }
-        }
-      }
-
-      capture.ctx.fillStyle = `rgba(${br}, ${bgc}, ${bb}, ${bgOpacity})`
-      capture.ctx.fillRect(0, 0, W, H)
-      capture.ctx.drawImage(sourceCanvas, 0, 0, W, H)
-    }
-
-    const { gl, program, texture, uniforms } = resources
-    resources.canvas.width = W
-    resources.canvas.height = H
-    gl.viewport(0, 0, W, H)
-    gl.useProgram(program)
-    gl.activeTexture(gl.TEXTURE0)
-    gl.bindTexture(gl.TEXTURE_2D, texture)
-    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 1)
-    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, capture.canvas)
-    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0)
-
-    if (uniforms.tDiffuse) gl.uniform1i(uniforms.tDiffuse, 0)
-    if (uniforms.resolution) gl.uniform2f(uniforms.resolution, W, H)
-    if (uniforms.uCells) gl.uniform1f(uniforms.uCells, glass.cells)
-    if (uniforms.uDistortion) gl.uniform1f(uniforms.uDistortion, glass.distortion * exportScale)
-    if (uniforms.uFrost) gl.uniform1f(uniforms.uFrost, glass.frost * exportScale)
-    if (uniforms.uIOR) gl.uniform1f(uniforms.uIOR, glass.ior)
-    if (uniforms.uFresnel) gl.uniform1f(uniforms.uFresnel, glass.fresnel)
-    if (uniforms.uBevel) gl.uniform1f(uniforms.uBevel, glass.shape === 'grid' ? glass.bevel : 0)
-    if (uniforms.uCornerRadius) gl.uniform1f(uniforms.uCornerRadius, glass.shape === 'grid' ? glass.corner : 0)
-    if (uniforms.uRingThickness) gl.uniform1f(uniforms.uRingThickness, glass.ringThickness)
-    if (uniforms.uAberration) gl.uniform1f(uniforms.uAberration, glass.aberration)
-    if (uniforms.uAngle) gl.uniform1f(uniforms.uAngle, glass.shape === 'circle' ? 0 : ((glass.angle * Math.PI) / 180))
-    if (uniforms.uEdge) gl.uniform1f(uniforms.uEdge, 0.5)
-    if (uniforms.uShape) {
-      const shapeId = glass.shape === 'strips' ? 0 : (glass.shape === 'grid' ? 1 : 2)
-      gl.uniform1i(uniforms.uShape, shapeId)
-    }
-
-    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
-
-    ctx.clearRect(0, 0, W, H)
-    ctx.drawImage(resources.canvas, 0, 0)
-  }, [initGlassGL])
+    if (!glassRendererRef.current) glassRendererRef.current = new GlassRenderer()
+    glassRendererRef.current.draw(canvas, sourceCanvas, store.state, exportScaleRef.current)
+  }, [])
 
   const drawHexagonOverlay = useCallback(() => {
     const canvas = hexagonCanvasRef.current
     if (!canvas) return
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    const { effect, hexagon } = store.state
-    const exportScale = exportScaleRef.current
-    const W = canvas.width
-    const H = canvas.height
-    if (W <= 0 || H <= 0) return
-
-    if (effect.type !== 'hexagon') {
-      if (hexagonDrawKeyRef.current !== '') {
-        ctx.clearRect(0, 0, W, H)
-        hexagonDrawKeyRef.current = ''
-      }
-      return
-    }
-
-    const key = [
-      W,
-      H,
-      hexagon.color.r.toFixed(4),
-      hexagon.color.g.toFixed(4),
-      hexagon.color.b.toFixed(4),
-      hexagon.opacity.toFixed(4),
-      hexagon.size.toFixed(4),
-      hexagon.density.toFixed(4),
-      hexagon.strokeWidth.toFixed(4),
-      hexagon.strokeOpacity.toFixed(4),
-      hexagon.randomOpacity.toFixed(4),
-    ].join('|')
-    if (key === hexagonDrawKeyRef.current) return
-    hexagonDrawKeyRef.current = key
-
-    const fillBaseAlpha = Math.max(0, Math.min(1, hexagon.opacity / 100))
-    const size = Math.max(20, Math.min(150, hexagon.size)) * exportScale
-    const density = Math.max(0.1, Math.min(1, hexagon.density))
-    const strokeWidth = Math.max(0.5, Math.min(5, hexagon.strokeWidth)) * exportScale
-    const strokeOpacity = Math.max(0, Math.min(1, hexagon.strokeOpacity))
-    const randomOpacity = Math.max(0, Math.min(1, hexagon.randomOpacity))
-
-    const cr = Math.round(Math.max(0, Math.min(1, hexagon.color.r)) * 255)
-    const cg = Math.round(Math.max(0, Math.min(1, hexagon.color.g)) * 255)
-    const cb = Math.round(Math.max(0, Math.min(1, hexagon.color.b)) * 255)
-    const rgba = (a: number) => `rgba(${cr},${cg},${cb},${Math.max(0, Math.min(1, a))})`
-
-    const width = size
-    const height = size * 0.8660254037844386
-    const xOffset = width * 0.75
-    const yOffset = height
-    const cols = Math.ceil(W / xOffset) + 2
-    const rows = Math.ceil(H / yOffset) + 2
-
-    const hash2 = (x: number, y: number, salt: number) => {
-      const n = Math.sin((x + salt) * 127.1 + (y + salt) * 311.7) * 43758.5453123
-      return n - Math.floor(n)
-    }
-
-    ctx.clearRect(0, 0, W, H)
-    ctx.lineJoin = 'miter'
-    ctx.lineCap = 'butt'
-    ctx.lineWidth = strokeWidth
-    ctx.strokeStyle = rgba(strokeOpacity)
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        if (hash2(col, row, 11) > density) continue
-
-        const x = col * xOffset
-        const y = row * yOffset + (col % 2 === 1 ? yOffset / 2 : 0)
-        const opacityNoise = Math.max(0, Math.min(1, 1 - randomOpacity + hash2(col, row, 47) * randomOpacity))
-        const fillOpacity = fillBaseAlpha * opacityNoise
-
-        ctx.beginPath()
-        for (let i = 0; i < 6; i++) {
-          const angle = (Math.PI / 3) * i
-          const hx = x + (size / 2) * Math.cos(angle)
-          const hy = y + (size / 2) * Math.sin(angle)
-          if (i === 0) ctx.moveTo(hx, hy)
-          else ctx.lineTo(hx, hy)
-        }
-        ctx.closePath()
-        ctx.fillStyle = rgba(fillOpacity)
-        ctx.fill()
-        if (strokeOpacity > 0 && strokeWidth > 0) ctx.stroke()
-      }
-    }
+    drawHexagonLayer(canvas, store.state, exportScaleRef.current, overlayCacheRef.current)
   }, [])
 
   const drawSquaresOverlay = useCallback(() => {
     const canvas = squaresCanvasRef.current
     if (!canvas) return
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    const { effect, squares } = store.state
-    const exportScale = exportScaleRef.current
-    const W = canvas.width
-    const H = canvas.height
-    if (W <= 0 || H <= 0) return
-
-    if (effect.type !== 'squares') {
-      if (squaresDrawKeyRef.current !== '') {
-        ctx.clearRect(0, 0, W, H)
-        squaresDrawKeyRef.current = ''
-      }
-      return
-    }
-
-    const key = [
-      W,
-      H,
-      squares.color.r.toFixed(4),
-      squares.color.g.toFixed(4),
-      squares.color.b.toFixed(4),
-      squares.opacity.toFixed(4),
-      squares.size.toFixed(4),
-      squares.density.toFixed(4),
-      squares.strokeWidth.toFixed(4),
-      squares.strokeOpacity.toFixed(4),
-      squares.randomOpacity.toFixed(4),
-    ].join('|')
-    if (key === squaresDrawKeyRef.current) return
-    squaresDrawKeyRef.current = key
-
-    const fillBaseAlpha = Math.max(0, Math.min(1, squares.opacity / 100))
-    const size = Math.max(20, Math.min(150, squares.size)) * exportScale
-    const density = Math.max(0.1, Math.min(1, squares.density))
-    const strokeWidth = Math.max(1, Math.min(8, squares.strokeWidth)) * exportScale
-    const strokeOpacity = Math.max(0, Math.min(1, squares.strokeOpacity))
-    const randomOpacity = Math.max(0, Math.min(1, squares.randomOpacity))
-
-    const cr = Math.round(Math.max(0, Math.min(1, squares.color.r)) * 255)
-    const cg = Math.round(Math.max(0, Math.min(1, squares.color.g)) * 255)
-    const cb = Math.round(Math.max(0, Math.min(1, squares.color.b)) * 255)
-    const rgba = (a: number) => `rgba(${cr},${cg},${cb},${Math.max(0, Math.min(1, a))})`
-
-    const cols = Math.ceil(W / size) + 1
-    const rows = Math.ceil(H / size) + 1
-
-    const hash2 = (x: number, y: number, salt: number) => {
-      const n = Math.sin((x + salt) * 127.1 + (y + salt) * 311.7) * 43758.5453123
-      return n - Math.floor(n)
-    }
-
-    ctx.clearRect(0, 0, W, H)
-    ctx.lineWidth = strokeWidth
-    ctx.strokeStyle = rgba(strokeOpacity)
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        if (hash2(col, row, 17) > density) continue
-
-        const x = col * size
-        const y = row * size
-        const opacityNoise = Math.max(0, Math.min(1, 1 - randomOpacity + hash2(col, row, 59) * randomOpacity))
-        const fillOpacity = fillBaseAlpha * opacityNoise
-
-        ctx.fillStyle = rgba(fillOpacity)
-        ctx.fillRect(x, y, size, size)
-        if (strokeOpacity > 0 && strokeWidth > 0) ctx.strokeRect(x, y, size, size)
-      }
-    }
+    drawSquaresLayer(canvas, store.state, exportScaleRef.current, overlayCacheRef.current)
   }, [])
 
-  // ── Pixelation post-fx (ported from pixelation-effect.html) ───────────────
   const drawPixelationOverlay = useCallback(() => {
     const canvas = pixelationCanvasRef.current
     const sourceCanvas = glCanvasRef.current
     if (!canvas || !sourceCanvas) return
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    const { effect, pixelation } = store.state
-    const exportScale = exportScaleRef.current
-    const W = canvas.width
-    const H = canvas.height
-    if (W <= 0 || H <= 0) return
-
-    if (effect.type !== 'pixelation') {
-      ctx.clearRect(0, 0, W, H)
-      return
-    }
-
-    const pixelSize = Math.max(2, Math.round((pixelation.pixelSize || 12) * exportScale))
-    const density = Math.max(0.1, Math.min(1, pixelation.density))
-    const cols = Math.ceil(W / pixelSize)
-    const rows = Math.ceil(H / pixelSize)
-
-    let scratch = pixelationScratchRef.current
-    if (!scratch) {
-      const tiny = document.createElement('canvas')
-      scratch = {
-        canvas: tiny,
-        ctx: tiny.getContext('2d'),
-        cols: 0,
-        rows: 0,
-      }
-      pixelationScratchRef.current = scratch
-    }
-
-    if (scratch.cols !== cols || scratch.rows !== rows) {
-      scratch.canvas.width = cols
-      scratch.canvas.height = rows
-      scratch.cols = cols
-      scratch.rows = rows
-    }
-
-    const tc = scratch.ctx
-    if (!tc) return
-    tc.imageSmoothingEnabled = true
-    tc.clearRect(0, 0, cols, rows)
-    tc.drawImage(sourceCanvas, 0, 0, cols, rows)
-    const pixels = tc.getImageData(0, 0, cols, rows).data
-
-    ctx.clearRect(0, 0, W, H)
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const idx = (row * cols + col) * 4
-        const r = pixels[idx]
-        const g = pixels[idx + 1]
-        const b = pixels[idx + 2]
-
-        const px = col * pixelSize
-        const py = row * pixelSize
-        const blockW = Math.max(1, Math.floor(pixelSize * density))
-        const blockH = Math.max(1, Math.floor(pixelSize * density))
-        const marginX = Math.floor((pixelSize - blockW) / 2)
-        const marginY = Math.floor((pixelSize - blockH) / 2)
-
-        ctx.fillStyle = `rgb(${r},${g},${b})`
-        ctx.fillRect(px + marginX, py + marginY, blockW, blockH)
-      }
-    }
+    drawPixelationLayer(canvas, sourceCanvas, store.state, exportScaleRef.current, overlayCacheRef.current)
   }, [])
 
-  // ── Film grain overlay (reference technique: per-frame ImageData noise) ───
   const drawNoiseOverlay = useCallback((tSec: number) => {
     const canvas = noiseCanvasRef.current
     if (!canvas) return
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    const { noise } = store.state
-    const exportScale = exportScaleRef.current
-    const W = canvas.width
-    const H = canvas.height
-    if (W <= 0 || H <= 0) return
-
-    if (!noise.enabled || noise.intensity <= 0.0001) {
-      ctx.clearRect(0, 0, W, H)
-      return
-    }
-
-    const intensity = noise.intensity
-    const size = Math.max(0.5, noise.size * exportScale)
-    const speed = Math.max(0, noise.speed)
-    const tintR = Math.max(0, Math.min(1, noise.color.r))
-    const tintG = Math.max(0, Math.min(1, noise.color.g))
-    const tintB = Math.max(0, Math.min(1, noise.color.b))
-    const downW = Math.max(1, Math.floor(W / size))
-    const downH = Math.max(1, Math.floor(H / size))
-    const frameFloat = noise.animated ? (tSec * speed * 60) : 0
-    const seed0 = Math.floor(frameFloat)
-    const seed1 = seed0 + 1
-    const t = frameFloat - seed0
-    const blend = t * t * (3 - 2 * t)
-
-    let scratch = noiseScratchRef.current
-    if (!scratch) {
-      const off = document.createElement('canvas')
-      scratch = {
-        canvas: off,
-        ctx: off.getContext('2d'),
-        imageData: null,
-        w: 0,
-        h: 0,
-      }
-      noiseScratchRef.current = scratch
-    }
-
-    if (scratch.w !== downW || scratch.h !== downH || !scratch.imageData) {
-      scratch.canvas.width = downW
-      scratch.canvas.height = downH
-      scratch.imageData = ctx.createImageData(downW, downH)
-      scratch.w = downW
-      scratch.h = downH
-    }
-
-    const img = scratch.imageData
-    const data = img.data
-
-    for (let i = 0; i < data.length; i += 4) {
-      const p = i / 4
-      const idx0 = p + seed0 * 12345
-      const idx1 = p + seed1 * 12345
-      const rr0 = Math.sin(idx0 * 127.1 + seed0) * 43758.5453
-      const rr1 = Math.sin(idx1 * 127.1 + seed1) * 43758.5453
-      const r0 = rr0 - Math.floor(rr0)
-      const r1 = rr1 - Math.floor(rr1)
-      const r = noise.animated ? (r0 * (1 - blend) + r1 * blend) : r0
-      const grain = (r - 0.5) * 255 * intensity
-      const mag = Math.abs(grain)
-      // Stronger tint response: selected color pushes grain highlights/shadows per channel.
-      const tr = tintR * 2 - 1
-      const tg = tintG * 2 - 1
-      const tb = tintB * 2 - 1
-      data[i] = Math.max(0, Math.min(255, 128 + grain + tr * mag * 1.45))
-      data[i + 1] = Math.max(0, Math.min(255, 128 + grain + tg * mag * 1.45))
-      data[i + 2] = Math.max(0, Math.min(255, 128 + grain + tb * mag * 1.45))
-      data[i + 3] = Math.min(255, Math.abs(grain) * 2.2)
-    }
-
-    scratch.ctx?.putImageData(img, 0, 0)
-
-    ctx.clearRect(0, 0, W, H)
-    ctx.imageSmoothingEnabled = false
-    ctx.drawImage(scratch.canvas, 0, 0, W, H)
+    drawNoiseLayer(canvas, store.state, tSec, exportScaleRef.current, overlayCacheRef.current)
   }, [])
 
   // ── Draw overlay (mesh lines + points + handles) ──────────────────────────
-  const drawOverlay = useCallback(() => {
+  // `grid` is the one on screen: the store's, or the animated copy during
+  // timeline playback.
+  const drawOverlay = useCallback((grid: MeshGrid = store.state.grid) => {
     const canvas = overlayRef.current
     if (!canvas) return
     const ctx = canvas.getContext('2d')
@@ -834,7 +150,7 @@ export default function MeshCanvas() {
     ctx.scale(dpr, dpr)
     ctx.translate(OVERLAY_PAD, OVERLAY_PAD)
 
-    const { grid, selectedPoint, hoveredPoint } = store.state
+    const { selectedPoint, hoveredPoint } = store.state
     const W = canvas.width  / dpr - OVERLAY_PAD * 2
     const H = canvas.height / dpr - OVERLAY_PAD * 2
 
@@ -878,6 +194,69 @@ export default function MeshCanvas() {
       }
     }
 
+    // ── Snap guides ───────────────────────────────────────────────────────
+    const guides = snapGuidesRef.current
+    if (guides.length > 0) {
+      ctx.beginPath()
+      ctx.strokeStyle = 'rgba(255,95,160,0.9)'
+      ctx.lineWidth = 1
+      for (const guide of guides) {
+        if (guide.axis === 'x') {
+          ctx.moveTo(Math.round(guide.at * W) + 0.5, -OVERLAY_PAD)
+          ctx.lineTo(Math.round(guide.at * W) + 0.5, H + OVERLAY_PAD)
+        } else {
+          ctx.moveTo(-OVERLAY_PAD, Math.round(guide.at * H) + 0.5)
+          ctx.lineTo(W + OVERLAY_PAD, Math.round(guide.at * H) + 0.5)
+        }
+      }
+      ctx.stroke()
+    }
+
+    // ── Row/column insertion preview ──────────────────────────────────────
+    const preview = insertPreviewRef.current
+    if (preview) {
+      const STEPS = 24
+      const spans = preview.axis === 'row' ? grid.cols - 1 : grid.rows - 1
+      ctx.beginPath()
+      ctx.setLineDash([5, 4])
+      ctx.strokeStyle = 'rgba(180,175,255,0.95)'
+      ctx.lineWidth = 1.5
+      for (let k = 0; k < spans; k++) {
+        const pr = preview.axis === 'row' ? preview.index : k
+        const pc = preview.axis === 'row' ? k : preview.index
+        const patch = {
+          tl: grid.points[pr][pc],
+          tr: grid.points[pr][pc + 1],
+          bl: grid.points[pr + 1][pc],
+          br: grid.points[pr + 1][pc + 1],
+        }
+        for (let i = 0; i <= STEPS; i++) {
+          const s = i / STEPS
+          const pt = preview.axis === 'row'
+            ? evalPatchPosition(patch, s, preview.t, W, H)
+            : evalPatchPosition(patch, preview.t, s, W, H)
+          if (k === 0 && i === 0) ctx.moveTo(pt.x, pt.y)
+          else ctx.lineTo(pt.x, pt.y)
+        }
+      }
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    // ── Marquee ───────────────────────────────────────────────────────────
+    const drag = dragRef.current
+    if (drag?.type === 'marquee' && drag.startX !== undefined && drag.startY !== undefined) {
+      const x = Math.min(drag.startX, drag.lastX)
+      const y = Math.min(drag.startY, drag.lastY)
+      const w = Math.abs(drag.lastX - drag.startX)
+      const h = Math.abs(drag.lastY - drag.startY)
+      ctx.fillStyle = 'rgba(108,99,255,0.12)'
+      ctx.fillRect(x, y, w, h)
+      ctx.strokeStyle = 'rgba(180,175,255,0.8)'
+      ctx.lineWidth = 1
+      ctx.strokeRect(x + 0.5, y + 0.5, w, h)
+    }
+
     // ── Handles for selected point ────────────────────────────────────────
     if (selectedPoint) {
       const p  = grid.points[selectedPoint.row][selectedPoint.col]
@@ -885,13 +264,13 @@ export default function MeshCanvas() {
       const py = p.position.y * H
 
       const hs = [
-        { dx: p.handles.left.x,  dy: p.handles.left.y  },
-        { dx: p.handles.right.x, dy: p.handles.right.y },
-        { dx: p.handles.up.x,    dy: p.handles.up.y    },
-        { dx: p.handles.down.x,  dy: p.handles.down.y  },
+        { side: 'left',  dx: p.handles.left.x,  dy: p.handles.left.y  },
+        { side: 'right', dx: p.handles.right.x, dy: p.handles.right.y },
+        { side: 'up',    dx: p.handles.up.x,    dy: p.handles.up.y    },
+        { side: 'down',  dx: p.handles.down.x,  dy: p.handles.down.y  },
       ] as const
 
-      hs.forEach(({ dx, dy }) => {
+      hs.forEach(({ side, dx, dy }) => {
         const hx = (p.position.x + dx) * W
         const hy = (p.position.y + dy) * H
 
@@ -904,8 +283,9 @@ export default function MeshCanvas() {
         ctx.stroke()
         ctx.setLineDash([])
 
+        // The selected handle is the one keyboard nudges move.
         ctx.beginPath()
-        ctx.fillStyle = '#fff'
+        ctx.fillStyle = store.state.selectedHandle === side ? '#b4afff' : '#fff'
         ctx.arc(hx, hy, HANDLE_RADIUS, 0, Math.PI * 2)
         ctx.fill()
         ctx.strokeStyle = 'rgba(0,0,0,0.35)'
@@ -921,11 +301,13 @@ export default function MeshCanvas() {
         const px = p.position.x * W
         const py = p.position.y * H
         const isSel = selectedPoint?.row === r && selectedPoint?.col === c
+        const inSel = !isSel && store.isPointSelected(r, c)
         const isHov = hoveredPoint?.row === r && hoveredPoint?.col === c
 
         ctx.beginPath()
-        ctx.arc(px, py, POINT_RADIUS + (isSel ? 3 : 2), 0, Math.PI * 2)
+        ctx.arc(px, py, POINT_RADIUS + (isSel || inSel ? 3 : 2), 0, Math.PI * 2)
         ctx.fillStyle = isSel  ? 'rgba(255,255,255,1)'
+                      : inSel  ? 'rgba(180,175,255,1)'
                       : isHov  ? 'rgba(255,255,255,0.8)'
                       :          'rgba(255,255,255,0.6)'
         ctx.fill()
@@ -941,19 +323,28 @@ export default function MeshCanvas() {
     ctx.restore()
   }, [])
 
-  const renderAllLayersAtTime = useCallback((tSec: number, refreshGeometry = false) => {
+  // With `timelineSec`, keyframed points are rendered at that timeline time
+  // (exports); otherwise as they stand in the store.
+  const renderAllLayersAtTime = useCallback((tSec: number, refreshGeometry = false, timelineSec?: number) => {
     const renderer = rendererRef.current
     if (!renderer) throw new Error('Renderer hazir degil')
 
-    const { grid, subdivision, canvasBackground, effect } = store.state
+    const { grid, subdivision, adaptiveTessellation, canvasBackground, effect, colorInterpolation } = store.state
     const exportScale = exportScaleRef.current
     renderer.subdivision = subdivision
+    renderer.adaptive = adaptiveTessellation
     renderer.setBackground(canvasBackground)
     const effectForRender = exportScale > 1
       ? { ...effect, scale: effect.scale * exportScale }
       : effect
     renderer.setEffect(effectForRender)
-    if (refreshGeometry) renderer.update(grid)
+    if (timelineSec !== undefined && hasKeyframes(grid)) {
+      const time = timelineTime(store.state.timeline, timelineSec)
+      const frame = keyframePlayerRef.current.frame(grid, time, colorInterpolation)
+      renderer.update(frame.grid, colorInterpolation, frame.changes)
+    } else if (refreshGeometry) {
+      renderer.update(grid, colorInterpolation)
+    }
 
     const anim = store.state.animation
     const effectiveAnimation: AnimationSettings = reducedMotionRef.current
@@ -1039,29 +430,13 @@ export default function MeshCanvas() {
     const ctx = target.getContext('2d')
     if (!ctx) throw new Error('2D context alinamadi')
 
-    ctx.clearRect(0, 0, outW, outH)
-    ctx.imageSmoothingEnabled = true
-
-    const layers: Array<{ canvas: HTMLCanvasElement | null; blend: GlobalCompositeOperation }> = [
-      { canvas: glCanvasRef.current, blend: 'source-over' },
-      { canvas: pixelationCanvasRef.current, blend: 'source-over' },
-      { canvas: hexagonCanvasRef.current, blend: 'source-over' },
-      { canvas: squaresCanvasRef.current, blend: 'source-over' },
-      { canvas: glassCanvasRef.current, blend: 'source-over' },
-      // Preview uses CSS mix-blend-mode: overlay for grain; mirror that in export.
-      { canvas: noiseCanvasRef.current, blend: 'overlay' },
-    ]
-
-    for (const layer of layers) {
-      if (!layer.canvas) continue
-      const lw = layer.canvas.width
-      const lh = layer.canvas.height
-      if (lw <= 0 || lh <= 0) continue
-      ctx.save()
-      ctx.globalCompositeOperation = layer.blend
-      ctx.drawImage(layer.canvas, 0, 0, lw, lh, 0, 0, outW, outH)
-      ctx.restore()
-    }
+    const pixelation = pixelationCanvasRef.current
+    const hexagon = hexagonCanvasRef.current
+    const squares = squaresCanvasRef.current
+    const glass = glassCanvasRef.current
+    const noise = noiseCanvasRef.current
+    if (!pixelation || !hexagon || !squares || !glass || !noise) throw new Error('Export katmanlari hazir degil')
+    composeLayers(ctx, { gl, pixelation, hexagon, squares, glass, noise }, outW, outH)
 
     return { width: outW, height: outH }
   }, [])
@@ -1079,6 +454,15 @@ export default function MeshCanvas() {
   }, [])
 
   const captureImage = useCallback(async (options: CaptureImageOptions): Promise<CaptureImageResult> => {
+    if (options.format === 'svg') {
+      // Built straight from the document, so no layer render is needed.
+      const baseW = Math.max(1, Math.round(store.state.artboardSize.width || store.state.canvasSize.width))
+      const baseH = Math.max(1, Math.round(store.state.artboardSize.height || store.state.canvasSize.height))
+      const { svg, omitted } = buildMeshSvg(store.state, baseW, baseH, options.scale)
+      const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8' })
+      return { blob, ext: 'svg', mime: 'image/svg+xml', width: baseW * options.scale, height: baseH * options.scale, omitted }
+    }
+
     const exportSession = beginExportRender(options.scale)
     const composed = document.createElement('canvas')
     let width = exportSession.width
@@ -1108,20 +492,75 @@ export default function MeshCanvas() {
         return { blob, ext: 'jpg', mime: 'image/jpeg', width, height }
       }
 
-      // SVG wrapper (raster embedded) to support full effect stack.
-      const pngDataUrl = composed.toDataURL('image/png')
-      const svg = `
-<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
-  <image href="${pngDataUrl}" width="${width}" height="${height}" />
-</svg>`
-      const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8' })
-      return { blob, ext: 'svg', mime: 'image/svg+xml', width, height }
+      throw new Error(`Unsupported image format: ${options.format}`)
     } finally {
       exportSession.restore()
     }
   }, [beginExportRender, canvasToBlob, composeLayersToCanvas, renderAllLayersAtTime])
 
-  const recordVideo = useCallback(async (options: RecordVideoOptions): Promise<RecordVideoResult> => {
+  const recordVideoOffline = useCallback(async (
+    options: RecordVideoOptions & { format: ExportMovieFormat },
+  ): Promise<RecordVideoResult> => {
+    const exportSession = beginExportRender(options.scale)
+    const captureCanvas = document.createElement('canvas')
+    try {
+      renderAllLayersAtTime(0, true, 0)
+      composeLayersToCanvas(captureCanvas, options.scale)
+      const res = await encodeOfflineVideo({
+        format: options.format,
+        fps: options.fps,
+        frameCount: Math.round(Math.max(1, options.durationSec) * options.fps),
+        canvas: captureCanvas,
+        renderFrame: tSec => {
+          renderAllLayersAtTime(tSec, false, tSec)
+          composeLayersToCanvas(captureCanvas, options.scale)
+        },
+        onProgress: options.onProgress,
+      })
+      return {
+        blob: res.blob,
+        ext: res.format,
+        mime: res.mime,
+        width: res.width,
+        height: res.height,
+        fps: options.fps,
+        usedFallback: res.usedFallback,
+      }
+    } finally {
+      exportSession.restore()
+    }
+  }, [beginExportRender, composeLayersToCanvas, renderAllLayersAtTime])
+
+  const recordAnimatedImage = useCallback(async (
+    options: RecordVideoOptions & { format: ExportAnimatedImageFormat },
+  ): Promise<RecordVideoResult> => {
+    const exportSession = beginExportRender(options.scale)
+    const captureCanvas = document.createElement('canvas')
+    try {
+      renderAllLayersAtTime(0, true, 0)
+      composeLayersToCanvas(captureCanvas, options.scale)
+      const res = await encodeAnimatedImage({
+        format: options.format,
+        fps: options.fps,
+        durationSec: Math.max(1, options.durationSec),
+        loopCount: options.loopCount ?? 0,
+        canvas: captureCanvas,
+        renderFrame: tSec => {
+          renderAllLayersAtTime(tSec, false, tSec)
+          composeLayersToCanvas(captureCanvas, options.scale)
+        },
+        onProgress: options.onProgress,
+      })
+      return { ...res, usedFallback: false }
+    } finally {
+      exportSession.restore()
+    }
+  }, [beginExportRender, composeLayersToCanvas, renderAllLayersAtTime])
+
+  // Real-time MediaRecorder capture for browsers without WebCodecs.
+  const recordVideoRealtime = useCallback(async (
+    options: RecordVideoOptions & { format: ExportMovieFormat },
+  ): Promise<RecordVideoResult> => {
     if (!('MediaRecorder' in window)) {
       throw new Error('Bu tarayicida video export desteklenmiyor')
     }
@@ -1173,12 +612,12 @@ export default function MeshCanvas() {
     }
 
     const startMs = performance.now()
-    renderAllLayersAtTime(startMs / 1000, true)
+    renderAllLayersAtTime(startMs / 1000, true, 0)
     composeLayersToCanvas(captureCanvas, options.scale)
 
     const draw = () => {
       const tSec = (startMs + (performance.now() - startMs)) / 1000
-      renderAllLayersAtTime(tSec, false)
+      renderAllLayersAtTime(tSec, false, tSec - startMs / 1000)
       composeLayersToCanvas(captureCanvas, options.scale)
     }
 
@@ -1204,7 +643,7 @@ export default function MeshCanvas() {
           return
         }
         const blob = new Blob(chunks, { type: mime })
-        resolve({ blob, ext, mime, width, height, usedFallback })
+        resolve({ blob, ext, mime, width, height, fps: options.fps, usedFallback })
       }
 
       try {
@@ -1221,6 +660,47 @@ export default function MeshCanvas() {
     })
   }, [beginExportRender, composeLayersToCanvas, renderAllLayersAtTime])
 
+  const recordImageSequence = useCallback(async (options: RecordVideoOptions): Promise<RecordVideoResult> => {
+    const exportSession = beginExportRender(options.scale)
+    const captureCanvas = document.createElement('canvas')
+    try {
+      renderAllLayersAtTime(0, true, 0)
+      composeLayersToCanvas(captureCanvas, options.scale)
+      const res = await encodeImageSequence({
+        fps: options.fps,
+        durationSec: Math.max(1, options.durationSec),
+        scale: options.scale,
+        name: 'mesh-gradient',
+        canvas: captureCanvas,
+        renderFrame: tSec => {
+          renderAllLayersAtTime(tSec, false, tSec)
+          composeLayersToCanvas(captureCanvas, options.scale)
+        },
+        onProgress: options.onProgress,
+      })
+      return {
+        blob: res.blob,
+        ext: 'zip',
+        mime: 'application/zip',
+        width: res.width,
+        height: res.height,
+        fps: options.fps,
+        usedFallback: false,
+      }
+    } finally {
+      exportSession.restore()
+    }
+  }, [beginExportRender, composeLayersToCanvas, renderAllLayersAtTime])
+
+  const recordVideo = useCallback((options: RecordVideoOptions) => {
+    const { format } = options
+    if (format === 'png-sequence') return recordImageSequence(options)
+    if (isAnimatedImageFormat(format)) return recordAnimatedImage({ ...options, format })
+    return supportsOfflineVideo()
+      ? recordVideoOffline({ ...options, format })
+      : recordVideoRealtime({ ...options, format })
+  }, [recordAnimatedImage, recordImageSequence, recordVideoOffline, recordVideoRealtime])
+
   useEffect(() => {
     window.__meshExportApi = { captureImage, recordVideo }
     return () => {
@@ -1236,12 +716,30 @@ export default function MeshCanvas() {
     const renderer = new MeshRenderer(canvas)
     rendererRef.current = renderer
 
+    const effectiveAnimation = (): AnimationSettings => {
+      const anim = store.state.animation
+      return reducedMotionRef.current ? { ...anim, style: 'static', strength: 0 } : anim
+    }
+
+    // Timeline playback renders an animated copy of a keyframed grid.
+    const playingKeyframes = () => store.state.timelinePlaying && hasKeyframes(store.state.grid)
+
     const tick = () => {
-      const { grid, subdivision, canvasBackground, effect } = store.state
+      const { grid, subdivision, adaptiveTessellation, canvasBackground, effect, colorInterpolation } = store.state
       renderer.subdivision = subdivision
+      renderer.adaptive = adaptiveTessellation
       renderer.setBackground(canvasBackground)
       renderer.setEffect(effect)
-      renderer.update(grid)
+      // The animation style decides whether the mesh may be adaptive.
+      renderer.setAnimation(effectiveAnimation(), performance.now() / 1000)
+      const changes = store.takePatchChanges()
+      if (playingKeyframes()) {
+        // Edits made during playback reach the next frame through a new copy.
+        if (changes) keyframePlayerRef.current.reset()
+        return
+      }
+      renderer.update(grid, colorInterpolation, changes)
+      store.reportTessellationStats(renderer.stats)
       drawOverlay()
     }
 
@@ -1251,11 +749,17 @@ export default function MeshCanvas() {
     let rafId = 0
     const frame = (now: number) => {
       if (!exportRenderLockRef.current) {
-        const anim = store.state.animation
-        const effectiveAnimation: AnimationSettings = reducedMotionRef.current
-          ? { ...anim, style: 'static', strength: 0 }
-          : anim
-        renderer.setAnimation(effectiveAnimation, now / 1000)
+        if (store.state.timelinePlaying) {
+          const { grid, colorInterpolation, timeline } = store.state
+          const time = store.playbackTime(now)
+          if (playingKeyframes()) {
+            const animated = keyframePlayerRef.current.frame(grid, time, colorInterpolation)
+            renderer.update(animated.grid, colorInterpolation, animated.changes)
+            drawOverlay(animated.grid)
+          }
+          if (!timeline.loop && time >= timeline.duration) store.setTimelinePlaying(false)
+        }
+        renderer.setAnimation(effectiveAnimation(), now / 1000)
         renderer.render()
         drawPixelationOverlay()
         drawHexagonOverlay()
@@ -1271,12 +775,8 @@ export default function MeshCanvas() {
       cancelAnimationFrame(rafId)
       unsub()
       renderer.dispose()
-      const glass = glassGLRef.current
-      if (glass) {
-        glass.gl.deleteTexture(glass.texture)
-        glass.gl.deleteProgram(glass.program)
-        glassGLRef.current = null
-      }
+      glassRendererRef.current?.dispose()
+      glassRendererRef.current = null
     }
   }, [drawOverlay, drawGlassOverlay, drawHexagonOverlay, drawNoiseOverlay, drawPixelationOverlay, drawSquaresOverlay])
 
@@ -1374,6 +874,24 @@ export default function MeshCanvas() {
     return best
   }, [])
 
+  // Patch split an Alt-click at (cx, cy) would make: Alt inserts a column,
+  // Alt+Shift a row.
+  const getInsertTarget = useCallback((cx: number, cy: number, rowAxis: boolean): InsertPreview | null => {
+    const { width: W, height: H } = store.state.canvasSize
+    const hit = locatePatch(store.state.grid, cx / W, cy / H)
+    if (!hit) return null
+    return rowAxis
+      ? { axis: 'row', index: hit.patchRow, t: hit.v }
+      : { axis: 'col', index: hit.patchCol, t: hit.u }
+  }, [])
+
+  const setInsertPreview = useCallback((next: InsertPreview | null) => {
+    const prev = insertPreviewRef.current
+    if (prev === null && next === null) return
+    insertPreviewRef.current = next
+    drawOverlay()
+  }, [drawOverlay])
+
   const clientXY = useCallback((e: React.PointerEvent) => {
     const rect = overlayRef.current!.getBoundingClientRect()
     return { x: e.clientX - rect.left - OVERLAY_PAD, y: e.clientY - rect.top - OVERLAY_PAD }
@@ -1381,31 +899,78 @@ export default function MeshCanvas() {
 
   // ── Pointer events ────────────────────────────────────────────────────────
   const onPointerDown = useCallback((e: React.PointerEvent) => {
+    // Canvas-only shortcuts (point cycling) follow focus.
+    containerRef.current?.focus({ preventScroll: true })
+    // Edits are keyed at the playhead, so they need it to stand still.
+    store.setTimelinePlaying(false)
     const { x, y } = clientXY(e)
     const hit = getHitPoint(x, y)
 
+    if (e.altKey && hit?.type !== 'handle') {
+      const target = getInsertTarget(x, y, e.shiftKey)
+      if (target) {
+        if (target.axis === 'row') store.insertRow(target.index, target.t)
+        else store.insertColumn(target.index, target.t)
+        setInsertPreview(null)
+        return
+      }
+    }
+
+    const additive = e.shiftKey || e.metaKey || e.ctrlKey
+
     if (!hit) {
-      store.selectPoint(null, null)
+      // Empty space starts a marquee; a plain click (no drag) clears on release.
+      dragRef.current = { type: 'marquee', row: -1, col: -1, lastX: x, lastY: y, startX: x, startY: y, additive }
+      overlayRef.current!.setPointerCapture(e.pointerId)
       return
     }
 
+    const snap = (exclude: PointRef[]) => {
+      const { snapping, artboardSize, grid } = store.state
+      return snapping.enabled ? snapTargets(snapping, artboardSize, grid, exclude) : null
+    }
+    const origin = { lastX: x, lastY: y, originX: x, originY: y }
+
     if (hit.type === 'point') {
-      store.selectPoint(hit.row, hit.col)
-      dragRef.current = { type: 'point', row: hit.row, col: hit.col, lastX: x, lastY: y }
+      if (additive) {
+        store.togglePointSelection(hit.row, hit.col)
+        if (!store.isPointSelected(hit.row, hit.col)) return
+      } else if (store.isPointSelected(hit.row, hit.col)) {
+        // Keep the group so it can be dragged together.
+        store.setActivePoint(hit.row, hit.col)
+      } else {
+        store.selectPoint(hit.row, hit.col)
+      }
+      // The dragged group does not snap to itself.
+      const p = store.state.grid.points[hit.row][hit.col]
+      dragRef.current = {
+        type: 'point', row: hit.row, col: hit.col, ...origin,
+        anchor: { ...p.position }, snap: snap(store.state.selectedPoints),
+      }
     } else {
-      dragRef.current = { type: 'handle', row: hit.row, col: hit.col, handle: hit.handle, lastX: x, lastY: y }
+      store.selectHandle(hit.handle)
+      const p = store.state.grid.points[hit.row][hit.col]
+      dragRef.current = {
+        type: 'handle', row: hit.row, col: hit.col, handle: hit.handle, ...origin,
+        anchor: { ...p.handles[hit.handle] }, snap: snap([]),
+      }
     }
 
     setCursor('grabbing')
     overlayRef.current!.setPointerCapture(e.pointerId)
-  }, [clientXY, getHitPoint])
+  }, [clientXY, getHitPoint, getInsertTarget, setInsertPreview])
 
   const onPointerMove = useCallback((e: React.PointerEvent) => {
     const { x, y } = clientXY(e)
 
     if (!dragRef.current) {
       const hit = getHitPoint(x, y)
-      if (hit?.type === 'point') {
+      const target = e.altKey && hit?.type !== 'handle' ? getInsertTarget(x, y, e.shiftKey) : null
+      setInsertPreview(target)
+      if (target) {
+        store.hoverPoint(null, null)
+        setCursor('copy')
+      } else if (hit?.type === 'point') {
         store.hoverPoint(hit.row, hit.col)
         setCursor('grab')
       } else if (hit?.type === 'handle') {
@@ -1426,34 +991,133 @@ export default function MeshCanvas() {
 
     if (dx === 0 && dy === 0) return
 
+    if (drag.type === 'marquee') {
+      drawOverlay()
+      return
+    }
+    if (!drag.anchor || drag.originX === undefined || drag.originY === undefined) return
+
+    // Cmd/Ctrl held: no snapping for this move.
+    const { width: W, height: H } = store.state.canvasSize
+    const targets = e.metaKey || e.ctrlKey ? null : drag.snap
+    const tolerance = { x: SNAP_DISTANCE / W, y: SNAP_DISTANCE / H }
+    const p = store.state.grid.points[drag.row][drag.col]
+    let v = { x: drag.anchor.x + (x - drag.originX) / W, y: drag.anchor.y + (y - drag.originY) / H }
+    let guides: SnapGuide[] = []
+
     if (drag.type === 'point') {
-      store.movePoint(drag.row, drag.col, dx, dy)
+      if (targets) {
+        const snapped = snapPosition(v, targets, tolerance)
+        v = snapped.position
+        guides = snapped.guides
+      }
+      snapGuidesRef.current = guides
+      const mx = (v.x - p.position.x) * W
+      const my = (v.y - p.position.y) * H
+      if (mx !== 0 || my !== 0) store.moveSelection(mx, my)
+      else drawOverlay()
     } else if (drag.type === 'handle' && drag.handle) {
-      store.moveHandle(drag.row, drag.col, drag.handle, dx, dy)
+      // Shift snaps the handle angle; otherwise its tip snaps like a point.
+      if (e.shiftKey) {
+        v = snapHandleAngle(v, W, H)
+      } else if (targets) {
+        const tip = snapPosition({ x: p.position.x + v.x, y: p.position.y + v.y }, targets, tolerance)
+        v = { x: tip.position.x - p.position.x, y: tip.position.y - p.position.y }
+        guides = tip.guides
+      }
+      snapGuidesRef.current = guides
+      const current = p.handles[drag.handle]
+      const mx = (v.x - current.x) * W
+      const my = (v.y - current.y) * H
+      if (mx !== 0 || my !== 0) store.moveHandle(drag.row, drag.col, drag.handle, mx, my)
+      else drawOverlay()
     }
-  }, [clientXY, getHitPoint])
+  }, [clientXY, drawOverlay, getHitPoint, getInsertTarget, setInsertPreview])
 
   const onPointerUp = useCallback(() => {
-    if (dragRef.current) store.commitSnapshot()
+    const drag = dragRef.current
     dragRef.current = null
+    if (snapGuidesRef.current.length > 0) {
+      snapGuidesRef.current = []
+      drawOverlay()
+    }
+    if (drag?.type === 'marquee' && drag.startX !== undefined && drag.startY !== undefined) {
+      const { width: W, height: H } = store.state.canvasSize
+      const x0 = Math.min(drag.startX, drag.lastX)
+      const x1 = Math.max(drag.startX, drag.lastX)
+      const y0 = Math.min(drag.startY, drag.lastY)
+      const y1 = Math.max(drag.startY, drag.lastY)
+      if (x1 - x0 < MARQUEE_MIN && y1 - y0 < MARQUEE_MIN) {
+        if (!drag.additive) store.selectPoint(null, null)
+      } else {
+        const inside = store.state.grid.points.flatMap((points, row) =>
+          points.flatMap((p, col) => {
+            const px = p.position.x * W
+            const py = p.position.y * H
+            return px >= x0 && px <= x1 && py >= y0 && py <= y1 ? [{ row, col }] : []
+          }))
+        store.selectPoints(inside, drag.additive)
+      }
+      drawOverlay()
+    } else if (drag) {
+      store.endGesture()
+    }
     setCursor('crosshair')
-  }, [])
+  }, [drawOverlay])
 
   // ── Keyboard shortcuts ────────────────────────────────────────────────────
+  // Editing actions of the keymap; file actions and the cheat sheet are the
+  // Toolbar's.
   useEffect(() => {
+    // A held nudge key (auto-repeat) is one history entry; releasing it
+    // ends the gesture.
+    let nudging = false
+    const onKeyUp = () => {
+      if (!nudging) return
+      nudging = false
+      store.endGesture()
+    }
     const onKey = (e: KeyboardEvent) => {
-      if (!(e.metaKey || e.ctrlKey)) return
-      if (e.key === 'z') {
-        e.preventDefault()
-        e.shiftKey ? store.redo() : store.undo()
+      const container = containerRef.current
+      const canvasFocused = container !== null && container.contains(document.activeElement)
+      const shortcut = findShortcut(store.state.keymap, e, canvasFocused)
+      if (!shortcut) return
+      const { action, scale } = shortcut
+      if (action.startsWith('effect.')) {
+        store.setEffectType(action.slice('effect.'.length) as EffectType)
+      } else if (action === 'undo') {
+        store.undo()
+      } else if (action === 'redo') {
+        store.redo()
+      } else if (action === 'selectAll') {
+        store.selectAll()
+      } else if (action === 'deselect') {
+        store.selectPoint(null, null)
+      } else if (action === 'nextPoint' || action === 'previousPoint') {
+        store.cycleSelection(action === 'nextPoint' ? 1 : -1)
+      } else if (action === 'nudgeLeft' || action === 'nudgeRight') {
+        nudging = true
+        store.nudgeSelection(action === 'nudgeLeft' ? -scale : scale, 0)
+      } else if (action === 'nudgeUp' || action === 'nudgeDown') {
+        nudging = true
+        store.nudgeSelection(0, action === 'nudgeUp' ? -scale : scale)
+      } else if (action === 'toggleMeshOverlay') {
+        store.setShowMeshOverlay(!store.state.showMeshOverlay)
+      } else {
+        return
       }
+      e.preventDefault()
     }
     window.addEventListener('keydown', onKey)
-    return () => window.removeEventListener('keydown', onKey)
+    window.addEventListener('keyup', onKeyUp)
+    return () => {
+      window.removeEventListener('keydown', onKey)
+      window.removeEventListener('keyup', onKeyUp)
+    }
   }, [])
 
   return (
-    <div ref={containerRef} style={{ position: 'relative', width: '100%', height: '100%' }}>
+    <div ref={containerRef} tabIndex={0} style={{ position: 'relative', width: '100%', height: '100%', outline: 'none' }}>
       {/* Transparency checkerboard (UI-only, not part of canvas export) */}
       <div
         aria-hidden
@@ -1571,6 +1235,7 @@ export default function MeshCanvas() {
         onPointerUp={onPointerUp}
         onPointerCancel={onPointerUp}
         onPointerLeave={() => {
+          setInsertPreview(null)
           if (!dragRef.current) {
             store.hoverPoint(null, null)
             setCursor('crosshair')
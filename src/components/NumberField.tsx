@@ -0,0 +1,138 @@
+import { useRef, useState } from 'react'
+
+// ─── Expressions ──────────────────────────────────────────────────────────────
+// Numbers with + - * / and parentheses, e.g. "120 / 3 + 8". A trailing unit
+// matching the field's ("40px", "12.5%") is accepted and ignored.
+
+function evaluateExpression(text: string, unit: string): number | null {
+  let src = text.trim()
+  if (unit && src.toLowerCase().endsWith(unit.toLowerCase())) src = src.slice(0, -unit.length)
+  const tokens = src.match(/\d*\.?\d+(?:e[+-]?\d+)?|[-+*/()]|\S/gi)
+  if (!tokens) return null
+  let i = 0
+
+  // expr := term (('+' | '-') term)*
+  const expr = (): number | null => {
+    let left = term()
+    while (left !== null && (tokens[i] === '+' || tokens[i] === '-')) {
+      const op = tokens[i++]
+      const right = term()
+      if (right === null) return null
+      left = op === '+' ? left + right : left - right
+    }
+    return left
+  }
+  // term := factor (('*' | '/') factor)*
+  const term = (): number | null => {
+    let left = factor()
+    while (left !== null && (tokens[i] === '*' || tokens[i] === '/')) {
+      const op = tokens[i++]
+      const right = factor()
+      if (right === null) return null
+      left = op === '*' ? left * right : left / right
+    }
+    return left
+  }
+  // factor := ('-' | '+') factor | '(' expr ')' | number
+  const factor = (): number | null => {
+    const token = tokens[i++]
+    if (token === '-' || token === '+') {
+      const value = factor()
+      return value === null ? null : token === '-' ? -value : value
+    }
+    if (token === '(') {
+      const value = expr()
+      return tokens[i++] === ')' ? value : null
+    }
+    const value = Number(token)
+    return token !== undefined && Number.isFinite(value) ? value : null
+  }
+
+  const value = expr()
+  return value !== null && i === tokens.length && Number.isFinite(value) ? value : null
+}
+
+// ─── Field ────────────────────────────────────────────────────────────────────
+
+interface Props {
+  label: string
+  // null when the selected points disagree.
+  value: number | null
+  unit: string
+  precision: number
+  // Arrow-key step; Shift multiplies it by 10.
+  step: number
+  // Receives a mapping from a point's current value to its new one, so
+  // arrow keys step every selected point from its own value.
+  onChange: (update: (value: number) => number) => void
+  placeholder?: string
+}
+
+const labelStyle: React.CSSProperties = { fontSize: 10, color: 'rgba(255,255,255,0.28)', marginBottom: 3 }
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  minWidth: 0,
+  boxSizing: 'border-box',
+  background: 'rgba(255,255,255,0.06)',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: 4,
+  color: '#fff',
+  padding: '5px 8px',
+  fontSize: 12,
+  outline: 'none',
+}
+
+// Text field for a number: Enter or blur applies the typed expression,
+// Escape reverts, arrow keys step. Invalid input is dropped.
+export default function NumberField({ label, value, unit, precision, step, onChange, placeholder = 'Mixed' }: Props) {
+  // Text being typed; null shows the current value.
+  const [draft, setDraft] = useState<string | null>(null)
+  // Set by Escape so the blur that follows does not apply the draft.
+  const cancelledRef = useRef(false)
+  const shown = value === null ? '' : `${Number(value.toFixed(precision))}`
+
+  const apply = () => {
+    if (cancelledRef.current) {
+      cancelledRef.current = false
+      return
+    }
+    if (draft === null) return
+    setDraft(null)
+    const next = evaluateExpression(draft, unit)
+    if (next === null || (value !== null && next.toFixed(precision) === value.toFixed(precision))) return
+    onChange(() => next)
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur()
+    } else if (e.key === 'Escape') {
+      cancelledRef.current = true
+      setDraft(null)
+      e.currentTarget.blur()
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault()
+      const delta = (e.key === 'ArrowUp' ? step : -step) * (e.shiftKey ? 10 : 1)
+      setDraft(null)
+      onChange(v => v + delta)
+    }
+  }
+
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <div style={labelStyle}>{label}</div>
+      <input
+        style={inputStyle}
+        value={draft ?? shown}
+        placeholder={value === null ? placeholder : undefined}
+        onChange={e => setDraft(e.target.value)}
+        onFocus={e => e.currentTarget.select()}
+        onBlur={apply}
+        onKeyDown={onKeyDown}
+        spellCheck={false}
+        title={unit ? `${label} (${unit})` : label}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState } from 'react'
+import { pickFile } from '../mesh/files'
+import { readFitImage, type FitImage } from '../mesh/imageFit'
+import {
+  extractPalette,
+  harmonyPalette,
+  layoutPalette,
+  MAX_PALETTE_SIZE,
+  MIN_PALETTE_SIZE,
+  parseHexList,
+  type PaletteLayout,
+} from '../mesh/palette'
+import { store } from '../mesh/store'
+import type { Color, HarmonyRule } from '../mesh/types'
+import ColorPicker from './ColorPicker'
+import NumberField from './NumberField'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+}
+
+type PaletteSource = 'harmony' | 'image' | 'hex'
+
+const SOURCES: { value: PaletteSource; label: string }[] = [
+  { value: 'harmony', label: 'Harmony' },
+  { value: 'image', label: 'From image' },
+  { value: 'hex', label: 'Hex list' },
+]
+
+const HARMONY_RULES: { value: HarmonyRule; label: string }[] = [
+  { value: 'analogous', label: 'Analogous' },
+  { value: 'triadic', label: 'Triadic' },
+  { value: 'complementary', label: 'Complementary' },
+  { value: 'splitComplementary', label: 'Split compl.' },
+]
+
+const LAYOUTS: { value: PaletteLayout; label: string; hint: string }[] = [
+  { value: 'luminance', label: 'By luminance', hint: 'Light at the top, dark at the bottom' },
+  { value: 'diagonal', label: 'Diagonal', hint: 'Palette order from the top-left corner' },
+  { value: 'radial', label: 'Radial', hint: 'Palette order from the centre outwards' },
+]
+
+const backdropStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  background: 'rgba(8, 8, 14, 0.68)',
+  backdropFilter: 'blur(3px)',
+  zIndex: 1000,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  padding: 24,
+}
+
+const panelStyle: React.CSSProperties = {
+  width: 'min(720px, calc(100vw - 48px))',
+  maxHeight: 'calc(100vh - 48px)',
+  background: '#0f1020',
+  border: '1px solid rgba(120,115,255,0.35)',
+  borderRadius: 16,
+  boxShadow: '0 30px 80px rgba(0,0,0,0.55)',
+  display: 'flex',
+  flexDirection: 'column',
+  overflow: 'hidden',
+}
+
+const tabBtn = (active: boolean): React.CSSProperties => ({
+  padding: '8px 14px',
+  borderRadius: 8,
+  border: `1px solid ${active ? 'rgba(110,102,255,0.95)' : 'rgba(255,255,255,0.14)'}`,
+  background: active ? 'rgba(110,102,255,0.16)' : 'rgba(255,255,255,0.03)',
+  color: active ? 'rgba(207,203,255,0.98)' : 'rgba(255,255,255,0.6)',
+  fontSize: 13,
+  cursor: 'pointer',
+})
+
+const groupLabel: React.CSSProperties = {
+  fontSize: 10,
+  fontWeight: 600,
+  color: 'rgba(255,255,255,0.35)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.1em',
+  margin: '0 0 8px',
+}
+
+const actionBtn = (disabled: boolean): React.CSSProperties => ({
+  width: '100%',
+  padding: '12px 16px',
+  borderRadius: 12,
+  border: '1px solid rgba(132,125,255,0.9)',
+  background: disabled ? 'rgba(132,125,255,0.45)' : '#7f74ff',
+  color: '#fff',
+  fontSize: 16,
+  fontWeight: 700,
+  cursor: disabled ? 'not-allowed' : 'pointer',
+})
+
+const css = (color: Color) =>
+  `rgba(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)}, ${color.a})`
+
+const clampSize = (n: number) => Math.round(Math.max(MIN_PALETTE_SIZE, Math.min(MAX_PALETTE_SIZE, n)))
+
+// Generates a palette and maps it onto the current grid.
+export default function PaletteModal({ open, onClose }: Props) {
+  const [source, setSource] = useState<PaletteSource>('harmony')
+  const [base, setBase] = useState<Color>({ r: 0.42, g: 0.39, b: 1, a: 1 })
+  const [rule, setRule] = useState<HarmonyRule>('analogous')
+  const [size, setSize] = useState(5)
+  const [image, setImage] = useState<{ name: string; pixels: FitImage } | null>(null)
+  const [imageError, setImageError] = useState<string | null>(null)
+  const [hexText, setHexText] = useState('')
+  const [layout, setLayout] = useState<PaletteLayout>('diagonal')
+
+  // The harmony starts from the active point's color.
+  useEffect(() => {
+    if (!open) return
+    const point = store.getSelectedPoint()
+    if (point) setBase({ ...point.color, a: 1 })
+  }, [open])
+
+  const hexList = useMemo(() => parseHexList(hexText), [hexText])
+
+  const palette = useMemo(() => {
+    if (source === 'harmony') return harmonyPalette(base, rule, size)
+    if (source === 'image') return image ? extractPalette(image.pixels, size) : []
+    return hexList.colors
+  }, [base, hexList, image, rule, size, source])
+
+  const { rows, cols } = store.state.grid
+  const mapped = useMemo(() => layoutPalette(palette, rows, cols, layout), [cols, layout, palette, rows])
+
+  const loadImage = async (file: File | null) => {
+    if (!file) return
+    try {
+      const { image: pixels } = await readFitImage(file)
+      setImage({ name: file.name, pixels })
+      setImageError(null)
+    } catch {
+      setImageError(`Could not read ${file.name} as an image`)
+    }
+  }
+
+  const onDrop = (e: React.DragEvent) => {
+    const file = Array.from(e.dataTransfer.files).find(f => f.type.startsWith('image/'))
+    if (!file) return
+    // Keep the editor-wide drop (mesh from image) out of it.
+    e.preventDefault()
+    e.stopPropagation()
+    void loadImage(file)
+  }
+
+  const apply = () => {
+    if (mapped.length === 0) return
+    store.applyPreset(mapped, 'Apply palette')
+    onClose()
+  }
+
+  if (!open) return null
+
+  return (
+    <div style={backdropStyle} onClick={onClose}>
+      <div role="dialog" aria-modal="true" style={panelStyle} onClick={e => e.stopPropagation()}>
+        <div style={{ padding: '18px 20px 14px 20px', borderBottom: '1px solid rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center' }}>
+          <div style={{ fontSize: 22, color: 'rgba(255,255,255,0.95)' }}>Palette Generator</div>
+          <button onClick={onClose} style={{ marginLeft: 'auto', background: 'transparent', border: 'none', color: 'rgba(255,255,255,0.6)', fontSize: 28, cursor: 'pointer', lineHeight: 0.8 }}>×</button>
+        </div>
+
+        <div style={{ padding: 20, overflowY: 'auto', display: 'grid', gridTemplateColumns: '1fr 220px', gap: 24 }}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 16, minWidth: 0 }}>
+            <div style={{ display: 'flex', gap: 8 }}>
+              {SOURCES.map(s => (
+                <button key={s.value} style={tabBtn(source === s.value)} onClick={() => setSource(s.value)}>{s.label}</button>
+              ))}
+            </div>
+
+            {source === 'harmony' && (
+              <>
+                <div>
+                  <div style={groupLabel}>Base color</div>
+                  <ColorPicker color={base} onChange={color => setBase({ ...color, a: 1 })} />
+                </div>
+                <div>
+                  <div style={groupLabel}>Rule</div>
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 6 }}>
+                    {HARMONY_RULES.map(r => (
+                      <button key={r.value} style={tabBtn(rule === r.value)} onClick={() => setRule(r.value)}>{r.label}</button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {source === 'image' && (
+              <button
+                onClick={() => void pickFile('image/*').then(loadImage)}
+                onDragOver={e => e.preventDefault()}
+                onDrop={onDrop}
+                style={{
+                  height: 140,
+                  borderRadius: 12,
+                  border: '1px dashed rgba(255,255,255,0.2)',
+                  background: 'rgba(255,255,255,0.03)',
+                  color: 'rgba(255,255,255,0.55)',
+                  fontSize: 13,
+                  cursor: 'pointer',
+                }}
+              >
+                {imageError ?? (image ? `${image.name} · click or drop to replace` : 'Choose an image or drop one here')}
+              </button>
+            )}
+
+            {source === 'hex' && (
+              <div>
+                <div style={groupLabel}>Hex colors</div>
+                <textarea
+                  value={hexText}
+                  onChange={e => setHexText(e.target.value)}
+                  placeholder="#6c63ff, #4fc3f7, #f50057"
+                  rows={4}
+                  spellCheck={false}
+                  style={{
+                    width: '100%',
+                    boxSizing: 'border-box',
+                    background: 'rgba(255,255,255,0.06)',
+                    border: '1px solid rgba(255,255,255,0.1)',
+                    borderRadius: 6,
+                    color: '#fff',
+                    padding: 8,
+                    fontSize: 12,
+                    fontFamily: 'monospace',
+                    resize: 'vertical',
+                    outline: 'none',
+                  }}
+                />
+                {hexList.rejected.length > 0 && (
+                  <div style={{ fontSize: 11, color: 'rgba(255,140,140,0.85)', marginTop: 6 }}>
+                    Not hex colors: {hexList.rejected.join(', ')}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {source !== 'hex' && (
+              <div style={{ width: 120 }}>
+                <NumberField
+                  label={source === 'image' ? 'Colors (k)' : 'Colors'}
+                  value={size}
+                  unit=""
+                  precision={0}
+                  step={1}
+                  onChange={update => setSize(clampSize(update(size)))}
+                />
+              </div>
+            )}
+
+            <div>
+              <div style={groupLabel}>Layout</div>
+              <div style={{ display: 'flex', gap: 6 }}>
+                {LAYOUTS.map(l => (
+                  <button key={l.value} style={tabBtn(layout === l.value)} onClick={() => setLayout(l.value)} title={l.hint}>
+                    {l.label}
+                  </button>
+                ))}
+              </div>
+              <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginTop: 6 }}>
+                {LAYOUTS.find(l => l.value === layout)?.hint}
+              </div>
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+            <div>
+              <div style={groupLabel}>Palette</div>
+              <div style={{ display: 'flex', height: 28, borderRadius: 6, overflow: 'hidden', border: '1px solid rgba(255,255,255,0.08)' }}>
+                {palette.length === 0
+                  ? <span style={{ margin: 'auto', fontSize: 11, color: 'rgba(255,255,255,0.35)' }}>No colors yet</span>
+                  : palette.map((color, i) => <div key={i} style={{ flex: 1, background: css(color) }} />)}
+              </div>
+            </div>
+            <div>
+              <div style={groupLabel}>On the {rows}×{cols} grid</div>
+              <div style={{ display: 'grid', gridTemplateColumns: `repeat(${cols}, 1fr)`, gap: 3 }}>
+                {mapped.flat().map((color, i) => (
+                  <div key={i} style={{ aspectRatio: '1', borderRadius: 4, background: css(color) }} />
+                ))}
+              </div>
+            </div>
+            <button style={actionBtn(mapped.length === 0)} disabled={mapped.length === 0} onClick={apply}>
+              Apply palette
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
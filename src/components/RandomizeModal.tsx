@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react'
+import { MAX_HANDLE_JITTER, MAX_POSITION_JITTER, randomSeed } from '../mesh/randomize'
+import { store } from '../mesh/store'
+import type { HarmonyRule, RandomizeSettings } from '../mesh/types'
+import NumberField from './NumberField'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+}
+
+const HARMONIES: { value: HarmonyRule | 'none'; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'analogous', label: 'Analogous' },
+  { value: 'triadic', label: 'Triadic' },
+  { value: 'complementary', label: 'Complementary' },
+  { value: 'splitComplementary', label: 'Split compl.' },
+]
+
+const backdropStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  background: 'rgba(8, 8, 14, 0.68)',
+  backdropFilter: 'blur(3px)',
+  zIndex: 1000,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  padding: 24,
+}
+
+const panelStyle: React.CSSProperties = {
+  width: 'min(560px, calc(100vw - 48px))',
+  maxHeight: 'calc(100vh - 48px)',
+  background: '#0f1020',
+  border: '1px solid rgba(120,115,255,0.35)',
+  borderRadius: 16,
+  boxShadow: '0 30px 80px rgba(0,0,0,0.55)',
+  display: 'flex',
+  flexDirection: 'column',
+  overflow: 'hidden',
+}
+
+const tabBtn = (active: boolean): React.CSSProperties => ({
+  padding: '8px 12px',
+  borderRadius: 8,
+  border: `1px solid ${active ? 'rgba(110,102,255,0.95)' : 'rgba(255,255,255,0.14)'}`,
+  background: active ? 'rgba(110,102,255,0.16)' : 'rgba(255,255,255,0.03)',
+  color: active ? 'rgba(207,203,255,0.98)' : 'rgba(255,255,255,0.6)',
+  fontSize: 12,
+  cursor: 'pointer',
+})
+
+const groupLabel: React.CSSProperties = {
+  fontSize: 10,
+  fontWeight: 600,
+  color: 'rgba(255,255,255,0.35)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.1em',
+  margin: '0 0 8px',
+}
+
+const actionBtn: React.CSSProperties = {
+  width: '100%',
+  padding: '12px 16px',
+  borderRadius: 12,
+  border: '1px solid rgba(132,125,255,0.9)',
+  background: '#7f74ff',
+  color: '#fff',
+  fontSize: 15,
+  fontWeight: 700,
+  cursor: 'pointer',
+}
+
+// Seeded randomization with color constraints and optional jitter. The
+// settings live in the document, so the dialog opens on the last ones used.
+export default function RandomizeModal({ open, onClose }: Props) {
+  const [settings, setSettings] = useState<RandomizeSettings>(store.state.randomize)
+
+  useEffect(() => {
+    if (open) setSettings(store.state.randomize)
+  }, [open])
+
+  const update = (patch: Partial<RandomizeSettings>) => setSettings(s => ({ ...s, ...patch }))
+
+  // Applies the dialog's settings; the store clamps them and the dialog
+  // shows what was actually used.
+  const apply = (patch: Partial<RandomizeSettings> = {}) => {
+    store.randomize({ ...settings, ...patch })
+    setSettings(store.state.randomize)
+  }
+
+  if (!open) return null
+
+  // Percent fields for the 0–1 bounds.
+  const percentField = (label: string, key: 'saturationMin' | 'saturationMax' | 'lightnessMin' | 'lightnessMax') => (
+    <NumberField
+      label={label}
+      value={Math.round(settings[key] * 100)}
+      unit="%"
+      precision={0}
+      step={1}
+      onChange={fn => update({ [key]: fn(settings[key] * 100) / 100 })}
+    />
+  )
+
+  return (
+    <div style={backdropStyle} onClick={onClose}>
+      <div role="dialog" aria-modal="true" style={panelStyle} onClick={e => e.stopPropagation()}>
+        <div style={{ padding: '18px 20px 14px 20px', borderBottom: '1px solid rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center' }}>
+          <div style={{ fontSize: 22, color: 'rgba(255,255,255,0.95)' }}>Randomize</div>
+          <button onClick={onClose} style={{ marginLeft: 'auto', background: 'transparent', border: 'none', color: 'rgba(255,255,255,0.6)', fontSize: 28, cursor: 'pointer', lineHeight: 0.8 }}>×</button>
+        </div>
+
+        <div style={{ padding: 20, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 18 }}>
+          <div>
+            <div style={groupLabel}>Seed</div>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end' }}>
+              <NumberField
+                label="Same seed, same colors"
+                value={settings.seed}
+                unit=""
+                precision={0}
+                step={1}
+                onChange={fn => update({ seed: Math.round(fn(settings.seed)) })}
+              />
+              <button style={tabBtn(false)} onClick={() => apply({ seed: randomSeed() })} title="Pick a new seed and apply it">
+                🎲 New seed
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <div style={groupLabel}>Colors</div>
+            <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+              <NumberField label="Hue from" value={settings.hueMin} unit="°" precision={0} step={5} onChange={fn => update({ hueMin: fn(settings.hueMin) })} />
+              <NumberField label="Hue to" value={settings.hueMax} unit="°" precision={0} step={5} onChange={fn => update({ hueMax: fn(settings.hueMax) })} />
+            </div>
+            <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+              {percentField('Saturation min', 'saturationMin')}
+              {percentField('Saturation max', 'saturationMax')}
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+              {percentField('Lightness min', 'lightnessMin')}
+              {percentField('Lightness max', 'lightnessMax')}
+            </div>
+            <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginTop: 6 }}>
+              A hue range with "from" above "to" wraps through red (e.g. 300° to 60°).
+            </div>
+          </div>
+
+          <div>
+            <div style={groupLabel}>Harmony</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+              {HARMONIES.map(h => (
+                <button key={h.value} style={tabBtn(settings.harmony === h.value)} onClick={() => update({ harmony: h.value })}>
+                  {h.label}
+                </button>
+              ))}
+            </div>
+            <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginTop: 6 }}>
+              {settings.harmony === 'none'
+                ? 'Each point takes any hue in the range.'
+                : 'One base hue is drawn from the range; points take the rule\'s hues around it.'}
+            </div>
+          </div>
+
+          <div>
+            <div style={groupLabel}>Jitter</div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: 'rgba(255,255,255,0.55)', marginBottom: 6 }}>
+              <span>Point positions</span>
+              <span>{Math.round(settings.positionJitter * 100)}% of spacing</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_POSITION_JITTER}
+              step={0.01}
+              value={settings.positionJitter}
+              onChange={e => update({ positionJitter: Number(e.target.value) })}
+              style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer', marginBottom: 10 }}
+            />
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: 'rgba(255,255,255,0.55)', marginBottom: 6 }}>
+              <span>Handle angles</span>
+              <span>±{Math.round(settings.handleJitter)}°</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_HANDLE_JITTER}
+              step={1}
+              value={settings.handleJitter}
+              onChange={e => update({ handleJitter: Number(e.target.value) })}
+              style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+            />
+            <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginTop: 6 }}>
+              With position jitter the points start from an even grid; without any jitter, only colors change.
+            </div>
+          </div>
+
+          <button style={actionBtn} onClick={() => apply()}>Randomize</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react'
+import { MAX_SNAP_GRID_SIZE, MIN_SNAP_GRID_SIZE } from '../mesh/snapping'
 import { store } from '../mesh/store'
 import type {
   AnimationStyle,
@@ -10,6 +11,7 @@ import type {
   PixelationSettings,
   SquaresSettings,
 } from '../mesh/types'
+import HistorySlider from './HistorySlider'
 
 const panel: React.CSSProperties = {
   width: 268,
@@ -39,6 +41,12 @@ const sectionLabel: React.CSSProperties = {
 
 const row: React.CSSProperties = { display: 'flex', gap: 6, alignItems: 'center' }
 
+const SNAP_TARGET_OPTIONS: { key: 'artboard' | 'grid' | 'points'; label: string }[] = [
+  { key: 'artboard', label: 'Artboard' },
+  { key: 'grid', label: 'Grid' },
+  { key: 'points', label: 'Points' },
+]
+
 const modeBtn = (active: boolean): React.CSSProperties => ({
   flex: 1,
   padding: '5px 0',
@@ -268,6 +276,10 @@ export default function RightPanel() {
   const strengthMin = isSmooth ? 0.5 : 0
   const strengthMax = isSmooth ? 2 : 1
   const showMeshOverlay = store.state.showMeshOverlay
+  const { adaptiveTessellation, tessellationStats, snapping } = store.state
+  const savedVertices = tessellationStats
+    ? tessellationStats.uniformVertexCount - tessellationStats.vertexCount
+    : 0
   const effect = store.state.effect
   const effectCfg = EFFECT_CONTROL_CONFIG[effect.type]
   const glass = store.state.glass
@@ -332,14 +344,12 @@ export default function RightPanel() {
                 <span>Speed</span>
                 <span>{animation.speed.toFixed(2)}x</span>
               </div>
-              <input
-                type="range"
+              <HistorySlider
                 min={speedMin}
                 max={speedMax}
                 step={0.05}
                 value={animation.speed}
-                onChange={e => store.setAnimationSpeed(Number(e.target.value))}
-                style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                onChange={value => store.setAnimationSpeed(value)}
               />
             </div>
 
@@ -348,14 +358,12 @@ export default function RightPanel() {
                 <span>Strength</span>
                 <span>{animation.strength.toFixed(2)}</span>
               </div>
-              <input
-                type="range"
+              <HistorySlider
                 min={strengthMin}
                 max={strengthMax}
                 step={0.01}
                 value={animation.strength}
-                onChange={e => store.setAnimationStrength(Number(e.target.value))}
-                style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                onChange={value => store.setAnimationStrength(value)}
               />
             </div>
           </>
@@ -408,6 +416,90 @@ export default function RightPanel() {
             Preview modu: Mesh noktaları gizlendi.
           </div>
         )}
+
+        <div style={{ ...row, marginTop: 12, marginBottom: 8 }}>
+          <button style={modeBtn(adaptiveTessellation)} onClick={() => store.setAdaptiveTessellation(true)}>
+            Adaptive
+          </button>
+          <button style={modeBtn(!adaptiveTessellation)} onClick={() => store.setAdaptiveTessellation(false)}>
+            Uniform
+          </button>
+        </div>
+        {tessellationStats && (
+          <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.45)' }}>
+            {tessellationStats.vertexCount.toLocaleString()} vertices
+            {savedVertices > 0
+              ? ` · ${savedVertices.toLocaleString()} fewer than uniform (${Math.round((savedVertices / tessellationStats.uniformVertexCount) * 100)}%)`
+              : ''}
+          </div>
+        )}
+      </div>
+
+      <div style={{ ...section, borderBottom: 'none', borderTop: '1px solid rgba(255,255,255,0.06)' }}>
+        <div style={{ ...row, justifyContent: 'space-between', marginBottom: 10 }}>
+          <span style={{ ...sectionLabel, marginBottom: 0 }}>Snapping</span>
+          <button
+            onClick={() => store.setSnapping({ enabled: !snapping.enabled })}
+            style={{
+              width: 42,
+              height: 24,
+              borderRadius: 999,
+              border: `1px solid ${snapping.enabled ? 'rgba(108,99,255,0.7)' : 'rgba(255,255,255,0.16)'}`,
+              background: snapping.enabled ? 'rgba(108,99,255,0.95)' : 'rgba(255,255,255,0.12)',
+              position: 'relative',
+              cursor: 'pointer',
+              padding: 0,
+            }}
+            aria-label="Toggle snapping"
+          >
+            <span
+              style={{
+                position: 'absolute',
+                top: 2,
+                left: snapping.enabled ? 20 : 2,
+                width: 18,
+                height: 18,
+                borderRadius: '50%',
+                background: '#f0efff',
+                transition: 'left 0.12s ease',
+              }}
+            />
+          </button>
+        </div>
+
+        {snapping.enabled && (
+          <>
+            <div style={{ ...row, marginBottom: 10 }}>
+              {SNAP_TARGET_OPTIONS.map(option => (
+                <button
+                  key={option.key}
+                  style={modeBtn(snapping[option.key])}
+                  onClick={() => store.setSnapping({ [option.key]: !snapping[option.key] })}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {snapping.grid && (
+              <div style={{ marginBottom: 8 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: 'rgba(255,255,255,0.55)', marginBottom: 6 }}>
+                  <span>Grid Size</span>
+                  <span>{snapping.gridSize}px</span>
+                </div>
+                <HistorySlider
+                  min={MIN_SNAP_GRID_SIZE}
+                  max={MAX_SNAP_GRID_SIZE}
+                  step={1}
+                  value={snapping.gridSize}
+                  onChange={value => store.setSnapping({ gridSize: value })}
+                />
+              </div>
+            )}
+          </>
+        )}
+        <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.45)', lineHeight: 1.5 }}>
+          Hold Cmd/Ctrl mid-drag to move freely. Shift snaps handle angles to 15°.
+        </div>
       </div>
 
       <div style={{ ...section, borderBottom: 'none', borderTop: '1px solid rgba(255,255,255,0.06)' }}>
@@ -477,14 +569,12 @@ export default function RightPanel() {
                         <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.78)' }}>{slider.label}</span>
                         <span style={valuePill}>{formatGlassValue(slider.key, glass[slider.key])}</span>
                       </div>
-                      <input
-                        type="range"
+                      <HistorySlider
                         min={slider.min}
                         max={slider.max}
                         step={slider.step}
                         value={glass[slider.key]}
-                        onChange={e => store.setGlassParam(slider.key, Number(e.target.value))}
-                        style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                        onChange={value => store.setGlassParam(slider.key, value)}
                       />
                       {idx !== arr.length - 1 && (
                         <div style={{ height: 1, background: 'rgba(255,255,255,0.08)', marginTop: 10 }} />
@@ -521,14 +611,12 @@ export default function RightPanel() {
                       <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.78)' }}>{slider.label}</span>
                       <span style={valuePill}>{formatHexagonValue(slider.key, hexagon[slider.key])}</span>
                     </div>
-                    <input
-                      type="range"
+                    <HistorySlider
                       min={slider.min}
                       max={slider.max}
                       step={slider.step}
                       value={hexagon[slider.key]}
-                      onChange={e => store.setHexagonParam(slider.key, Number(e.target.value))}
-                      style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                      onChange={value => store.setHexagonParam(slider.key, value)}
                     />
                     {idx !== HEXAGON_SLIDERS.length - 1 && (
                       <div style={{ height: 1, background: 'rgba(255,255,255,0.08)', marginTop: 10 }} />
@@ -565,14 +653,12 @@ export default function RightPanel() {
                       <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.78)' }}>{slider.label}</span>
                       <span style={valuePill}>{formatSquaresValue(slider.key, squares[slider.key])}</span>
                     </div>
-                    <input
-                      type="range"
+                    <HistorySlider
                       min={slider.min}
                       max={slider.max}
                       step={slider.step}
                       value={squares[slider.key]}
-                      onChange={e => store.setSquaresParam(slider.key, Number(e.target.value))}
-                      style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                      onChange={value => store.setSquaresParam(slider.key, value)}
                     />
                     {idx !== SQUARES_SLIDERS.length - 1 && (
                       <div style={{ height: 1, background: 'rgba(255,255,255,0.08)', marginTop: 10 }} />
@@ -590,14 +676,12 @@ export default function RightPanel() {
                       <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.78)' }}>{slider.label}</span>
                       <span style={valuePill}>{formatPixelationValue(slider.key, pixelation[slider.key])}</span>
                     </div>
-                    <input
-                      type="range"
+                    <HistorySlider
                       min={slider.min}
                       max={slider.max}
                       step={slider.step}
                       value={pixelation[slider.key]}
-                      onChange={e => store.setPixelationParam(slider.key, Number(e.target.value))}
-                      style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                      onChange={value => store.setPixelationParam(slider.key, value)}
                     />
                     {idx !== PIXELATION_SLIDERS.length - 1 && (
                       <div style={{ height: 1, background: 'rgba(255,255,255,0.08)', marginTop: 10 }} />
@@ -655,14 +739,12 @@ export default function RightPanel() {
                   <span>Opacity</span>
                   <span>{effect.opacity.toFixed(2)}</span>
                 </div>
-                <input
-                  type="range"
+                <HistorySlider
                   min={0}
                   max={1}
                   step={0.01}
                   value={effect.opacity}
-                  onChange={e => store.setEffectOpacity(Number(e.target.value))}
-                  style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                  onChange={value => store.setEffectOpacity(value)}
                 />
               </div>
             )}
@@ -673,14 +755,12 @@ export default function RightPanel() {
                   <span>Scale</span>
                   <span>{effect.scale}</span>
                 </div>
-                <input
-                  type="range"
+                <HistorySlider
                   min={effectCfg.scaleMin}
                   max={effectCfg.scaleMax}
                   step={1}
                   value={effect.scale}
-                  onChange={e => store.setEffectScale(Number(e.target.value))}
-                  style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                  onChange={value => store.setEffectScale(value)}
                 />
               </div>
             )}
@@ -691,14 +771,12 @@ export default function RightPanel() {
                   <span>Rotate</span>
                   <span>{Math.round(effect.rotate)}°</span>
                 </div>
-                <input
-                  type="range"
+                <HistorySlider
                   min={-180}
                   max={180}
                   step={1}
                   value={effect.rotate}
-                  onChange={e => store.setEffectRotate(Number(e.target.value))}
-                  style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                  onChange={value => store.setEffectRotate(value)}
                 />
               </div>
             )}
@@ -800,14 +878,12 @@ export default function RightPanel() {
                 <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.78)' }}>Intensity</span>
                 <span style={valuePill}>{noise.intensity.toFixed(2)}</span>
               </div>
-              <input
-                type="range"
+              <HistorySlider
                 min={0}
                 max={1}
                 step={0.01}
                 value={noise.intensity}
-                onChange={e => store.setNoiseIntensity(Number(e.target.value))}
-                style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                onChange={value => store.setNoiseIntensity(value)}
               />
             </div>
 
@@ -818,14 +894,12 @@ export default function RightPanel() {
                 <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.78)' }}>Size</span>
                 <span style={valuePill}>{noise.size.toFixed(2)}</span>
               </div>
-              <input
-                type="range"
+              <HistorySlider
                 min={0.1}
                 max={4}
                 step={0.01}
                 value={noise.size}
-                onChange={e => store.setNoiseSize(Number(e.target.value))}
-                style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                onChange={value => store.setNoiseSize(value)}
               />
             </div>
 
@@ -836,14 +910,12 @@ export default function RightPanel() {
                 <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.78)' }}>Speed</span>
                 <span style={valuePill}>{noise.speed.toFixed(2)}</span>
               </div>
-              <input
-                type="range"
+              <HistorySlider
                 min={0}
                 max={1.5}
                 step={0.01}
                 value={noise.speed}
-                onChange={e => store.setNoiseSpeed(Number(e.target.value))}
-                style={{ width: '100%', accentColor: '#6c63ff', cursor: 'pointer' }}
+                onChange={value => store.setNoiseSpeed(value)}
               />
             </div>
           </>
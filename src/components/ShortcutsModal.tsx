@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react'
+import { eventBinding, formatBinding, SHORTCUTS, type ShortcutAction, type ShortcutDefinition } from '../mesh/keymap'
+import { store } from '../mesh/store'
+
+interface Props {
+  open: boolean
+  onClose: () => void
+}
+
+const backdropStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  background: 'rgba(8, 8, 14, 0.68)',
+  backdropFilter: 'blur(3px)',
+  zIndex: 1000,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  padding: 24,
+}
+
+const panelStyle: React.CSSProperties = {
+  width: 'min(720px, calc(100vw - 48px))',
+  maxHeight: 'calc(100vh - 48px)',
+  background: '#0f1020',
+  border: '1px solid rgba(120,115,255,0.35)',
+  borderRadius: 16,
+  boxShadow: '0 30px 80px rgba(0,0,0,0.55)',
+  display: 'flex',
+  flexDirection: 'column',
+  overflow: 'hidden',
+}
+
+const groupLabel: React.CSSProperties = {
+  fontSize: 10,
+  fontWeight: 600,
+  color: 'rgba(255,255,255,0.35)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.1em',
+  margin: '0 0 8px',
+}
+
+const keyBtn = (recording: boolean): React.CSSProperties => ({
+  minWidth: 64,
+  padding: '4px 10px',
+  borderRadius: 6,
+  border: `1px solid ${recording ? 'rgba(110,102,255,0.95)' : 'rgba(255,255,255,0.14)'}`,
+  background: recording ? 'rgba(110,102,255,0.16)' : 'rgba(255,255,255,0.05)',
+  color: recording ? 'rgba(207,203,255,0.98)' : 'rgba(255,255,255,0.8)',
+  fontSize: 12,
+  fontFamily: 'monospace',
+  cursor: 'pointer',
+})
+
+const GROUPS: ShortcutDefinition['group'][] = ['File', 'Edit', 'Selection', 'View', 'Effects']
+
+// Cheat sheet of every shortcut. Clicking a binding records the next key
+// press as its new one: Escape cancels, Backspace/Delete unbinds.
+export default function ShortcutsModal({ open, onClose }: Props) {
+  const [, setTick] = useState(0)
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+
+  useEffect(() => {
+    const unsub = store.subscribe(() => setTick(n => n + 1))
+    return () => unsub()
+  }, [])
+
+  useEffect(() => {
+    if (!open) setRecording(null)
+  }, [open])
+
+  useEffect(() => {
+    if (!open) return
+    // Capture phase: while recording, no other shortcut sees the key.
+    // Otherwise shortcuts are off while the sheet is open, so its own
+    // binding closes it here.
+    const onKey = (e: KeyboardEvent) => {
+      if (!recording) {
+        if (e.key === 'Escape' || eventBinding(e) === store.state.keymap.showShortcuts) {
+          e.preventDefault()
+          onClose()
+        }
+        return
+      }
+      e.preventDefault()
+      e.stopImmediatePropagation()
+      if (e.key === 'Escape') {
+        setRecording(null)
+      } else if (e.key === 'Backspace' || e.key === 'Delete') {
+        store.setShortcut(recording, null)
+        setRecording(null)
+      } else {
+        const binding = eventBinding(e)
+        if (!binding) return
+        store.setShortcut(recording, binding)
+        setRecording(null)
+      }
+    }
+    window.addEventListener('keydown', onKey, true)
+    return () => window.removeEventListener('keydown', onKey, true)
+  }, [onClose, open, recording])
+
+  if (!open) return null
+
+  const { keymap } = store.state
+
+  return (
+    <div style={backdropStyle} onClick={onClose}>
+      <div role="dialog" aria-modal="true" style={panelStyle} onClick={e => e.stopPropagation()}>
+        <div style={{ padding: '18px 20px 14px 20px', borderBottom: '1px solid rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center' }}>
+          <div style={{ fontSize: 22, color: 'rgba(255,255,255,0.95)' }}>Keyboard Shortcuts</div>
+          <button onClick={onClose} style={{ marginLeft: 'auto', background: 'transparent', border: 'none', color: 'rgba(255,255,255,0.6)', fontSize: 28, cursor: 'pointer', lineHeight: 0.8 }}>×</button>
+        </div>
+
+        <div style={{ padding: 20, overflowY: 'auto', display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '18px 28px' }}>
+          {GROUPS.map(group => (
+            <div key={group}>
+              <div style={groupLabel}>{group}</div>
+              {SHORTCUTS.filter(s => s.group === group).map(s => (
+                <div key={s.action} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, marginBottom: 6 }}>
+                  <span style={{ fontSize: 12, color: 'rgba(255,255,255,0.7)' }}>
+                    {s.label}
+                    {s.shiftScales && <span style={{ color: 'rgba(255,255,255,0.35)' }}> (Shift ×10)</span>}
+                    {s.canvasOnly && <span style={{ color: 'rgba(255,255,255,0.35)' }}> (canvas focused)</span>}
+                  </span>
+                  <button
+                    style={keyBtn(recording === s.action)}
+                    onClick={() => setRecording(recording === s.action ? null : s.action)}
+                    title="Click, then press the new shortcut"
+                  >
+                    {recording === s.action ? 'Press keys…' : formatBinding(keymap[s.action])}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ padding: '12px 20px', borderTop: '1px solid rgba(255,255,255,0.08)', display: 'flex', alignItems: 'center', gap: 12 }}>
+          <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.45)' }}>
+            {recording
+              ? 'Press the new shortcut. Esc cancels, Backspace removes it.'
+              : 'Click a shortcut to change it. Changes are saved in this browser.'}
+          </span>
+          <button
+            onClick={() => store.resetShortcuts()}
+            style={{ ...keyBtn(false), marginLeft: 'auto', fontFamily: 'inherit' }}
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
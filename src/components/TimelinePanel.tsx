@@ -0,0 +1,266 @@
+import { useEffect, useRef, useState } from 'react'
+import { KEYFRAME_EASINGS, keyframeTimes, MAX_TIMELINE_DURATION, MIN_TIMELINE_DURATION, sameTime } from '../mesh/keyframes'
+import { store } from '../mesh/store'
+import type { KeyframeEasing, MeshPoint } from '../mesh/types'
+import HistorySlider from './HistorySlider'
+
+const EASING_LABELS: Record<KeyframeEasing, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease in',
+  easeOut: 'Ease out',
+  easeInOut: 'Ease in-out',
+  hold: 'Hold',
+}
+
+const bar: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 8,
+  padding: '10px 16px 12px',
+  background: '#1a1a1a',
+  borderTop: '1px solid rgba(255,255,255,0.07)',
+}
+
+const row: React.CSSProperties = { display: 'flex', gap: 6, alignItems: 'center' }
+
+const btn = (active = false): React.CSSProperties => ({
+  minWidth: 28,
+  height: 24,
+  padding: '0 8px',
+  background: active ? 'rgba(108,99,255,0.3)' : 'rgba(255,255,255,0.04)',
+  border: `1px solid ${active ? 'rgba(108,99,255,0.6)' : 'rgba(255,255,255,0.09)'}`,
+  borderRadius: 4,
+  color: active ? '#c5c2ff' : 'rgba(255,255,255,0.65)',
+  fontSize: 11,
+  cursor: 'pointer',
+})
+
+const readout: React.CSSProperties = {
+  minWidth: 92,
+  fontSize: 11,
+  color: 'rgba(255,255,255,0.7)',
+  fontVariantNumeric: 'tabular-nums',
+}
+
+const selectStyle: React.CSSProperties = {
+  height: 24,
+  background: 'rgba(255,255,255,0.06)',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: 4,
+  color: '#fff',
+  fontSize: 11,
+  padding: '0 6px',
+}
+
+const label: React.CSSProperties = { fontSize: 11, color: 'rgba(255,255,255,0.45)' }
+
+// Keyframe drag in progress: the keyframe time it started from and where it
+// would land. Committed as one move on release.
+interface KeyframeDrag {
+  pointerId: number
+  from: number
+  to: number
+}
+
+export default function TimelinePanel() {
+  const [, setTick] = useState(0)
+  const trackRef = useRef<HTMLDivElement>(null)
+  const seekPointerRef = useRef<number | null>(null)
+  const [drag, setDrag] = useState<KeyframeDrag | null>(null)
+
+  useEffect(() => {
+    const unsub = store.subscribe(() => setTick(n => n + 1))
+    return () => unsub()
+  }, [])
+
+  const { timeline, timelinePlaying, timelineTime, grid, selectedPoints, selectedPoint } = store.state
+
+  // The playhead advances without store notifications while playing.
+  useEffect(() => {
+    if (!timelinePlaying) return
+    let rafId = 0
+    const frame = () => {
+      setTick(n => n + 1)
+      rafId = requestAnimationFrame(frame)
+    }
+    rafId = requestAnimationFrame(frame)
+    return () => cancelAnimationFrame(rafId)
+  }, [timelinePlaying])
+
+  const time = store.playbackTime()
+  const { duration } = timeline
+  // Markers of the selected points, or of every point without a selection.
+  const times = keyframeTimes(grid, selectedPoints.length > 0 ? selectedPoints : undefined)
+  const onKeyframe = !timelinePlaying && times.some(t => sameTime(t, timelineTime))
+  // Easing shown for the keyframe at the playhead: the active point's, else
+  // the first one found.
+  const keyAtPlayhead = (p: MeshPoint) => p.keyframes.find(k => sameTime(k.time, timelineTime))
+  const active = selectedPoint ? grid.points[selectedPoint.row][selectedPoint.col] : null
+  const easing = (active && keyAtPlayhead(active)) ?? grid.points.flat().map(keyAtPlayhead).find(k => k)
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect()
+    if (!rect || rect.width <= 0) return 0
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width))
+    return Math.round(ratio * duration * 100) / 100
+  }
+
+  const onTrackPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    seekPointerRef.current = e.pointerId
+    e.currentTarget.setPointerCapture(e.pointerId)
+    store.seekTimeline(timeAt(e.clientX))
+  }
+
+  const onTrackPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag?.pointerId === e.pointerId) {
+      setDrag({ ...drag, to: timeAt(e.clientX) })
+    } else if (seekPointerRef.current === e.pointerId) {
+      store.seekTimeline(timeAt(e.clientX))
+    }
+  }
+
+  const onTrackPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag?.pointerId === e.pointerId) {
+      setDrag(null)
+      if (sameTime(drag.from, drag.to)) store.seekTimeline(drag.from)
+      else store.moveKeyframes(drag.from, drag.to)
+    }
+    if (seekPointerRef.current === e.pointerId) seekPointerRef.current = null
+  }
+
+  const onMarkerPointerDown = (e: React.PointerEvent<HTMLDivElement>, t: number) => {
+    e.stopPropagation()
+    store.setTimelinePlaying(false)
+    trackRef.current?.setPointerCapture(e.pointerId)
+    setDrag({ pointerId: e.pointerId, from: t, to: t })
+  }
+
+  const previous = [...times].reverse().find(t => t < time - 1e-3)
+  const next = times.find(t => t > time + 1e-3)
+  const percent = (t: number) => `${(Math.min(t, duration) / duration) * 100}%`
+
+  return (
+    <div style={bar}>
+      <div style={row}>
+        <button
+          style={btn(timelinePlaying)}
+          onClick={() => store.setTimelinePlaying(!timelinePlaying)}
+          title={timelinePlaying ? 'Pause timeline' : 'Play timeline'}
+        >
+          {timelinePlaying ? '❚❚' : '▶'}
+        </button>
+        <button
+          style={btn()}
+          disabled={previous === undefined}
+          onClick={() => previous !== undefined && store.seekTimeline(previous)}
+          title="Previous keyframe"
+        >
+          ◀◆
+        </button>
+        <button
+          style={btn(onKeyframe)}
+          disabled={selectedPoints.length === 0}
+          onClick={() => {
+            store.setTimelinePlaying(false)
+            store.addKeyframe()
+          }}
+          title="Keyframe the selected points at the playhead"
+        >
+          ◆
+        </button>
+        <button
+          style={btn()}
+          disabled={next === undefined}
+          onClick={() => next !== undefined && store.seekTimeline(next)}
+          title="Next keyframe"
+        >
+          ◆▶
+        </button>
+        <span style={readout}>{time.toFixed(2)}s / {duration.toFixed(2)}s</span>
+
+        {onKeyframe && (
+          <>
+            <select
+              value={easing?.easing ?? ''}
+              onChange={e => store.setKeyframeEasing(e.target.value as KeyframeEasing)}
+              style={selectStyle}
+              title="Easing from this keyframe to the next"
+            >
+              {!easing && <option value="" disabled>Easing</option>}
+              {KEYFRAME_EASINGS.map(name => (
+                <option key={name} value={name}>{EASING_LABELS[name]}</option>
+              ))}
+            </select>
+            <button style={btn()} onClick={() => store.removeKeyframe()} title="Remove the keyframes at the playhead">
+              Remove
+            </button>
+          </>
+        )}
+
+        <div style={{ flex: 1 }} />
+        <span style={label}>Duration</span>
+        <HistorySlider
+          min={MIN_TIMELINE_DURATION}
+          max={MAX_TIMELINE_DURATION}
+          step={0.5}
+          value={duration}
+          onChange={value => store.setTimelineDuration(value)}
+          width={110}
+        />
+        <button style={btn(timeline.loop)} onClick={() => store.setTimelineLoop(!timeline.loop)} title="Loop playback">
+          Loop
+        </button>
+      </div>
+
+      <div
+        ref={trackRef}
+        onPointerDown={onTrackPointerDown}
+        onPointerMove={onTrackPointerMove}
+        onPointerUp={onTrackPointerUp}
+        onPointerCancel={onTrackPointerUp}
+        style={{
+          position: 'relative',
+          height: 22,
+          borderRadius: 4,
+          background: 'rgba(255,255,255,0.04)',
+          border: '1px solid rgba(255,255,255,0.08)',
+          cursor: 'pointer',
+        }}
+      >
+        {times.map(t => {
+          const dragging = drag !== null && sameTime(drag.from, t)
+          const at = dragging ? drag.to : t
+          const current = !timelinePlaying && sameTime(t, timelineTime)
+          return (
+            <div
+              key={t}
+              onPointerDown={e => onMarkerPointerDown(e, t)}
+              title={`${t.toFixed(2)}s`}
+              style={{
+                position: 'absolute',
+                left: percent(at),
+                top: '50%',
+                width: 9,
+                height: 9,
+                transform: 'translate(-50%, -50%) rotate(45deg)',
+                background: current || dragging ? '#c5c2ff' : 'rgba(255,255,255,0.55)',
+                border: '1px solid rgba(16,16,20,0.9)',
+                cursor: 'ew-resize',
+              }}
+            />
+          )
+        })}
+        <div style={{
+          position: 'absolute',
+          left: percent(time),
+          top: -3,
+          bottom: -3,
+          width: 2,
+          marginLeft: -1,
+          background: '#6c63ff',
+          pointerEvents: 'none',
+        }} />
+      </div>
+    </div>
+  )
+}
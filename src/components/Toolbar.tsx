@@ -1,6 +1,18 @@
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { parseClipboard, type ClipboardPayload, serializePointStyle, serializeSettings } from '../mesh/clipboard'
+import { downloadBlob, pickFile } from '../mesh/files'
+import { findShortcut, formatBinding } from '../mesh/keymap'
+import {
+  PROJECT_FILE_EXTENSION,
+  PROJECT_FILE_MIME,
+  parseProjectFile,
+  serializeProject,
+} from '../mesh/project'
 import { store } from '../mesh/store'
 import ExportModal from './ExportModal'
+import ShortcutsModal from './ShortcutsModal'
+
+const DEFAULT_FILE_NAME = `mesh-gradient${PROJECT_FILE_EXTENSION}`
 
 const toolBtn: React.CSSProperties = {
   display: 'flex',
@@ -17,7 +29,145 @@ const toolBtn: React.CSSProperties = {
 }
 
 export default function Toolbar() {
+  const [, setTick] = useState(0)
   const [exportOpen, setExportOpen] = useState(false)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  const [fileName, setFileName] = useState(DEFAULT_FILE_NAME)
+  const [notice, setNotice] = useState<{ text: string; detail?: string } | null>(null)
+
+  const saveProject = useCallback(() => {
+    const { state } = store
+    const blob = new Blob([serializeProject(state, state.canvasSize)], { type: PROJECT_FILE_MIME })
+    downloadBlob(blob, fileName)
+    setNotice({ text: `Saved ${fileName}` })
+  }, [fileName])
+
+  const openProject = useCallback(async () => {
+    const file = await pickFile(`${PROJECT_FILE_EXTENSION},.json,application/json`)
+    if (!file) return
+    try {
+      const { document, warnings } = parseProjectFile(await file.text())
+      store.loadDocument(document)
+      const base = file.name.replace(/\.[^.]+$/, '')
+      setFileName(`${base}${PROJECT_FILE_EXTENSION}`)
+      setNotice(warnings.length > 0
+        ? { text: `Opened ${file.name} (${warnings.length} field${warnings.length === 1 ? '' : 's'} reset)`, detail: warnings.join('\n') }
+        : { text: `Opened ${file.name}` })
+    } catch (err) {
+      setNotice({ text: err instanceof Error ? err.message : 'Could not open file' })
+    }
+  }, [])
+
+  // Applies pasted text: a point style goes to the selected points, settings
+  // to the document. Returns false for text that is neither.
+  const pasteText = useCallback((text: string, settingsOnly = false) => {
+    const { state } = store
+    const active = store.getSelectedPoint() ?? state.grid.points[0][0]
+    let payload: ClipboardPayload | null
+    try {
+      payload = parseClipboard(text, state, active)
+    } catch (err) {
+      setNotice({ text: err instanceof Error ? err.message : 'Could not paste' })
+      return true
+    }
+    if (!payload || (settingsOnly && payload.kind !== 'settings')) return false
+    let done: string
+    if (payload.kind === 'pointStyle') {
+      if (state.selectedPoints.length === 0) {
+        setNotice({ text: 'Select points to paste the style onto' })
+        return true
+      }
+      store.pasteSelectionStyle(payload.style)
+      done = 'Pasted point style'
+    } else {
+      store.pasteSettings(payload.settings)
+      done = `Pasted ${Object.keys(payload.settings).join(', ')} settings`
+    }
+    const { warnings } = payload
+    setNotice(warnings.length > 0
+      ? { text: `${done} (${warnings.length} field${warnings.length === 1 ? '' : 's'} rejected)`, detail: warnings.join('\n') }
+      : { text: done })
+    return true
+  }, [])
+
+  const copySettings = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(serializeSettings(store.state))
+      setNotice({ text: 'Copied settings as JSON' })
+    } catch {
+      setNotice({ text: 'Could not write to the clipboard' })
+    }
+  }, [])
+
+  const pasteSettings = useCallback(async () => {
+    let text: string
+    try {
+      text = await navigator.clipboard.readText()
+    } catch {
+      setNotice({ text: 'Could not read the clipboard, try the paste shortcut' })
+      return
+    }
+    if (!pasteText(text, true)) setNotice({ text: 'The clipboard holds no settings JSON' })
+  }, [pasteText])
+
+  const closeShortcuts = useCallback(() => setShortcutsOpen(false), [])
+
+  // Bindings shown in the button titles can be remapped.
+  useEffect(() => {
+    const unsub = store.subscribe(() => setTick(n => n + 1))
+    return () => unsub()
+  }, [])
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const action = findShortcut(store.state.keymap, e)?.action
+      if (action === 'saveProject') {
+        e.preventDefault()
+        saveProject()
+      } else if (action === 'openProject') {
+        e.preventDefault()
+        void openProject()
+      } else if (action === 'showShortcuts') {
+        e.preventDefault()
+        setShortcutsOpen(true)
+      }
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [openProject, saveProject])
+
+  // Copy/paste shortcuts on the canvas carry the active point's style; in
+  // text fields they keep their usual meaning.
+  useEffect(() => {
+    const inTextField = (e: ClipboardEvent) =>
+      e.target instanceof HTMLElement && e.target.closest('input, textarea, [contenteditable="true"]') !== null
+    const onCopy = (e: ClipboardEvent) => {
+      const point = store.getSelectedPoint()
+      if (inTextField(e) || !point || !e.clipboardData) return
+      e.preventDefault()
+      e.clipboardData.setData('text/plain', serializePointStyle(point))
+      setNotice({ text: 'Copied point style' })
+    }
+    const onPaste = (e: ClipboardEvent) => {
+      const text = e.clipboardData?.getData('text/plain')
+      if (inTextField(e) || !text) return
+      if (pasteText(text)) e.preventDefault()
+    }
+    document.addEventListener('copy', onCopy)
+    document.addEventListener('paste', onPaste)
+    return () => {
+      document.removeEventListener('copy', onCopy)
+      document.removeEventListener('paste', onPaste)
+    }
+  }, [pasteText])
+
+  useEffect(() => {
+    if (!notice) return
+    const id = window.setTimeout(() => setNotice(null), 6000)
+    return () => window.clearTimeout(id)
+  }, [notice])
+
+  const { keymap } = store.state
 
   return (
     <>
@@ -44,22 +194,73 @@ export default function Toolbar() {
           </span>
         </div>
 
+        <button onClick={() => void openProject()} title={`Open project (${formatBinding(keymap.openProject)})`} style={toolBtn}>
+          <svg width="13" height="13" viewBox="0 0 13 13" fill="none">
+            <path d="M1 3.5V10.5a.5.5 0 00.5.5h10a.5.5 0 00.5-.5V5a.5.5 0 00-.5-.5H6L4.5 2.5h-3a.5.5 0 00-.5.5z" stroke="currentColor" strokeWidth="1.2" strokeLinejoin="round"/>
+          </svg>
+          Open
+        </button>
+
+        <button onClick={saveProject} title={`Save project (${formatBinding(keymap.saveProject)})`} style={toolBtn}>
+          <svg width="13" height="13" viewBox="0 0 13 13" fill="none">
+            <path d="M1.5 1.5h8l2 2v8h-10z" stroke="currentColor" strokeWidth="1.2" strokeLinejoin="round"/>
+            <path d="M4 1.5v3h4.5v-3M3.5 11.5V8h6v3.5" stroke="currentColor" strokeWidth="1.2" strokeLinejoin="round"/>
+          </svg>
+          Save
+        </button>
+
+        <button onClick={() => void copySettings()} title="Copy effect, glass, noise and animation settings as JSON" style={toolBtn}>
+          <svg width="13" height="13" viewBox="0 0 13 13" fill="none">
+            <rect x="4" y="4" width="7.5" height="7.5" rx="1" stroke="currentColor" strokeWidth="1.2"/>
+            <path d="M9 4V2a.5.5 0 00-.5-.5h-6.5a.5.5 0 00-.5.5v6.5a.5.5 0 00.5.5H4" stroke="currentColor" strokeWidth="1.2"/>
+          </svg>
+          Copy settings
+        </button>
+
+        <button onClick={() => void pasteSettings()} title="Paste settings JSON from the clipboard" style={toolBtn}>
+          <svg width="13" height="13" viewBox="0 0 13 13" fill="none">
+            <path d="M4.5 2H2.5a.5.5 0 00-.5.5v9a.5.5 0 00.5.5h8a.5.5 0 00.5-.5v-9a.5.5 0 00-.5-.5h-2" stroke="currentColor" strokeWidth="1.2" strokeLinejoin="round"/>
+            <rect x="4.5" y="1" width="4" height="2" rx="0.5" stroke="currentColor" strokeWidth="1.2"/>
+          </svg>
+          Paste settings
+        </button>
+
+        {notice && (
+          <span
+            title={notice.detail}
+            style={{ color: 'rgba(255,255,255,0.5)', fontSize: 11, marginLeft: 4, cursor: notice.detail ? 'help' : 'default' }}
+          >
+            {notice.text}
+          </span>
+        )}
+
         <div style={{ flex: 1 }} />
 
-        <button onClick={() => store.undo()} title="Undo (Cmd+Z)" style={toolBtn}>
+        <button onClick={() => store.undo()} title={`Undo (${formatBinding(keymap.undo)})`} style={toolBtn}>
           <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
             <path d="M2.5 7C2.5 4.515 4.515 2.5 7 2.5c1.65 0 3.1.9 3.87 2.23" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round"/>
             <path d="M2.5 3.5V7H6" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" strokeLinejoin="round"/>
           </svg>
         </button>
 
-        <button onClick={() => store.redo()} title="Redo (Cmd+Shift+Z)" style={toolBtn}>
+        <button onClick={() => store.redo()} title={`Redo (${formatBinding(keymap.redo)})`} style={toolBtn}>
           <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
             <path d="M11.5 7C11.5 4.515 9.485 2.5 7 2.5c-1.65 0-3.1.9-3.87 2.23" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round"/>
             <path d="M11.5 3.5V7H8" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" strokeLinejoin="round"/>
           </svg>
         </button>
 
+        <button
+          onClick={() => setShortcutsOpen(true)}
+          title={`Keyboard shortcuts (${formatBinding(keymap.showShortcuts)})`}
+          style={toolBtn}
+        >
+          <svg width="15" height="13" viewBox="0 0 15 13" fill="none">
+            <rect x="1" y="2.5" width="13" height="8" rx="1.5" stroke="currentColor" strokeWidth="1.2"/>
+            <path d="M3.5 5h1M6 5h1M8.5 5h1M11 5h.5M4.5 8h6" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round"/>
+          </svg>
+        </button>
+
         <div style={{ width: 1, height: 18, background: 'rgba(255,255,255,0.1)', margin: '0 2px' }} />
 
         <button
@@ -75,6 +276,7 @@ export default function Toolbar() {
       </div>
 
       <ExportModal open={exportOpen} onClose={() => setExportOpen(false)} />
+      <ShortcutsModal open={shortcutsOpen} onClose={closeShortcuts} />
     </>
   )
 }
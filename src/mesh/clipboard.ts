@@ -0,0 +1,60 @@
+import { PROJECT_FILE_VERSION, readPointStyle, readSettings, SETTINGS_SECTIONS } from './project'
+import type { DocumentSettings, PointStyle } from './types'
+
+// ─── Clipboard ────────────────────────────────────────────────────────────────
+// Point styles and document settings go through the system clipboard as JSON
+// tagged with a `kind`, so a paste can tell them apart (and a plain text
+// paste is left alone). Untagged JSON carrying settings sections, such as a
+// whole project file, pastes as settings.
+
+const POINT_STYLE_KIND = 'mesh-editor/point-style'
+const SETTINGS_KIND = 'mesh-editor/settings'
+
+export type ClipboardPayload =
+  | { kind: 'pointStyle'; style: PointStyle; warnings: string[] }
+  | { kind: 'settings'; settings: Partial<DocumentSettings>; warnings: string[] }
+
+export function serializePointStyle(style: PointStyle): string {
+  const { color, colorTangent, handles } = style
+  return JSON.stringify({ kind: POINT_STYLE_KIND, version: PROJECT_FILE_VERSION, color, colorTangent, handles }, null, 2)
+}
+
+export function serializeSettings(settings: DocumentSettings): string {
+  const sections = Object.fromEntries(SETTINGS_SECTIONS.map(key => [key, settings[key]]))
+  return JSON.stringify({ kind: SETTINGS_KIND, version: PROJECT_FILE_VERSION, ...sections }, null, 2)
+}
+
+// Reads pasted text against the current settings and the active point's
+// style, which fill in whatever it leaves out. Returns null for text that
+// is not the editor's; throws when it is but cannot be used.
+export function parseClipboard(
+  text: string,
+  settings: DocumentSettings,
+  style: PointStyle,
+): ClipboardPayload | null {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null
+  const record = raw as Record<string, unknown>
+
+  const isPointStyle = record.kind === POINT_STYLE_KIND
+  const isSettings = record.kind === SETTINGS_KIND
+    || (record.kind === undefined && SETTINGS_SECTIONS.some(key => key in record))
+  if (!isPointStyle && !isSettings) return null
+
+  if (typeof record.version === 'number' && record.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Pasted data is from a newer version of the editor (${record.version})`)
+  }
+
+  const warnings: string[] = []
+  if (isPointStyle) {
+    return { kind: 'pointStyle', style: readPointStyle(record, style, warnings), warnings }
+  }
+  const pasted = readSettings(record, settings, warnings)
+  if (Object.keys(pasted).length === 0) throw new Error('Pasted data has no usable settings')
+  return { kind: 'settings', settings: pasted, warnings }
+}
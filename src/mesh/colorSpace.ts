@@ -0,0 +1,153 @@
+import type { Color, ColorInterpolationSettings, HueInterpolation } from './types'
+
+// ─── Color interpolation spaces ───────────────────────────────────────────────
+// Mesh colors are stored as sRGB. Blends (patch interiors, inserted points,
+// grid resampling) convert the endpoints into the document's interpolation
+// space, mix there and convert back. OKLab/OKLCH use Björn Ottosson's
+// matrices; OKLCH hue follows the CSS Color 4 hue-interpolation methods.
+// Alpha is always mixed linearly and is not premultiplied.
+
+// Components in the interpolation space plus alpha:
+// srgb/linear: r, g, b · oklab: L, a, b · oklch: L, C, h (degrees).
+export type ColorCoords = [number, number, number, number]
+
+export const SRGB_INTERPOLATION: ColorInterpolationSettings = { space: 'srgb', hue: 'shorter', mode: 'bilinear' }
+
+// Below this chroma an OKLCH hue is meaningless (greys); it takes the other
+// endpoint's hue instead of swinging through unrelated colors.
+const ACHROMATIC_CHROMA = 1e-4
+
+function srgbToLinear(c: number) {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+function linearToSrgb(c: number) {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055
+}
+
+function linearToOklab(r: number, g: number, b: number): [number, number, number] {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ]
+}
+
+function oklabToLinear(L: number, a: number, b: number): [number, number, number] {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ]
+}
+
+export function toInterpolationSpace(color: Color, space: ColorInterpolationSettings['space']): ColorCoords {
+  const { r, g, b, a } = color
+  if (space === 'srgb') return [r, g, b, a]
+  const lr = srgbToLinear(r)
+  const lg = srgbToLinear(g)
+  const lb = srgbToLinear(b)
+  if (space === 'linear') return [lr, lg, lb, a]
+  const [L, A, B] = linearToOklab(lr, lg, lb)
+  if (space === 'oklab') return [L, A, B, a]
+  const chroma = Math.hypot(A, B)
+  const hue = chroma < ACHROMATIC_CHROMA ? NaN : ((Math.atan2(B, A) * 180) / Math.PI + 360) % 360
+  return [L, chroma, hue, a]
+}
+
+// Out-of-gamut results (OKLCH arcs especially) are clipped per channel.
+export function fromInterpolationSpace(coords: ColorCoords, space: ColorInterpolationSettings['space']): Color {
+  const clamp01 = (n: number) => Math.max(0, Math.min(1, n))
+  const [x, y, z, a] = coords
+  if (space === 'srgb') return { r: clamp01(x), g: clamp01(y), b: clamp01(z), a: clamp01(a) }
+  let linear: [number, number, number]
+  if (space === 'linear') {
+    linear = [x, y, z]
+  } else if (space === 'oklab') {
+    linear = oklabToLinear(x, y, z)
+  } else {
+    const rad = ((Number.isNaN(z) ? 0 : z) * Math.PI) / 180
+    linear = oklabToLinear(x, y * Math.cos(rad), y * Math.sin(rad))
+  }
+  return {
+    r: clamp01(linearToSrgb(clamp01(linear[0]))),
+    g: clamp01(linearToSrgb(clamp01(linear[1]))),
+    b: clamp01(linearToSrgb(clamp01(linear[2]))),
+    a: clamp01(a),
+  }
+}
+
+// Hue difference b - a (degrees) along the requested path.
+function hueDelta(a: number, b: number, path: HueInterpolation) {
+  let d = b - a
+  switch (path) {
+    case 'shorter':
+      if (d > 180) d -= 360
+      else if (d < -180) d += 360
+      break
+    case 'longer':
+      if (d > 0 && d < 180) d -= 360
+      else if (d > -180 && d <= 0) d += 360
+      break
+    case 'increasing':
+      if (d < 0) d += 360
+      break
+    case 'decreasing':
+      if (d > 0) d -= 360
+      break
+  }
+  return d
+}
+
+// Component-wise b - a. OKLCH hue follows the hue path; a grey endpoint
+// contributes no hue change.
+export function coordsDelta(a: ColorCoords, b: ColorCoords, settings: ColorInterpolationSettings): ColorCoords {
+  const out: ColorCoords = [b[0] - a[0], b[1] - a[1], b[2] - a[2], b[3] - a[3]]
+  if (settings.space === 'oklch') {
+    out[2] = Number.isNaN(a[2]) || Number.isNaN(b[2]) ? 0 : hueDelta(a[2], b[2], settings.hue)
+  }
+  return out
+}
+
+export function mixCoords(
+  a: ColorCoords,
+  b: ColorCoords,
+  t: number,
+  settings: ColorInterpolationSettings,
+): ColorCoords {
+  const out: ColorCoords = [
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t,
+    a[3] + (b[3] - a[3]) * t,
+  ]
+  if (settings.space === 'oklch') {
+    // A grey endpoint keeps the other hue constant, whatever the hue path.
+    if (Number.isNaN(a[2])) out[2] = b[2]
+    else if (Number.isNaN(b[2])) out[2] = a[2]
+    else out[2] = (((a[2] + hueDelta(a[2], b[2], settings.hue) * t) % 360) + 360) % 360
+  }
+  return out
+}
+
+// Two-color blend in the given space; t = 0 returns `a`, t = 1 returns `b`.
+export function mixColors(a: Color, b: Color, t: number, settings: ColorInterpolationSettings): Color {
+  if (settings.space === 'srgb') {
+    return {
+      r: a.r + (b.r - a.r) * t,
+      g: a.g + (b.g - a.g) * t,
+      b: a.b + (b.b - a.b) * t,
+      a: a.a + (b.a - a.a) * t,
+    }
+  }
+  return fromInterpolationSpace(
+    mixCoords(toInterpolationSpace(a, settings.space), toInterpolationSpace(b, settings.space), t, settings),
+    settings.space,
+  )
+}
@@ -0,0 +1,774 @@
+import { tessellate } from './math'
+import { overlayHash } from './overlays'
+import type { AnimationSettings, Color, EffectSettings, MeshDocument, MeshGrid, Vec2 } from './types'
+
+// ─── CPU renderer ─────────────────────────────────────────────────────────────
+// Software version of the export layer stack for machines without a GPU (CI,
+// servers, the mesh-render CLI). It rasterizes the tessellate() triangles with
+// supersampling and ports the shaders in renderer.ts plus the Canvas2D layers
+// in overlays.ts function by function, so output matches the WebGL export to
+// within a few 8-bit steps. No DOM APIs are used.
+// Glass is a separate WebGL pass and is skipped (reported in `skipped`).
+
+export interface CpuRenderOptions {
+  // Export multiplier, like the export modal's 1x/2x/3x.
+  scale?: number
+  // Animation time in seconds.
+  time?: number
+  // Patch subdivision, as MeshRenderer.subdivision.
+  subdivision?: number
+  // Adaptive tessellation, as MeshRenderer.adaptive (default true).
+  adaptive?: boolean
+  // Supersampling per axis for mesh edges (1 = off).
+  samples?: number
+  // Fallback size when the document has no artboard size.
+  canvasSize?: { width: number; height: number }
+}
+
+export interface CpuRenderResult {
+  width: number
+  height: number
+  // Straight (non-premultiplied) 8-bit RGBA.
+  data: Uint8ClampedArray
+  skipped: string[]
+}
+
+// Samples per axis for overlay shape coverage (Canvas2D-like anti-aliasing).
+const OVERLAY_SAMPLES = 4
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v)
+const fract = (v: number) => v - Math.floor(v)
+const mix = (a: number, b: number, t: number) => a + (b - a) * t
+// GLSL mod: result has the sign of y.
+const glslMod = (x: number, y: number) => x - y * Math.floor(x / y)
+const smoothstep = (e0: number, e1: number, x: number) => {
+  const t = clamp01((x - e0) / (e1 - e0))
+  return t * t * (3 - 2 * t)
+}
+
+// ─── Shader ports ─────────────────────────────────────────────────────────────
+
+const ANIM_STYLE: Record<AnimationSettings['style'], number> = {
+  static: 0,
+  fluid: 1,
+  smooth: 2,
+  pulse: 3,
+  wave: 4,
+  waterDrop: 5,
+  rotate: 6,
+}
+
+interface ShaderState {
+  time: number
+  animStyle: number
+  animSpeed: number
+  animStrength: number
+  effect: EffectSettings
+  viewportW: number
+  viewportH: number
+}
+
+function hash21(x: number, y: number) {
+  let px = fract(x * 123.34)
+  let py = fract(y * 345.45)
+  const d = px * (px + 34.345) + py * (py + 34.345)
+  px += d
+  py += d
+  return fract(px * py)
+}
+
+function noise2(x: number, y: number) {
+  const ix = Math.floor(x)
+  const iy = Math.floor(y)
+  const fx = x - ix
+  const fy = y - iy
+  const ux = fx * fx * (3 - 2 * fx)
+  const uy = fy * fy * (3 - 2 * fy)
+  const a = hash21(ix, iy)
+  const b = hash21(ix + 1, iy)
+  const c = hash21(ix, iy + 1)
+  const d = hash21(ix + 1, iy + 1)
+  return mix(mix(a, b, ux), mix(c, d, ux), uy)
+}
+
+function fbm(x: number, y: number) {
+  let v = 0
+  let a = 0.5
+  for (let i = 0; i < 4; i++) {
+    v += a * noise2(x, y)
+    // mat2(1.6, 1.2, -1.2, 1.6) * p (column-major)
+    const nx = 1.6 * x - 1.2 * y
+    const ny = 1.2 * x + 1.6 * y
+    x = nx
+    y = ny
+    a *= 0.5
+  }
+  return v
+}
+
+// Water drop rings push every control point outwards, as waterDrop() in the
+// GPU vertex shader does, so the ripple bends the patches themselves.
+function waterDropGrid(grid: MeshGrid, s: ShaderState): MeshGrid {
+  const t = s.time * s.animSpeed
+  const displace = (p: Vec2): Vec2 => {
+    const x = p.x * 2 - 1
+    const y = 1 - p.y * 2
+    const d = Math.hypot(x, y)
+    if (d <= 0.0001) return p
+    let ring = 0
+    for (let i = 0; i < 9; i++) {
+      const c = fract(t / 1.9 + i / 9)
+      const r = c * 1.6
+      ring += Math.exp(-(((d - r) / 0.068) ** 2))
+    }
+    const k = 1 + (ring * 0.0075 * s.animStrength) / d
+    return { x: (x * k + 1) / 2, y: (1 - y * k) / 2 }
+  }
+  const points = grid.points.map(row => row.map(p => {
+    const position = displace(p.position)
+    const handle = (h: Vec2) => {
+      const c = displace({ x: p.position.x + h.x, y: p.position.y + h.y })
+      return { x: c.x - position.x, y: c.y - position.y }
+    }
+    const { left, right, up, down, type } = p.handles
+    return { ...p, position, handles: { left: handle(left), right: handle(right), up: handle(up), down: handle(down), type } }
+  }))
+  return { ...grid, points }
+}
+
+// Vertex stage: rotate turns the geometry itself.
+function animateVertex(x: number, y: number, s: ShaderState): [number, number] {
+  if (s.animStyle === 6) {
+    const a = s.time * s.animSpeed * 0.9
+    const c = Math.cos(a)
+    const sn = Math.sin(a)
+    const px = x * 1.42
+    const py = y * 1.42
+    x = px * c - py * sn
+    y = px * sn + py * c
+  }
+  return [x, y]
+}
+
+function animateColor(col: number[], vx: number, vy: number, s: ShaderState) {
+  const t = s.time * s.animSpeed
+  const k = s.animStrength
+  let [r, g, b] = col
+  switch (s.animStyle) {
+    case 1: {
+      const ux = vx * 1.7
+      const uy = vy * 1.7
+      const wx = fbm(ux, uy + t * 0.42)
+      const wy = fbm(ux + 5.2, uy - t * 0.36)
+      const fx = ux + (wx - 0.5) * 2
+      const fy = uy + (wy - 0.5) * 2
+      const n1 = fbm(fx, fy + t * 0.25)
+      const n2 = fbm(fx + 2.7, fy - t * 0.21)
+      const n3 = fbm(fx - 3.1, fy + t * 0.18)
+      const breathe = 1 + (n1 - 0.5) * 0.18 * k
+      r = clamp01((r + (n1 - 0.5) * 0.24 * k) * breathe)
+      g = clamp01((g + (n2 - 0.5) * 0.24 * k) * breathe)
+      b = clamp01((b + (n3 - 0.5) * 0.24 * k) * breathe)
+      break
+    }
+    case 2: {
+      const s1 = Math.sin(vx * 3.2 + t * 0.82)
+      const s2 = Math.sin(vy * 2.8 - t * 0.74)
+      const s3 = Math.sin((vx + vy) * 2.1 + t * 0.48)
+      const lift = 1 + s3 * 0.1 * k
+      r = clamp01((r + (s1 * 0.58 + s3 * 0.42) * 0.075 * k) * lift)
+      g = clamp01((g + (s2 * 0.62 + s1 * 0.38) * 0.075 * k) * lift)
+      b = clamp01((b + (-s2 * 0.54 + s3 * 0.46) * 0.075 * k) * lift)
+      break
+    }
+    case 3: {
+      const pulse = 0.5 + 0.5 * Math.sin(t * 2 - Math.hypot(vx, vy) * 8)
+      const boost = mix(1, 1 + 0.22 * k, pulse)
+      r = clamp01(r * boost)
+      g = clamp01(g * boost)
+      b = clamp01(b * boost)
+      break
+    }
+    case 4: {
+      const w = Math.sin(vx * 9 + t * 2.1) * Math.cos(vy * 6 - t * 1.7) * 0.09 * k
+      r = clamp01(r + w)
+      g = clamp01(g + w * 0.7)
+      b = clamp01(b - w * 0.85)
+      break
+    }
+    case 5: {
+      const d = Math.hypot(vx, vy)
+      let ripple = 0
+      let splashTrain = 0
+      for (let i = 0; i < 9; i++) {
+        const c = fract(t / 1.9 + i / 9)
+        const rr = c * 1.6
+        const gauss = Math.exp(-(((d - rr) / 0.068) ** 2))
+        ripple += gauss * (0.55 + 0.45 * Math.sin((d - rr) * 46 - t * 2.2))
+        splashTrain += Math.exp(-c * 18)
+      }
+      ripple = Math.max(0, ripple)
+      const splash = Math.exp(-d * 22) * splashTrain * 0.045 * k
+      r = clamp01(r + 0.1 * ripple * 0.09 * k + splash)
+      g = clamp01(g + 0.16 * ripple * 0.09 * k + splash)
+      b = clamp01(b + 0.24 * ripple * 0.09 * k + splash)
+      break
+    }
+  }
+  col[0] = r
+  col[1] = g
+  col[2] = b
+}
+
+function cssLinearT(px: number, py: number, tw: number, th: number, angleDeg: number, ox: number, oy: number) {
+  const x = fract((px - ox) / tw) * tw
+  const y = fract((py - oy) / th) * th
+  const rad = (angleDeg * Math.PI) / 180
+  const dx = Math.sin(rad)
+  const dy = -Math.cos(rad)
+  const l = 0.5 * (Math.abs(dx) * tw + Math.abs(dy) * th)
+  return ((x - tw * 0.5) * dx + (y - th * 0.5) * dy + l) / (2 * Math.max(0.00001, l))
+}
+
+function linearMask(px: number, py: number, cell: number, angle: number, ox: number, oy: number, stop: number) {
+  return cssLinearT(px, py, cell, cell, angle, ox, oy) < stop ? 1 : 0
+}
+
+function edgeMaskStops(
+  px: number, py: number, tw: number, th: number, angle: number, ox: number, oy: number,
+  startSolidEnd: number, startFadeEnd: number, endFadeStart: number, endSolidStart: number,
+) {
+  const t = cssLinearT(px, py, tw, th, angle, ox, oy)
+  const left = 1 - clamp01((t - startSolidEnd) / Math.max(0.00001, startFadeEnd - startSolidEnd))
+  const right = clamp01((t - endFadeStart) / Math.max(0.00001, endSolidStart - endFadeStart))
+  return clamp01(left + right)
+}
+
+// Pattern colour at the fragment; returns the mix weight of `line` over
+// `base` for most effects, or writes the colour directly (circle).
+function patternColor(vx: number, vy: number, s: ShaderState, out: number[]) {
+  const { effect } = s
+  const uvx = (vx + 1) * 0.5
+  const uvy = (1 - vy) * 0.5
+  const vw = Math.max(1, s.viewportW)
+  const vh = Math.max(1, s.viewportH)
+  const px = uvx * vw
+  const py = uvy * vh
+  const base = effect.color
+  const line = effect.lineColor
+  const scalePx = Math.max(2, effect.scale)
+  const set = (m: number) => {
+    out[0] = mix(base.r, line.r, m)
+    out[1] = mix(base.g, line.g, m)
+    out[2] = mix(base.b, line.b, m)
+  }
+  // Applies `src` over the colour already in `out` with alpha `a`.
+  const over = (a: number) => {
+    const k = clamp01(a)
+    out[0] = mix(out[0], line.r, k)
+    out[1] = mix(out[1], line.g, k)
+    out[2] = mix(out[2], line.b, k)
+  }
+  const rotated = () => {
+    const rad = (effect.rotate * Math.PI) / 180
+    const sn = Math.sin(rad)
+    const c = Math.cos(rad)
+    const dx = px - vw * 0.5
+    const dy = py - vh * 0.5
+    return [dx * c - dy * sn + vw * 0.5, dx * sn + dy * c + vh * 0.5]
+  }
+
+  switch (effect.type) {
+    case 'wavy': {
+      const radialT = fract(Math.hypot(px, py) / scalePx)
+      const lineAlpha = mix(0.333, 1, clamp01(uvy))
+      const channel = (b: number, l: number) => mix(mix(b, l, lineAlpha), b, radialT)
+      out[0] = channel(base.r, line.r)
+      out[1] = channel(base.g, line.g)
+      out[2] = channel(base.b, line.b)
+      return
+    }
+    case 'zigzag': {
+      const cell = scalePx
+      const mask = Math.max(
+        linearMask(px, py, cell, 135, cell * 0.5, 0, 0.25),
+        linearMask(px, py, cell, 225, cell * 0.5, 0, 0.25),
+        linearMask(px, py, cell, 45, 0, 0, 0.25),
+        linearMask(px, py, cell, 315, 0, 0, 0.25),
+      )
+      set(mask)
+      return
+    }
+    case 'zigzag3d': {
+      const cell = scalePx
+      set(linearMask(px, py, cell, 45, 0, 0, 0.25))
+      over(0.333 * linearMask(px, py, cell, 315, 0, 0, 0.25))
+      over(linearMask(px, py, cell, 225, -cell * 0.5, 0, 0.25))
+      over(0.333 * linearMask(px, py, cell, 135, -cell * 0.5, 0, 0.25))
+      return
+    }
+    case 'circle': {
+      const cx = vw * 0.5
+      const cy = vh * 0.5
+      const dist = Math.hypot(px - cx, py - cy)
+      const gradT = clamp01(dist / Math.max(1, Math.hypot(cx, cy)))
+      const band = Math.max(1, scalePx)
+      const ringPos = glslMod(dist, band * 2)
+      const layerBAlpha = 1 - smoothstep(band * 0.75, band * 2, ringPos)
+      const channel = (b: number, l: number) => mix(l, b, gradT) * mix(1, l, layerBAlpha)
+      out[0] = channel(base.r, line.r)
+      out[1] = channel(base.g, line.g)
+      out[2] = channel(base.b, line.b)
+      return
+    }
+    case 'isometric': {
+      const tw = scalePx
+      const th = scalePx * 1.75
+      const bx = tw * 0.5
+      const by = th * 0.5142857
+      set(0)
+      over(edgeMaskStops(px, py, tw, th, 60, bx, by, 0.25, 0.255, 0.75, 0.755) * 0.47)
+      over(edgeMaskStops(px, py, tw, th, 60, 0, 0, 0.25, 0.255, 0.75, 0.755) * 0.47)
+      over(edgeMaskStops(px, py, tw, th, 150, bx, by, 0.12, 0.125, 0.87, 0.875))
+      over(edgeMaskStops(px, py, tw, th, 30, bx, by, 0.12, 0.125, 0.87, 0.875))
+      over(edgeMaskStops(px, py, tw, th, 150, 0, 0, 0.12, 0.125, 0.87, 0.875))
+      over(edgeMaskStops(px, py, tw, th, 30, 0, 0, 0.12, 0.125, 0.87, 0.875))
+      return
+    }
+    case 'polka': {
+      const [rx, ry] = rotated()
+      const cell = scalePx
+      const lx = fract(rx / cell) - 0.5
+      const ly = fract(ry / cell) - 0.5
+      const radius = Math.max(0.25, 0.5 * (cell / 10))
+      set(Math.hypot(lx * cell, ly * cell) <= radius ? 1 : 0)
+      return
+    }
+    case 'lines': {
+      const [, ry] = rotated()
+      set(fract(ry / scalePx) <= 0.5 ? 1 : 0)
+      return
+    }
+    case 'boxes': {
+      const cell = scalePx
+      const fx = fract(px / cell)
+      const fy = fract(py / cell)
+      const edge = 1 / cell
+      const lx = (fx <= edge ? 1 : 0) + (1 - edge <= fx ? 1 : 0)
+      const ly = (fy <= edge ? 1 : 0) + (1 - edge <= fy ? 1 : 0)
+      set(clamp01(lx + ly))
+      return
+    }
+    case 'triangle': {
+      set(fract(px / scalePx) + fract(py / scalePx) <= 1 ? 1 : 0)
+      return
+    }
+    case 'rhombus': {
+      const unit = Math.max(4, scalePx) * 1.35
+      const qx = Math.floor((px + py) / (unit * 1.41421356))
+      const qy = Math.floor((py - px) / (unit * 1.41421356))
+      set(glslMod(qx + qy + 4096, 2))
+      return
+    }
+    default:
+      set(0)
+  }
+}
+
+const SHADER_EFFECTS = new Set<EffectSettings['type']>([
+  'wavy', 'zigzag', 'zigzag3d', 'circle', 'isometric', 'polka', 'lines', 'boxes', 'triangle', 'rhombus',
+])
+
+// ─── Mesh layer ───────────────────────────────────────────────────────────────
+
+// Premultiplied float RGBA, W*H*4.
+type Surface = Float32Array
+
+function rasterizeMesh(
+  doc: MeshDocument,
+  W: number,
+  H: number,
+  samples: number,
+  subdivision: number,
+  adaptive: boolean,
+  s: ShaderState,
+): Surface {
+  const SW = W * samples
+  const SH = H * samples
+  // Per-sample premultiplied colour, like the GPU's multisample buffer.
+  const buffer = new Float32Array(SW * SH * 4)
+  const bg = doc.canvasBackground
+  const bgA = clamp01(bg.opacity)
+  for (let i = 0; i < SW * SH; i++) {
+    buffer[i * 4] = clamp01(bg.color.r) * bgA
+    buffer[i * 4 + 1] = clamp01(bg.color.g) * bgA
+    buffer[i * 4 + 2] = clamp01(bg.color.b) * bgA
+    buffer[i * 4 + 3] = bgA
+  }
+
+  const grid = s.animStyle === 5 ? waterDropGrid(doc.grid, s) : doc.grid
+  const { positions, colors, indices } = tessellate(
+    { ...grid, width: W, height: H },
+    subdivision,
+    doc.colorInterpolation,
+    adaptive,
+  )
+  const vertexCount = positions.length / 3
+  // Clip-space position after vertex animation (vPos) and sample-space xy.
+  const clip = new Float32Array(vertexCount * 2)
+  const screen = new Float32Array(vertexCount * 2)
+  for (let v = 0; v < vertexCount; v++) {
+    const [x, y] = animateVertex(positions[v * 3], positions[v * 3 + 1], s)
+    clip[v * 2] = x
+    clip[v * 2 + 1] = y
+    screen[v * 2] = (x + 1) * 0.5 * SW
+    screen[v * 2 + 1] = (1 - y) * 0.5 * SH
+  }
+
+  const col = [0, 0, 0]
+  const hasPattern = SHADER_EFFECTS.has(s.effect.type)
+  const patternMix = clamp01(s.effect.opacity)
+  const pattern = [0, 0, 0]
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i]
+    const b = indices[i + 1]
+    const c = indices[i + 2]
+    const ax = screen[a * 2], ay = screen[a * 2 + 1]
+    const bx = screen[b * 2], by = screen[b * 2 + 1]
+    const cx = screen[c * 2], cy = screen[c * 2 + 1]
+    const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax)
+    if (Math.abs(area) < 1e-12) continue
+    const sign = area > 0 ? 1 : -1
+
+    const minX = Math.max(0, Math.floor(Math.min(ax, bx, cx)))
+    const maxX = Math.min(SW - 1, Math.ceil(Math.max(ax, bx, cx)))
+    const minY = Math.max(0, Math.floor(Math.min(ay, by, cy)))
+    const maxY = Math.min(SH - 1, Math.ceil(Math.max(ay, by, cy)))
+
+    for (let y = minY; y <= maxY; y++) {
+      const sy = y + 0.5
+      for (let x = minX; x <= maxX; x++) {
+        const sx = x + 0.5
+        // Barycentric weights; samples exactly on a shared edge go to one
+        // triangle only (top-left style tie break).
+        const w0 = ((bx - sx) * (cy - sy) - (by - sy) * (cx - sx)) * sign
+        const w1 = ((cx - sx) * (ay - sy) - (cy - sy) * (ax - sx)) * sign
+        const w2 = ((ax - sx) * (by - sy) - (ay - sy) * (bx - sx)) * sign
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue
+        if ((w0 === 0 && sign * (cy - by) <= 0) || (w1 === 0 && sign * (ay - cy) <= 0) || (w2 === 0 && sign * (by - ay) <= 0)) continue
+        const inv = 1 / (w0 + w1 + w2)
+        const l0 = w0 * inv
+        const l1 = w1 * inv
+        const l2 = w2 * inv
+
+        const vx = clip[a * 2] * l0 + clip[b * 2] * l1 + clip[c * 2] * l2
+        const vy = clip[a * 2 + 1] * l0 + clip[b * 2 + 1] * l1 + clip[c * 2 + 1] * l2
+        col[0] = clamp01(colors[a * 4] * l0 + colors[b * 4] * l1 + colors[c * 4] * l2)
+        col[1] = clamp01(colors[a * 4 + 1] * l0 + colors[b * 4 + 1] * l1 + colors[c * 4 + 1] * l2)
+        col[2] = clamp01(colors[a * 4 + 2] * l0 + colors[b * 4 + 2] * l1 + colors[c * 4 + 2] * l2)
+        const alpha = clamp01(colors[a * 4 + 3] * l0 + colors[b * 4 + 3] * l1 + colors[c * 4 + 3] * l2)
+
+        if (s.animStyle > 0) animateColor(col, vx, vy, s)
+        if (hasPattern) {
+          patternColor(vx, vy, s, pattern)
+          col[0] = mix(col[0], pattern[0], patternMix)
+          col[1] = mix(col[1], pattern[1], patternMix)
+          col[2] = mix(col[2], pattern[2], patternMix)
+        }
+
+        // NormalBlending with straight-alpha source.
+        const o = (y * SW + x) * 4
+        const keep = 1 - alpha
+        buffer[o] = clamp01(col[0]) * alpha + buffer[o] * keep
+        buffer[o + 1] = clamp01(col[1]) * alpha + buffer[o + 1] * keep
+        buffer[o + 2] = clamp01(col[2]) * alpha + buffer[o + 2] * keep
+        buffer[o + 3] = alpha + buffer[o + 3] * keep
+      }
+    }
+  }
+
+  if (samples === 1) return buffer
+  const out = new Float32Array(W * H * 4)
+  const norm = 1 / (samples * samples)
+  for (let y = 0; y < SH; y++) {
+    const row = Math.floor(y / samples) * W
+    for (let x = 0; x < SW; x++) {
+      const o = (row + Math.floor(x / samples)) * 4
+      const i = (y * SW + x) * 4
+      out[o] += buffer[i] * norm
+      out[o + 1] += buffer[i + 1] * norm
+      out[o + 2] += buffer[i + 2] * norm
+      out[o + 3] += buffer[i + 3] * norm
+    }
+  }
+  return out
+}
+
+// ─── 2D layers ────────────────────────────────────────────────────────────────
+
+function blendOver(surface: Surface, o: number, color: Color, alpha: number) {
+  const keep = 1 - alpha
+  surface[o] = clamp01(color.r) * alpha + surface[o] * keep
+  surface[o + 1] = clamp01(color.g) * alpha + surface[o + 1] * keep
+  surface[o + 2] = clamp01(color.b) * alpha + surface[o + 2] * keep
+  surface[o + 3] = alpha + surface[o + 3] * keep
+}
+
+type Point = [number, number]
+
+function insideConvex(poly: Point[], x: number, y: number) {
+  let sign = 0
+  for (let i = 0; i < poly.length; i++) {
+    const [ax, ay] = poly[i]
+    const [bx, by] = poly[(i + 1) % poly.length]
+    const cross = (bx - ax) * (y - ay) - (by - ay) * (x - ax)
+    if (cross === 0) continue
+    const s = cross > 0 ? 1 : -1
+    if (sign === 0) sign = s
+    else if (s !== sign) return false
+  }
+  return true
+}
+
+// Fills `outer` minus `inner` with anti-aliased coverage, like a Canvas2D
+// fill (inner = null) or a stroke ring between two offset outlines.
+function fillShape(surface: Surface, W: number, H: number, outer: Point[], inner: Point[] | null, color: Color, alpha: number) {
+  if (alpha <= 0) return
+  const xs = outer.map(p => p[0])
+  const ys = outer.map(p => p[1])
+  const minX = Math.max(0, Math.floor(Math.min(...xs)))
+  const maxX = Math.min(W - 1, Math.ceil(Math.max(...xs)))
+  const minY = Math.max(0, Math.floor(Math.min(...ys)))
+  const maxY = Math.min(H - 1, Math.ceil(Math.max(...ys)))
+  const n = OVERLAY_SAMPLES
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      let hits = 0
+      for (let j = 0; j < n; j++) {
+        for (let i = 0; i < n; i++) {
+          const sx = x + (i + 0.5) / n
+          const sy = y + (j + 0.5) / n
+          if (insideConvex(outer, sx, sy) && !(inner && insideConvex(inner, sx, sy))) hits++
+        }
+      }
+      if (hits > 0) blendOver(surface, (y * W + x) * 4, color, alpha * (hits / (n * n)))
+    }
+  }
+}
+
+function regularPolygon(cx: number, cy: number, radius: number, sides: number): Point[] {
+  const pts: Point[] = []
+  for (let i = 0; i < sides; i++) {
+    const angle = ((Math.PI * 2) / sides) * i
+    pts.push([cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)])
+  }
+  return pts
+}
+
+function rect(x: number, y: number, w: number, h: number): Point[] {
+  return [[x, y], [x + w, y], [x + w, y + h], [x, y + h]]
+}
+
+function drawPixelation(surface: Surface, W: number, H: number, doc: MeshDocument, exportScale: number) {
+  const pixelSize = Math.max(2, Math.round((doc.pixelation.pixelSize || 12) * exportScale))
+  const density = Math.max(0.1, Math.min(1, doc.pixelation.density))
+  const cols = Math.ceil(W / pixelSize)
+  const rows = Math.ceil(H / pixelSize)
+  const blockW = Math.max(1, Math.floor(pixelSize * density))
+  const margin = Math.floor((pixelSize - blockW) / 2)
+  const source = surface.slice()
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      // Box average of the mesh layer, read back un-premultiplied.
+      const x0 = Math.floor((col * W) / cols)
+      const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * W) / cols))
+      const y0 = Math.floor((row * H) / rows)
+      const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * H) / rows))
+      let r = 0, g = 0, b = 0, a = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const o = (y * W + x) * 4
+          r += source[o]
+          g += source[o + 1]
+          b += source[o + 2]
+          a += source[o + 3]
+        }
+      }
+      const color: Color = a > 0 ? { r: r / a, g: g / a, b: b / a, a: 1 } : { r: 0, g: 0, b: 0, a: 1 }
+      const px = col * pixelSize + margin
+      const py = row * pixelSize + margin
+      for (let y = Math.max(0, py); y < Math.min(H, py + blockW); y++) {
+        for (let x = Math.max(0, px); x < Math.min(W, px + blockW); x++) blendOver(surface, (y * W + x) * 4, color, 1)
+      }
+    }
+  }
+}
+
+function drawHexagons(surface: Surface, W: number, H: number, doc: MeshDocument, exportScale: number) {
+  const { hexagon } = doc
+  const fillBaseAlpha = clamp01(hexagon.opacity / 100)
+  const size = Math.max(20, Math.min(150, hexagon.size)) * exportScale
+  const density = Math.max(0.1, Math.min(1, hexagon.density))
+  const strokeWidth = Math.max(0.5, Math.min(5, hexagon.strokeWidth)) * exportScale
+  const strokeOpacity = clamp01(hexagon.strokeOpacity)
+  const randomOpacity = clamp01(hexagon.randomOpacity)
+  const xOffset = size * 0.75
+  const yOffset = size * 0.8660254037844386
+  const cols = Math.ceil(W / xOffset) + 2
+  const rows = Math.ceil(H / yOffset) + 2
+  // Miter-joined stroke of a regular hexagon: offset outlines along the
+  // apothem, i.e. radius ± (w / 2) / cos(30°).
+  const miter = strokeWidth / 2 / 0.8660254037844386
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (overlayHash(col, row, 11) > density) continue
+      const x = col * xOffset
+      const y = row * yOffset + (col % 2 === 1 ? yOffset / 2 : 0)
+      const opacityNoise = clamp01(1 - randomOpacity + overlayHash(col, row, 47) * randomOpacity)
+      fillShape(surface, W, H, regularPolygon(x, y, size / 2, 6), null, hexagon.color, fillBaseAlpha * opacityNoise)
+      if (strokeOpacity > 0 && strokeWidth > 0) {
+        const innerRadius = size / 2 - miter
+        fillShape(
+          surface, W, H,
+          regularPolygon(x, y, size / 2 + miter, 6),
+          innerRadius > 0 ? regularPolygon(x, y, innerRadius, 6) : null,
+          hexagon.color, strokeOpacity,
+        )
+      }
+    }
+  }
+}
+
+function drawSquares(surface: Surface, W: number, H: number, doc: MeshDocument, exportScale: number) {
+  const { squares } = doc
+  const fillBaseAlpha = clamp01(squares.opacity / 100)
+  const size = Math.max(20, Math.min(150, squares.size)) * exportScale
+  const density = Math.max(0.1, Math.min(1, squares.density))
+  const strokeWidth = Math.max(1, Math.min(8, squares.strokeWidth)) * exportScale
+  const strokeOpacity = clamp01(squares.strokeOpacity)
+  const randomOpacity = clamp01(squares.randomOpacity)
+  const cols = Math.ceil(W / size) + 1
+  const rows = Math.ceil(H / size) + 1
+  const half = strokeWidth / 2
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (overlayHash(col, row, 17) > density) continue
+      const x = col * size
+      const y = row * size
+      const opacityNoise = clamp01(1 - randomOpacity + overlayHash(col, row, 59) * randomOpacity)
+      fillShape(surface, W, H, rect(x, y, size, size), null, squares.color, fillBaseAlpha * opacityNoise)
+      if (strokeOpacity > 0 && strokeWidth > 0) {
+        fillShape(
+          surface, W, H,
+          rect(x - half, y - half, size + strokeWidth, size + strokeWidth),
+          size > strokeWidth ? rect(x + half, y + half, size - strokeWidth, size - strokeWidth) : null,
+          squares.color, strokeOpacity,
+        )
+      }
+    }
+  }
+}
+
+// Film grain: same per-cell values as drawNoiseOverlay, nearest-upscaled and
+// composited with the 'overlay' blend mode.
+function drawGrain(surface: Surface, W: number, H: number, doc: MeshDocument, time: number, exportScale: number) {
+  const { noise } = doc
+  const size = Math.max(0.5, noise.size * exportScale)
+  const speed = Math.max(0, noise.speed)
+  const downW = Math.max(1, Math.floor(W / size))
+  const downH = Math.max(1, Math.floor(H / size))
+  const frameFloat = noise.animated ? time * speed * 60 : 0
+  const seed0 = Math.floor(frameFloat)
+  const seed1 = seed0 + 1
+  const t = frameFloat - seed0
+  const blend = t * t * (3 - 2 * t)
+  const tr = clamp01(noise.color.r) * 2 - 1
+  const tg = clamp01(noise.color.g) * 2 - 1
+  const tb = clamp01(noise.color.b) * 2 - 1
+  const byte = (v: number) => Math.max(0, Math.min(255, Math.round(v)))
+
+  const grainCell = (p: number) => {
+    const rr0 = Math.sin((p + seed0 * 12345) * 127.1 + seed0) * 43758.5453
+    const rr1 = Math.sin((p + seed1 * 12345) * 127.1 + seed1) * 43758.5453
+    const r0 = rr0 - Math.floor(rr0)
+    const r1 = rr1 - Math.floor(rr1)
+    const r = noise.animated ? r0 * (1 - blend) + r1 * blend : r0
+    const grain = (r - 0.5) * 255 * noise.intensity
+    const mag = Math.abs(grain)
+    return [
+      byte(128 + grain + tr * mag * 1.45) / 255,
+      byte(128 + grain + tg * mag * 1.45) / 255,
+      byte(128 + grain + tb * mag * 1.45) / 255,
+      byte(Math.min(255, mag * 2.2)) / 255,
+    ]
+  }
+
+  for (let y = 0; y < H; y++) {
+    const cy = Math.min(downH - 1, Math.floor(((y + 0.5) * downH) / H))
+    for (let x = 0; x < W; x++) {
+      const cx = Math.min(downW - 1, Math.floor(((x + 0.5) * downW) / W))
+      const [sr, sg, sb, sa] = grainCell(cy * downW + cx)
+      if (sa <= 0) continue
+      const o = (y * W + x) * 4
+      const ab = surface[o + 3]
+      // Separable blend: Co = as(1-ab)Cs + as·ab·B(Cb,Cs) + (1-as)·ab·Cb.
+      const channel = (pm: number, cs: number) => {
+        const cb = ab > 0 ? pm / ab : 0
+        const mixed = cb <= 0.5 ? 2 * cb * cs : 1 - 2 * (1 - cb) * (1 - cs)
+        return sa * (1 - ab) * cs + sa * ab * mixed + (1 - sa) * pm
+      }
+      surface[o] = channel(surface[o], sr)
+      surface[o + 1] = channel(surface[o + 1], sg)
+      surface[o + 2] = channel(surface[o + 2], sb)
+      surface[o + 3] = sa + ab * (1 - sa)
+    }
+  }
+}
+
+// ─── Entry point ──────────────────────────────────────────────────────────────
+
+export function renderDocumentCpu(doc: MeshDocument, options: CpuRenderOptions = {}): CpuRenderResult {
+  const scale = Math.max(0.1, options.scale ?? 1)
+  const time = options.time ?? 0
+  const samples = Math.max(1, Math.min(8, Math.round(options.samples ?? 2)))
+  const subdivision = Math.max(1, Math.round(options.subdivision ?? 20))
+  const baseW = Math.max(1, Math.round(doc.artboardSize.width || options.canvasSize?.width || 800))
+  const baseH = Math.max(1, Math.round(doc.artboardSize.height || options.canvasSize?.height || 600))
+  const W = Math.max(1, Math.round(baseW * scale))
+  const H = Math.max(1, Math.round(baseH * scale))
+  const skipped: string[] = []
+
+  const { animation, effect } = doc
+  const state: ShaderState = {
+    time,
+    animStyle: ANIM_STYLE[animation.style] ?? 0,
+    animSpeed: animation.speed,
+    animStrength: animation.strength * (animation.style === 'smooth' ? 1.16 : 1.22),
+    // Pattern sizes scale with the export, as in renderAllLayersAtTime.
+    effect: { ...effect, scale: effect.scale * scale },
+    viewportW: W,
+    viewportH: H,
+  }
+
+  const surface = rasterizeMesh(doc, W, H, samples, subdivision, options.adaptive ?? true, state)
+  if (effect.type === 'pixelation') drawPixelation(surface, W, H, doc, scale)
+  if (effect.type === 'hexagon') drawHexagons(surface, W, H, doc, scale)
+  if (effect.type === 'squares') drawSquares(surface, W, H, doc, scale)
+  if (effect.type === 'glass') skipped.push('glass')
+  if (doc.noise.enabled && doc.noise.intensity > 0.0001) drawGrain(surface, W, H, doc, time, scale)
+
+  const data = new Uint8ClampedArray(W * H * 4)
+  for (let i = 0; i < W * H; i++) {
+    const a = clamp01(surface[i * 4 + 3])
+    if (a <= 0) continue
+    data[i * 4] = Math.round((clamp01(surface[i * 4] / a)) * 255)
+    data[i * 4 + 1] = Math.round((clamp01(surface[i * 4 + 1] / a)) * 255)
+    data[i * 4 + 2] = Math.round((clamp01(surface[i * 4 + 2] / a)) * 255)
+    data[i * 4 + 3] = Math.round(a * 255)
+  }
+  return { width: W, height: H, data, skipped }
+}
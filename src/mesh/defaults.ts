@@ -0,0 +1,119 @@
+import { createDefaultGrid } from './math'
+import type { GlassSettings, MeshDocument, RandomizeSettings } from './types'
+
+// Document defaults live outside the store so that file loading (and anything
+// else that runs without a window) can fill in missing fields.
+
+export const DEFAULT_GLASS: GlassSettings = {
+  shape: 'grid',
+  cells: 4,
+  distortion: 123,
+  angle: 30,
+  aberration: 1.79,
+  ior: 1.76,
+  fresnel: 0.56,
+  frost: 0.05,
+  bevel: 0.33,
+  corner: 0.033,
+  ringThickness: 0.32,
+}
+
+// Bright, fairly saturated colors across the whole hue circle.
+export const DEFAULT_RANDOMIZE: RandomizeSettings = {
+  seed: 1,
+  hueMin: 0,
+  hueMax: 360,
+  saturationMin: 0.55,
+  saturationMax: 0.9,
+  lightnessMin: 0.45,
+  lightnessMax: 0.7,
+  harmony: 'none',
+  positionJitter: 0,
+  handleJitter: 0,
+}
+
+export function createDefaultDocument(width = 800, height = 600): MeshDocument {
+  return {
+    grid: createDefaultGrid(3, 3, width, height),
+    artboardSize: { width: 1600, height: 1000 },
+    animation: {
+      style: 'static',
+      speed: 1,
+      strength: 0.5,
+    },
+    canvasBackground: {
+      color: {
+        r: 0x11 / 255,
+        g: 0x11 / 255,
+        b: 0x11 / 255,
+        a: 1,
+      },
+      opacity: 1,
+    },
+    effect: {
+      type: 'none',
+      color: {
+        r: 0xe5 / 255,
+        g: 0xe5 / 255,
+        b: 0xf7 / 255,
+        a: 1,
+      },
+      lineColor: {
+        r: 0,
+        g: 0,
+        b: 0,
+        a: 1,
+      },
+      opacity: 0.3,
+      scale: 30,
+      rotate: 0,
+    },
+    noise: {
+      enabled: false,
+      animated: false,
+      color: {
+        r: 1,
+        g: 1,
+        b: 1,
+        a: 1,
+      },
+      intensity: 0.30,
+      size: 1.34,
+      speed: 0.40,
+    },
+    glass: { ...DEFAULT_GLASS },
+    hexagon: {
+      color: { r: 1, g: 1, b: 1, a: 1 },
+      opacity: 10,
+      size: 71,
+      density: 0.7,
+      strokeWidth: 0.8,
+      strokeOpacity: 1,
+      randomOpacity: 0.5,
+    },
+    squares: {
+      color: { r: 1, g: 1, b: 1, a: 1 },
+      opacity: 10,
+      size: 100,
+      density: 0.65,
+      strokeWidth: 2,
+      strokeOpacity: 0.8,
+      randomOpacity: 0.5,
+    },
+    pixelation: {
+      pixelSize: 12,
+      density: 1,
+    },
+    // Files from before this setting existed are migrated to 'srgb'.
+    colorInterpolation: {
+      space: 'oklab',
+      hue: 'shorter',
+      mode: 'bilinear',
+    },
+    timeline: {
+      duration: 5,
+      loop: true,
+    },
+    randomize: { ...DEFAULT_RANDOMIZE },
+  }
+}
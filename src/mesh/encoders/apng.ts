@@ -0,0 +1,65 @@
+import { concatBytes, uintBytes } from '../muxers/bytes'
+import { filterScanlines, pngChunk, PNG_SIGNATURE } from './png'
+import { zlibCompress } from './zlib'
+
+// ─── APNG encoder ─────────────────────────────────────────────────────────────
+// Full 32-bit RGBA frames, so gradients stay lossless. The first frame is
+// the default image (IDAT) and also part of the animation.
+
+export interface ApngEncoderOptions {
+  width: number
+  height: number
+  fps: number
+  // 0 loops forever, otherwise the number of times the animation plays.
+  loopCount: number
+}
+
+const u32 = (v: number) => uintBytes(v, 4)
+const u16 = (v: number) => uintBytes(v, 2)
+
+export class ApngEncoder {
+  private options: ApngEncoderOptions
+  private frames: Uint8Array[] = []
+
+  constructor(options: ApngEncoderOptions) {
+    this.options = options
+  }
+
+  // Only the compressed data is kept per frame.
+  async addFrame(rgba: Uint8ClampedArray) {
+    this.frames.push(await zlibCompress(filterScanlines(rgba, this.options.width, this.options.height, 4)))
+  }
+
+  get frameCount() {
+    return this.frames.length
+  }
+
+  finalize(): Blob {
+    const { width, height, fps, loopCount } = this.options
+    const ihdr = concatBytes([u32(width), u32(height), new Uint8Array([8, 6, 0, 0, 0])])
+    const parts: Uint8Array[] = [
+      PNG_SIGNATURE,
+      pngChunk('IHDR', ihdr),
+      pngChunk('acTL', concatBytes([u32(this.frames.length), u32(loopCount)])),
+    ]
+
+    let sequence = 0
+    this.frames.forEach((data, i) => {
+      parts.push(pngChunk('fcTL', concatBytes([
+        u32(sequence++),
+        u32(width), u32(height), u32(0), u32(0),
+        // Exact 1/fps delay as a fraction.
+        u16(1), u16(fps),
+        // dispose NONE, blend SOURCE: every frame replaces the canvas.
+        new Uint8Array([0, 0]),
+      ])))
+      if (i === 0) {
+        parts.push(pngChunk('IDAT', data))
+      } else {
+        parts.push(pngChunk('fdAT', concatBytes([u32(sequence++), data])))
+      }
+    })
+    parts.push(pngChunk('IEND', new Uint8Array(0)))
+    return new Blob(parts as BlobPart[], { type: 'image/apng' })
+  }
+}
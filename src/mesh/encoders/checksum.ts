@@ -0,0 +1,39 @@
+// ─── Checksums ────────────────────────────────────────────────────────────────
+// CRC-32 (PNG chunks, ZIP entries) and Adler-32 (zlib streams).
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable() {
+  if (crcTable) return crcTable
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+// Pass the previous result as `crc` to checksum data in several pieces.
+export function crc32(data: Uint8Array, crc = 0): number {
+  const table = getCrcTable()
+  let c = (crc ^ 0xffffffff) >>> 0
+  for (let i = 0; i < data.length; i++) c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+export function adler32(data: Uint8Array): number {
+  let a = 1
+  let b = 0
+  // 5552 is the largest block that cannot overflow before the modulo.
+  for (let i = 0; i < data.length; ) {
+    const end = Math.min(data.length, i + 5552)
+    for (; i < end; i++) {
+      a += data[i]
+      b += a
+    }
+    a %= 65521
+    b %= 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
@@ -0,0 +1,154 @@
+import { concatBytes, uintBytes } from '../muxers/bytes'
+import { quantizeFrame, type IndexedFrame } from './quantize'
+
+// ─── Animated GIF encoder ─────────────────────────────────────────────────────
+// GIF89a with one local palette per frame (gradients drift through colour
+// space, so a shared palette would band badly) and a NETSCAPE2.0 loop block.
+
+export interface GifEncoderOptions {
+  width: number
+  height: number
+  fps: number
+  // 0 loops forever, otherwise the number of times the animation plays.
+  loopCount: number
+}
+
+// Browsers bump delays under 2/100 s to 1/10 s, so 50 fps is the ceiling.
+export const GIF_MAX_FPS = 50
+
+const MAX_CODE = 4096
+
+function le16(v: number) {
+  return new Uint8Array([v & 0xff, (v >> 8) & 0xff])
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  // Child table: (prefix code << 8 | next index) -> code, 0 when absent.
+  const table = new Int16Array(MAX_CODE * 256)
+  const out: number[] = []
+  let bitBuffer = 0
+  let bitCount = 0
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]
+    const slot = (prefix << 8) | k
+    const existing = table[slot]
+    if (existing) {
+      prefix = existing
+      continue
+    }
+    emit(prefix)
+    if (nextCode < MAX_CODE) {
+      table[slot] = nextCode++
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++
+    } else {
+      emit(clearCode)
+      table.fill(0)
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    }
+    prefix = k
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) out.push(bitBuffer & 0xff)
+
+  // Data sub-blocks of at most 255 bytes, then the block terminator.
+  const blocks: Uint8Array[] = [new Uint8Array([minCodeSize])]
+  for (let i = 0; i < out.length; i += 255) {
+    const chunk = out.slice(i, i + 255)
+    blocks.push(new Uint8Array([chunk.length, ...chunk]))
+  }
+  blocks.push(new Uint8Array([0]))
+  return concatBytes(blocks)
+}
+
+export class GifEncoder {
+  private options: GifEncoderOptions
+  private frames: Uint8Array[] = []
+
+  constructor(options: GifEncoderOptions) {
+    this.options = options
+  }
+
+  addFrame(rgba: Uint8ClampedArray) {
+    const { width, height, fps } = this.options
+    const frame = quantizeFrame(rgba, width, height)
+    const index = this.frames.length
+    // Cumulative rounding keeps the total duration exact.
+    const delay = Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps)
+    this.frames.push(this.encodeFrame(frame, delay))
+  }
+
+  get frameCount() {
+    return this.frames.length
+  }
+
+  finalize(): Blob {
+    const { width, height, loopCount } = this.options
+    const header = concatBytes([
+      new TextEncoder().encode('GIF89a'),
+      le16(width),
+      le16(height),
+      // No global colour table; every frame brings its own.
+      new Uint8Array([0x00, 0, 0]),
+    ])
+    const parts: Uint8Array[] = [header]
+    if (loopCount !== 1) {
+      // NETSCAPE2.0 stores the number of repeats after the first play.
+      const repeats = loopCount === 0 ? 0 : loopCount - 1
+      parts.push(concatBytes([
+        new Uint8Array([0x21, 0xff, 0x0b]),
+        new TextEncoder().encode('NETSCAPE2.0'),
+        new Uint8Array([0x03, 0x01]),
+        le16(Math.min(0xffff, repeats)),
+        new Uint8Array([0x00]),
+      ]))
+    }
+    parts.push(...this.frames, new Uint8Array([0x3b]))
+    return new Blob(parts as BlobPart[], { type: 'image/gif' })
+  }
+
+  private encodeFrame(frame: IndexedFrame, delay: number): Uint8Array {
+    const { width, height } = this.options
+    const colors = frame.palette.length / 3
+    let bits = 1
+    while (1 << bits < colors) bits++
+    const table = new Uint8Array((1 << bits) * 3)
+    table.set(frame.palette)
+
+    const transparent = frame.transparentIndex >= 0
+    // Transparent frames restore to background so earlier frames don't
+    // show through.
+    const disposal = transparent ? 2 : 1
+    const control = new Uint8Array([
+      0x21, 0xf9, 0x04,
+      (disposal << 2) | (transparent ? 1 : 0),
+      ...le16(delay),
+      transparent ? frame.transparentIndex : 0,
+      0x00,
+    ])
+    const descriptor = concatBytes([
+      new Uint8Array([0x2c]),
+      le16(0), le16(0), le16(width), le16(height),
+      uintBytes(0x80 | (bits - 1), 1),
+    ])
+    return concatBytes([control, descriptor, table, lzwEncode(frame.indices, Math.max(2, bits))])
+  }
+}
@@ -0,0 +1,83 @@
+import { asciiBytes, concatBytes, uintBytes } from '../muxers/bytes'
+import { crc32 } from './checksum'
+import { zlibCompress } from './zlib'
+
+// ─── PNG encoding ─────────────────────────────────────────────────────────────
+// Shared by the still PNG writer (CPU renderer / CLI) and the APNG encoder.
+// Rows use adaptive filtering (smallest absolute sum), which suits smooth
+// gradients well.
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const u32 = (v: number) => uintBytes(v, 4)
+
+export function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeBytes = asciiBytes(type)
+  const crc = crc32(data, crc32(typeBytes))
+  return concatBytes([u32(data.length), typeBytes, data, u32(crc)])
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+// Filtered scanlines (filter byte + row) ready for compression.
+export function filterScanlines(rgba: Uint8ClampedArray, width: number, height: number, channels: 3 | 4): Uint8Array {
+  const rowLen = width * channels
+  const out = new Uint8Array((rowLen + 1) * height)
+  const row = new Uint8Array(rowLen)
+  const prev = new Uint8Array(rowLen)
+  const candidate = new Uint8Array(rowLen)
+  const best = new Uint8Array(rowLen)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) row[x * channels + c] = rgba[(y * width + x) * 4 + c]
+    }
+
+    let bestFilter = 0
+    let bestScore = Infinity
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0
+      for (let i = 0; i < rowLen; i++) {
+        const a = i >= channels ? row[i - channels] : 0
+        const b = prev[i]
+        const c = i >= channels ? prev[i - channels] : 0
+        const predictor = filter === 0 ? 0
+          : filter === 1 ? a
+          : filter === 2 ? b
+          : filter === 3 ? (a + b) >> 1
+          : paeth(a, b, c)
+        const v = (row[i] - predictor) & 0xff
+        candidate[i] = v
+        score += v < 128 ? v : 256 - v
+      }
+      if (score < bestScore) {
+        bestScore = score
+        bestFilter = filter
+        best.set(candidate)
+      }
+    }
+
+    const offset = y * (rowLen + 1)
+    out[offset] = bestFilter
+    out.set(best, offset + 1)
+    prev.set(row)
+  }
+  return out
+}
+
+// 8-bit RGBA (straight alpha) to a PNG file.
+export async function encodePng(rgba: Uint8ClampedArray, width: number, height: number): Promise<Uint8Array> {
+  const ihdr = concatBytes([u32(width), u32(height), new Uint8Array([8, 6, 0, 0, 0])])
+  const idat = await zlibCompress(filterScanlines(rgba, width, height, 4))
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', idat),
+    pngChunk('IEND', new Uint8Array(0)),
+  ])
+}
@@ -0,0 +1,194 @@
+// ─── Palette quantization ─────────────────────────────────────────────────────
+// Median-cut palettes plus ordered (Bayer) dithering for GIF frames. Ordered
+// dithering keeps long gradients free of banding without the "crawling" noise
+// error diffusion produces from frame to frame in an animation.
+
+export interface IndexedFrame {
+  // Palette entries as packed RGB triplets.
+  palette: Uint8Array
+  indices: Uint8Array
+  // Palette index used for transparent pixels, or -1.
+  transparentIndex: number
+}
+
+// Pixels above this count are sampled with a stride when building palettes.
+const PALETTE_SAMPLE_TARGET = 60_000
+const ALPHA_CUTOFF = 128
+
+const BAYER_8 = (() => {
+  const m = new Float32Array(64)
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let v = 0
+      for (let bit = 0; bit < 3; bit++) {
+        const xb = (x >> bit) & 1
+        const yb = (y >> bit) & 1
+        v |= ((xb ^ yb) << (2 * (2 - bit) + 1)) | (yb << (2 * (2 - bit)))
+      }
+      // Centered in (-0.5, 0.5).
+      m[y * 8 + x] = (v + 0.5) / 64 - 0.5
+    }
+  }
+  return m
+})()
+
+interface ColorBox {
+  start: number
+  end: number
+  channel: number
+  range: number
+}
+
+function describeBox(samples: Uint8Array, order: Uint32Array, start: number, end: number): ColorBox {
+  const min = [255, 255, 255]
+  const max = [0, 0, 0]
+  for (let i = start; i < end; i++) {
+    const o = order[i] * 3
+    for (let c = 0; c < 3; c++) {
+      const v = samples[o + c]
+      if (v < min[c]) min[c] = v
+      if (v > max[c]) max[c] = v
+    }
+  }
+  const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]]
+  const channel = ranges[0] >= ranges[1] && ranges[0] >= ranges[2] ? 0 : ranges[1] >= ranges[2] ? 1 : 2
+  return { start, end, channel, range: ranges[channel] }
+}
+
+function medianCut(samples: Uint8Array, count: number, maxColors: number): Uint8Array {
+  if (count === 0) return new Uint8Array(3)
+  const order = new Uint32Array(count)
+  for (let i = 0; i < count; i++) order[i] = i
+  const boxes = [describeBox(samples, order, 0, count)]
+
+  while (boxes.length < maxColors) {
+    // Long, well-populated boxes first: that is where banding would show.
+    let best = -1
+    let bestScore = 0
+    boxes.forEach((box, i) => {
+      const score = box.range * Math.sqrt(box.end - box.start)
+      if (box.end - box.start > 1 && box.range > 0 && score > bestScore) {
+        best = i
+        bestScore = score
+      }
+    })
+    if (best < 0) break
+
+    const box = boxes[best]
+    const slice = order.subarray(box.start, box.end)
+    slice.sort((a, b) => samples[a * 3 + box.channel] - samples[b * 3 + box.channel])
+    const mid = box.start + ((box.end - box.start) >> 1)
+    boxes.splice(best, 1, describeBox(samples, order, box.start, mid), describeBox(samples, order, mid, box.end))
+  }
+
+  const palette = new Uint8Array(boxes.length * 3)
+  boxes.forEach((box, i) => {
+    let r = 0
+    let g = 0
+    let b = 0
+    for (let j = box.start; j < box.end; j++) {
+      const o = order[j] * 3
+      r += samples[o]
+      g += samples[o + 1]
+      b += samples[o + 2]
+    }
+    const n = box.end - box.start
+    palette[i * 3] = Math.round(r / n)
+    palette[i * 3 + 1] = Math.round(g / n)
+    palette[i * 3 + 2] = Math.round(b / n)
+  })
+  return palette
+}
+
+// Typical distance between neighbouring palette colours; sets how far the
+// dither pattern pushes a pixel.
+function paletteSpacing(palette: Uint8Array): number {
+  const n = palette.length / 3
+  if (n < 2) return 0
+  const nearest: number[] = []
+  for (let i = 0; i < n; i++) {
+    let best = Infinity
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue
+      const dr = palette[i * 3] - palette[j * 3]
+      const dg = palette[i * 3 + 1] - palette[j * 3 + 1]
+      const db = palette[i * 3 + 2] - palette[j * 3 + 2]
+      best = Math.min(best, dr * dr + dg * dg + db * db)
+    }
+    nearest.push(Math.sqrt(best))
+  }
+  nearest.sort((a, b) => a - b)
+  return nearest[n >> 1]
+}
+
+export function quantizeFrame(rgba: Uint8ClampedArray, width: number, height: number, maxColors = 256): IndexedFrame {
+  const total = width * height
+  let hasTransparency = false
+  for (let i = 3; i < rgba.length; i += 4) {
+    if (rgba[i] < ALPHA_CUTOFF) {
+      hasTransparency = true
+      break
+    }
+  }
+
+  const stride = Math.max(1, Math.floor(total / PALETTE_SAMPLE_TARGET))
+  const samples = new Uint8Array(Math.ceil(total / stride) * 3)
+  let count = 0
+  for (let p = 0; p < total; p += stride) {
+    if (rgba[p * 4 + 3] < ALPHA_CUTOFF) continue
+    samples[count * 3] = rgba[p * 4]
+    samples[count * 3 + 1] = rgba[p * 4 + 1]
+    samples[count * 3 + 2] = rgba[p * 4 + 2]
+    count++
+  }
+
+  const colorSlots = hasTransparency ? maxColors - 1 : maxColors
+  const opaque = medianCut(samples, count, colorSlots)
+  const opaqueCount = opaque.length / 3
+  const transparentIndex = hasTransparency ? opaqueCount : -1
+  const palette = new Uint8Array((opaqueCount + (hasTransparency ? 1 : 0)) * 3)
+  palette.set(opaque)
+
+  const spread = paletteSpacing(opaque)
+  // Nearest-colour lookup on a 6-bit-per-channel grid, filled lazily.
+  const lookup = new Int16Array(1 << 18).fill(-1)
+  const nearest = (r: number, g: number, b: number) => {
+    const key = ((r >> 2) << 12) | ((g >> 2) << 6) | (b >> 2)
+    let index = lookup[key]
+    if (index >= 0) return index
+    let best = Infinity
+    const qr = (r & ~3) + 2
+    const qg = (g & ~3) + 2
+    const qb = (b & ~3) + 2
+    for (let i = 0; i < opaqueCount; i++) {
+      const dr = qr - opaque[i * 3]
+      const dg = qg - opaque[i * 3 + 1]
+      const db = qb - opaque[i * 3 + 2]
+      const d = dr * dr * 2 + dg * dg * 4 + db * db * 3
+      if (d < best) {
+        best = d
+        index = i
+      }
+    }
+    lookup[key] = index
+    return index
+  }
+
+  const indices = new Uint8Array(total)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x
+      if (rgba[p * 4 + 3] < ALPHA_CUTOFF) {
+        indices[p] = transparentIndex
+        continue
+      }
+      const offset = BAYER_8[(y & 7) * 8 + (x & 7)] * spread
+      const r = Math.max(0, Math.min(255, Math.round(rgba[p * 4] + offset)))
+      const g = Math.max(0, Math.min(255, Math.round(rgba[p * 4 + 1] + offset)))
+      const b = Math.max(0, Math.min(255, Math.round(rgba[p * 4 + 2] + offset)))
+      indices[p] = nearest(r, g, b)
+    }
+  }
+
+  return { palette, indices, transparentIndex }
+}
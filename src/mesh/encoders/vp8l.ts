@@ -0,0 +1,385 @@
+// ─── VP8L (lossless WebP) encoder ─────────────────────────────────────────────
+// The image bitstream of a lossless WebP, so animated WebP needs no browser
+// encoder. Pixels go through the subtract-green and predictor transforms (one
+// predictor per block, the one with the smallest residuals), then LZ77
+// against the pixel to the left, the pixel above and the last match of a
+// hash, and one group of canonical prefix codes. There is no color cache or
+// cross-color transform: gradients already turn into runs of tiny residuals.
+
+// Predictor blocks are 1 << PREDICTOR_BITS pixels square.
+const PREDICTOR_BITS = 4
+// Left, top, average of left and top, gradient (left + top - top-left).
+const PREDICTOR_MODES = [1, 2, 7, 12]
+
+const MIN_MATCH = 3
+const MAX_MATCH = 4096
+const HASH_BITS = 16
+// Largest distance the 40 distance prefix codes reach, less the 120 plane codes.
+const MAX_DISTANCE = (1 << 20) - 120
+
+const GREEN_ALPHABET = 256 + 24
+const DISTANCE_ALPHABET = 40
+const MAX_CODE_LENGTH = 15
+const MAX_CODE_LENGTH_CODE_LENGTH = 7
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16)
+  private length = 0
+  private buffer = 0
+  private count = 0
+
+  // Least significant bit first; at most 24 bits at a time.
+  write(value: number, bits: number) {
+    this.buffer |= value << this.count
+    this.count += bits
+    while (this.count >= 8) {
+      this.push(this.buffer & 0xff)
+      this.buffer >>>= 8
+      this.count -= 8
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.count > 0) this.push(this.buffer & 0xff)
+    this.buffer = 0
+    this.count = 0
+    return this.bytes.subarray(0, this.length)
+  }
+
+  private push(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2)
+      grown.set(this.bytes)
+      this.bytes = grown
+    }
+    this.bytes[this.length++] = byte
+  }
+}
+
+// ─── Prefix codes ─────────────────────────────────────────────────────────────
+
+interface PrefixCode {
+  lengths: number[]
+  // Bit-reversed canonical codes, ready for the LSB-first writer.
+  codes: number[]
+}
+
+function huffmanLengths(counts: number[]): number[] {
+  const lengths = counts.map(() => 0)
+  let nodes = counts.flatMap((weight, symbol) => (weight > 0 ? [{ weight, symbols: [symbol] }] : []))
+  while (nodes.length > 1) {
+    nodes.sort((a, b) => a.weight - b.weight)
+    const [a, b] = nodes
+    for (const s of a.symbols) lengths[s]++
+    for (const s of b.symbols) lengths[s]++
+    nodes = [{ weight: a.weight + b.weight, symbols: a.symbols.concat(b.symbols) }, ...nodes.slice(2)]
+  }
+  return lengths
+}
+
+// Huffman code lengths no longer than `limit`: rare symbols are counted as
+// more common until the tree is shallow enough.
+function limitedLengths(counts: number[], limit: number): number[] {
+  for (let floor = 1; ; floor *= 2) {
+    const lengths = huffmanLengths(counts.map(c => (c > 0 ? Math.max(c, floor) : 0)))
+    if (Math.max(...lengths) <= limit) return lengths
+  }
+}
+
+function canonicalCodes(lengths: number[]): number[] {
+  const maxLength = Math.max(0, ...lengths)
+  const lengthCounts = new Array<number>(maxLength + 1).fill(0)
+  for (const l of lengths) if (l > 0) lengthCounts[l]++
+  const next = new Array<number>(maxLength + 1).fill(0)
+  let code = 0
+  for (let bits = 1; bits <= maxLength; bits++) {
+    code = (code + lengthCounts[bits - 1]) << 1
+    next[bits] = code
+  }
+  return lengths.map(length => {
+    if (length === 0) return 0
+    const c = next[length]++
+    let reversed = 0
+    for (let i = 0; i < length; i++) reversed |= ((c >> i) & 1) << (length - 1 - i)
+    return reversed
+  })
+}
+
+// A code with a single symbol is not a complete tree; a second, unused one
+// makes it one.
+function withTwoSymbols(counts: number[]): number[] {
+  const used = counts.filter(c => c > 0).length
+  if (used >= 2) return counts
+  const out = [...counts]
+  for (let s = 0; s < out.length && out.filter(c => c > 0).length < 2; s++) {
+    if (out[s] === 0) out[s] = 1
+  }
+  return out
+}
+
+// Code lengths, run-length coded with the 19-symbol code-length code.
+function writeCodeLengths(w: BitWriter, lengths: number[]) {
+  const tokens: [symbol: number, extra: number, extraBits: number][] = []
+  for (let i = 0; i < lengths.length; ) {
+    if (lengths[i] !== 0) {
+      tokens.push([lengths[i], 0, 0])
+      i++
+      continue
+    }
+    let run = 1
+    while (i + run < lengths.length && lengths[i + run] === 0 && run < 138) run++
+    if (run >= 11) tokens.push([18, run - 11, 7])
+    else if (run >= 3) tokens.push([17, run - 3, 3])
+    else for (let k = 0; k < run; k++) tokens.push([0, 0, 0])
+    i += run
+  }
+  const counts = new Array<number>(19).fill(0)
+  for (const [symbol] of tokens) counts[symbol]++
+  const codeLengths = limitedLengths(withTwoSymbols(counts), MAX_CODE_LENGTH_CODE_LENGTH)
+  let written = CODE_LENGTH_ORDER.length
+  while (written > 4 && codeLengths[CODE_LENGTH_ORDER[written - 1]] === 0) written--
+  w.write(written - 4, 4)
+  for (let i = 0; i < written; i++) w.write(codeLengths[CODE_LENGTH_ORDER[i]], 3)
+  // Lengths for the whole alphabet follow.
+  w.write(0, 1)
+  const codes = canonicalCodes(codeLengths)
+  for (const [symbol, extra, extraBits] of tokens) {
+    w.write(codes[symbol], codeLengths[symbol])
+    if (extraBits > 0) w.write(extra, extraBits)
+  }
+}
+
+// Writes the prefix code for a histogram. Up to two symbols below 256 use
+// the short "simple" form; a lone symbol then costs no bits at all.
+function writePrefixCode(w: BitWriter, counts: number[]): PrefixCode {
+  const used = counts.flatMap((c, s) => (c > 0 ? [s] : []))
+  if (used.length <= 2 && used.every(s => s < 256)) {
+    const symbols = used.length > 0 ? used : [0]
+    w.write(1, 1)
+    w.write(symbols.length - 1, 1)
+    if (symbols[0] < 2) {
+      w.write(0, 1)
+      w.write(symbols[0], 1)
+    } else {
+      w.write(1, 1)
+      w.write(symbols[0], 8)
+    }
+    if (symbols.length === 2) w.write(symbols[1], 8)
+    const lengths = counts.map(() => 0)
+    if (symbols.length === 2) for (const s of symbols) lengths[s] = 1
+    return { lengths, codes: canonicalCodes(lengths) }
+  }
+  w.write(0, 1)
+  const lengths = limitedLengths(withTwoSymbols(counts), MAX_CODE_LENGTH)
+  writeCodeLengths(w, lengths)
+  return { lengths, codes: canonicalCodes(lengths) }
+}
+
+// ─── Entropy-coded images ─────────────────────────────────────────────────────
+
+// LZ77 lengths and distance codes: values 1–4 are their own prefix, larger
+// ones a prefix plus extra bits.
+function prefixEncode(value: number): { prefix: number; extraBits: number; extra: number } {
+  const d = value - 1
+  if (d < 4) return { prefix: d, extraBits: 0, extra: 0 }
+  const high = 31 - Math.clz32(d)
+  const extraBits = high - 1
+  return { prefix: 2 * high + ((d >> extraBits) & 1), extraBits, extra: d & ((1 << extraBits) - 1) }
+}
+
+// Distance codes 1 and 2 are the pixel above and the one to the left; any
+// other distance is coded as itself plus 120.
+function distanceCode(distance: number, width: number) {
+  if (distance === width) return 1
+  if (distance === 1) return 2
+  return distance + 120
+}
+
+// Literal pixels (length 0) and backward references (length, distance code).
+function tokenize(argb: Uint32Array, width: number) {
+  const n = argb.length
+  const lengths = new Uint16Array(n)
+  const values = new Uint32Array(n)
+  let count = 0
+  const head = new Int32Array(1 << HASH_BITS).fill(-1)
+  const hash = (i: number) =>
+    (Math.imul(argb[i], 0x1e35a7bd) ^ Math.imul(argb[i + 1], 0x5bd1e995)) >>> (32 - HASH_BITS)
+
+  for (let i = 0; i < n; ) {
+    let bestLength = 0
+    let bestDistance = 0
+    const previous = i + 1 < n ? head[hash(i)] : -1
+    for (const distance of [1, width, previous >= 0 ? i - previous : 0]) {
+      if (distance < 1 || distance > i || distance > MAX_DISTANCE || distance === bestDistance) continue
+      const limit = Math.min(MAX_MATCH, n - i)
+      let length = 0
+      while (length < limit && argb[i + length] === argb[i + length - distance]) length++
+      if (length > bestLength) {
+        bestLength = length
+        bestDistance = distance
+      }
+    }
+    if (i + 1 < n) head[hash(i)] = i
+    if (bestLength >= MIN_MATCH) {
+      lengths[count] = bestLength
+      values[count++] = distanceCode(bestDistance, width)
+      i += bestLength
+    } else {
+      values[count++] = argb[i]
+      i++
+    }
+  }
+  return { lengths: lengths.subarray(0, count), values: values.subarray(0, count) }
+}
+
+// A single prefix code group and the pixels coded with it. Only the main
+// image may have meta prefix codes; `main` writes their (absent) flag.
+function writeImageData(w: BitWriter, argb: Uint32Array, width: number, main: boolean) {
+  const { lengths, values } = tokenize(argb, width)
+  const green = new Array<number>(GREEN_ALPHABET).fill(0)
+  const red = new Array<number>(256).fill(0)
+  const blue = new Array<number>(256).fill(0)
+  const alpha = new Array<number>(256).fill(0)
+  const distance = new Array<number>(DISTANCE_ALPHABET).fill(0)
+  for (let t = 0; t < values.length; t++) {
+    const v = values[t]
+    if (lengths[t] === 0) {
+      green[(v >>> 8) & 0xff]++
+      red[(v >>> 16) & 0xff]++
+      blue[v & 0xff]++
+      alpha[v >>> 24]++
+    } else {
+      green[256 + prefixEncode(lengths[t]).prefix]++
+      distance[prefixEncode(v).prefix]++
+    }
+  }
+
+  // No color cache.
+  w.write(0, 1)
+  if (main) w.write(0, 1)
+  const codes = [green, red, blue, alpha, distance].map(counts => writePrefixCode(w, counts))
+  const [g, r, b, a, d] = codes
+  for (let t = 0; t < values.length; t++) {
+    const v = values[t]
+    if (lengths[t] === 0) {
+      const gs = (v >>> 8) & 0xff
+      const rs = (v >>> 16) & 0xff
+      const bs = v & 0xff
+      const as = v >>> 24
+      w.write(g.codes[gs], g.lengths[gs])
+      w.write(r.codes[rs], r.lengths[rs])
+      w.write(b.codes[bs], b.lengths[bs])
+      w.write(a.codes[as], a.lengths[as])
+    } else {
+      const length = prefixEncode(lengths[t])
+      w.write(g.codes[256 + length.prefix], g.lengths[256 + length.prefix])
+      if (length.extraBits > 0) w.write(length.extra, length.extraBits)
+      const dist = prefixEncode(v)
+      w.write(d.codes[dist.prefix], d.lengths[dist.prefix])
+      if (dist.extraBits > 0) w.write(dist.extra, dist.extraBits)
+    }
+  }
+}
+
+// ─── Transforms ───────────────────────────────────────────────────────────────
+
+function predict(mode: number, px: Uint8Array, i: number, width: number, c: number): number {
+  const left = px[(i - 1) * 4 + c]
+  const top = px[(i - width) * 4 + c]
+  switch (mode) {
+    case 1: return left
+    case 2: return top
+    case 7: return (left + top) >> 1
+    default: return Math.max(0, Math.min(255, left + top - px[(i - width - 1) * 4 + c]))
+  }
+}
+
+// Residuals of the predictor transform (RGBA bytes) and the block modes.
+function predictorTransform(px: Uint8Array, width: number, height: number) {
+  const block = 1 << PREDICTOR_BITS
+  const blocksX = Math.ceil(width / block)
+  const blocksY = Math.ceil(height / block)
+  const modes = new Uint8Array(blocksX * blocksY)
+  const residuals = new Uint8Array(px.length)
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let best = Infinity
+      for (const mode of PREDICTOR_MODES) {
+        let cost = 0
+        for (let y = Math.max(1, by * block); y < Math.min(height, (by + 1) * block); y++) {
+          for (let x = Math.max(1, bx * block); x < Math.min(width, (bx + 1) * block); x++) {
+            const i = y * width + x
+            for (let c = 0; c < 4; c++) {
+              const r = (px[i * 4 + c] - predict(mode, px, i, width, c)) & 0xff
+              cost += r < 128 ? r : 256 - r
+            }
+          }
+        }
+        if (cost < best) {
+          best = cost
+          modes[by * blocksX + bx] = mode
+        }
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      for (let c = 0; c < 4; c++) {
+        // Fixed predictions on the border: opaque black, then left along the
+        // top row and top down the left column.
+        const prediction = i === 0 ? (c === 3 ? 255 : 0)
+          : y === 0 ? px[(i - 1) * 4 + c]
+          : x === 0 ? px[(i - width) * 4 + c]
+          : predict(modes[(y >> PREDICTOR_BITS) * blocksX + (x >> PREDICTOR_BITS)], px, i, width, c)
+        residuals[i * 4 + c] = (px[i * 4 + c] - prediction) & 0xff
+      }
+    }
+  }
+  return { residuals, modes, blocksX }
+}
+
+function packArgb(rgba: Uint8Array): Uint32Array {
+  const out = new Uint32Array(rgba.length / 4)
+  for (let i = 0; i < out.length; i++) {
+    out[i] = ((rgba[i * 4 + 3] << 24) | (rgba[i * 4] << 16) | (rgba[i * 4 + 1] << 8) | rgba[i * 4 + 2]) >>> 0
+  }
+  return out
+}
+
+// 8-bit RGBA (straight alpha) to a VP8L bitstream: the payload of a 'VP8L'
+// chunk. Sides are limited to 16384 pixels.
+export function encodeVp8l(rgba: Uint8ClampedArray, width: number, height: number): { data: Uint8Array; alpha: boolean } {
+  let alpha = false
+  // Subtract green: red and blue are stored relative to green.
+  const px = new Uint8Array(rgba.length)
+  for (let i = 0; i < rgba.length; i += 4) {
+    const g = rgba[i + 1]
+    px[i] = (rgba[i] - g) & 0xff
+    px[i + 1] = g
+    px[i + 2] = (rgba[i + 2] - g) & 0xff
+    px[i + 3] = rgba[i + 3]
+    if (rgba[i + 3] !== 255) alpha = true
+  }
+  const { residuals, modes, blocksX } = predictorTransform(px, width, height)
+
+  const w = new BitWriter()
+  w.write(0x2f, 8)
+  w.write(width - 1, 14)
+  w.write(height - 1, 14)
+  w.write(alpha ? 1 : 0, 1)
+  w.write(0, 3)
+  // Transforms are undone in reverse: predictor first, then subtract green.
+  w.write(1, 1)
+  w.write(2, 2)
+  w.write(1, 1)
+  w.write(0, 2)
+  w.write(PREDICTOR_BITS - 2, 3)
+  writeImageData(w, Uint32Array.from(modes, mode => (0xff000000 | (mode << 8)) >>> 0), blocksX, false)
+  w.write(0, 1)
+  writeImageData(w, packArgb(residuals), width, true)
+  return { data: w.finish(), alpha }
+}
@@ -0,0 +1,64 @@
+import { asciiBytes, concatBytes, uintBytesLE as le } from '../muxers/bytes'
+import { encodeVp8l } from './vp8l'
+
+// ─── Animated WebP ────────────────────────────────────────────────────────────
+// The RIFF container (VP8X + ANIM + one ANMF per frame) around lossless VP8L
+// frames from vp8l.ts, so no browser WebP encoder is needed.
+
+export interface WebpAnimationOptions {
+  width: number
+  height: number
+  fps: number
+  // 0 loops forever, otherwise the number of times the animation plays.
+  loopCount: number
+}
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const pad = data.length % 2 ? new Uint8Array(1) : new Uint8Array(0)
+  return concatBytes([asciiBytes(type), le(data.length, 4), data, pad])
+}
+
+export class WebpAnimationEncoder {
+  private options: WebpAnimationOptions
+  private frames: Uint8Array[] = []
+  private alpha = false
+
+  constructor(options: WebpAnimationOptions) {
+    this.options = options
+  }
+
+  // 8-bit RGBA (straight alpha) of width × height.
+  addFrame(rgba: Uint8ClampedArray) {
+    const { width, height, fps } = this.options
+    const { data, alpha } = encodeVp8l(rgba, width, height)
+    this.alpha ||= alpha
+    const index = this.frames.length
+    // Millisecond durations with cumulative rounding.
+    const duration = Math.round(((index + 1) * 1000) / fps) - Math.round((index * 1000) / fps)
+    this.frames.push(riffChunk('ANMF', concatBytes([
+      le(0, 3), le(0, 3),
+      le(width - 1, 3), le(height - 1, 3),
+      le(duration, 3),
+      // Do not blend with the previous frame, no disposal.
+      new Uint8Array([0x02]),
+      riffChunk('VP8L', data),
+    ])))
+  }
+
+  get frameCount() {
+    return this.frames.length
+  }
+
+  finalize(): Blob {
+    const { width, height, loopCount } = this.options
+    const vp8x = riffChunk('VP8X', concatBytes([
+      new Uint8Array([0x02 | (this.alpha ? 0x10 : 0), 0, 0, 0]),
+      le(width - 1, 3),
+      le(height - 1, 3),
+    ]))
+    const anim = riffChunk('ANIM', concatBytes([le(0, 4), le(Math.min(0xffff, loopCount), 2)]))
+    const body = [asciiBytes('WEBP'), vp8x, anim, ...this.frames]
+    const size = body.reduce((n, part) => n + part.length, 0)
+    return new Blob([asciiBytes('RIFF'), le(size, 4), ...body] as BlobPart[], { type: 'image/webp' })
+  }
+}
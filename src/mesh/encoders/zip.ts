@@ -0,0 +1,101 @@
+import { concatBytes, uintBytesLE as le } from '../muxers/bytes'
+import { crc32 } from './checksum'
+
+// ─── ZIP archive writer ───────────────────────────────────────────────────────
+// Stored (uncompressed) entries only: the payloads are PNGs, which are already
+// deflated. No ZIP64, so the archive is limited to 4 GB / 65535 entries.
+
+interface ZipEntry {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number
+}
+
+const ZIP_LIMIT = 0xffffffff
+export const ZIP_MAX_ENTRIES = 0xffff
+const UTF8_FLAG = 0x0800
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+  const day = ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+export class ZipWriter {
+  private parts: Uint8Array[] = []
+  private entries: ZipEntry[] = []
+  private offset = 0
+  private stamp = dosDateTime(new Date())
+
+  add(name: string, data: Uint8Array) {
+    const nameBytes = new TextEncoder().encode(name)
+    const crc = crc32(data)
+    if (this.entries.length >= ZIP_MAX_ENTRIES) {
+      throw new Error(`Archive exceeds the ZIP limit of ${ZIP_MAX_ENTRIES} files`)
+    }
+    if (this.offset + data.length + 30 + nameBytes.length > ZIP_LIMIT) {
+      throw new Error('Archive exceeds the 4 GB ZIP limit')
+    }
+    const header = concatBytes([
+      le(0x04034b50, 4),
+      le(20, 2),
+      le(UTF8_FLAG, 2),
+      le(0, 2),
+      le(this.stamp.time, 2),
+      le(this.stamp.day, 2),
+      le(crc, 4),
+      le(data.length, 4),
+      le(data.length, 4),
+      le(nameBytes.length, 2),
+      le(0, 2),
+      nameBytes,
+    ])
+    this.entries.push({ name: nameBytes, crc, size: data.length, offset: this.offset })
+    this.parts.push(header, data)
+    this.offset += header.length + data.length
+  }
+
+  addText(name: string, text: string) {
+    this.add(name, new TextEncoder().encode(text))
+  }
+
+  get entryCount() {
+    return this.entries.length
+  }
+
+  finalize(): Blob {
+    const central = this.entries.map(entry => concatBytes([
+      le(0x02014b50, 4),
+      le(20, 2),
+      le(20, 2),
+      le(UTF8_FLAG, 2),
+      le(0, 2),
+      le(this.stamp.time, 2),
+      le(this.stamp.day, 2),
+      le(entry.crc, 4),
+      le(entry.size, 4),
+      le(entry.size, 4),
+      le(entry.name.length, 2),
+      le(0, 2),
+      le(0, 2),
+      le(0, 2),
+      le(0, 2),
+      le(0, 4),
+      le(entry.offset, 4),
+      entry.name,
+    ]))
+    const centralSize = central.reduce((n, part) => n + part.length, 0)
+    const end = concatBytes([
+      le(0x06054b50, 4),
+      le(0, 2),
+      le(0, 2),
+      le(this.entries.length, 2),
+      le(this.entries.length, 2),
+      le(centralSize, 4),
+      le(this.offset, 4),
+      le(0, 2),
+    ])
+    return new Blob([...this.parts, ...central, end] as BlobPart[], { type: 'application/zip' })
+  }
+}
@@ -0,0 +1,33 @@
+import { concatBytes, uintBytes } from '../muxers/bytes'
+import { adler32 } from './checksum'
+
+// ─── zlib streams ─────────────────────────────────────────────────────────────
+// PNG data is a zlib stream. The browser's CompressionStream('deflate') writes
+// exactly that; where it is missing the data is stored in uncompressed deflate
+// blocks, which every decoder accepts.
+
+const STORED_BLOCK_MAX = 65535
+
+function storedZlib(data: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [new Uint8Array([0x78, 0x01])]
+  for (let offset = 0; offset < data.length || offset === 0; offset += STORED_BLOCK_MAX) {
+    const block = data.subarray(offset, offset + STORED_BLOCK_MAX)
+    const final = offset + STORED_BLOCK_MAX >= data.length ? 1 : 0
+    const header = new Uint8Array(5)
+    header[0] = final
+    header[1] = block.length & 0xff
+    header[2] = block.length >>> 8
+    header[3] = ~block.length & 0xff
+    header[4] = (~block.length >>> 8) & 0xff
+    parts.push(header, block)
+    if (data.length === 0) break
+  }
+  parts.push(uintBytes(adler32(data), 4))
+  return concatBytes(parts)
+}
+
+export async function zlibCompress(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') return storedZlib(data)
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
@@ -1,5 +1,9 @@
 export type ExportImageFormat = 'png' | 'jpeg' | 'svg'
-export type ExportVideoFormat = 'webm' | 'mp4'
+export type ExportMovieFormat = 'webm' | 'mp4'
+export type ExportAnimatedImageFormat = 'gif' | 'apng' | 'webp'
+// Numbered PNG frames plus a JSON sidecar, packed into one ZIP.
+export type ExportSequenceFormat = 'png-sequence'
+export type ExportVideoFormat = ExportMovieFormat | ExportAnimatedImageFormat | ExportSequenceFormat
 
 export interface CaptureImageOptions {
   format: ExportImageFormat
@@ -12,6 +16,8 @@ export interface CaptureImageResult {
   mime: string
   width: number
   height: number
+  // Enabled effects the format could not represent (SVG: raster-only effects).
+  omitted?: string[]
 }
 
 export interface RecordVideoOptions {
@@ -19,14 +25,20 @@ export interface RecordVideoOptions {
   durationSec: number
   fps: 24 | 30 | 60
   scale: 1 | 2 | 3
+  // Animated image formats only: 0 loops forever, otherwise plays this often.
+  loopCount?: number
+  // Called after each rendered frame (not for real-time capture).
+  onProgress?: (done: number, total: number) => void
 }
 
 export interface RecordVideoResult {
   blob: Blob
-  ext: 'webm' | 'mp4'
+  ext: ExportMovieFormat | 'gif' | 'png' | 'webp' | 'zip'
   mime: string
   width: number
   height: number
+  // Frame rate actually written (GIF caps it).
+  fps: number
   usedFallback: boolean
 }
 
@@ -41,6 +53,10 @@ declare global {
   }
 }
 
+export function isAnimatedImageFormat(format: ExportVideoFormat): format is ExportAnimatedImageFormat {
+  return format === 'gif' || format === 'apng' || format === 'webp'
+}
+
 export function getMeshExportApi() {
   return window.__meshExportApi
 }
@@ -0,0 +1,93 @@
+// ─── Document history ─────────────────────────────────────────────────────────
+// Every document mutation becomes one entry holding the serialized document
+// before and after it. Undo/redo and "jump to entry" just swap those
+// snapshots back in, so commands never need their own inverse.
+// Consecutive changes with the same merge key (a slider drag, a point drag)
+// fold into one entry until the gesture ends or the edits pause.
+
+export interface HistoryEntry {
+  id: number
+  label: string
+  before: string
+  after: string
+  mergeKey?: string
+  time: number
+}
+
+const HISTORY_LIMIT = 100
+const MERGE_WINDOW_MS = 1000
+
+export class DocumentHistory {
+  entries: HistoryEntry[] = []
+  // Last applied entry; -1 means the state before the first entry.
+  index = -1
+  private head: string
+  private sealed = true
+  private nextId = 1
+
+  constructor(initial: string) {
+    this.head = initial
+  }
+
+  // Adds (or merges) an entry for a document that now serializes to `after`.
+  // Returns false when nothing actually changed.
+  record(label: string, after: string, mergeKey?: string): boolean {
+    if (after === this.head) return false
+    const now = Date.now()
+    const last = this.entries[this.index]
+    const canMerge = !this.sealed
+      && mergeKey !== undefined
+      && last !== undefined
+      && this.index === this.entries.length - 1
+      && last.mergeKey === mergeKey
+      && now - last.time < MERGE_WINDOW_MS
+
+    if (canMerge) {
+      last.after = after
+      last.label = label
+      last.time = now
+    } else {
+      this.entries = this.entries.slice(0, this.index + 1)
+      this.entries.push({ id: this.nextId++, label, before: this.head, after, mergeKey, time: now })
+      if (this.entries.length > HISTORY_LIMIT) this.entries.shift()
+      this.index = this.entries.length - 1
+    }
+    this.head = after
+    this.sealed = mergeKey === undefined
+    return true
+  }
+
+  // Ends the current gesture: the next change starts a new entry.
+  seal() {
+    this.sealed = true
+  }
+
+  get canUndo() {
+    return this.index >= 0
+  }
+
+  get canRedo() {
+    return this.index < this.entries.length - 1
+  }
+
+  undo(): string | null {
+    if (!this.canUndo) return null
+    return this.jumpTo(this.index - 1)
+  }
+
+  redo(): string | null {
+    if (!this.canRedo) return null
+    return this.jumpTo(this.index + 1)
+  }
+
+  // Returns the serialized document to restore for entry `index` (-1 for
+  // the oldest state still kept), or null when out of range.
+  jumpTo(index: number): string | null {
+    if (index < -1 || index >= this.entries.length) return null
+    if (index === -1 && this.entries.length === 0) return null
+    this.index = index
+    this.head = index === -1 ? this.entries[0].before : this.entries[index].after
+    this.sealed = true
+    return this.head
+  }
+}
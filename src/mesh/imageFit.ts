@@ -0,0 +1,454 @@
+import { fromInterpolationSpace, toInterpolationSpace, type ColorCoords } from './colorSpace'
+import { evalPatchColor, evalPatchPosition, makeId, patchAt, type PatchCorners } from './math'
+import type { ColorInterpolationSettings, ColorInterpolationSpace, MeshGrid, MeshPoint } from './types'
+
+// ─── Fitting a mesh to an image ───────────────────────────────────────────────
+// Builds a rows × cols grid over an image stretched to the artboard. Each
+// point's color is the image averaged over the patches around it, weighted
+// by the point's bilinear share of the patch color (1 at the point, 0 at the
+// opposite corners) and by patch area.
+//
+// Optionally the geometry is then refined by coordinate descent: every point
+// position and handle is nudged in turn, its color refitted, and kept where
+// it lowers the squared color error between the patches around it and the
+// image; colors are solved by least squares after each sweep (when that
+// lowers the error) and the steps halve. Border points only slide along
+// their edge, so the mesh still covers the artboard.
+//
+// Averages, solves and errors all work in the document's interpolation
+// space, where bilinear patch colors are linear in the corner colors. OKLCH
+// is fitted in OKLab but its error is measured on the hue blend it renders.
+// The fit does not model bicubic tangents.
+
+export const MIN_FIT_GRID_SIZE = 2
+export const MAX_FIT_GRID_SIZE = 10
+
+// Longest side images are scaled down to before fitting.
+export const FIT_IMAGE_SIZE = 256
+
+// Samples per patch side when averaging colors and measuring error.
+const PATCH_SAMPLES = 8
+
+const DEFAULT_SWEEPS = 6
+
+// RGBA pixels, as in ImageData.
+export interface FitImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+export interface ImageFitOptions {
+  rows: number
+  cols: number
+  // Refine point positions and handles after sampling colors.
+  optimize: boolean
+  interpolation: ColorInterpolationSettings
+  sweeps?: number
+  onProgress?: (done: number, total: number) => void
+}
+
+// Decodes an image file, scaled to fit FIT_IMAGE_SIZE. `width`/`height` are
+// the original size.
+export async function readFitImage(file: Blob): Promise<{ image: FitImage; width: number; height: number }> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const scale = Math.min(1, FIT_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height))
+    const w = Math.max(1, Math.round(bitmap.width * scale))
+    const h = Math.max(1, Math.round(bitmap.height * scale))
+    const canvas = document.createElement('canvas')
+    canvas.width = w
+    canvas.height = h
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas 2D is not available')
+    ctx.drawImage(bitmap, 0, 0, w, h)
+    const { data } = ctx.getImageData(0, 0, w, h)
+    return { image: { width: w, height: h, data }, width: bitmap.width, height: bitmap.height }
+  } finally {
+    bitmap.close()
+  }
+}
+
+// The image converted to the fit's color space. Fitting works in OKLCH's
+// rectangular form (OKLab), where blends are linear like in the other spaces.
+interface FitTarget {
+  width: number
+  height: number
+  space: FitSpace
+  coords: Float32Array
+  interpolation: ColorInterpolationSettings
+}
+
+type FitSpace = Exclude<ColorInterpolationSpace, 'oklch'>
+
+function fitSpace(interpolation: ColorInterpolationSettings): FitSpace {
+  return interpolation.space === 'oklch' ? 'oklab' : interpolation.space
+}
+
+function toFitTarget(image: FitImage, interpolation: ColorInterpolationSettings): FitTarget {
+  const { width, height, data } = image
+  const space = fitSpace(interpolation)
+  const coords = new Float32Array(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const color = { r: data[i * 4] / 255, g: data[i * 4 + 1] / 255, b: data[i * 4 + 2] / 255, a: data[i * 4 + 3] / 255 }
+    coords.set(toInterpolationSpace(color, space), i * 4)
+  }
+  return { width, height, space, coords, interpolation }
+}
+
+// Bilinear sample at a normalized position, clamped to the edges.
+function sampleTarget(target: FitTarget, x: number, y: number): ColorCoords {
+  const { width, height, coords } = target
+  const fx = Math.max(0, Math.min(width - 1, x * width - 0.5))
+  const fy = Math.max(0, Math.min(height - 1, y * height - 0.5))
+  const x0 = Math.floor(fx)
+  const y0 = Math.floor(fy)
+  const x1 = Math.min(width - 1, x0 + 1)
+  const y1 = Math.min(height - 1, y0 + 1)
+  const tx = fx - x0
+  const ty = fy - y0
+  const channel = (k: number) => {
+    const top = coords[(y0 * width + x0) * 4 + k] * (1 - tx) + coords[(y0 * width + x1) * 4 + k] * tx
+    const bottom = coords[(y1 * width + x0) * 4 + k] * (1 - tx) + coords[(y1 * width + x1) * 4 + k] * tx
+    return top * (1 - ty) + bottom * ty
+  }
+  return [channel(0), channel(1), channel(2), channel(3)]
+}
+
+// Straight patches on an even grid; handles a third of the way to the
+// neighbours, mirrored so the optimizer can move them as pairs.
+function evenGrid(rows: number, cols: number): MeshGrid {
+  const hx = 1 / (cols - 1) / 3
+  const vy = 1 / (rows - 1) / 3
+  const points: MeshPoint[][] = []
+  for (let r = 0; r < rows; r++) {
+    const row: MeshPoint[] = []
+    for (let c = 0; c < cols; c++) {
+      row.push({
+        id: makeId(),
+        position: { x: c / (cols - 1), y: r / (rows - 1) },
+        color: { r: 0, g: 0, b: 0, a: 1 },
+        colorTangent: 1,
+        keyframes: [],
+        handles: {
+          left: { x: -hx, y: 0 },
+          right: { x: hx, y: 0 },
+          up: { x: 0, y: -vy },
+          down: { x: 0, y: vy },
+          type: 'mirrorLength',
+        },
+      })
+    }
+    points.push(row)
+  }
+  return { rows, cols, points, width: 0, height: 0 }
+}
+
+// Area of the quad through a patch's corners (normalized units).
+function cornerArea({ tl, tr, br, bl }: PatchCorners): number {
+  const q = [tl.position, tr.position, br.position, bl.position]
+  let sum = 0
+  for (let i = 0; i < 4; i++) {
+    const a = q[i]
+    const b = q[(i + 1) % 4]
+    sum += a.x * b.y - b.x * a.y
+  }
+  return Math.abs(sum) / 2
+}
+
+// Calls `visit` at each sample of a patch with the target there and the
+// sample's share of the patch area.
+function forEachSample(
+  patch: PatchCorners,
+  target: FitTarget,
+  visit: (u: number, v: number, coords: ColorCoords, weight: number) => void,
+) {
+  const weight = cornerArea(patch) / (PATCH_SAMPLES * PATCH_SAMPLES)
+  for (let j = 0; j < PATCH_SAMPLES; j++) {
+    const v = (j + 0.5) / PATCH_SAMPLES
+    for (let i = 0; i < PATCH_SAMPLES; i++) {
+      const u = (i + 0.5) / PATCH_SAMPLES
+      const p = evalPatchPosition(patch, u, v, 1, 1)
+      visit(u, v, sampleTarget(target, p.x, p.y), weight)
+    }
+  }
+}
+
+// Corner colors in the fit space, in the order of `cornerWeights`.
+function cornerCoords({ tl, tr, bl, br }: PatchCorners, space: FitSpace): ColorCoords[] {
+  return [tl, tr, bl, br].map(p => toInterpolationSpace(p.color, space))
+}
+
+function cornerWeights(u: number, v: number): number[] {
+  return [(1 - u) * (1 - v), u * (1 - v), (1 - u) * v, u * v]
+}
+
+function averageColors(grid: MeshGrid, target: FitTarget) {
+  const { rows, cols, points } = grid
+  const sums = points.map(row => row.map(() => ({ coords: [0, 0, 0, 0], w: 0 })))
+  for (let pr = 0; pr < rows - 1; pr++) {
+    for (let pc = 0; pc < cols - 1; pc++) {
+      const corners = [sums[pr][pc], sums[pr][pc + 1], sums[pr + 1][pc], sums[pr + 1][pc + 1]]
+      forEachSample(patchAt(grid, pr, pc), target, (u, v, coords, weight) => {
+        cornerWeights(u, v).forEach((phi, k) => {
+          const s = corners[k]
+          for (let ch = 0; ch < 4; ch++) s.coords[ch] += coords[ch] * phi * weight
+          s.w += phi * weight
+        })
+      })
+    }
+  }
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const { coords, w } = sums[r][c]
+      if (w > 0) points[r][c].color = fromInterpolationSpace(coords.map(x => x / w) as ColorCoords, target.space)
+    }
+  }
+}
+
+// Least-squares colors for the current geometry: Gauss-Seidel on the normal
+// equations of the bilinear patch colors in the fit space, starting from the
+// current colors. Used while optimizing, where the plain average would undo
+// part of what each sweep gains.
+function solveColors(grid: MeshGrid, target: FitTarget, iterations = 30) {
+  const { rows, cols, points } = grid
+  const n = rows * cols
+  const normal = new Float64Array(n * n)
+  const rhs = [0, 1, 2, 3].map(() => new Float64Array(n))
+  for (let pr = 0; pr < rows - 1; pr++) {
+    for (let pc = 0; pc < cols - 1; pc++) {
+      const ids = [pr * cols + pc, pr * cols + pc + 1, (pr + 1) * cols + pc, (pr + 1) * cols + pc + 1]
+      forEachSample(patchAt(grid, pr, pc), target, (u, v, coords, weight) => {
+        const phi = cornerWeights(u, v)
+        for (let k = 0; k < 4; k++) {
+          for (let l = 0; l < 4; l++) normal[ids[k] * n + ids[l]] += weight * phi[k] * phi[l]
+          for (let ch = 0; ch < 4; ch++) rhs[ch][ids[k]] += weight * phi[k] * coords[ch]
+        }
+      })
+    }
+  }
+  const start = points.flat().map(p => toInterpolationSpace(p.color, target.space))
+  const values = [0, 1, 2, 3].map(ch => Float64Array.from(start, coords => coords[ch]))
+  for (let it = 0; it < iterations; it++) {
+    for (let i = 0; i < n; i++) {
+      const diagonal = normal[i * n + i]
+      if (diagonal <= 0) continue
+      for (let ch = 0; ch < 4; ch++) {
+        let sum = rhs[ch][i]
+        for (let j = 0; j < n; j++) if (j !== i) sum -= normal[i * n + j] * values[ch][j]
+        values[ch][i] = sum / diagonal
+      }
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    const coords = values.map(channel => channel[i]) as ColorCoords
+    points[Math.floor(i / cols)][i % cols].color = fromInterpolationSpace(coords, target.space)
+  }
+}
+
+// OKLCH patches blend hues, so their error is measured on the rendered
+// color; in the other spaces the blend of the corner coords is the render.
+function patchError(patch: PatchCorners, target: FitTarget): number {
+  const corners = cornerCoords(patch, target.space)
+  const rendered = target.interpolation.space === 'oklch'
+  let error = 0
+  forEachSample(patch, target, (u, v, coords, weight) => {
+    const phi = cornerWeights(u, v)
+    const fit = rendered ? toInterpolationSpace(evalPatchColor(patch, u, v, target.interpolation), target.space) : null
+    for (let ch = 0; ch < 4; ch++) {
+      const d = (fit ? fit[ch] : phi[0] * corners[0][ch] + phi[1] * corners[1][ch] + phi[2] * corners[2][ch] + phi[3] * corners[3][ch]) - coords[ch]
+      error += d * d * weight
+    }
+  })
+  return error
+}
+
+function totalError(grid: MeshGrid, target: FitTarget): number {
+  let error = 0
+  for (let pr = 0; pr < grid.rows - 1; pr++) {
+    for (let pc = 0; pc < grid.cols - 1; pc++) error += patchError(patchAt(grid, pr, pc), target)
+  }
+  return error
+}
+
+// Least-squares colors, kept only if they lower the error: for OKLCH the
+// solve is in OKLab and only approximates the rendered blend.
+function improveColors(grid: MeshGrid, target: FitTarget) {
+  const before = grid.points.map(row => row.map(p => p.color))
+  const error = totalError(grid, target)
+  solveColors(grid, target)
+  if (totalError(grid, target) < error) return
+  grid.points.forEach((row, r) => row.forEach((p, c) => { p.color = before[r][c] }))
+}
+
+// ─── Geometry refinement ──────────────────────────────────────────────────────
+
+// One adjustable number of a point: its position, or its right (horizontal)
+// and down (vertical) handle, whose opposites mirror them.
+type FitParam = 'x' | 'y' | 'hx' | 'hy' | 'vx' | 'vy'
+
+function pointParams(grid: MeshGrid, row: number, col: number): FitParam[] {
+  const onVerticalEdge = col === 0 || col === grid.cols - 1
+  const onHorizontalEdge = row === 0 || row === grid.rows - 1
+  const params: FitParam[] = ['hx', 'vy']
+  // Handles along a border stay on it so the border stays straight.
+  if (!onVerticalEdge) params.push('x', 'vx')
+  if (!onHorizontalEdge) params.push('y', 'hy')
+  return params
+}
+
+function readParam(p: MeshPoint, param: FitParam): number {
+  switch (param) {
+    case 'x': return p.position.x
+    case 'y': return p.position.y
+    case 'hx': return p.handles.right.x
+    case 'hy': return p.handles.right.y
+    case 'vx': return p.handles.down.x
+    case 'vy': return p.handles.down.y
+  }
+}
+
+function writeParam(p: MeshPoint, param: FitParam, value: number) {
+  switch (param) {
+    case 'x': p.position = { x: value, y: p.position.y }; break
+    case 'y': p.position = { x: p.position.x, y: value }; break
+    case 'hx':
+    case 'hy': {
+      const right = param === 'hx' ? { x: value, y: p.handles.right.y } : { x: p.handles.right.x, y: value }
+      p.handles = { ...p.handles, right, left: { x: -right.x, y: -right.y } }
+      break
+    }
+    case 'vx':
+    case 'vy': {
+      const down = param === 'vx' ? { x: value, y: p.handles.down.y } : { x: p.handles.down.x, y: value }
+      p.handles = { ...p.handles, down, up: { x: -down.x, y: -down.y } }
+      break
+    }
+  }
+}
+
+// Keeps the mesh untangled: a point stays between its row and column
+// neighbours, and its handles point along the grid and reach less than
+// half way to the nearest neighbour.
+function isValidPoint(grid: MeshGrid, row: number, col: number): boolean {
+  const { points } = grid
+  const p = points[row][col]
+  const { x, y } = p.position
+  const left = col > 0 ? x - points[row][col - 1].position.x : Infinity
+  const right = col < grid.cols - 1 ? points[row][col + 1].position.x - x : Infinity
+  const up = row > 0 ? y - points[row - 1][col].position.y : Infinity
+  const down = row < grid.rows - 1 ? points[row + 1][col].position.y - y : Infinity
+  const minGap = 0.01
+  if (left < minGap || right < minGap || up < minGap || down < minGap) return false
+  const { right: h, down: v } = p.handles
+  return h.x > 0 && h.x < Math.min(left, right) / 2 && Math.abs(h.y) < h.x
+    && v.y > 0 && v.y < Math.min(up, down) / 2 && Math.abs(v.x) < v.y
+}
+
+// Neighbour constraints of the points around (row, col) depend on it too.
+function isValidAround(grid: MeshGrid, row: number, col: number): boolean {
+  for (let r = Math.max(0, row - 1); r <= Math.min(grid.rows - 1, row + 1); r++) {
+    for (let c = Math.max(0, col - 1); c <= Math.min(grid.cols - 1, col + 1); c++) {
+      if ((r === row || c === col) && !isValidPoint(grid, r, c)) return false
+    }
+  }
+  return true
+}
+
+function errorAround(grid: MeshGrid, row: number, col: number, target: FitTarget) {
+  let error = 0
+  for (let pr = Math.max(0, row - 1); pr <= Math.min(grid.rows - 2, row); pr++) {
+    for (let pc = Math.max(0, col - 1); pc <= Math.min(grid.cols - 2, col); pc++) {
+      error += patchError(patchAt(grid, pr, pc), target)
+    }
+  }
+  return error
+}
+
+// Best color of one point with its neighbours' fixed (one Gauss-Seidel step
+// of solveColors), so a move is judged with the color it would end up with.
+function refitPointColor(grid: MeshGrid, row: number, col: number, target: FitTarget) {
+  const point = grid.points[row][col]
+  const sum = [0, 0, 0, 0]
+  let total = 0
+  for (let pr = Math.max(0, row - 1); pr <= Math.min(grid.rows - 2, row); pr++) {
+    for (let pc = Math.max(0, col - 1); pc <= Math.min(grid.cols - 2, col); pc++) {
+      const patch = patchAt(grid, pr, pc)
+      const corners = cornerCoords(patch, target.space)
+      // The point's corner of this patch.
+      const own = (row === pr ? 0 : 2) + (col === pc ? 0 : 1)
+      forEachSample(patch, target, (u, v, coords, weight) => {
+        const phi = cornerWeights(u, v)
+        const w = weight * phi[own]
+        for (let ch = 0; ch < 4; ch++) {
+          // What the other three corners leave for this one to explain.
+          let rest = coords[ch]
+          for (let k = 0; k < 4; k++) if (k !== own) rest -= phi[k] * corners[k][ch]
+          sum[ch] += w * rest
+        }
+        total += w * phi[own]
+      })
+    }
+  }
+  if (total <= 0) return
+  point.color = fromInterpolationSpace(sum.map(x => x / total) as ColorCoords, target.space)
+}
+
+function refineSweep(grid: MeshGrid, target: FitTarget, step: number) {
+  const positionStep = step / Math.max(grid.rows - 1, grid.cols - 1)
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      const point = grid.points[row][col]
+      for (const param of pointParams(grid, row, col)) {
+        // Positions move in proportion to the grid spacing, handles to their
+        // own length.
+        const delta = param === 'x' || param === 'y'
+          ? positionStep
+          : step * (param === 'hx' || param === 'hy' ? point.handles.right.x : point.handles.down.y)
+        const start = readParam(point, param)
+        const startColor = point.color
+        let best = errorAround(grid, row, col, target)
+        let bestValue = start
+        let bestColor = startColor
+        for (const candidate of [start + delta, start - delta]) {
+          writeParam(point, param, candidate)
+          if (!isValidAround(grid, row, col)) continue
+          refitPointColor(grid, row, col, target)
+          const error = errorAround(grid, row, col, target)
+          if (error < best) {
+            best = error
+            bestValue = candidate
+            bestColor = point.color
+          }
+          point.color = startColor
+        }
+        writeParam(point, param, bestValue)
+        point.color = bestColor
+      }
+    }
+  }
+}
+
+// Fits a new grid to `image`. Resolves after yielding to the page between
+// refinement sweeps; width/height of the result are left for the caller.
+export async function fitGridToImage(image: FitImage, options: ImageFitOptions): Promise<MeshGrid> {
+  const { optimize, onProgress } = options
+  const rows = Math.round(Math.max(MIN_FIT_GRID_SIZE, Math.min(MAX_FIT_GRID_SIZE, options.rows)))
+  const cols = Math.round(Math.max(MIN_FIT_GRID_SIZE, Math.min(MAX_FIT_GRID_SIZE, options.cols)))
+  const sweeps = optimize ? options.sweeps ?? DEFAULT_SWEEPS : 0
+
+  const target = toFitTarget(image, options.interpolation)
+  const grid = evenGrid(rows, cols)
+  averageColors(grid, target)
+  if (sweeps > 0) improveColors(grid, target)
+  let step = 0.25
+  for (let i = 0; i < sweeps; i++) {
+    onProgress?.(i, sweeps)
+    await new Promise(resolve => setTimeout(resolve, 0))
+    refineSweep(grid, target, step)
+    improveColors(grid, target)
+    step /= 2
+  }
+  onProgress?.(sweeps, sweeps)
+  return grid
+}
@@ -0,0 +1,285 @@
+import { mixColors } from './colorSpace'
+import { applyAutoHandles, autoHandleDependents, patchesAroundPoint, withAutoHandles } from './math'
+import type {
+  Color,
+  ColorInterpolationSettings,
+  KeyframeEasing,
+  MeshGrid,
+  MeshPoint,
+  PatchChanges,
+  PointKeyframe,
+  PointRef,
+  TimelineSettings,
+  Vec2,
+} from './types'
+
+// ─── Keyframe timeline ────────────────────────────────────────────────────────
+// Points carry their own keyframes: snapshots of position, handles and color
+// at a time on the document timeline. Between two keyframes every value is
+// blended with the easing of the earlier one; before the first and after the
+// last keyframe the nearest one holds. Colors mix in the document's
+// interpolation space, like patch interiors. The timeline only moves the
+// grid, so the shader animation styles keep running on top of it.
+
+export const KEYFRAME_EASINGS = Object.keys({
+  linear: 1, easeIn: 1, easeOut: 1, easeInOut: 1, hold: 1,
+} satisfies Record<KeyframeEasing, 1>) as KeyframeEasing[]
+
+export const DEFAULT_KEYFRAME_EASING: KeyframeEasing = 'easeInOut'
+
+export const MIN_TIMELINE_DURATION = 0.5
+export const MAX_TIMELINE_DURATION = 30
+
+// Keyframe times closer than this (seconds) are the same keyframe.
+const TIME_EPSILON = 1e-3
+
+export const sameTime = (a: number, b: number) => Math.abs(a - b) < TIME_EPSILON
+
+// CSS cubic-bezier() control points of the eased curves.
+const BEZIER_EASINGS: Record<'easeIn' | 'easeOut' | 'easeInOut', [number, number, number, number]> = {
+  easeIn: [0.42, 0, 1, 1],
+  easeOut: [0, 0, 0.58, 1],
+  easeInOut: [0.42, 0, 0.58, 1],
+}
+
+// y of the timing curve at x: solve x(s) = x (Newton, bisection as fallback).
+function cubicBezierTiming(x1: number, y1: number, x2: number, y2: number, x: number) {
+  const curve = (a: number, b: number, s: number) => 3 * a * (1 - s) * (1 - s) * s + 3 * b * (1 - s) * s * s + s * s * s
+  let s = x
+  for (let i = 0; i < 8; i++) {
+    const err = curve(x1, x2, s) - x
+    if (Math.abs(err) < 1e-7) return curve(y1, y2, s)
+    const slope = 3 * x1 * (1 - s) * (1 - s) + 6 * (x2 - x1) * (1 - s) * s + 3 * (1 - x2) * s * s
+    if (Math.abs(slope) < 1e-6) break
+    s -= err / slope
+  }
+  let lo = 0
+  let hi = 1
+  s = x
+  for (let i = 0; i < 30; i++) {
+    if (curve(x1, x2, s) < x) lo = s
+    else hi = s
+    s = (lo + hi) / 2
+  }
+  return curve(y1, y2, s)
+}
+
+// Eased progress for t in [0, 1].
+export function ease(easing: KeyframeEasing, t: number) {
+  if (t <= 0) return 0
+  if (t >= 1) return 1
+  if (easing === 'linear') return t
+  if (easing === 'hold') return 0
+  const [x1, y1, x2, y2] = BEZIER_EASINGS[easing]
+  return cubicBezierTiming(x1, y1, x2, y2, t)
+}
+
+// Playback time (seconds since the start) to a time on the timeline.
+export function timelineTime(timeline: TimelineSettings, t: number) {
+  if (!(t > 0)) return 0
+  return timeline.loop ? t % timeline.duration : Math.min(t, timeline.duration)
+}
+
+export function hasKeyframes(grid: MeshGrid) {
+  return grid.points.some(row => row.some(p => p.keyframes.length > 0))
+}
+
+// Sorted keyframe times of the given points (default: all points).
+export function keyframeTimes(grid: MeshGrid, refs?: PointRef[]): number[] {
+  const points = refs ? refs.map(({ row, col }) => grid.points[row][col]) : grid.points.flat()
+  const times: number[] = []
+  for (const p of points) {
+    for (const k of p.keyframes) {
+      if (!times.some(t => sameTime(t, k.time))) times.push(k.time)
+    }
+  }
+  return times.sort((a, b) => a - b)
+}
+
+const lerpVec2 = (a: Vec2, b: Vec2, t: number): Vec2 => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+
+// Values of `point` at `time`; the point itself when it has no keyframes.
+export function pointAtTime(point: MeshPoint, time: number, interpolation: ColorInterpolationSettings): MeshPoint {
+  const keys = point.keyframes
+  if (keys.length === 0) return point
+  const next = keys.findIndex(k => k.time > time)
+  let position: Vec2
+  let handles: PointKeyframe['handles']
+  let color: Color
+  if (next <= 0) {
+    const k = next === 0 ? keys[0] : keys[keys.length - 1]
+    position = k.position
+    handles = k.handles
+    color = k.color
+  } else {
+    const a = keys[next - 1]
+    const b = keys[next]
+    const t = ease(a.easing, (time - a.time) / (b.time - a.time))
+    position = lerpVec2(a.position, b.position, t)
+    handles = {
+      left: lerpVec2(a.handles.left, b.handles.left, t),
+      right: lerpVec2(a.handles.right, b.handles.right, t),
+      up: lerpVec2(a.handles.up, b.handles.up, t),
+      down: lerpVec2(a.handles.down, b.handles.down, t),
+    }
+    color = mixColors(a.color, b.color, t, interpolation)
+  }
+  return {
+    ...point,
+    position: { ...position },
+    handles: { ...handles, type: point.handles.type },
+    color: { ...color },
+  }
+}
+
+// The grid at `time`; the same object when nothing is keyframed. Auto
+// handles follow the animated positions rather than their keyframes.
+export function gridAtTime(grid: MeshGrid, time: number, interpolation: ColorInterpolationSettings): MeshGrid {
+  if (!hasKeyframes(grid)) return grid
+  return applyAutoHandles({ ...grid, points: grid.points.map(row => row.map(p => pointAtTime(p, time, interpolation))) })
+}
+
+// ─── Keyframe edits ───────────────────────────────────────────────────────────
+// All return a new point; keyframes stay sorted with at most one per time.
+
+function snapshot(point: MeshPoint, time: number, easing: KeyframeEasing): PointKeyframe {
+  const { left, right, up, down } = point.handles
+  return {
+    time,
+    easing,
+    position: { ...point.position },
+    handles: { left: { ...left }, right: { ...right }, up: { ...up }, down: { ...down } },
+    color: { ...point.color },
+  }
+}
+
+// Records the point's current values at `time`, replacing a keyframe there.
+// New keyframes take the easing of the one before them.
+export function setKeyframe(point: MeshPoint, time: number, easing?: KeyframeEasing): MeshPoint {
+  const keys = point.keyframes
+  const at = keys.findIndex(k => sameTime(k.time, time))
+  if (at >= 0) {
+    const next = [...keys]
+    next[at] = snapshot(point, keys[at].time, easing ?? keys[at].easing)
+    return { ...point, keyframes: next }
+  }
+  const before = keys.filter(k => k.time < time)
+  const after = keys.filter(k => k.time > time)
+  const key = snapshot(point, time, easing ?? before[before.length - 1]?.easing ?? DEFAULT_KEYFRAME_EASING)
+  return { ...point, keyframes: [...before, key, ...after] }
+}
+
+export function removeKeyframe(point: MeshPoint, time: number): MeshPoint {
+  const keyframes = point.keyframes.filter(k => !sameTime(k.time, time))
+  return keyframes.length === point.keyframes.length ? point : { ...point, keyframes }
+}
+
+export function setKeyframeEasing(point: MeshPoint, time: number, easing: KeyframeEasing): MeshPoint {
+  if (!point.keyframes.some(k => sameTime(k.time, time))) return point
+  return { ...point, keyframes: point.keyframes.map(k => (sameTime(k.time, time) ? { ...k, easing } : k)) }
+}
+
+// Moves the keyframe at `from` to `to`, replacing any keyframe already there.
+export function moveKeyframe(point: MeshPoint, from: number, to: number): MeshPoint {
+  const key = point.keyframes.find(k => sameTime(k.time, from))
+  if (!key) return point
+  const rest = point.keyframes.filter(k => !sameTime(k.time, from) && !sameTime(k.time, to))
+  const keyframes = [...rest, { ...key, time: to }].sort((a, b) => a.time - b.time)
+  return { ...point, keyframes }
+}
+
+// Whether two points have the same position, handles and color.
+function sameValues(a: MeshPoint, b: MeshPoint) {
+  const eq = (u: Vec2, v: Vec2) => Math.abs(u.x - v.x) < 1e-9 && Math.abs(u.y - v.y) < 1e-9
+  return eq(a.position, b.position)
+    && eq(a.handles.left, b.handles.left) && eq(a.handles.right, b.handles.right)
+    && eq(a.handles.up, b.handles.up) && eq(a.handles.down, b.handles.down)
+    && Math.abs(a.color.r - b.color.r) < 1e-9 && Math.abs(a.color.g - b.color.g) < 1e-9
+    && Math.abs(a.color.b - b.color.b) < 1e-9 && Math.abs(a.color.a - b.color.a) < 1e-9
+}
+
+// Applies a topology edit (row/column insertion or deletion) to a keyframed
+// grid. The edit is repeated on the grid as it stands at every keyframe
+// time, and each resulting point that moves or changes color over those
+// times is keyed at all of them, so inserted points and refitted handles
+// follow the animation.
+export function editKeyframedGrid(
+  grid: MeshGrid,
+  interpolation: ColorInterpolationSettings,
+  edit: (grid: MeshGrid) => MeshGrid,
+): MeshGrid {
+  const edited = edit(grid)
+  const times = keyframeTimes(grid)
+  if (times.length === 0) return edited
+
+  const frames = times.map(t => edit(gridAtTime(grid, t, interpolation)))
+  const easingAt = times.map(t => {
+    for (const row of grid.points) {
+      for (const p of row) {
+        const key = p.keyframes.find(k => sameTime(k.time, t))
+        if (key) return key.easing
+      }
+    }
+    return DEFAULT_KEYFRAME_EASING
+  })
+  const points = edited.points.map((row, r) => row.map((p, c) => {
+    const states = frames.map(f => f.points[r][c])
+    if (p.keyframes.length === 0 && states.every(s => sameValues(s, states[0]))) return p
+    const keyframes = states.map((s, i) => {
+      const own = p.keyframes.find(k => sameTime(k.time, times[i]))
+      return snapshot(s, times[i], own?.easing ?? easingAt[i])
+    })
+    return { ...p, keyframes }
+  }))
+  return { ...edited, points }
+}
+
+// ─── Playback ─────────────────────────────────────────────────────────────────
+
+// Keeps a working copy of a keyframed grid for playback: each frame rewrites
+// only the animated points and reports their patches, so MeshRenderer.update
+// can refresh the patch data in place instead of re-tessellating.
+export class KeyframePlayer {
+  private source: MeshGrid | null = null
+  private grid: MeshGrid | null = null
+
+  frame(source: MeshGrid, time: number, interpolation: ColorInterpolationSettings): {
+    grid: MeshGrid
+    changes: PatchChanges | null
+  } {
+    if (this.source !== source || !this.grid) {
+      this.source = source
+      this.grid = { ...source, points: source.points.map(row => [...row]) }
+    }
+    const grid = this.grid
+    let changes: PatchChanges | null = null
+    const animated: PointRef[] = []
+    for (let r = 0; r < source.rows; r++) {
+      for (let c = 0; c < source.cols; c++) {
+        const point = source.points[r][c]
+        if (point.keyframes.length === 0) continue
+        grid.points[r][c] = pointAtTime(point, time, interpolation)
+        animated.push({ row: r, col: c })
+        changes ??= { patches: new Set(), positions: true, colors: true }
+        for (const id of patchesAroundPoint(source, r, c)) changes.patches.add(id)
+      }
+    }
+    if (!changes) return { grid, changes }
+    // Auto handles next to animated points follow them.
+    for (const ref of animated) {
+      for (const { row, col } of autoHandleDependents(grid, ref.row, ref.col)) {
+        const next = withAutoHandles(grid, row, col)
+        if (next === grid.points[row][col]) continue
+        grid.points[row][col] = next
+        for (const id of patchesAroundPoint(grid, row, col)) changes.patches.add(id)
+      }
+    }
+    return { grid, changes }
+  }
+
+  // Drops the working copy, e.g. after the source grid was edited in place.
+  reset() {
+    this.source = null
+    this.grid = null
+  }
+}
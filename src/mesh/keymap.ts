@@ -0,0 +1,207 @@
+import type { EffectType } from './types'
+
+// ─── Keyboard shortcuts ───────────────────────────────────────────────────────
+// Every shortcut is an action with one binding. A binding is a key
+// (KeyboardEvent `key`, letters upper-cased, ' ' as Space) after its
+// modifiers in the order Mod, Alt, Shift, e.g. "Mod+Shift+Z". Mod is Cmd on
+// macOS and Ctrl elsewhere. User bindings are saved in localStorage as overrides of the
+// defaults, so later changes to the defaults still reach everyone else.
+
+export type ShortcutAction =
+  | 'undo'
+  | 'redo'
+  | 'saveProject'
+  | 'openProject'
+  | 'selectAll'
+  | 'deselect'
+  | 'nextPoint'
+  | 'previousPoint'
+  | 'nudgeLeft'
+  | 'nudgeRight'
+  | 'nudgeUp'
+  | 'nudgeDown'
+  | 'toggleMeshOverlay'
+  | 'showShortcuts'
+  | `effect.${EffectType}`
+
+export type Keymap = Record<ShortcutAction, string | null>
+
+export interface ShortcutDefinition {
+  action: ShortcutAction
+  label: string
+  group: 'File' | 'Edit' | 'Selection' | 'View' | 'Effects'
+  binding: string | null
+  // Also fires while typing in a text field.
+  global?: boolean
+  // Shift+binding fires it too, ten times as far (nudging).
+  shiftScales?: boolean
+  // Only fires while the canvas has focus, so Tab keeps moving focus
+  // through the rest of the app.
+  canvasOnly?: boolean
+}
+
+const EFFECT_SHORTCUTS: { type: EffectType; label: string; binding: string | null }[] = [
+  { type: 'none', label: 'No effect', binding: '0' },
+  { type: 'wavy', label: 'Wavy', binding: '1' },
+  { type: 'zigzag', label: 'Zigzag', binding: '2' },
+  { type: 'zigzag3d', label: 'Zigzag 3D', binding: '3' },
+  { type: 'circle', label: 'Circle', binding: '4' },
+  { type: 'isometric', label: 'Isometric', binding: '5' },
+  { type: 'polka', label: 'Polka', binding: '6' },
+  { type: 'lines', label: 'Lines', binding: '7' },
+  { type: 'boxes', label: 'Boxes', binding: '8' },
+  { type: 'triangle', label: 'Triangle', binding: '9' },
+  { type: 'rhombus', label: 'Rhombus', binding: null },
+  { type: 'hexagon', label: 'Hexagon', binding: null },
+  { type: 'squares', label: 'Squares', binding: null },
+  { type: 'pixelation', label: 'Pixelation', binding: null },
+  { type: 'glass', label: 'Glass', binding: null },
+]
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'saveProject', label: 'Save project', group: 'File', binding: 'Mod+S', global: true },
+  { action: 'openProject', label: 'Open project', group: 'File', binding: 'Mod+O', global: true },
+  { action: 'undo', label: 'Undo', group: 'Edit', binding: 'Mod+Z', global: true },
+  { action: 'redo', label: 'Redo', group: 'Edit', binding: 'Mod+Shift+Z', global: true },
+  { action: 'nudgeLeft', label: 'Nudge left', group: 'Edit', binding: 'ArrowLeft', shiftScales: true },
+  { action: 'nudgeRight', label: 'Nudge right', group: 'Edit', binding: 'ArrowRight', shiftScales: true },
+  { action: 'nudgeUp', label: 'Nudge up', group: 'Edit', binding: 'ArrowUp', shiftScales: true },
+  { action: 'nudgeDown', label: 'Nudge down', group: 'Edit', binding: 'ArrowDown', shiftScales: true },
+  { action: 'selectAll', label: 'Select all points', group: 'Selection', binding: 'Mod+A' },
+  { action: 'deselect', label: 'Deselect', group: 'Selection', binding: 'Escape' },
+  { action: 'nextPoint', label: 'Next point', group: 'Selection', binding: 'Tab', canvasOnly: true },
+  { action: 'previousPoint', label: 'Previous point', group: 'Selection', binding: 'Shift+Tab', canvasOnly: true },
+  { action: 'toggleMeshOverlay', label: 'Show/hide mesh', group: 'View', binding: 'H' },
+  { action: 'showShortcuts', label: 'Keyboard shortcuts', group: 'View', binding: '?' },
+  ...EFFECT_SHORTCUTS.map(({ type, label, binding }): ShortcutDefinition => ({
+    action: `effect.${type}`,
+    label,
+    group: 'Effects',
+    binding,
+  })),
+]
+
+const DEFINITIONS = new Map(SHORTCUTS.map(s => [s.action, s]))
+
+export const DEFAULT_KEYMAP = Object.fromEntries(SHORTCUTS.map(s => [s.action, s.binding])) as Keymap
+
+const STORAGE_KEY = 'mesh-editor.keymap'
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+const MODIFIER_KEYS = new Set(['Meta', 'Control', 'Alt', 'Shift', 'CapsLock', 'Fn'])
+
+// Binding of a key press; null for a lone modifier. Shift is left out for
+// printable symbols, which it already selects ("?" rather than "Shift+/").
+export function eventBinding(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null
+  let key = e.key === ' ' ? 'Space' : e.key
+  if (key.length === 1) key = key.toUpperCase()
+  const symbol = key.length === 1 && !/[A-Z0-9]/.test(key)
+  const parts: string[] = []
+  if (IS_MAC ? e.metaKey : e.ctrlKey) parts.push('Mod')
+  if (e.altKey) parts.push('Alt')
+  if (e.shiftKey && !symbol) parts.push('Shift')
+  parts.push(key)
+  return parts.join('+')
+}
+
+function isTextEntry(target: EventTarget | null) {
+  return target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]') !== null
+}
+
+// Open dialogs take the keyboard for themselves.
+function isModalOpen() {
+  return typeof document !== 'undefined' && document.querySelector('[aria-modal="true"]') !== null
+}
+
+// The action a key press triggers, if any; none while a dialog is open, in
+// text fields only global ones, and canvas-only ones need `canvasFocused`.
+// `scale` is 10 when Shift turned a nudge into a large one.
+export function findShortcut(
+  keymap: Keymap,
+  e: KeyboardEvent,
+  canvasFocused = false,
+): { action: ShortcutAction; scale: number } | null {
+  const binding = eventBinding(e)
+  if (!binding || isModalOpen()) return null
+  const actions = Object.keys(keymap) as ShortcutAction[]
+  let found: { action: ShortcutAction; scale: number } | null = null
+  const exact = actions.find(a => keymap[a] === binding)
+  if (exact) {
+    found = { action: exact, scale: 1 }
+  } else if (e.shiftKey) {
+    const unshifted = binding.replace('Shift+', '')
+    const scaled = actions.find(a => keymap[a] === unshifted && DEFINITIONS.get(a)?.shiftScales)
+    if (scaled) found = { action: scaled, scale: 10 }
+  }
+  if (!found) return null
+  const definition = DEFINITIONS.get(found.action)
+  if (!definition?.global && isTextEntry(e.target)) return null
+  if (definition?.canvasOnly && !canvasFocused) return null
+  return found
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+}
+
+// "Mod+Shift+Z" as shown to the user: ⌘⇧Z on macOS, Ctrl+Shift+Z elsewhere.
+export function formatBinding(binding: string | null): string {
+  if (!binding) return '—'
+  // The "+" key itself ends the binding with a separator-looking "+".
+  const plus = binding.endsWith('+')
+  const mods = (plus ? binding.slice(0, -1) : binding).split('+').filter(Boolean)
+  const key = plus ? '+' : mods.pop() ?? ''
+  const label = KEY_LABELS[key] ?? key
+  if (IS_MAC) {
+    const symbols: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' }
+    return mods.map(m => symbols[m]).join('') + label
+  }
+  return [...mods.map(m => (m === 'Mod' ? 'Ctrl' : m)), label].join('+')
+}
+
+// Binds `action`; any other action on the same binding loses it.
+export function rebind(keymap: Keymap, action: ShortcutAction, binding: string | null): Keymap {
+  const next = { ...keymap }
+  if (binding) {
+    for (const a of Object.keys(next) as ShortcutAction[]) {
+      if (next[a] === binding) next[a] = null
+    }
+  }
+  next[action] = binding
+  return next
+}
+
+export function loadKeymap(): Keymap {
+  let keymap = { ...DEFAULT_KEYMAP }
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    if (typeof saved !== 'object' || saved === null) return keymap
+    for (const [action, binding] of Object.entries(saved)) {
+      if (!DEFINITIONS.has(action as ShortcutAction)) continue
+      if (binding !== null && typeof binding !== 'string') continue
+      keymap = rebind(keymap, action as ShortcutAction, binding)
+    }
+  } catch {
+    // Unreadable storage: defaults.
+  }
+  return keymap
+}
+
+export function saveKeymap(keymap: Keymap) {
+  const overrides = Object.fromEntries(
+    (Object.keys(keymap) as ShortcutAction[])
+      .filter(a => keymap[a] !== DEFAULT_KEYMAP[a])
+      .map(a => [a, keymap[a]]),
+  )
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides))
+  } catch {
+    // Private mode or full storage: the bindings last for this session.
+  }
+}
@@ -1,4 +1,12 @@
-import type { Vec2, Color, MeshPoint, MeshGrid } from './types'
+import {
+  SRGB_INTERPOLATION,
+  coordsDelta,
+  fromInterpolationSpace,
+  mixCoords,
+  toInterpolationSpace,
+  type ColorCoords,
+} from './colorSpace'
+import type { Vec2, Color, ColorInterpolationSettings, MeshPoint, MeshGrid, PatchChanges, PointRef } from './types'
 
 // ─── Cubic Bezier ────────────────────────────────────────────────────────────
 
@@ -125,115 +133,902 @@ export function evalPatchPosition(patch: PatchCorners, u: number, v: number, w:
   }
 }
 
-// Bilinear color interpolation across the patch
-export function evalPatchColor(patch: PatchCorners, u: number, v: number): Color {
+// Bilinear color interpolation across the patch, in the given color space:
+// top and bottom edges are mixed along u first, then the results along v.
+export function evalPatchColor(
+  patch: PatchCorners,
+  u: number,
+  v: number,
+  interpolation: ColorInterpolationSettings = SRGB_INTERPOLATION,
+): Color {
   const { tl, tr, bl, br } = patch
-  const w00 = (1 - u) * (1 - v)
-  const w10 = u * (1 - v)
-  const w01 = (1 - u) * v
-  const w11 = u * v
+  if (interpolation.space === 'srgb') {
+    const w00 = (1 - u) * (1 - v)
+    const w10 = u * (1 - v)
+    const w01 = (1 - u) * v
+    const w11 = u * v
+    return {
+      r: w00 * tl.color.r + w10 * tr.color.r + w01 * bl.color.r + w11 * br.color.r,
+      g: w00 * tl.color.g + w10 * tr.color.g + w01 * bl.color.g + w11 * br.color.g,
+      b: w00 * tl.color.b + w10 * tr.color.b + w01 * bl.color.b + w11 * br.color.b,
+      a: w00 * tl.color.a + w10 * tr.color.a + w01 * bl.color.a + w11 * br.color.a,
+    }
+  }
+  return evalPatchCoords(patchCoords(patch, interpolation), u, v, interpolation)
+}
+
+interface PatchCoords {
+  tl: ColorCoords
+  tr: ColorCoords
+  bl: ColorCoords
+  br: ColorCoords
+}
+
+// Corner colors converted once per patch for repeated evaluation.
+function patchCoords(patch: PatchCorners, interpolation: ColorInterpolationSettings): PatchCoords {
+  const { space } = interpolation
+  return {
+    tl: toInterpolationSpace(patch.tl.color, space),
+    tr: toInterpolationSpace(patch.tr.color, space),
+    bl: toInterpolationSpace(patch.bl.color, space),
+    br: toInterpolationSpace(patch.br.color, space),
+  }
+}
+
+function evalPatchCoords(coords: PatchCoords, u: number, v: number, interpolation: ColorInterpolationSettings): Color {
+  const top = mixCoords(coords.tl, coords.tr, u, interpolation)
+  const bottom = mixCoords(coords.bl, coords.br, u, interpolation)
+  return fromInterpolationSpace(mixCoords(top, bottom, v, interpolation), interpolation.space)
+}
+
+// ─── Bicubic color ────────────────────────────────────────────────────────────
+// Colors treated like positions: every point gets u/v color tangents from its
+// neighbours (Catmull-Rom central differences, one-sided on the border),
+// scaled by its `colorTangent`, and each patch is a bicubic Hermite surface
+// with zero twist. Adjacent patches share corner values and edge tangents, so
+// color is C1 across patch edges instead of creasing at every point.
+
+// Upper bound of MeshPoint.colorTangent.
+export const MAX_COLOR_TANGENT = 2
+
+interface ColorNode {
+  value: ColorCoords
+  du: ColorCoords
+  dv: ColorCoords
+}
+
+const addCoords = (a: ColorCoords, b: ColorCoords, k = 1): ColorCoords =>
+  [a[0] + b[0] * k, a[1] + b[1] * k, a[2] + b[2] * k, a[3] + b[3] * k]
+
+function colorNodes(grid: MeshGrid, interpolation: ColorInterpolationSettings): ColorNode[][] {
+  const { rows, cols, points } = grid
+  const values = points.map(row => row.map(p => toInterpolationSpace(p.color, interpolation.space)))
+  const tangent = (prev: ColorCoords | null, cur: ColorCoords, next: ColorCoords | null, scale: number): ColorCoords => {
+    const zero: ColorCoords = [0, 0, 0, 0]
+    const back = prev ? coordsDelta(prev, cur, interpolation) : null
+    const ahead = next ? coordsDelta(cur, next, interpolation) : null
+    const d = back && ahead ? addCoords(addCoords(zero, back, 0.5), ahead, 0.5) : back ?? ahead ?? zero
+    return addCoords(zero, d, scale)
+  }
+  return values.map((row, r) => row.map((value, c) => {
+    const scale = points[r][c].colorTangent
+    return {
+      value,
+      du: tangent(c > 0 ? row[c - 1] : null, value, c < cols - 1 ? row[c + 1] : null, scale),
+      dv: tangent(r > 0 ? values[r - 1][c] : null, value, r < rows - 1 ? values[r + 1][c] : null, scale),
+    }
+  }))
+}
+
+interface BicubicPatch {
+  tl: ColorNode
+  tr: ColorNode
+  bl: ColorNode
+  br: ColorNode
+}
+
+// Corner nodes of patch (pr, pc). OKLCH hues are unwrapped around the
+// top-left corner along the hue path so the cubic runs on continuous angles.
+function bicubicPatch(nodes: ColorNode[][], pr: number, pc: number, interpolation: ColorInterpolationSettings): BicubicPatch {
+  const tl = nodes[pr][pc]
+  const tr = nodes[pr][pc + 1]
+  const bl = nodes[pr + 1][pc]
+  const br = nodes[pr + 1][pc + 1]
+  if (interpolation.space !== 'oklch') return { tl, tr, bl, br }
+
+  const base: ColorCoords = [...tl.value]
+  if (Number.isNaN(base[2])) {
+    const defined = [tr, bl, br].find(n => !Number.isNaN(n.value[2]))
+    base[2] = defined ? defined.value[2] : 0
+  }
+  const trValue = addCoords(base, coordsDelta(base, tr.value, interpolation))
+  const blValue = addCoords(base, coordsDelta(base, bl.value, interpolation))
+  const brValue = addCoords(trValue, coordsDelta(trValue, br.value, interpolation))
   return {
-    r: w00 * tl.color.r + w10 * tr.color.r + w01 * bl.color.r + w11 * br.color.r,
-    g: w00 * tl.color.g + w10 * tr.color.g + w01 * bl.color.g + w11 * br.color.g,
-    b: w00 * tl.color.b + w10 * tr.color.b + w01 * bl.color.b + w11 * br.color.b,
-    a: w00 * tl.color.a + w10 * tr.color.a + w01 * bl.color.a + w11 * br.color.a,
+    tl: { ...tl, value: base },
+    tr: { ...tr, value: trValue },
+    bl: { ...bl, value: blValue },
+    br: { ...br, value: brValue },
   }
 }
 
+function evalBicubicColor(patch: BicubicPatch, u: number, v: number, interpolation: ColorInterpolationSettings): Color {
+  // Hermite basis: a* weigh values, b* weigh tangents.
+  const u2 = u * u
+  const u3 = u2 * u
+  const v2 = v * v
+  const v3 = v2 * v
+  const a0 = 2 * u3 - 3 * u2 + 1
+  const a1 = -2 * u3 + 3 * u2
+  const b0 = u3 - 2 * u2 + u
+  const b1 = u3 - u2
+  const c0 = 2 * v3 - 3 * v2 + 1
+  const c1 = -2 * v3 + 3 * v2
+  const d0 = v3 - 2 * v2 + v
+  const d1 = v3 - v2
+  const { tl, tr, bl, br } = patch
+  const out: ColorCoords = [0, 0, 0, 0]
+  for (let k = 0; k < 4; k++) {
+    out[k] =
+      a0 * c0 * tl.value[k] + a1 * c0 * tr.value[k] + a0 * c1 * bl.value[k] + a1 * c1 * br.value[k]
+      + b0 * c0 * tl.du[k] + b1 * c0 * tr.du[k] + b0 * c1 * bl.du[k] + b1 * c1 * br.du[k]
+      + a0 * d0 * tl.dv[k] + a1 * d0 * tr.dv[k] + a0 * d1 * bl.dv[k] + a1 * d1 * br.dv[k]
+  }
+  // Overshoot below zero chroma would flip the hue.
+  if (interpolation.space === 'oklch') out[1] = Math.max(0, out[1])
+  return fromInterpolationSpace(out, interpolation.space)
+}
+
+// Color at fractional grid coordinates (gx = column, gy = row), as rendered.
+export function sampleGridColor(
+  grid: MeshGrid,
+  gx: number,
+  gy: number,
+  interpolation: ColorInterpolationSettings = SRGB_INTERPOLATION,
+): Color {
+  const pc = Math.max(0, Math.min(grid.cols - 2, Math.floor(gx)))
+  const pr = Math.max(0, Math.min(grid.rows - 2, Math.floor(gy)))
+  const u = Math.max(0, Math.min(1, gx - pc))
+  const v = Math.max(0, Math.min(1, gy - pr))
+  if (interpolation.mode === 'bicubic') {
+    return evalBicubicColor(bicubicPatch(colorNodes(grid, interpolation), pr, pc, interpolation), u, v, interpolation)
+  }
+  const { points } = grid
+  return evalPatchColor({
+    tl: points[pr][pc],
+    tr: points[pr][pc + 1],
+    bl: points[pr + 1][pc],
+    br: points[pr + 1][pc + 1],
+  }, u, v, interpolation)
+}
+
 // ─── Tessellation ─────────────────────────────────────────────────────────────
-// Generate Float32Arrays for Three.js BufferGeometry from the mesh grid
+// Generate Float32Arrays for Three.js BufferGeometry from the mesh grid.
+//
+// Every patch edge gets its own segment count: `subdivision` in uniform
+// mode, or (adaptive) just enough for the curvature of its Bezier and for
+// how far its color strays from a straight blend. Edge vertices are computed
+// once and shared by both neighbouring patches, so patches with different
+// levels meet without cracks or T-junctions. Inside, each patch gets a
+// regular nu×nv grid; the ring between its boundary and that grid is
+// stitched by walking both loops in step.
+//
+// Vertex order: grid points (row-major), then the inner vertices of the
+// horizontal edges, the vertical edges, and each patch's inner grid. The
+// layout records every level and where each block starts, so edits can be
+// checked against it (layoutFits) and the vertices regenerated.
+
+export interface TessellationLayout {
+  subdivision: number
+  adaptive: boolean
+  // Segments per edge: horizontal[row][patchCol], vertical[patchRow][col].
+  horizontal: number[][]
+  vertical: number[][]
+  // Inner grid size per patch: interior[patchRow][patchCol].
+  interior: { nu: number; nv: number }[][]
+  // First vertex of each edge's inner points and each patch's inner grid.
+  horizontalBase: number[][]
+  verticalBase: number[][]
+  interiorBase: number[][]
+}
 
 export interface TessellationResult {
   positions: Float32Array    // x, y, z per vertex
   colors: Float32Array       // r, g, b, a per vertex
   indices: Uint16Array | Uint32Array
   vertexCount: number
+  // Vertices with every level at `subdivision` (the uniform tessellation).
+  uniformVertexCount: number
+  layout: TessellationLayout
+}
+
+type PatchColorSampler = (u: number, v: number) => Color
+
+// Per-patch color evaluators in the document's blend mode and space.
+function patchColorSamplers(grid: MeshGrid, interpolation: ColorInterpolationSettings): PatchColorSampler[][] {
+  const { rows, cols, points } = grid
+  const nodes = interpolation.mode === 'bicubic' ? colorNodes(grid, interpolation) : null
+  const samplers: PatchColorSampler[][] = []
+  for (let pr = 0; pr < rows - 1; pr++) {
+    const row: PatchColorSampler[] = []
+    for (let pc = 0; pc < cols - 1; pc++) {
+      const patch = patchAt(grid, pr, pc)
+      if (nodes) {
+        const bicubic = bicubicPatch(nodes, pr, pc, interpolation)
+        row.push((u, v) => evalBicubicColor(bicubic, u, v, interpolation))
+      } else if (interpolation.space === 'srgb') {
+        row.push((u, v) => evalPatchColor(patch, u, v))
+      } else {
+        const coords = patchCoords(patch, interpolation)
+        row.push((u, v) => evalPatchCoords(coords, u, v, interpolation))
+      }
+    }
+    samplers.push(row)
+  }
+  return samplers
+}
+
+export function patchAt(grid: MeshGrid, pr: number, pc: number): PatchCorners {
+  const { points } = grid
+  return {
+    tl: points[pr][pc],
+    tr: points[pr][pc + 1],
+    bl: points[pr + 1][pc],
+    br: points[pr + 1][pc + 1],
+  }
+}
+
+// Max deviation from the true surface: pixels for positions, 0-1 sRGB per
+// channel for colors (one 8-bit step).
+const POSITION_TOLERANCE_PX = 0.5
+const COLOR_TOLERANCE = 1 / 255
+
+// Largest channel difference between `c` and the straight blend a→b at t.
+function colorDeviation(a: Color, b: Color, c: Color, t: number) {
+  return Math.max(
+    Math.abs(c.r - (a.r + (b.r - a.r) * t)),
+    Math.abs(c.g - (a.g + (b.g - a.g) * t)),
+    Math.abs(c.b - (a.b + (b.b - a.b) * t)),
+    Math.abs(c.a - (a.a + (b.a - a.a) * t)),
+  )
+}
+
+// Segments needed for a cubic Bezier (pixels) to stay within tolerance. The
+// curve lies within 3/4 of its control points' distance from the chord;
+// handles that overshoot the chord fall back to Wang's bound.
+function curveLevel(p0: Vec2, p1: Vec2, p2: Vec2, p3: Vec2) {
+  const dx = p3.x - p0.x
+  const dy = p3.y - p0.y
+  const len2 = dx * dx + dy * dy
+  const along = (p: Vec2) => ((p.x - p0.x) * dx + (p.y - p0.y) * dy) / len2
+  const across = (p: Vec2) => Math.abs((p.x - p0.x) * dy - (p.y - p0.y) * dx) / Math.sqrt(len2)
+  let deviation: number
+  if (len2 > 1e-9 && [along(p1), along(p2)].every(t => t >= 0 && t <= 1)) {
+    deviation = 0.75 * Math.max(across(p1), across(p2))
+  } else {
+    deviation = 0.75 * Math.max(
+      Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y),
+      Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y),
+    )
+  }
+  return Math.ceil(Math.sqrt(deviation / POSITION_TOLERANCE_PX))
+}
+
+// Segments needed for a color ramp to stay within tolerance of its piecewise
+// linear version. Starts from the quadratic error estimate and checks the
+// segment midpoints, refining until they pass or `max` is reached.
+function colorLevel(sample: (t: number) => Color, max: number) {
+  const start = sample(0)
+  const end = sample(1)
+  let worst = 0
+  for (let k = 1; k < 8; k++) worst = Math.max(worst, colorDeviation(start, end, sample(k / 8), k / 8))
+  let n = Math.max(1, Math.ceil(Math.sqrt(worst / COLOR_TOLERANCE)))
+  while (n < max) {
+    let prev = start
+    let ok = true
+    for (let i = 1; i <= n && ok; i++) {
+      const next = i === n ? end : sample(i / n)
+      ok = colorDeviation(prev, next, sample((i - 0.5) / n), 0.5) <= COLOR_TOLERANCE
+      prev = next
+    }
+    if (ok) break
+    n = Math.min(max, Math.ceil(n * 1.5))
+  }
+  return Math.min(n, max)
+}
+
+interface RingVertex {
+  index: number
+  t: number  // position along the loop, 0-4 (one unit per side)
+}
+
+// Triangulates the band between two closed loops running the same way round,
+// always advancing whichever loop's next vertex comes first.
+function stitchRing(outer: RingVertex[], inner: RingVertex[], emit: (a: number, b: number, c: number) => void) {
+  const outerT = (k: number) => (k < outer.length ? outer[k].t : 4)
+  const innerT = (k: number) => (k < inner.length ? inner[k].t : inner[0].t + 4)
+  const outerIndex = (k: number) => outer[k % outer.length].index
+  const innerIndex = (k: number) => inner[k % inner.length].index
+  let o = 0
+  let i = 0
+  while (o < outer.length || i < inner.length) {
+    if (i >= inner.length || (o < outer.length && outerT(o + 1) <= innerT(i + 1))) {
+      emit(outerIndex(o), innerIndex(i), outerIndex(o + 1))
+      o++
+    } else {
+      emit(outerIndex(o), innerIndex(i), innerIndex(i + 1))
+      i++
+    }
+  }
+}
+
+// Evaluation state shared by full and partial tessellation.
+interface TessellationContext {
+  grid: MeshGrid
+  subdivision: number
+  patches: PatchCorners[][]
+  samplers: PatchColorSampler[][]
+}
+
+function tessellationContext(
+  grid: MeshGrid,
+  subdivision: number,
+  interpolation: ColorInterpolationSettings,
+): TessellationContext {
+  const patches = Array.from({ length: grid.rows - 1 }, (_, pr) =>
+    Array.from({ length: grid.cols - 1 }, (_, pc) => patchAt(grid, pr, pc)))
+  return { grid, subdivision, patches, samplers: patchColorSamplers(grid, interpolation) }
+}
+
+// Grid points and edges are evaluated through the patch below/right of
+// them, or the last one on the far border.
+const hostRow = (grid: MeshGrid, r: number) => Math.min(r, grid.rows - 2)
+const hostCol = (grid: MeshGrid, c: number) => Math.min(c, grid.cols - 2)
+
+// `color: null` leaves the color term out (positions-only checks).
+function edgeLevel(
+  ctx: TessellationContext,
+  a: MeshPoint,
+  b: MeshPoint,
+  horizontal: boolean,
+  color: ((t: number) => Color) | null,
+) {
+  const { width, height } = ctx.grid
+  const A = toPixel(a.position, width, height)
+  const B = toPixel(b.position, width, height)
+  const ha = horizontal ? a.handles.right : a.handles.down
+  const hb = horizontal ? b.handles.left : b.handles.up
+  const level = Math.max(
+    curveLevel(A, { x: A.x + ha.x * width, y: A.y + ha.y * height }, { x: B.x + hb.x * width, y: B.y + hb.y * height }, B),
+    color ? colorLevel(color, ctx.subdivision) : 1,
+  )
+  return Math.max(1, Math.min(ctx.subdivision, level))
+}
+
+// Edge along row r from column pc to pc + 1.
+function horizontalLevel(ctx: TessellationContext, r: number, pc: number, withColor = true) {
+  const { points } = ctx.grid
+  const pr = hostRow(ctx.grid, r)
+  const color = withColor ? (u: number) => ctx.samplers[pr][pc](u, r - pr) : null
+  return edgeLevel(ctx, points[r][pc], points[r][pc + 1], true, color)
+}
+
+// Edge along column c from row pr to pr + 1.
+function verticalLevel(ctx: TessellationContext, pr: number, c: number, withColor = true) {
+  const { points } = ctx.grid
+  const pc = hostCol(ctx.grid, c)
+  const color = withColor ? (v: number) => ctx.samplers[pr][pc](c - pc, v) : null
+  return edgeLevel(ctx, points[pr][c], points[pr + 1][c], false, color)
+}
+
+// Interior levels follow the edges and the mid iso-lines, then grow together
+// until the bilinear twist (what a triangle cannot follow inside a cell) is
+// small enough.
+function interiorLevel(
+  ctx: TessellationContext,
+  pr: number,
+  pc: number,
+  edges: { top: number; bottom: number; left: number; right: number },
+  withColor = true,
+) {
+  const { width, height } = ctx.grid
+  const patch = ctx.patches[pr][pc]
+  const sample = ctx.samplers[pr][pc]
+  let nu = Math.max(edges.top, edges.bottom, withColor ? colorLevel(u => sample(u, 0.5), ctx.subdivision) : 1)
+  let nv = Math.max(edges.left, edges.right, withColor ? colorLevel(v => sample(0.5, v), ctx.subdivision) : 1)
+  const mid = evalPatchPosition(patch, 0.5, 0.5, width, height)
+  const trPos = evalPatchPosition(patch, 1, 0, width, height)
+  const blPos = evalPatchPosition(patch, 0, 1, width, height)
+  const twist = Math.max(
+    Math.hypot(mid.x - (trPos.x + blPos.x) / 2, mid.y - (trPos.y + blPos.y) / 2) / POSITION_TOLERANCE_PX,
+    withColor ? colorDeviation(sample(1, 0), sample(0, 1), sample(0.5, 0.5), 0.5) / COLOR_TOLERANCE : 0,
+  )
+  if (nu * nv < twist) {
+    const k = Math.sqrt(twist / (nu * nv))
+    nu = Math.ceil(nu * k)
+    nv = Math.ceil(nv * k)
+  }
+  return { nu: clampInterior(ctx.subdivision, nu), nv: clampInterior(ctx.subdivision, nv) }
+}
+
+// At least one inner vertex per patch, except at subdivision 1 (two
+// triangles per patch).
+const clampInterior = (subdivision: number, n: number) => Math.max(Math.min(2, subdivision), Math.min(subdivision, n))
+
+type VertexWriter = (index: number, pr: number, pc: number, u: number, v: number) => void
+
+function vertexWriter(
+  ctx: TessellationContext,
+  positions: Float32Array,
+  colors: Float32Array,
+): VertexWriter {
+  const { width, height } = ctx.grid
+  return (index, pr, pc, u, v) => {
+    const pos = evalPatchPosition(ctx.patches[pr][pc], u, v, width, height)
+    // Normalize to [-1, 1] for WebGL clip space
+    positions[index * 3 + 0] = (pos.x / width) * 2 - 1
+    positions[index * 3 + 1] = -((pos.y / height) * 2 - 1)  // flip Y
+    positions[index * 3 + 2] = 0
+    const col4 = ctx.samplers[pr][pc](u, v)
+    colors[index * 4 + 0] = col4.r
+    colors[index * 4 + 1] = col4.g
+    colors[index * 4 + 2] = col4.b
+    colors[index * 4 + 3] = col4.a
+  }
+}
+
+function writeGridPoint(grid: MeshGrid, put: VertexWriter, r: number, c: number) {
+  const pr = hostRow(grid, r)
+  const pc = hostCol(grid, c)
+  put(r * grid.cols + c, pr, pc, c - pc, r - pr)
+}
+
+function writeHorizontalEdge(grid: MeshGrid, layout: TessellationLayout, put: VertexWriter, r: number, pc: number) {
+  const pr = hostRow(grid, r)
+  const n = layout.horizontal[r][pc]
+  const base = layout.horizontalBase[r][pc]
+  for (let k = 1; k < n; k++) put(base + k - 1, pr, pc, k / n, r - pr)
+}
+
+function writeVerticalEdge(grid: MeshGrid, layout: TessellationLayout, put: VertexWriter, pr: number, c: number) {
+  const pc = hostCol(grid, c)
+  const n = layout.vertical[pr][c]
+  const base = layout.verticalBase[pr][c]
+  for (let k = 1; k < n; k++) put(base + k - 1, pr, pc, c - pc, k / n)
+}
+
+function writeInterior(layout: TessellationLayout, put: VertexWriter, pr: number, pc: number) {
+  const { nu, nv } = layout.interior[pr][pc]
+  let index = layout.interiorBase[pr][pc]
+  for (let j = 1; j < nv; j++) {
+    for (let i = 1; i < nu; i++) put(index++, pr, pc, i / nu, j / nv)
+  }
+}
+
+// Edge vertices, grid points included, in increasing u or v.
+function edgeVertices(first: number, last: number, base: number, n: number) {
+  const verts = [first]
+  for (let k = 1; k < n; k++) verts.push(base + k - 1)
+  verts.push(last)
+  return verts
+}
+
+function patchTriangles(
+  grid: MeshGrid,
+  layout: TessellationLayout,
+  pr: number,
+  pc: number,
+  emit: (a: number, b: number, c: number) => void,
+) {
+  const { cols } = grid
+  const point = (r: number, c: number) => r * cols + c
+  const { nu, nv } = layout.interior[pr][pc]
+  const top = edgeVertices(point(pr, pc), point(pr, pc + 1), layout.horizontalBase[pr][pc], layout.horizontal[pr][pc])
+  const bottom = edgeVertices(point(pr + 1, pc), point(pr + 1, pc + 1), layout.horizontalBase[pr + 1][pc], layout.horizontal[pr + 1][pc])
+  const left = edgeVertices(point(pr, pc), point(pr + 1, pc), layout.verticalBase[pr][pc], layout.vertical[pr][pc])
+  const right = edgeVertices(point(pr, pc + 1), point(pr + 1, pc + 1), layout.verticalBase[pr][pc + 1], layout.vertical[pr][pc + 1])
+
+  if (nu < 2 || nv < 2) {
+    // Subdivision 1: every edge is a single segment.
+    emit(point(pr, pc), point(pr + 1, pc), point(pr, pc + 1))
+    emit(point(pr, pc + 1), point(pr + 1, pc), point(pr + 1, pc + 1))
+    return
+  }
+
+  // Inner grid: (i, j) for i in 1..nu-1, j in 1..nv-1.
+  const innerBase = layout.interiorBase[pr][pc]
+  const inner = (i: number, j: number) => innerBase + (j - 1) * (nu - 1) + (i - 1)
+  for (let j = 1; j < nv - 1; j++) {
+    for (let i = 1; i < nu - 1; i++) {
+      emit(inner(i, j), inner(i, j + 1), inner(i + 1, j))
+      emit(inner(i + 1, j), inner(i, j + 1), inner(i + 1, j + 1))
+    }
+  }
+
+  // Boundary loop, clockwise from the top-left corner.
+  const outerRing: RingVertex[] = []
+  const side = (verts: number[], base: number, reverse: boolean) => {
+    const n = verts.length - 1
+    for (let k = 0; k < n; k++) outerRing.push({ index: verts[reverse ? n - k : k], t: base + k / n })
+  }
+  side(top, 0, false)
+  side(right, 1, false)
+  side(bottom, 2, true)
+  side(left, 3, true)
+
+  // Inner grid loop, same direction. A single row or column is walked out
+  // and back so the loop stays closed.
+  const innerRing: RingVertex[] = []
+  const fracU = (i: number) => (nu > 2 ? (i - 1) / (nu - 2) : 0.5)
+  const fracV = (j: number) => (nv > 2 ? (j - 1) / (nv - 2) : 0.5)
+  const pushInner = (i: number, j: number, t: number) => {
+    const index = inner(i, j)
+    if (innerRing.length && innerRing[innerRing.length - 1].index === index) return
+    innerRing.push({ index, t })
+  }
+  for (let i = 1; i < nu; i++) pushInner(i, 1, fracU(i))
+  for (let j = 1; j < nv; j++) pushInner(nu - 1, j, 1 + fracV(j))
+  for (let i = nu - 1; i >= 1; i--) pushInner(i, nv - 1, 2 + (1 - fracU(i)))
+  for (let j = nv - 1; j >= 1; j--) pushInner(1, j, 3 + (1 - fracV(j)))
+  if (innerRing.length > 1 && innerRing[innerRing.length - 1].index === innerRing[0].index) innerRing.pop()
+
+  stitchRing(outerRing, innerRing, emit)
+}
+
+interface TessellationPlan {
+  layout: TessellationLayout
+  indices: Uint16Array | Uint32Array
+  vertexCount: number
+  uniformVertexCount: number
 }
 
-export function tessellate(grid: MeshGrid, subdivision: number = 16): TessellationResult {
-  const { rows, cols, points, width, height } = grid
+// Levels, vertex layout and triangles; vertex data is written separately.
+function planTessellation(ctx: TessellationContext, adaptive: boolean): TessellationPlan {
+  const { grid, subdivision: s } = ctx
+  const { rows, cols } = grid
   const patchRows = rows - 1
   const patchCols = cols - 1
 
-  // Each patch is divided into subdivision×subdivision quads
-  const vertsPerPatchRow = subdivision + 1
-  const vertsPerPatchCol = subdivision + 1
-  const vertsPerPatch = vertsPerPatchRow * vertsPerPatchCol
-  const totalVerts = patchRows * patchCols * vertsPerPatch
-  const totalTris = patchRows * patchCols * subdivision * subdivision * 2
-  const totalIndices = totalTris * 3
-
-  const positions = new Float32Array(totalVerts * 3)
-  const colors = new Float32Array(totalVerts * 4)
-  // WebGL1 compatibility: use 16-bit indices when possible.
-  const indices = totalVerts <= 65535
-    ? new Uint16Array(totalIndices)
-    : new Uint32Array(totalIndices)
+  // ── Levels ─────────────────────────────────────────────────────────────
+  const horizontal = Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: patchCols }, (_, pc) => (adaptive ? horizontalLevel(ctx, r, pc) : s)))
+  const vertical = Array.from({ length: patchRows }, (_, pr) =>
+    Array.from({ length: cols }, (_, c) => (adaptive ? verticalLevel(ctx, pr, c) : s)))
+  const interior = Array.from({ length: patchRows }, (_, pr) =>
+    Array.from({ length: patchCols }, (_, pc) => (adaptive
+      ? interiorLevel(ctx, pr, pc, {
+        top: horizontal[pr][pc],
+        bottom: horizontal[pr + 1][pc],
+        left: vertical[pr][pc],
+        right: vertical[pr][pc + 1],
+      })
+      : { nu: s, nv: s })))
 
-  let vi = 0  // vertex index
-  let ii = 0  // index index
-  let baseVertex = 0
+  // ── Layout ─────────────────────────────────────────────────────────────
+  let next = rows * cols
+  const take = (count: number) => {
+    const base = next
+    next += count
+    return base
+  }
+  const layout: TessellationLayout = {
+    subdivision: s,
+    adaptive,
+    horizontal,
+    vertical,
+    interior,
+    horizontalBase: horizontal.map(row => row.map(n => take(n - 1))),
+    verticalBase: vertical.map(row => row.map(n => take(n - 1))),
+    interiorBase: interior.map(row => row.map(({ nu, nv }) => take((nu - 1) * (nv - 1)))),
+  }
+  const vertexCount = next
 
+  // ── Triangles ──────────────────────────────────────────────────────────
+  let maxTris = 0
   for (let pr = 0; pr < patchRows; pr++) {
     for (let pc = 0; pc < patchCols; pc++) {
-      const patch: PatchCorners = {
-        tl: points[pr][pc],
-        tr: points[pr][pc + 1],
-        bl: points[pr + 1][pc],
-        br: points[pr + 1][pc + 1],
-      }
+      const { nu, nv } = interior[pr][pc]
+      // Inner quads, plus one triangle per vertex of both ring loops.
+      maxTris += 2 * Math.max(0, nu - 2) * Math.max(0, nv - 2)
+        + horizontal[pr][pc] + horizontal[pr + 1][pc] + vertical[pr][pc] + vertical[pr][pc + 1]
+        + 2 * (nu + nv)
+    }
+  }
+  // WebGL1 compatibility: use 16-bit indices when possible.
+  const indices = vertexCount <= 65535 ? new Uint16Array(maxTris * 3) : new Uint32Array(maxTris * 3)
+  let ii = 0
+  // Ring stitching can produce zero-area triangles around repeated loop
+  // vertices; those are dropped.
+  const emit = (a: number, b: number, c: number) => {
+    if (a === b || b === c || a === c) return
+    indices[ii++] = a
+    indices[ii++] = b
+    indices[ii++] = c
+  }
+  for (let pr = 0; pr < patchRows; pr++) {
+    for (let pc = 0; pc < patchCols; pc++) patchTriangles(grid, layout, pr, pc, emit)
+  }
 
-      // Generate vertices for this patch
-      for (let row = 0; row <= subdivision; row++) {
-        for (let col = 0; col <= subdivision; col++) {
-          const u = col / subdivision
-          const v = row / subdivision
+  const uniformEdges = rows * patchCols + patchRows * cols
+  return {
+    layout,
+    indices: indices.slice(0, ii),
+    vertexCount,
+    uniformVertexCount: rows * cols + uniformEdges * (s - 1) + patchRows * patchCols * (s - 1) ** 2,
+  }
+}
 
-          const pos = evalPatchPosition(patch, u, v, width, height)
-          const col4 = evalPatchColor(patch, u, v)
+function writeVertices(grid: MeshGrid, layout: TessellationLayout, put: VertexWriter) {
+  const { rows, cols } = grid
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) writeGridPoint(grid, put, r, c)
+  }
+  for (let r = 0; r < rows; r++) {
+    for (let pc = 0; pc < cols - 1; pc++) writeHorizontalEdge(grid, layout, put, r, pc)
+  }
+  for (let pr = 0; pr < rows - 1; pr++) {
+    for (let c = 0; c < cols; c++) writeVerticalEdge(grid, layout, put, pr, c)
+  }
+  for (let pr = 0; pr < rows - 1; pr++) {
+    for (let pc = 0; pc < cols - 1; pc++) writeInterior(layout, put, pr, pc)
+  }
+}
 
-          // Normalize to [-1, 1] for WebGL clip space
-          positions[vi * 3 + 0] = (pos.x / width) * 2 - 1
-          positions[vi * 3 + 1] = -((pos.y / height) * 2 - 1)  // flip Y
-          positions[vi * 3 + 2] = 0
+// Vertex colors are evaluated in `interpolation` space; the GPU then blends
+// linearly inside each (small) triangle. With `adaptive` (the default),
+// `subdivision` is the upper bound per edge rather than a fixed count.
+export function tessellate(
+  grid: MeshGrid,
+  subdivision: number = 16,
+  interpolation: ColorInterpolationSettings = SRGB_INTERPOLATION,
+  adaptive = true,
+): TessellationResult {
+  const ctx = tessellationContext(grid, Math.max(1, Math.round(subdivision)), interpolation)
+  const { layout, indices, vertexCount, uniformVertexCount } = planTessellation(ctx, adaptive)
+  const positions = new Float32Array(vertexCount * 3)
+  const colors = new Float32Array(vertexCount * 4)
+  writeVertices(grid, layout, vertexWriter(ctx, positions, colors))
+  return { positions, colors, indices, vertexCount, uniformVertexCount, layout }
+}
 
-          colors[vi * 4 + 0] = col4.r
-          colors[vi * 4 + 1] = col4.g
-          colors[vi * 4 + 2] = col4.b
-          colors[vi * 4 + 3] = col4.a
+export interface PatchCoordTessellation {
+  // u, v, patch index (patchRow * (cols - 1) + patchCol) per vertex.
+  coords: Float32Array
+  indices: Uint16Array | Uint32Array
+  vertexCount: number
+  uniformVertexCount: number
+  layout: TessellationLayout
+}
 
-          vi++
-        }
-      }
+// Same vertices and triangles as tessellate(), as patch coordinates for
+// evaluation on the GPU (see writePatchData). Only needs redoing when the
+// layout changes.
+export function tessellatePatchCoords(
+  grid: MeshGrid,
+  subdivision: number = 16,
+  interpolation: ColorInterpolationSettings = SRGB_INTERPOLATION,
+  adaptive = true,
+): PatchCoordTessellation {
+  const ctx = tessellationContext(grid, Math.max(1, Math.round(subdivision)), interpolation)
+  const { layout, indices, vertexCount, uniformVertexCount } = planTessellation(ctx, adaptive)
+  const coords = new Float32Array(vertexCount * 3)
+  const patchCols = grid.cols - 1
+  writeVertices(grid, layout, (index, pr, pc, u, v) => {
+    coords[index * 3 + 0] = u
+    coords[index * 3 + 1] = v
+    coords[index * 3 + 2] = pr * patchCols + pc
+  })
+  return { coords, indices, vertexCount, uniformVertexCount, layout }
+}
 
-      // Generate indices (2 triangles per quad)
-      for (let row = 0; row < subdivision; row++) {
-        for (let col = 0; col < subdivision; col++) {
-          const v0 = baseVertex + row * vertsPerPatchRow + col
-          const v1 = v0 + 1
-          const v2 = v0 + vertsPerPatchRow
-          const v3 = v2 + 1
-
-          indices[ii++] = v0
-          indices[ii++] = v2
-          indices[ii++] = v1
-
-          indices[ii++] = v1
-          indices[ii++] = v2
-          indices[ii++] = v3
-        }
+// Ids (patchRow * (cols - 1) + patchCol) of the up to four patches that
+// have the point as a corner.
+export function patchesAroundPoint(grid: MeshGrid, row: number, col: number): number[] {
+  const ids: number[] = []
+  for (let pr = Math.max(0, row - 1); pr <= Math.min(grid.rows - 2, row); pr++) {
+    for (let pc = Math.max(0, col - 1); pc <= Math.min(grid.cols - 2, col); pc++) {
+      ids.push(pr * (grid.cols - 1) + pc)
+    }
+  }
+  return ids
+}
+
+// Patches whose vertices depend on the points edited in `changes`: the
+// recorded ones plus, for bicubic color edits, one more ring (color
+// tangents reach the neighbouring points). Vertex colors do not depend on
+// positions.
+export function changedPatches(
+  grid: MeshGrid,
+  interpolation: ColorInterpolationSettings,
+  changes: PatchChanges,
+): PointRef[] {
+  const patchRows = grid.rows - 1
+  const patchCols = grid.cols - 1
+  const reach = changes.colors && interpolation.mode === 'bicubic' ? 1 : 0
+  const dirty: PointRef[] = []
+  const seen = new Set<number>()
+  for (const id of changes.patches) {
+    const row = Math.floor(id / patchCols)
+    const col = id % patchCols
+    for (let pr = Math.max(0, row - reach); pr <= Math.min(patchRows - 1, row + reach); pr++) {
+      for (let pc = Math.max(0, col - reach); pc <= Math.min(patchCols - 1, col + reach); pc++) {
+        if (seen.has(pr * patchCols + pc)) continue
+        seen.add(pr * patchCols + pc)
+        dirty.push({ row: pr, col: pc })
       }
+    }
+  }
+  return dirty
+}
+
+// Whether `layout` still holds the grid after the given patches were edited:
+// same size, and (adaptive) no level that would have to grow. Levels that
+// could shrink are kept until the next full tessellation. With `withColor`
+// false only the geometric criteria are checked (colors did not change, so
+// the current levels already cover them).
+export function layoutFits(
+  grid: MeshGrid,
+  interpolation: ColorInterpolationSettings,
+  layout: TessellationLayout,
+  patches: PointRef[],
+  withColor: boolean,
+) {
+  if (layout.interior.length !== grid.rows - 1 || layout.interior[0]?.length !== grid.cols - 1) return false
+  if (!layout.adaptive) return true
+  const ctx = tessellationContext(grid, layout.subdivision, interpolation)
+  return patches.every(({ row: pr, col: pc }) => {
+    const edges = {
+      top: horizontalLevel(ctx, pr, pc, withColor),
+      bottom: horizontalLevel(ctx, pr + 1, pc, withColor),
+      left: verticalLevel(ctx, pr, pc, withColor),
+      right: verticalLevel(ctx, pr, pc + 1, withColor),
+    }
+    const { nu, nv } = interiorLevel(ctx, pr, pc, edges, withColor)
+    const current = layout.interior[pr][pc]
+    return edges.top <= layout.horizontal[pr][pc] && edges.bottom <= layout.horizontal[pr + 1][pc]
+      && edges.left <= layout.vertical[pr][pc] && edges.right <= layout.vertical[pr][pc + 1]
+      && nu <= current.nu && nv <= current.nv
+  })
+}
+
+// ─── GPU patch data ───────────────────────────────────────────────────────────
+// Per-patch inputs of the mesh vertex shader, one row of PATCH_TEXELS RGBA
+// float texels per patch (row = patchRow * (cols - 1) + patchCol):
+//   0-1    corner positions: tl.xy tr.xy · bl.xy br.xy (normalized)
+//   2-5    edge control points: top (tl+right, tr+left) · bottom ·
+//          left (tl+down, bl+up) · right (tr+down, br+up)
+//   6-9    corner colors tl, tr, bl, br in the interpolation space
+//   10-13  bicubic u tangents, 14-17 v tangents (zero when bilinear)
+// Colors are prepared exactly as for CPU evaluation (bicubic hues unwrapped
+// per patch); grey OKLCH hues, NaN on the CPU, are stored as GREY_HUE.
+
+export const PATCH_TEXELS = 18
+export const GREY_HUE = -1000
+
+export function writePatchData(
+  grid: MeshGrid,
+  interpolation: ColorInterpolationSettings,
+  data: Float32Array,
+  patches?: PointRef[],
+) {
+  const patchCols = grid.cols - 1
+  const nodes = interpolation.mode === 'bicubic' ? colorNodes(grid, interpolation) : null
+  const all = patches ?? Array.from({ length: (grid.rows - 1) * patchCols }, (_, i) => ({
+    row: Math.floor(i / patchCols),
+    col: i % patchCols,
+  }))
+  for (const { row: pr, col: pc } of all) {
+    const { tl, tr, bl, br } = patchAt(grid, pr, pc)
+    let o = (pr * patchCols + pc) * PATCH_TEXELS * 4
+    const vec2 = (x: number, y: number) => {
+      data[o++] = x
+      data[o++] = y
+    }
+    const control = (p: MeshPoint, handle: Vec2) => vec2(p.position.x + handle.x, p.position.y + handle.y)
+    const vec4 = (c: ColorCoords) => {
+      for (const value of c) data[o++] = Number.isNaN(value) ? GREY_HUE : value
+    }
+
+    vec2(tl.position.x, tl.position.y)
+    vec2(tr.position.x, tr.position.y)
+    vec2(bl.position.x, bl.position.y)
+    vec2(br.position.x, br.position.y)
+    control(tl, tl.handles.right)
+    control(tr, tr.handles.left)
+    control(bl, bl.handles.right)
+    control(br, br.handles.left)
+    control(tl, tl.handles.down)
+    control(bl, bl.handles.up)
+    control(tr, tr.handles.down)
+    control(br, br.handles.up)
 
-      baseVertex += vertsPerPatch
+    if (nodes) {
+      const patch = bicubicPatch(nodes, pr, pc, interpolation)
+      const corners = [patch.tl, patch.tr, patch.bl, patch.br]
+      for (const node of corners) vec4(node.value)
+      for (const node of corners) vec4(node.du)
+      for (const node of corners) vec4(node.dv)
+    } else {
+      const coords = patchCoords({ tl, tr, bl, br }, interpolation)
+      vec4(coords.tl)
+      vec4(coords.tr)
+      vec4(coords.bl)
+      vec4(coords.br)
+      data.fill(0, o, o + 32)
     }
   }
+}
+
+// ─── Auto handles ─────────────────────────────────────────────────────────────
+// Points with 'auto' handles get Catmull-Rom tangents: along each grid line
+// a handle is a sixth of the vector between the two neighbours (a third of
+// the vector to the single neighbour on the border), so the curves pass
+// smoothly through the points. They only depend on positions, so they are
+// refreshed for a point and its four neighbours whenever it moves.
+
+const scaleVec2 = (v: Vec2, k: number): Vec2 => ({ x: v.x * k, y: v.y * k })
 
-  return { positions, colors, indices, vertexCount: totalVerts }
+// Outgoing handle along one grid line, from the previous/next neighbour.
+function autoTangent(prev: Vec2 | undefined, at: Vec2, next: Vec2 | undefined): Vec2 {
+  if (prev && next) return scaleVec2({ x: next.x - prev.x, y: next.y - prev.y }, 1 / 6)
+  if (next) return scaleVec2({ x: next.x - at.x, y: next.y - at.y }, 1 / 3)
+  if (prev) return scaleVec2({ x: at.x - prev.x, y: at.y - prev.y }, 1 / 3)
+  return { x: 0, y: 0 }
+}
+
+// Right and down handles (row, col) would have as an auto point.
+export function autoTangents(grid: MeshGrid, row: number, col: number): { right: Vec2; down: Vec2 } {
+  const at = grid.points[row][col].position
+  return {
+    right: autoTangent(grid.points[row][col - 1]?.position, at, grid.points[row][col + 1]?.position),
+    down: autoTangent(grid.points[row - 1]?.[col].position, at, grid.points[row + 1]?.[col].position),
+  }
+}
+
+// The point with its auto handles recomputed; the same object when it is
+// not an auto point or nothing changed.
+export function withAutoHandles(grid: MeshGrid, row: number, col: number): MeshPoint {
+  const p = grid.points[row][col]
+  if (p.handles.type !== 'auto') return p
+  const { right, down } = autoTangents(grid, row, col)
+  const { handles } = p
+  const same = (a: Vec2, b: Vec2) => Math.abs(a.x - b.x) < 1e-9 && Math.abs(a.y - b.y) < 1e-9
+  if (same(handles.right, right) && same(handles.down, down)
+    && same(handles.left, scaleVec2(right, -1)) && same(handles.up, scaleVec2(down, -1))) return p
+  return {
+    ...p,
+    handles: { left: scaleVec2(right, -1), right, up: scaleVec2(down, -1), down, type: 'auto' },
+  }
+}
+
+// Points whose auto handles depend on the position of (row, col).
+export function autoHandleDependents(grid: MeshGrid, row: number, col: number): PointRef[] {
+  return [
+    { row, col },
+    { row: row - 1, col },
+    { row: row + 1, col },
+    { row, col: col - 1 },
+    { row, col: col + 1 },
+  ].filter(p => p.row >= 0 && p.row < grid.rows && p.col >= 0 && p.col < grid.cols)
+}
+
+// Recomputes every auto point; the same grid when nothing changed.
+export function applyAutoHandles(grid: MeshGrid): MeshGrid {
+  let points: MeshPoint[][] | null = null
+  for (let r = 0; r < grid.rows; r++) {
+    for (let c = 0; c < grid.cols; c++) {
+      const next = withAutoHandles(grid, r, c)
+      if (next === grid.points[r][c]) continue
+      points ??= grid.points.map(row => [...row])
+      points[r][c] = next
+    }
+  }
+  return points ? { ...grid, points } : grid
 }
 
 // ─── Default grid factory ─────────────────────────────────────────────────────
 
-function makeId() {
+export function makeId() {
   return Math.random().toString(36).slice(2, 9)
 }
 
@@ -260,6 +1055,8 @@ export function createDefaultGrid(rows: number, cols: number, width: number, hei
         id: makeId(),
         position: { x: px, y: py },
         color: { ...color },
+        colorTangent: 1,
+        keyframes: [],
         handles: {
           left:  { x: -HANDLE_STRENGTH, y: 0 },
           right: { x:  HANDLE_STRENGTH, y: 0 },
@@ -274,12 +1071,3 @@ export function createDefaultGrid(rows: number, cols: number, width: number, hei
 
   return { rows, cols, points, width, height }
 }
-
-export function lerpColor(a: Color, b: Color, t: number): Color {
-  return {
-    r: a.r + (b.r - a.r) * t,
-    g: a.g + (b.g - a.g) * t,
-    b: a.b + (b.b - a.b) * t,
-    a: a.a + (b.a - a.a) * t,
-  }
-}
@@ -0,0 +1,71 @@
+// ─── Byte assembly ────────────────────────────────────────────────────────────
+// Both container writers build nested size-prefixed structures. Encoded frames
+// are kept as separate parts so the final Blob references them instead of
+// copying every frame into one giant buffer.
+
+export interface ByteParts {
+  size: number
+  parts: Uint8Array[]
+}
+
+export function bytes(data: Uint8Array): ByteParts {
+  return { size: data.length, parts: [data] }
+}
+
+export function join(items: ByteParts[]): ByteParts {
+  let size = 0
+  const parts: Uint8Array[] = []
+  for (const item of items) {
+    size += item.size
+    for (const part of item.parts) parts.push(part)
+  }
+  return { size, parts }
+}
+
+export function toBlob(data: ByteParts, type: string) {
+  return new Blob(data.parts as BlobPart[], { type })
+}
+
+// Big-endian unsigned integer of a fixed byte width (up to 2^53).
+export function uintBytes(value: number, width: number): Uint8Array {
+  const out = new Uint8Array(width)
+  let v = value
+  for (let i = width - 1; i >= 0; i--) {
+    out[i] = v % 256
+    v = Math.floor(v / 256)
+  }
+  return out
+}
+
+export function uintBytesLE(value: number, width: number): Uint8Array {
+  return uintBytes(value, width).reverse()
+}
+
+export function asciiBytes(text: string): Uint8Array {
+  const out = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff
+  return out
+}
+
+export function float64Bytes(value: number): Uint8Array {
+  const out = new Uint8Array(8)
+  new DataView(out.buffer).setFloat64(0, value)
+  return out
+}
+
+export function concatBytes(list: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(list.reduce((n, b) => n + b.length, 0))
+  let offset = 0
+  for (const b of list) {
+    out.set(b, offset)
+    offset += b.length
+  }
+  return out
+}
+
+// Encoded chunk payload as its own buffer.
+export function chunkBytes(chunk: EncodedVideoChunk): Uint8Array {
+  const data = new Uint8Array(chunk.byteLength)
+  chunk.copyTo(data)
+  return data
+}
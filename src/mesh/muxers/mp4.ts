@@ -0,0 +1,154 @@
+import {
+  asciiBytes,
+  bytes,
+  chunkBytes,
+  concatBytes,
+  join,
+  toBlob,
+  uintBytes,
+  type ByteParts,
+} from './bytes'
+
+// ─── MP4 muxer ────────────────────────────────────────────────────────────────
+// Single H.264 track (AVC format chunks + avcC from the encoder's decoder
+// config). The moov box is written before mdat so the file starts playing
+// before it is fully downloaded; all samples live in one chunk.
+
+export interface Mp4MuxerOptions {
+  width: number
+  height: number
+  fps: number
+}
+
+interface Mp4Sample {
+  data: Uint8Array
+  key: boolean
+}
+
+// 90 kHz divides every supported frame rate exactly.
+const MEDIA_TIMESCALE = 90_000
+const MOVIE_TIMESCALE = 1000
+
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
+
+const u8 = (v: number) => uintBytes(v, 1)
+const u16 = (v: number) => uintBytes(v, 2)
+const u32 = (v: number) => uintBytes(v, 4)
+const zeros = (n: number) => new Uint8Array(n)
+
+function box(type: string, children: (Uint8Array | ByteParts)[]): ByteParts {
+  const body = join(children.map(c => (c instanceof Uint8Array ? bytes(c) : c)))
+  return join([bytes(concatBytes([u32(body.size + 8), asciiBytes(type)])), body])
+}
+
+function fullBox(type: string, version: number, flags: number, children: (Uint8Array | ByteParts)[]): ByteParts {
+  return box(type, [concatBytes([u8(version), uintBytes(flags, 3)]), ...children])
+}
+
+const matrix = () => concatBytes(UNITY_MATRIX.map(u32))
+
+export class Mp4Muxer {
+  private options: Mp4MuxerOptions
+  private samples: Mp4Sample[] = []
+  private avcC: Uint8Array | null = null
+
+  constructor(options: Mp4MuxerOptions) {
+    this.options = options
+  }
+
+  // Frames must arrive in presentation order, one per 1/fps step. The first
+  // chunk's metadata carries the avcC record.
+  addChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) {
+    const description = meta?.decoderConfig?.description
+    if (description && !this.avcC) {
+      this.avcC = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+        : new Uint8Array(description).slice()
+    }
+    this.samples.push({ data: chunkBytes(chunk), key: chunk.type === 'key' })
+  }
+
+  get frameCount() {
+    return this.samples.length
+  }
+
+  finalize(): Blob {
+    const { avcC } = this
+    if (!avcC) throw new Error('H.264 encoder did not provide a decoder configuration')
+    const ftyp = box('ftyp', [
+      asciiBytes('isom'),
+      u32(512),
+      asciiBytes('isomiso2avc1mp41'),
+    ])
+    // stco is fixed-width, so a first pass with offset 0 gives the moov size.
+    const moovSize = this.moov(0, avcC).size
+    const mdatHeader = 8
+    const moov = this.moov(ftyp.size + moovSize + mdatHeader, avcC)
+    const mdat = box('mdat', this.samples.map(s => s.data))
+    return toBlob(join([ftyp, moov, mdat]), 'video/mp4')
+  }
+
+  private moov(dataOffset: number, avcC: Uint8Array): ByteParts {
+    const { width, height, fps } = this.options
+    const count = this.samples.length
+    const sampleDelta = MEDIA_TIMESCALE / fps
+    const mediaDuration = count * sampleDelta
+    const movieDuration = Math.round((count * MOVIE_TIMESCALE) / fps)
+
+    const mvhd = fullBox('mvhd', 0, 0, [
+      u32(0), u32(0),
+      u32(MOVIE_TIMESCALE), u32(movieDuration),
+      u32(0x00010000), u16(0x0100), zeros(10),
+      matrix(), zeros(24),
+      u32(2),
+    ])
+
+    const tkhd = fullBox('tkhd', 0, 3, [
+      u32(0), u32(0),
+      u32(1), zeros(4), u32(movieDuration),
+      zeros(8), u16(0), u16(0), u16(0), zeros(2),
+      matrix(),
+      u32(width * 0x10000), u32(height * 0x10000),
+    ])
+
+    const mdhd = fullBox('mdhd', 0, 0, [
+      u32(0), u32(0),
+      u32(MEDIA_TIMESCALE), u32(mediaDuration),
+      u16(0x55c4), // 'und'
+      u16(0),
+    ])
+
+    const hdlr = fullBox('hdlr', 0, 0, [
+      u32(0), asciiBytes('vide'), zeros(12), asciiBytes('VideoHandler\0'),
+    ])
+
+    const avc1 = box('avc1', [
+      zeros(6), u16(1),
+      zeros(16),
+      u16(width), u16(height),
+      u32(0x00480000), u32(0x00480000),
+      zeros(4), u16(1),
+      zeros(32),
+      u16(0x0018), u16(0xffff),
+      box('avcC', [avcC]),
+    ])
+
+    const keyframes = this.samples.flatMap((s, i) => (s.key ? [i + 1] : []))
+    const stbl = box('stbl', [
+      fullBox('stsd', 0, 0, [u32(1), avc1]),
+      fullBox('stts', 0, 0, [u32(1), u32(count), u32(sampleDelta)]),
+      fullBox('stss', 0, 0, [u32(keyframes.length), ...keyframes.map(u32)]),
+      fullBox('stsc', 0, 0, [u32(1), u32(1), u32(count), u32(1)]),
+      fullBox('stsz', 0, 0, [u32(0), u32(count), ...this.samples.map(s => u32(s.data.length))]),
+      fullBox('stco', 0, 0, [u32(1), u32(dataOffset)]),
+    ])
+
+    const minf = box('minf', [
+      fullBox('vmhd', 0, 1, [zeros(8)]),
+      box('dinf', [fullBox('dref', 0, 0, [u32(1), fullBox('url ', 0, 1, [])])]),
+      stbl,
+    ])
+
+    return box('moov', [mvhd, box('trak', [tkhd, box('mdia', [mdhd, hdlr, minf])])])
+  }
+}
@@ -0,0 +1,214 @@
+import {
+  asciiBytes,
+  bytes,
+  chunkBytes,
+  concatBytes,
+  float64Bytes,
+  join,
+  toBlob,
+  uintBytes,
+  type ByteParts,
+} from './bytes'
+
+// ─── WebM (Matroska) muxer ────────────────────────────────────────────────────
+// Single video track, frames at exact 1/fps steps. Everything is buffered and
+// written on finalize, which lets the header carry the real duration and a
+// SeekHead/Cues pair so the file is seekable without a remux.
+
+export type WebmCodec = 'vp8' | 'vp9'
+
+export interface WebmMuxerOptions {
+  codec: WebmCodec
+  width: number
+  height: number
+  fps: number
+}
+
+interface WebmFrame {
+  data: Uint8Array
+  key: boolean
+}
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const
+
+// Timestamps are written in milliseconds.
+const TIMECODE_SCALE_NS = 1_000_000
+// SimpleBlock timecodes are int16 relative to their cluster.
+const MAX_CLUSTER_SPAN_MS = 30_000
+const APP_NAME = 'mesh-gradient'
+
+function idBytes(id: number): Uint8Array {
+  const width = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1
+  return uintBytes(id, width)
+}
+
+function sizeBytes(size: number): Uint8Array {
+  let width = 1
+  while (width < 8 && size >= 2 ** (7 * width) - 1) width++
+  const out = uintBytes(size, width)
+  out[0] |= 1 << (8 - width)
+  return out
+}
+
+function element(id: number, children: ByteParts[]): ByteParts {
+  const body = join(children)
+  return join([bytes(concatBytes([idBytes(id), sizeBytes(body.size)])), body])
+}
+
+function uintElement(id: number, value: number, width?: number): ByteParts {
+  let w = width ?? 1
+  if (width === undefined) while (w < 8 && value >= 2 ** (8 * w)) w++
+  return element(id, [bytes(uintBytes(value, w))])
+}
+
+const stringElement = (id: number, value: string) => element(id, [bytes(asciiBytes(value))])
+const floatElement = (id: number, value: number) => element(id, [bytes(float64Bytes(value))])
+
+export class WebmMuxer {
+  private options: WebmMuxerOptions
+  private frames: WebmFrame[] = []
+
+  constructor(options: WebmMuxerOptions) {
+    this.options = options
+  }
+
+  // Frames must arrive in presentation order, one per 1/fps step.
+  addChunk(chunk: EncodedVideoChunk) {
+    this.frames.push({ data: chunkBytes(chunk), key: chunk.type === 'key' })
+  }
+
+  get frameCount() {
+    return this.frames.length
+  }
+
+  finalize(): Blob {
+    const { codec, width, height, fps } = this.options
+    const frameMs = (i: number) => Math.round((i * 1000) / fps)
+
+    const header = element(ID.EBML, [
+      uintElement(ID.EBMLVersion, 1),
+      uintElement(ID.EBMLReadVersion, 1),
+      uintElement(ID.EBMLMaxIDLength, 4),
+      uintElement(ID.EBMLMaxSizeLength, 8),
+      stringElement(ID.DocType, 'webm'),
+      uintElement(ID.DocTypeVersion, 4),
+      uintElement(ID.DocTypeReadVersion, 2),
+    ])
+
+    const info = element(ID.Info, [
+      uintElement(ID.TimecodeScale, TIMECODE_SCALE_NS),
+      floatElement(ID.Duration, (this.frames.length * 1000) / fps),
+      stringElement(ID.MuxingApp, APP_NAME),
+      stringElement(ID.WritingApp, APP_NAME),
+    ])
+
+    const tracks = element(ID.Tracks, [
+      element(ID.TrackEntry, [
+        uintElement(ID.TrackNumber, 1),
+        uintElement(ID.TrackUID, 1),
+        uintElement(ID.TrackType, 1),
+        uintElement(ID.FlagLacing, 0),
+        stringElement(ID.CodecID, codec === 'vp9' ? 'V_VP9' : 'V_VP8'),
+        uintElement(ID.DefaultDuration, Math.round(1e9 / fps)),
+        element(ID.Video, [
+          uintElement(ID.PixelWidth, width),
+          uintElement(ID.PixelHeight, height),
+        ]),
+      ]),
+    ])
+
+    // A new cluster starts on every keyframe (so cues can point at it) or
+    // before the relative timecode would overflow.
+    const clusters: { time: number; body: ByteParts[] }[] = []
+    this.frames.forEach((frame, i) => {
+      const time = frameMs(i)
+      let cluster = clusters[clusters.length - 1]
+      if (!cluster || frame.key || time - cluster.time > MAX_CLUSTER_SPAN_MS) {
+        cluster = { time, body: [uintElement(ID.Timecode, time)] }
+        clusters.push(cluster)
+      }
+      const blockHeader = new Uint8Array(4)
+      blockHeader[0] = 0x81 // track number 1 as a one-byte vint
+      new DataView(blockHeader.buffer).setInt16(1, time - cluster.time)
+      blockHeader[3] = frame.key ? 0x80 : 0
+      cluster.body.push(element(ID.SimpleBlock, [bytes(blockHeader), bytes(frame.data)]))
+    })
+    const clusterElements = clusters.map(cluster => element(ID.Cluster, cluster.body))
+
+    // Seek positions are fixed-width, so the SeekHead size does not depend on
+    // the offsets it stores.
+    const seekHead = (positions: { info: number; tracks: number; cues: number }) => element(ID.SeekHead, [
+      [ID.Info, positions.info],
+      [ID.Tracks, positions.tracks],
+      [ID.Cues, positions.cues],
+    ].map(([id, position]) => element(ID.Seek, [
+      element(ID.SeekID, [bytes(idBytes(id))]),
+      uintElement(ID.SeekPosition, position, 8),
+    ])))
+
+    const seekSize = seekHead({ info: 0, tracks: 0, cues: 0 }).size
+    const infoPos = seekSize
+    const tracksPos = infoPos + info.size
+    let clusterPos = tracksPos + tracks.size
+    const cuePoints: ByteParts[] = []
+    clusterElements.forEach((cluster, i) => {
+      cuePoints.push(element(ID.CuePoint, [
+        uintElement(ID.CueTime, clusters[i].time),
+        element(ID.CueTrackPositions, [
+          uintElement(ID.CueTrack, 1),
+          uintElement(ID.CueClusterPosition, clusterPos),
+        ]),
+      ]))
+      clusterPos += cluster.size
+    })
+    const cues = element(ID.Cues, cuePoints)
+
+    const segment = element(ID.Segment, [
+      seekHead({ info: infoPos, tracks: tracksPos, cues: clusterPos }),
+      info,
+      tracks,
+      ...clusterElements,
+      cues,
+    ])
+    return toBlob(join([header, segment]), 'video/webm')
+  }
+}
@@ -0,0 +1,404 @@
+import type { MeshDocument } from './types'
+
+// ─── 2D effect overlays ───────────────────────────────────────────────────────
+// Canvas2D layers drawn on top of the WebGL mesh. They are shared by the editor
+// viewport, the export pipeline and the standalone runtime, so all of them
+// take the document explicitly plus an `exportScale` for pixel-sized params.
+
+interface NoiseScratch {
+  canvas: HTMLCanvasElement
+  ctx: CanvasRenderingContext2D | null
+  imageData: ImageData | null
+  w: number
+  h: number
+}
+
+interface PixelationScratch {
+  canvas: HTMLCanvasElement
+  ctx: CanvasRenderingContext2D | null
+  cols: number
+  rows: number
+}
+
+// Per-viewport scratch state: offscreen buffers and redraw keys for the
+// static pattern layers.
+export interface OverlayCache {
+  noise: NoiseScratch | null
+  pixelation: PixelationScratch | null
+  hexagonKey: string
+  squaresKey: string
+}
+
+export function createOverlayCache(): OverlayCache {
+  return { noise: null, pixelation: null, hexagonKey: '', squaresKey: '' }
+}
+
+// Stable per-cell random in [0, 1); decides which hexagon/square cells are
+// drawn and how opaque they are. Shared with the vector SVG export.
+export function overlayHash(x: number, y: number, salt: number) {
+  const n = Math.sin((x + salt) * 127.1 + (y + salt) * 311.7) * 43758.5453123
+  return n - Math.floor(n)
+}
+
+export function drawHexagonOverlay(
+  canvas: HTMLCanvasElement,
+  doc: Pick<MeshDocument, 'effect' | 'hexagon'>,
+  exportScale: number,
+  cache: OverlayCache,
+) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  const { effect, hexagon } = doc
+  const W = canvas.width
+  const H = canvas.height
+  if (W <= 0 || H <= 0) return
+
+  if (effect.type !== 'hexagon') {
+    if (cache.hexagonKey !== '') {
+      ctx.clearRect(0, 0, W, H)
+      cache.hexagonKey = ''
+    }
+    return
+  }
+
+  const key = [
+    W,
+    H,
+    hexagon.color.r.toFixed(4),
+    hexagon.color.g.toFixed(4),
+    hexagon.color.b.toFixed(4),
+    hexagon.opacity.toFixed(4),
+    hexagon.size.toFixed(4),
+    hexagon.density.toFixed(4),
+    hexagon.strokeWidth.toFixed(4),
+    hexagon.strokeOpacity.toFixed(4),
+    hexagon.randomOpacity.toFixed(4),
+  ].join('|')
+  if (key === cache.hexagonKey) return
+  cache.hexagonKey = key
+
+  const fillBaseAlpha = Math.max(0, Math.min(1, hexagon.opacity / 100))
+  const size = Math.max(20, Math.min(150, hexagon.size)) * exportScale
+  const density = Math.max(0.1, Math.min(1, hexagon.density))
+  const strokeWidth = Math.max(0.5, Math.min(5, hexagon.strokeWidth)) * exportScale
+  const strokeOpacity = Math.max(0, Math.min(1, hexagon.strokeOpacity))
+  const randomOpacity = Math.max(0, Math.min(1, hexagon.randomOpacity))
+
+  const cr = Math.round(Math.max(0, Math.min(1, hexagon.color.r)) * 255)
+  const cg = Math.round(Math.max(0, Math.min(1, hexagon.color.g)) * 255)
+  const cb = Math.round(Math.max(0, Math.min(1, hexagon.color.b)) * 255)
+  const rgba = (a: number) => `rgba(${cr},${cg},${cb},${Math.max(0, Math.min(1, a))})`
+
+  const width = size
+  const height = size * 0.8660254037844386
+  const xOffset = width * 0.75
+  const yOffset = height
+  const cols = Math.ceil(W / xOffset) + 2
+  const rows = Math.ceil(H / yOffset) + 2
+
+  ctx.clearRect(0, 0, W, H)
+  ctx.lineJoin = 'miter'
+  ctx.lineCap = 'butt'
+  ctx.lineWidth = strokeWidth
+  ctx.strokeStyle = rgba(strokeOpacity)
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (overlayHash(col, row, 11) > density) continue
+
+      const x = col * xOffset
+      const y = row * yOffset + (col % 2 === 1 ? yOffset / 2 : 0)
+      const opacityNoise = Math.max(0, Math.min(1, 1 - randomOpacity + overlayHash(col, row, 47) * randomOpacity))
+      const fillOpacity = fillBaseAlpha * opacityNoise
+
+      ctx.beginPath()
+      for (let i = 0; i < 6; i++) {
+        const angle = (Math.PI / 3) * i
+        const hx = x + (size / 2) * Math.cos(angle)
+        const hy = y + (size / 2) * Math.sin(angle)
+        if (i === 0) ctx.moveTo(hx, hy)
+        else ctx.lineTo(hx, hy)
+      }
+      ctx.closePath()
+      ctx.fillStyle = rgba(fillOpacity)
+      ctx.fill()
+      if (strokeOpacity > 0 && strokeWidth > 0) ctx.stroke()
+    }
+  }
+}
+
+export function drawSquaresOverlay(
+  canvas: HTMLCanvasElement,
+  doc: Pick<MeshDocument, 'effect' | 'squares'>,
+  exportScale: number,
+  cache: OverlayCache,
+) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  const { effect, squares } = doc
+  const W = canvas.width
+  const H = canvas.height
+  if (W <= 0 || H <= 0) return
+
+  if (effect.type !== 'squares') {
+    if (cache.squaresKey !== '') {
+      ctx.clearRect(0, 0, W, H)
+      cache.squaresKey = ''
+    }
+    return
+  }
+
+  const key = [
+    W,
+    H,
+    squares.color.r.toFixed(4),
+    squares.color.g.toFixed(4),
+    squares.color.b.toFixed(4),
+    squares.opacity.toFixed(4),
+    squares.size.toFixed(4),
+    squares.density.toFixed(4),
+    squares.strokeWidth.toFixed(4),
+    squares.strokeOpacity.toFixed(4),
+    squares.randomOpacity.toFixed(4),
+  ].join('|')
+  if (key === cache.squaresKey) return
+  cache.squaresKey = key
+
+  const fillBaseAlpha = Math.max(0, Math.min(1, squares.opacity / 100))
+  const size = Math.max(20, Math.min(150, squares.size)) * exportScale
+  const density = Math.max(0.1, Math.min(1, squares.density))
+  const strokeWidth = Math.max(1, Math.min(8, squares.strokeWidth)) * exportScale
+  const strokeOpacity = Math.max(0, Math.min(1, squares.strokeOpacity))
+  const randomOpacity = Math.max(0, Math.min(1, squares.randomOpacity))
+
+  const cr = Math.round(Math.max(0, Math.min(1, squares.color.r)) * 255)
+  const cg = Math.round(Math.max(0, Math.min(1, squares.color.g)) * 255)
+  const cb = Math.round(Math.max(0, Math.min(1, squares.color.b)) * 255)
+  const rgba = (a: number) => `rgba(${cr},${cg},${cb},${Math.max(0, Math.min(1, a))})`
+
+  const cols = Math.ceil(W / size) + 1
+  const rows = Math.ceil(H / size) + 1
+
+  ctx.clearRect(0, 0, W, H)
+  ctx.lineWidth = strokeWidth
+  ctx.strokeStyle = rgba(strokeOpacity)
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (overlayHash(col, row, 17) > density) continue
+
+      const x = col * size
+      const y = row * size
+      const opacityNoise = Math.max(0, Math.min(1, 1 - randomOpacity + overlayHash(col, row, 59) * randomOpacity))
+      const fillOpacity = fillBaseAlpha * opacityNoise
+
+      ctx.fillStyle = rgba(fillOpacity)
+      ctx.fillRect(x, y, size, size)
+      if (strokeOpacity > 0 && strokeWidth > 0) ctx.strokeRect(x, y, size, size)
+    }
+  }
+}
+
+// ── Pixelation post-fx (ported from pixelation-effect.html) ─────────────────
+export function drawPixelationOverlay(
+  canvas: HTMLCanvasElement,
+  sourceCanvas: HTMLCanvasElement,
+  doc: Pick<MeshDocument, 'effect' | 'pixelation'>,
+  exportScale: number,
+  cache: OverlayCache,
+) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  const { effect, pixelation } = doc
+  const W = canvas.width
+  const H = canvas.height
+  if (W <= 0 || H <= 0) return
+
+  if (effect.type !== 'pixelation') {
+    ctx.clearRect(0, 0, W, H)
+    return
+  }
+
+  const pixelSize = Math.max(2, Math.round((pixelation.pixelSize || 12) * exportScale))
+  const density = Math.max(0.1, Math.min(1, pixelation.density))
+  const cols = Math.ceil(W / pixelSize)
+  const rows = Math.ceil(H / pixelSize)
+
+  let scratch = cache.pixelation
+  if (!scratch) {
+    const tiny = document.createElement('canvas')
+    scratch = {
+      canvas: tiny,
+      ctx: tiny.getContext('2d'),
+      cols: 0,
+      rows: 0,
+    }
+    cache.pixelation = scratch
+  }
+
+  if (scratch.cols !== cols || scratch.rows !== rows) {
+    scratch.canvas.width = cols
+    scratch.canvas.height = rows
+    scratch.cols = cols
+    scratch.rows = rows
+  }
+
+  const tc = scratch.ctx
+  if (!tc) return
+  tc.imageSmoothingEnabled = true
+  tc.clearRect(0, 0, cols, rows)
+  tc.drawImage(sourceCanvas, 0, 0, cols, rows)
+  const pixels = tc.getImageData(0, 0, cols, rows).data
+
+  ctx.clearRect(0, 0, W, H)
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const idx = (row * cols + col) * 4
+      const r = pixels[idx]
+      const g = pixels[idx + 1]
+      const b = pixels[idx + 2]
+
+      const px = col * pixelSize
+      const py = row * pixelSize
+      const blockW = Math.max(1, Math.floor(pixelSize * density))
+      const blockH = Math.max(1, Math.floor(pixelSize * density))
+      const marginX = Math.floor((pixelSize - blockW) / 2)
+      const marginY = Math.floor((pixelSize - blockH) / 2)
+
+      ctx.fillStyle = `rgb(${r},${g},${b})`
+      ctx.fillRect(px + marginX, py + marginY, blockW, blockH)
+    }
+  }
+}
+
+// ── Film grain overlay (reference technique: per-frame ImageData noise) ─────
+export function drawNoiseOverlay(
+  canvas: HTMLCanvasElement,
+  doc: Pick<MeshDocument, 'noise'>,
+  tSec: number,
+  exportScale: number,
+  cache: OverlayCache,
+) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  const { noise } = doc
+  const W = canvas.width
+  const H = canvas.height
+  if (W <= 0 || H <= 0) return
+
+  if (!noise.enabled || noise.intensity <= 0.0001) {
+    ctx.clearRect(0, 0, W, H)
+    return
+  }
+
+  const intensity = noise.intensity
+  const size = Math.max(0.5, noise.size * exportScale)
+  const speed = Math.max(0, noise.speed)
+  const tintR = Math.max(0, Math.min(1, noise.color.r))
+  const tintG = Math.max(0, Math.min(1, noise.color.g))
+  const tintB = Math.max(0, Math.min(1, noise.color.b))
+  const downW = Math.max(1, Math.floor(W / size))
+  const downH = Math.max(1, Math.floor(H / size))
+  const frameFloat = noise.animated ? (tSec * speed * 60) : 0
+  const seed0 = Math.floor(frameFloat)
+  const seed1 = seed0 + 1
+  const t = frameFloat - seed0
+  const blend = t * t * (3 - 2 * t)
+
+  let scratch = cache.noise
+  if (!scratch) {
+    const off = document.createElement('canvas')
+    scratch = {
+      canvas: off,
+      ctx: off.getContext('2d'),
+      imageData: null,
+      w: 0,
+      h: 0,
+    }
+    cache.noise = scratch
+  }
+
+  if (scratch.w !== downW || scratch.h !== downH || !scratch.imageData) {
+    scratch.canvas.width = downW
+    scratch.canvas.height = downH
+    scratch.imageData = ctx.createImageData(downW, downH)
+    scratch.w = downW
+    scratch.h = downH
+  }
+
+  const img = scratch.imageData
+  const data = img.data
+
+  for (let i = 0; i < data.length; i += 4) {
+    const p = i / 4
+    const idx0 = p + seed0 * 12345
+    const idx1 = p + seed1 * 12345
+    const rr0 = Math.sin(idx0 * 127.1 + seed0) * 43758.5453
+    const rr1 = Math.sin(idx1 * 127.1 + seed1) * 43758.5453
+    const r0 = rr0 - Math.floor(rr0)
+    const r1 = rr1 - Math.floor(rr1)
+    const r = noise.animated ? (r0 * (1 - blend) + r1 * blend) : r0
+    const grain = (r - 0.5) * 255 * intensity
+    const mag = Math.abs(grain)
+    // Stronger tint response: selected color pushes grain highlights/shadows per channel.
+    const tr = tintR * 2 - 1
+    const tg = tintG * 2 - 1
+    const tb = tintB * 2 - 1
+    data[i] = Math.max(0, Math.min(255, 128 + grain + tr * mag * 1.45))
+    data[i + 1] = Math.max(0, Math.min(255, 128 + grain + tg * mag * 1.45))
+    data[i + 2] = Math.max(0, Math.min(255, 128 + grain + tb * mag * 1.45))
+    data[i + 3] = Math.min(255, Math.abs(grain) * 2.2)
+  }
+
+  scratch.ctx?.putImageData(img, 0, 0)
+
+  ctx.clearRect(0, 0, W, H)
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(scratch.canvas, 0, 0, W, H)
+}
+
+// ─── Layer composition ────────────────────────────────────────────────────────
+
+export interface LayerCanvases {
+  gl: HTMLCanvasElement
+  pixelation: HTMLCanvasElement
+  hexagon: HTMLCanvasElement
+  squares: HTMLCanvasElement
+  glass: HTMLCanvasElement
+  noise: HTMLCanvasElement
+}
+
+// Flattens the layer stack into `ctx` at outW × outH, in viewport order.
+export function composeLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: LayerCanvases,
+  outW: number,
+  outH: number,
+) {
+  ctx.clearRect(0, 0, outW, outH)
+  ctx.imageSmoothingEnabled = true
+
+  const stack: Array<{ canvas: HTMLCanvasElement; blend: GlobalCompositeOperation }> = [
+    { canvas: layers.gl, blend: 'source-over' },
+    { canvas: layers.pixelation, blend: 'source-over' },
+    { canvas: layers.hexagon, blend: 'source-over' },
+    { canvas: layers.squares, blend: 'source-over' },
+    { canvas: layers.glass, blend: 'source-over' },
+    // Preview uses CSS mix-blend-mode: overlay for grain; mirror that here.
+    { canvas: layers.noise, blend: 'overlay' },
+  ]
+
+  for (const layer of stack) {
+    const lw = layer.canvas.width
+    const lh = layer.canvas.height
+    if (lw <= 0 || lh <= 0) continue
+    ctx.save()
+    ctx.globalCompositeOperation = layer.blend
+    ctx.drawImage(layer.canvas, 0, 0, lw, lh, 0, 0, outW, outH)
+    ctx.restore()
+  }
+}
@@ -0,0 +1,159 @@
+import { fromInterpolationSpace, mixColors, toInterpolationSpace } from './colorSpace'
+import type { FitImage } from './imageFit'
+import type { Color, ColorInterpolationSettings, HarmonyRule } from './types'
+
+// ─── Palettes ─────────────────────────────────────────────────────────────────
+// A palette is an ordered list of colors: a harmony rule around a base color,
+// the dominant colors of an image, or a pasted list of hex codes. A layout
+// then spreads it over the mesh grid as a gradient. Harmonies and clustering
+// work in OKLCH/OKLab so hue steps and color distances look even.
+
+export type PaletteLayout = 'luminance' | 'diagonal' | 'radial'
+
+export const MIN_PALETTE_SIZE = 2
+export const MAX_PALETTE_SIZE = 8
+
+const OKLAB_INTERPOLATION: ColorInterpolationSettings = { space: 'oklab', hue: 'shorter', mode: 'bilinear' }
+
+// Hue offsets (degrees) of each rule, base color first.
+const HARMONY_HUES: Record<HarmonyRule, number[]> = {
+  analogous: [0, -30, 30, -60, 60],
+  triadic: [0, 120, 240],
+  complementary: [0, 180],
+  splitComplementary: [0, 150, 210],
+}
+
+export function harmonyHues(rule: HarmonyRule): readonly number[] {
+  return HARMONY_HUES[rule]
+}
+
+// OKLab lightness shifts for rounds beyond the rule's own hues.
+const HARMONY_TONES = [0, 0.15, -0.15, 0.28, -0.28]
+
+// `size` colors on the rule's hues. Asking for more colors than the rule has
+// hues repeats them lighter, then darker.
+export function harmonyPalette(base: Color, rule: HarmonyRule, size: number): Color[] {
+  const [L, C, h] = toInterpolationSpace({ ...base, a: 1 }, 'oklch')
+  const hue = Number.isNaN(h) ? 0 : h
+  const hues = HARMONY_HUES[rule]
+  const colors: Color[] = []
+  for (let i = 0; i < size; i++) {
+    const tone = HARMONY_TONES[Math.floor(i / hues.length) % HARMONY_TONES.length]
+    const lightness = Math.max(0.05, Math.min(0.97, L + tone))
+    colors.push(fromInterpolationSpace([lightness, C, (hue + hues[i % hues.length] + 360) % 360, 1], 'oklch'))
+  }
+  return colors
+}
+
+// Pixels considered when clustering; larger images are sampled evenly.
+const MAX_CLUSTER_SAMPLES = 4096
+
+// Dominant colors of an image by k-means in OKLab, most common first.
+// Transparent pixels are ignored. Seeds are picked farthest-first, so the
+// result is deterministic and may hold fewer than `k` colors for images
+// with fewer distinct ones.
+export function extractPalette(image: FitImage, k: number, iterations = 12): Color[] {
+  const { width, height, data } = image
+  const stride = Math.max(1, Math.floor((width * height) / MAX_CLUSTER_SAMPLES))
+  const samples: [number, number, number][] = []
+  for (let i = 0; i < width * height; i += stride) {
+    if (data[i * 4 + 3] < 128) continue
+    const color = { r: data[i * 4] / 255, g: data[i * 4 + 1] / 255, b: data[i * 4 + 2] / 255, a: 1 }
+    const [L, A, B] = toInterpolationSpace(color, 'oklab')
+    samples.push([L, A, B])
+  }
+  if (samples.length === 0) return []
+
+  const distance = (p: number[], q: number[]) => (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2
+  const mean = samples.reduce((sum, p) => [sum[0] + p[0], sum[1] + p[1], sum[2] + p[2]], [0, 0, 0])
+    .map(v => v / samples.length)
+  // First seed: the sample nearest the mean; then the one farthest from every seed so far.
+  let first = samples[0]
+  for (const p of samples) if (distance(p, mean) < distance(first, mean)) first = p
+  const centers: number[][] = [first]
+  const nearest = samples.map(p => distance(p, first))
+  while (centers.length < k) {
+    let far = 0
+    for (let i = 1; i < samples.length; i++) if (nearest[i] > nearest[far]) far = i
+    if (nearest[far] < 1e-6) break
+    centers.push(samples[far])
+    samples.forEach((p, i) => { nearest[i] = Math.min(nearest[i], distance(p, samples[far])) })
+  }
+
+  let counts = centers.map(() => 0)
+  for (let it = 0; it < iterations; it++) {
+    const sums = centers.map(() => [0, 0, 0])
+    counts = centers.map(() => 0)
+    for (const p of samples) {
+      let best = 0
+      for (let j = 1; j < centers.length; j++) if (distance(p, centers[j]) < distance(p, centers[best])) best = j
+      sums[best][0] += p[0]
+      sums[best][1] += p[1]
+      sums[best][2] += p[2]
+      counts[best]++
+    }
+    centers.forEach((center, j) => {
+      if (counts[j] > 0) centers[j] = sums[j].map(v => v / counts[j])
+    })
+  }
+
+  return centers
+    .map((center, j) => ({ center, count: counts[j] }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+    .map(({ center }) => fromInterpolationSpace([center[0], center[1], center[2], 1], 'oklab'))
+}
+
+// Colors from "#rgb", "#rgba", "#rrggbb" or "#rrggbbaa" codes separated by
+// spaces, commas, semicolons or new lines; the leading # is optional.
+// Tokens that are not hex colors are returned in `rejected`.
+export function parseHexList(text: string): { colors: Color[]; rejected: string[] } {
+  const colors: Color[] = []
+  const rejected: string[] = []
+  for (const token of text.split(/[\s,;]+/).filter(Boolean)) {
+    const match = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(token)
+    if (!match) {
+      rejected.push(token)
+      continue
+    }
+    let hex = match[1]
+    if (hex.length <= 4) hex = [...hex].map(d => d + d).join('')
+    const channel = (i: number) => parseInt(hex.slice(i * 2, i * 2 + 2), 16) / 255
+    colors.push({ r: channel(0), g: channel(1), b: channel(2), a: hex.length === 8 ? channel(3) : 1 })
+  }
+  return { colors, rejected }
+}
+
+// Color at t ∈ [0, 1] along the palette, blended in OKLab between entries.
+function paletteAt(colors: Color[], t: number): Color {
+  if (colors.length === 1) return { ...colors[0] }
+  const x = Math.max(0, Math.min(1, t)) * (colors.length - 1)
+  const i = Math.min(colors.length - 2, Math.floor(x))
+  return mixColors(colors[i], colors[i + 1], x - i, OKLAB_INTERPOLATION)
+}
+
+// Colors for a rows × cols grid:
+// - luminance: lightest at the top row to darkest at the bottom
+// - diagonal: palette order from the top-left to the bottom-right corner
+// - radial: palette order from the centre outwards
+export function layoutPalette(colors: Color[], rows: number, cols: number, layout: PaletteLayout): Color[][] {
+  if (colors.length === 0) return []
+  const lightness = (c: Color) => toInterpolationSpace(c, 'oklab')[0]
+  const ordered = layout === 'luminance' ? [...colors].sort((a, b) => lightness(b) - lightness(a)) : colors
+  const grid: Color[][] = []
+  for (let r = 0; r < rows; r++) {
+    const row: Color[] = []
+    for (let c = 0; c < cols; c++) {
+      const u = cols > 1 ? c / (cols - 1) : 0.5
+      const v = rows > 1 ? r / (rows - 1) : 0.5
+      const t = layout === 'luminance'
+        ? v
+        : layout === 'diagonal'
+          ? (u + v) / 2
+          : Math.hypot(u - 0.5, v - 0.5) / Math.SQRT1_2
+      row.push(paletteAt(ordered, t))
+    }
+    grid.push(row)
+  }
+  return grid
+}
@@ -0,0 +1,472 @@
+import { createDefaultDocument, DEFAULT_RANDOMIZE } from './defaults'
+import {
+  gridAtTime,
+  KEYFRAME_EASINGS,
+  MAX_TIMELINE_DURATION,
+  MIN_TIMELINE_DURATION,
+  sameTime,
+} from './keyframes'
+import { MAX_COLOR_TANGENT } from './math'
+import { normalizeRandomizeSettings } from './randomize'
+import type {
+  AnimationStyle,
+  Color,
+  ColorBlendMode,
+  ColorInterpolationSpace,
+  DocumentSettings,
+  EffectType,
+  GlassShape,
+  HandleType,
+  HarmonyRule,
+  Handles,
+  HueInterpolation,
+  KeyframeEasing,
+  MeshDocument,
+  MeshGrid,
+  MeshPoint,
+  PointKeyframe,
+  PointStyle,
+  Vec2,
+} from './types'
+
+// ─── Project files (.mesh) ────────────────────────────────────────────────────
+// A project file is the JSON payload the export modal has always produced,
+// plus a `version`. Older files are upgraded step by step through MIGRATIONS,
+// then every field is validated against the current document shape; anything
+// missing or malformed falls back to its default and is reported as a warning.
+
+export const PROJECT_FILE_VERSION = 5
+export const PROJECT_FILE_EXTENSION = '.mesh'
+export const PROJECT_FILE_MIME = 'application/json'
+
+export interface ProjectFile extends MeshDocument {
+  version: number
+  exportedAt: string
+  canvasSize: { width: number; height: number }
+}
+
+export interface ParsedProject {
+  document: MeshDocument
+  version: number
+  warnings: string[]
+}
+
+type RawProject = Record<string, unknown>
+type Migration = (raw: RawProject) => RawProject
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v2 adds the color interpolation space; v1 meshes were always blended in
+  // raw sRGB, so they keep that to render unchanged.
+  1: raw => ({ ...raw, colorInterpolation: { space: 'srgb', hue: 'shorter' } }),
+  // v3 adds the bicubic color mode and per-point color tangents; existing
+  // documents stay bilinear.
+  2: raw => {
+    const grid = isRecord(raw.grid) && Array.isArray(raw.grid.points)
+      ? {
+          ...raw.grid,
+          points: raw.grid.points.map(row => Array.isArray(row)
+            ? row.map(p => (isRecord(p) ? { ...p, colorTangent: 1 } : p))
+            : row),
+        }
+      : raw.grid
+    const colorInterpolation = isRecord(raw.colorInterpolation)
+      ? { ...raw.colorInterpolation, mode: 'bilinear' }
+      : raw.colorInterpolation
+    return { ...raw, grid, colorInterpolation }
+  },
+  // v4 adds the keyframe timeline; existing points have no keyframes.
+  3: raw => {
+    const grid = isRecord(raw.grid) && Array.isArray(raw.grid.points)
+      ? {
+          ...raw.grid,
+          points: raw.grid.points.map(row => Array.isArray(row)
+            ? row.map(p => (isRecord(p) ? { ...p, keyframes: [] } : p))
+            : row),
+        }
+      : raw.grid
+    return { ...raw, grid, timeline: { duration: 5, loop: true } }
+  },
+  // v5 saves the seed and constraints of the last randomization.
+  4: raw => ({ ...raw, randomize: { ...DEFAULT_RANDOMIZE } }),
+}
+
+export function buildProjectFile(
+  doc: MeshDocument,
+  canvasSize: { width: number; height: number },
+): ProjectFile {
+  return {
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    canvasSize,
+    artboardSize: doc.artboardSize,
+    grid: doc.grid,
+    animation: doc.animation,
+    canvasBackground: doc.canvasBackground,
+    effect: doc.effect,
+    noise: doc.noise,
+    glass: doc.glass,
+    hexagon: doc.hexagon,
+    squares: doc.squares,
+    pixelation: doc.pixelation,
+    colorInterpolation: doc.colorInterpolation,
+    timeline: doc.timeline,
+    randomize: doc.randomize,
+  }
+}
+
+export function serializeProject(
+  doc: MeshDocument,
+  canvasSize: { width: number; height: number },
+): string {
+  return JSON.stringify(buildProjectFile(doc, canvasSize), null, 2)
+}
+
+export function parseProjectFile(text: string): ParsedProject {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('Not a valid project file (invalid JSON)')
+  }
+  return readProject(raw)
+}
+
+export function readProject(raw: unknown): ParsedProject {
+  if (!isRecord(raw)) throw new Error('Not a valid project file')
+
+  // Payloads exported before versioning was enforced are treated as v1.
+  const version = raw.version === undefined ? 1 : raw.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Unknown project file version: ${String(raw.version)}`)
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${version} is newer than this editor supports (${PROJECT_FILE_VERSION})`)
+  }
+
+  let migrated: RawProject = raw
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    const migrate = MIGRATIONS[v]
+    if (!migrate) throw new Error(`Missing migration for project file version ${v}`)
+    migrated = migrate(migrated)
+  }
+
+  const warnings: string[] = []
+  const document = readDocument(migrated, warnings)
+  return { document, version, warnings }
+}
+
+// ─── Field readers ────────────────────────────────────────────────────────────
+
+const ANIMATION_STYLES = Object.keys({
+  static: 1, fluid: 1, smooth: 1, pulse: 1, wave: 1, waterDrop: 1, rotate: 1,
+} satisfies Record<AnimationStyle, 1>) as AnimationStyle[]
+
+const EFFECT_TYPES = Object.keys({
+  none: 1, wavy: 1, zigzag: 1, zigzag3d: 1, circle: 1, isometric: 1, polka: 1, lines: 1,
+  boxes: 1, triangle: 1, rhombus: 1, hexagon: 1, squares: 1, pixelation: 1, glass: 1,
+} satisfies Record<EffectType, 1>) as EffectType[]
+
+const GLASS_SHAPES = Object.keys({
+  strips: 1, grid: 1, circle: 1,
+} satisfies Record<GlassShape, 1>) as GlassShape[]
+
+const COLOR_BLEND_MODES = Object.keys({
+  bilinear: 1, bicubic: 1,
+} satisfies Record<ColorBlendMode, 1>) as ColorBlendMode[]
+
+const INTERPOLATION_SPACES = Object.keys({
+  srgb: 1, linear: 1, oklab: 1, oklch: 1,
+} satisfies Record<ColorInterpolationSpace, 1>) as ColorInterpolationSpace[]
+
+const HUE_INTERPOLATIONS = Object.keys({
+  shorter: 1, longer: 1, increasing: 1, decreasing: 1,
+} satisfies Record<HueInterpolation, 1>) as HueInterpolation[]
+
+const RANDOMIZE_HARMONIES = Object.keys({
+  none: 1, analogous: 1, triadic: 1, complementary: 1, splitComplementary: 1,
+} satisfies Record<HarmonyRule | 'none', 1>) as (HarmonyRule | 'none')[]
+
+const HANDLE_TYPES = Object.keys({
+  mirrorAngle: 1, mirrorLength: 1, free: 1, auto: 1,
+} satisfies Record<HandleType, 1>) as HandleType[]
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v)
+}
+
+function isVec2(v: unknown): v is Vec2 {
+  return isRecord(v) && isFiniteNumber(v.x) && isFiniteNumber(v.y)
+}
+
+function isColor(v: unknown): v is Color {
+  return isRecord(v) && isFiniteNumber(v.r) && isFiniteNumber(v.g) && isFiniteNumber(v.b)
+    && (v.a === undefined || isFiniteNumber(v.a))
+}
+
+function readColorValue(v: Color): Color {
+  const clamp01 = (n: number) => Math.max(0, Math.min(1, n))
+  return { r: clamp01(v.r), g: clamp01(v.g), b: clamp01(v.b), a: clamp01(v.a ?? 1) }
+}
+
+// Reads a flat settings block: each key of `fallback` is taken from `raw`
+// when it has the same kind of value, otherwise the default is kept.
+export function readSection<T extends object>(
+  raw: unknown,
+  fallback: T,
+  path: string,
+  warnings: string[],
+  enums: Partial<Record<keyof T, readonly string[]>> = {},
+): T {
+  const out = { ...fallback }
+  if (raw === undefined) {
+    warnings.push(`${path}: missing, using defaults`)
+    return out
+  }
+  if (!isRecord(raw)) {
+    warnings.push(`${path}: expected an object, using defaults`)
+    return out
+  }
+
+  for (const key of Object.keys(fallback) as (keyof T & string)[]) {
+    const def = fallback[key]
+    const value = raw[key]
+    const fieldPath = `${path}.${key}`
+    if (value === undefined) {
+      warnings.push(`${fieldPath}: missing, using default`)
+      continue
+    }
+    const allowed = enums[key]
+    if (allowed) {
+      if (typeof value === 'string' && allowed.includes(value)) {
+        out[key] = value as T[typeof key]
+      } else {
+        warnings.push(`${fieldPath}: unsupported value ${JSON.stringify(value)}`)
+      }
+      continue
+    }
+    if (typeof def === 'number') {
+      if (isFiniteNumber(value)) out[key] = value as T[typeof key]
+      else warnings.push(`${fieldPath}: expected a number`)
+    } else if (typeof def === 'boolean') {
+      if (typeof value === 'boolean') out[key] = value as T[typeof key]
+      else warnings.push(`${fieldPath}: expected true/false`)
+    } else if (isColor(def)) {
+      if (isColor(value)) out[key] = readColorValue(value) as T[typeof key]
+      else warnings.push(`${fieldPath}: expected a color`)
+    } else if (isRecord(def)) {
+      out[key] = readSection(value, def, fieldPath, warnings) as T[typeof key]
+    }
+  }
+  return out
+}
+
+function readHandleVectors<T extends Omit<Handles, 'type'>>(raw: Record<string, unknown>, out: T, path: string, warnings: string[]) {
+  for (const key of ['left', 'right', 'up', 'down'] as const) {
+    const value = raw[key]
+    if (isVec2(value)) out[key] = { x: value.x, y: value.y }
+    else warnings.push(`${path}.${key}: expected {x, y}`)
+  }
+  return out
+}
+
+function readHandles(raw: unknown, fallback: Handles, path: string, warnings: string[]): Handles {
+  if (!isRecord(raw)) {
+    warnings.push(`${path}: missing handles, using defaults`)
+    return { ...fallback }
+  }
+  const out = readHandleVectors(raw, { ...fallback }, path, warnings)
+  if (typeof raw.type === 'string' && (HANDLE_TYPES as string[]).includes(raw.type)) {
+    out.type = raw.type as HandleType
+  } else {
+    warnings.push(`${path}.type: unsupported handle type ${JSON.stringify(raw.type)}`)
+  }
+  return out
+}
+
+// Malformed keyframes are dropped; the rest are sorted, one per time.
+function readKeyframes(raw: unknown, fallback: MeshPoint, path: string, warnings: string[]): PointKeyframe[] {
+  if (!Array.isArray(raw)) {
+    warnings.push(`${path}: expected a list of keyframes`)
+    return []
+  }
+  const keyframes: PointKeyframe[] = []
+  raw.forEach((k, i) => {
+    const keyPath = `${path}[${i}]`
+    if (!isRecord(k) || !isFiniteNumber(k.time) || k.time < 0 || !isVec2(k.position) || !isColor(k.color)) {
+      warnings.push(`${keyPath}: expected a keyframe with time, position and color, dropped`)
+      return
+    }
+    if (keyframes.some(other => sameTime(other.time, k.time as number))) {
+      warnings.push(`${keyPath}: duplicate time ${k.time}, dropped`)
+      return
+    }
+    let easing: KeyframeEasing = 'linear'
+    if (typeof k.easing === 'string' && (KEYFRAME_EASINGS as string[]).includes(k.easing)) {
+      easing = k.easing as KeyframeEasing
+    } else {
+      warnings.push(`${keyPath}.easing: unsupported value ${JSON.stringify(k.easing)}`)
+    }
+    const { left, right, up, down } = fallback.handles
+    const handles = isRecord(k.handles)
+      ? readHandleVectors(k.handles, { left, right, up, down }, `${keyPath}.handles`, warnings)
+      : { left, right, up, down }
+    if (!isRecord(k.handles)) warnings.push(`${keyPath}.handles: missing, using the point's handles`)
+    keyframes.push({
+      time: k.time,
+      easing,
+      position: { x: k.position.x, y: k.position.y },
+      handles,
+      color: readColorValue(k.color),
+    })
+  })
+  return keyframes.sort((a, b) => a.time - b.time)
+}
+
+function readPoint(raw: unknown, fallback: MeshPoint, path: string, warnings: string[]): MeshPoint {
+  if (!isRecord(raw)) throw new Error(`${path}: expected a mesh point`)
+  if (!isVec2(raw.position)) throw new Error(`${path}.position: expected {x, y}`)
+  const color = isColor(raw.color) ? readColorValue(raw.color) : fallback.color
+  if (!isColor(raw.color)) warnings.push(`${path}.color: expected a color`)
+  const colorTangent = isFiniteNumber(raw.colorTangent)
+    ? Math.max(0, Math.min(MAX_COLOR_TANGENT, raw.colorTangent))
+    : fallback.colorTangent
+  if (!isFiniteNumber(raw.colorTangent)) warnings.push(`${path}.colorTangent: expected a number`)
+  const handles = readHandles(raw.handles, fallback.handles, `${path}.handles`, warnings)
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : fallback.id,
+    position: { x: raw.position.x, y: raw.position.y },
+    color,
+    colorTangent,
+    handles,
+    keyframes: readKeyframes(raw.keyframes, { ...fallback, handles }, `${path}.keyframes`, warnings),
+  }
+}
+
+// The grid carries the user's actual work, so structural problems are fatal
+// instead of silently replacing the mesh with the default one.
+export function readGrid(raw: unknown, fallback: MeshGrid, warnings: string[]): MeshGrid {
+  if (!isRecord(raw)) throw new Error('grid: missing mesh grid')
+  const points = raw.points
+  if (!Array.isArray(points) || points.length < 2) throw new Error('grid.points: expected at least 2 rows')
+  const rows = points.length
+  const cols = Array.isArray(points[0]) ? points[0].length : 0
+  if (cols < 2) throw new Error('grid.points: expected at least 2 columns')
+  if (raw.rows !== undefined && raw.rows !== rows) warnings.push(`grid.rows: ${String(raw.rows)} does not match points, using ${rows}`)
+  if (raw.cols !== undefined && raw.cols !== cols) warnings.push(`grid.cols: ${String(raw.cols)} does not match points, using ${cols}`)
+
+  const template = fallback.points[0][0]
+  const grid: MeshGrid = {
+    rows,
+    cols,
+    width: fallback.width,
+    height: fallback.height,
+    points: points.map((row, r) => {
+      if (!Array.isArray(row) || row.length !== cols) throw new Error(`grid.points[${r}]: expected ${cols} points`)
+      return row.map((p, c) => readPoint(p, { ...template, id: `${r}-${c}` }, `grid.points[${r}][${c}]`, warnings))
+    }),
+  }
+  return grid
+}
+
+export function readDocument(raw: RawProject, warnings: string[]): MeshDocument {
+  const defaults = createDefaultDocument()
+
+  const artboardSize = readSection(raw.artboardSize, defaults.artboardSize, 'artboardSize', warnings)
+  const colorInterpolation = readSection(raw.colorInterpolation, defaults.colorInterpolation, 'colorInterpolation', warnings, {
+    space: INTERPOLATION_SPACES,
+    hue: HUE_INTERPOLATIONS,
+    mode: COLOR_BLEND_MODES,
+  })
+  const timeline = readSection(raw.timeline, defaults.timeline, 'timeline', warnings)
+  return {
+    // Keyframed points are loaded as they stand at the start of the timeline.
+    grid: gridAtTime(readGrid(raw.grid, defaults.grid, warnings), 0, colorInterpolation),
+    artboardSize: {
+      width: Math.round(Math.max(128, Math.min(8192, artboardSize.width))),
+      height: Math.round(Math.max(128, Math.min(8192, artboardSize.height))),
+    },
+    animation: readSection(raw.animation, defaults.animation, 'animation', warnings, { style: ANIMATION_STYLES }),
+    canvasBackground: readSection(raw.canvasBackground, defaults.canvasBackground, 'canvasBackground', warnings),
+    effect: readSection(raw.effect, defaults.effect, 'effect', warnings, { type: EFFECT_TYPES }),
+    noise: readSection(raw.noise, defaults.noise, 'noise', warnings),
+    glass: readSection(raw.glass, defaults.glass, 'glass', warnings, { shape: GLASS_SHAPES }),
+    hexagon: readSection(raw.hexagon, defaults.hexagon, 'hexagon', warnings),
+    squares: readSection(raw.squares, defaults.squares, 'squares', warnings),
+    pixelation: readSection(raw.pixelation, defaults.pixelation, 'pixelation', warnings),
+    colorInterpolation,
+    timeline: {
+      duration: Math.max(MIN_TIMELINE_DURATION, Math.min(MAX_TIMELINE_DURATION, timeline.duration)),
+      loop: timeline.loop,
+    },
+    randomize: normalizeRandomizeSettings(
+      readSection(raw.randomize, defaults.randomize, 'randomize', warnings, { harmony: RANDOMIZE_HARMONIES }),
+    ),
+  }
+}
+
+// ─── Pasted settings ──────────────────────────────────────────────────────────
+// Settings and point styles pasted from the clipboard are validated like a
+// project file, except that only what was pasted changes: absent sections and
+// fields keep their current value. Malformed or unknown fields are dropped
+// and reported.
+
+export const SETTINGS_SECTIONS = [
+  'animation', 'effect', 'noise', 'glass', 'hexagon', 'squares', 'pixelation',
+] as const satisfies readonly (keyof DocumentSettings)[]
+
+export function readSettings(
+  raw: Record<string, unknown>,
+  current: DocumentSettings,
+  warnings: string[],
+): Partial<DocumentSettings> {
+  const out: Partial<DocumentSettings> = {}
+  const read = <K extends keyof DocumentSettings>(
+    key: K,
+    enums?: Partial<Record<keyof DocumentSettings[K], readonly string[]>>,
+  ) => {
+    const value = raw[key]
+    if (value === undefined) return
+    if (!isRecord(value)) {
+      warnings.push(`${key}: expected an object, ignored`)
+      return
+    }
+    for (const field of Object.keys(value)) {
+      if (!(field in current[key])) warnings.push(`${key}.${field}: unknown field, ignored`)
+    }
+    out[key] = readSection({ ...current[key], ...value }, current[key], key, warnings, enums)
+  }
+  read('animation', { style: ANIMATION_STYLES })
+  read('effect', { type: EFFECT_TYPES })
+  read('noise')
+  read('glass', { shape: GLASS_SHAPES })
+  read('hexagon')
+  read('squares')
+  read('pixelation')
+  return out
+}
+
+export function readPointStyle(raw: Record<string, unknown>, current: PointStyle, warnings: string[]): PointStyle {
+  let color = current.color
+  if (raw.color !== undefined) {
+    if (isColor(raw.color)) color = readColorValue(raw.color)
+    else warnings.push('color: expected a color')
+  }
+  let colorTangent = current.colorTangent
+  if (raw.colorTangent !== undefined) {
+    if (isFiniteNumber(raw.colorTangent)) colorTangent = Math.max(0, Math.min(MAX_COLOR_TANGENT, raw.colorTangent))
+    else warnings.push('colorTangent: expected a number')
+  }
+  let handles = current.handles
+  if (raw.handles !== undefined) {
+    handles = isRecord(raw.handles)
+      ? readHandles({ ...current.handles, ...raw.handles }, current.handles, 'handles', warnings)
+      : current.handles
+    if (!isRecord(raw.handles)) warnings.push('handles: expected an object')
+  }
+  return { color, colorTangent, handles }
+}
@@ -0,0 +1,137 @@
+import { autoTangents } from './math'
+import { harmonyHues } from './palette'
+import type { Color, MeshGrid, RandomizeSettings, Vec2 } from './types'
+
+// ─── Seeded randomization ─────────────────────────────────────────────────────
+// Colors are drawn in HSL within the settings' hue range and saturation and
+// lightness bounds; with a harmony rule one base hue is drawn from the range
+// and every point takes one of the rule's hues around it. Jitter moves points
+// off the even grid and turns their (straight) handles, which first take
+// the lengths auto handles would have between the points' neighbours.
+//
+// Every point draws the same numbers in the same order whatever the
+// settings, so a seed gives the same colors for the same grid size and
+// settings, and changing one setting does not reshuffle the rest. Only the
+// colors are reproducible: without position jitter the points stay where
+// they are, and without any jitter positions and handles are left as they
+// are.
+
+export const MAX_POSITION_JITTER = 0.4
+export const MAX_HANDLE_JITTER = 45
+
+// Random spread (degrees) around each harmony hue.
+const HARMONY_SPREAD = 16
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 32)
+
+// mulberry32: small, fast and good enough for picking colors.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+}
+
+function hslToColor(hue: number, s: number, l: number): Color {
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+  }
+  return { r: channel(0), g: channel(8), b: channel(4), a: 1 }
+}
+
+// Settings clamped to their ranges, bounds in order.
+export function normalizeRandomizeSettings(s: RandomizeSettings): RandomizeSettings {
+  const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v))
+  const unit = (v: number) => clamp(v, 0, 1)
+  return {
+    seed: Math.floor(Math.abs(s.seed)) % 2 ** 32,
+    hueMin: clamp(s.hueMin, 0, 360),
+    hueMax: clamp(s.hueMax, 0, 360),
+    saturationMin: Math.min(unit(s.saturationMin), unit(s.saturationMax)),
+    saturationMax: Math.max(unit(s.saturationMin), unit(s.saturationMax)),
+    lightnessMin: Math.min(unit(s.lightnessMin), unit(s.lightnessMax)),
+    lightnessMax: Math.max(unit(s.lightnessMin), unit(s.lightnessMax)),
+    harmony: s.harmony,
+    positionJitter: clamp(s.positionJitter, 0, MAX_POSITION_JITTER),
+    handleJitter: clamp(s.handleJitter, 0, MAX_HANDLE_JITTER),
+  }
+}
+
+// Hue at t ∈ [0, 1) through the range, wrapping through 0 when min > max.
+function hueInRange(s: RandomizeSettings, t: number) {
+  const span = s.hueMax >= s.hueMin ? s.hueMax - s.hueMin : s.hueMax + 360 - s.hueMin
+  return (s.hueMin + span * t) % 360
+}
+
+// `artboard` is the artboard size, so handle angles turn as seen on it.
+export function randomizeGrid(
+  grid: MeshGrid,
+  settings: RandomizeSettings,
+  artboard: { width: number; height: number },
+): MeshGrid {
+  const random = seededRandom(settings.seed)
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+  const harmony = settings.harmony === 'none' ? null : harmonyHues(settings.harmony)
+  const baseHue = hueInRange(settings, random())
+  const { rows, cols } = grid
+  const spacingX = 1 / (cols - 1)
+  const spacingY = 1 / (rows - 1)
+  // `v` turned by `angle` degrees on the artboard.
+  const turned = (v: Vec2, angle: number): Vec2 => {
+    const rad = (angle * Math.PI) / 180
+    const px = v.x * artboard.width
+    const py = v.y * artboard.height
+    return {
+      x: (px * Math.cos(rad) - py * Math.sin(rad)) / artboard.width,
+      y: (px * Math.sin(rad) + py * Math.cos(rad)) / artboard.height,
+    }
+  }
+
+  const draws = grid.points.map(row => row.map(() => Array.from({ length: 8 }, random)))
+  const placed = grid.points.map((row, r) => row.map((p, c) => {
+    const [hueDraw, pick, satDraw, lightDraw, jx, jy] = draws[r][c]
+    const hue = harmony
+      ? baseHue + harmony[Math.floor(pick * harmony.length)] + (hueDraw - 0.5) * HARMONY_SPREAD
+      : hueInRange(settings, hueDraw)
+    const color = hslToColor(
+      ((hue % 360) + 360) % 360,
+      lerp(settings.saturationMin, settings.saturationMax, satDraw),
+      lerp(settings.lightnessMin, settings.lightnessMax, lightDraw),
+    )
+
+    let { position } = p
+    if (settings.positionJitter > 0) {
+      // Border points only slide along their edge.
+      const dx = c === 0 || c === cols - 1 ? 0 : (jx * 2 - 1) * settings.positionJitter * spacingX
+      const dy = r === 0 || r === rows - 1 ? 0 : (jy * 2 - 1) * settings.positionJitter * spacingY
+      position = { x: c * spacingX + dx, y: r * spacingY + dy }
+    }
+    return { ...p, color, position }
+  }))
+  const placedGrid = { ...grid, points: placed }
+
+  // Auto handles follow the positions instead.
+  const points = placed.map((row, r) => row.map((p, c) => {
+    if (settings.handleJitter <= 0 || p.handles.type === 'auto') return p
+    const [, , , , , , ja, jb] = draws[r][c]
+    const straight = autoTangents(placedGrid, r, c)
+    const right = turned(straight.right, (ja * 2 - 1) * settings.handleJitter)
+    const down = turned(straight.down, (jb * 2 - 1) * settings.handleJitter)
+    return {
+      ...p,
+      handles: {
+        type: p.handles.type,
+        right,
+        left: { x: -right.x, y: -right.y },
+        down,
+        up: { x: -down.x, y: -down.y },
+      },
+    }
+  }))
+  return { ...grid, points }
+}
@@ -1,8 +1,19 @@
 import * as THREE from 'three'
-import { tessellate } from './math'
+import { SRGB_INTERPOLATION } from './colorSpace'
+import {
+  changedPatches,
+  GREY_HUE,
+  layoutFits,
+  PATCH_TEXELS,
+  tessellatePatchCoords,
+  writePatchData,
+  type PatchCoordTessellation,
+} from './math'
 import type {
   MeshGrid,
+  PatchChanges,
   AnimationSettings,
+  ColorInterpolationSettings,
   CanvasBackgroundSettings,
   EffectSettings,
   NoiseSettings,
@@ -10,35 +21,176 @@ import type {
 
 // ─── Shaders (mesh patches) ───────────────────────────────────────────────────
 
+// Patches are evaluated here rather than on the CPU: `position` carries the
+// patch coordinates (u, v, patch index) from tessellatePatchCoords, and
+// uPatchData the control points and colors from writePatchData. The math
+// mirrors evalPatchPosition, mixCoords/fromInterpolationSpace and
+// evalBicubicColor, so output matches tessellate() and the CPU renderer.
+
+// Patches per data texture row, keeping the texture inside WebGL2's minimum
+// size limit for large grids.
+const PATCHES_PER_ROW = 8
+
 const vertexShader = /* glsl */`
-  attribute vec4 color;
   varying vec4 vColor;
   varying vec2 vPos;
   uniform float uTime;
   uniform float uAnimStyle;
   uniform float uAnimSpeed;
   uniform float uAnimStrength;
+  uniform highp sampler2D uPatchData;
+  uniform int uColorSpace;  // 0 srgb, 1 linear, 2 oklab, 3 oklch
+  uniform int uHuePath;     // 0 shorter, 1 longer, 2 increasing, 3 decreasing
+  uniform bool uBicubic;
+
+  const int PATCH_TEXELS = ${PATCH_TEXELS};
+  const int DATA_WIDTH = ${PATCH_TEXELS * PATCHES_PER_ROW};
+  // Anything below this is the grey-hue marker (GREY_HUE).
+  const float GREY_LIMIT = ${GREY_HUE / 2}.0;
+
+  vec4 patchTexel(int patchIndex, int k) {
+    int i = patchIndex * PATCH_TEXELS + k;
+    return texelFetch(uPatchData, ivec2(i % DATA_WIDTH, i / DATA_WIDTH), 0);
+  }
 
-  void main() {
-    vec2 pos = position.xy;
+  vec2 bezier(vec2 p0, vec2 p1, vec2 p2, vec2 p3, float t) {
+    float l = 1.0 - t;
+    return l * l * l * p0 + 3.0 * l * l * t * p1 + 3.0 * l * t * t * p2 + t * t * t * p3;
+  }
 
-    if (uAnimStyle >= 4.5 && uAnimStyle < 5.5) {
-      // Water Drop: continuous ring train from center (infinite loop).
-      float t = uTime * uAnimSpeed;
-      float period = 1.9;
-      float maxRadius = 1.6;
-      float d = length(pos);
-      float width = 0.068;
-      float ring = 0.0;
-      for (int i = 0; i < 9; i++) {
-        float phase = float(i) / 9.0;
-        float c = fract(t / period + phase);
-        float r = c * maxRadius;
-        ring += exp(-pow((d - r) / max(width, 0.0001), 2.0));
-      }
-      vec2 dir = d > 0.0001 ? (pos / d) : vec2(0.0);
-      pos += dir * ring * (0.0075 * uAnimStrength);
+  // Water Drop: a continuous ring train from the center (infinite loop)
+  // pushes control points outwards, so the ripple bends the patches
+  // themselves and any tessellation of them follows it.
+  vec2 waterDrop(vec2 p) {
+    if (uAnimStyle < 4.5 || uAnimStyle >= 5.5) return p;
+    vec2 pos = vec2(p.x * 2.0 - 1.0, -(p.y * 2.0 - 1.0));
+    float t = uTime * uAnimSpeed;
+    float period = 1.9;
+    float maxRadius = 1.6;
+    float d = length(pos);
+    float width = 0.068;
+    float ring = 0.0;
+    for (int i = 0; i < 9; i++) {
+      float phase = float(i) / 9.0;
+      float c = fract(t / period + phase);
+      float r = c * maxRadius;
+      ring += exp(-pow((d - r) / max(width, 0.0001), 2.0));
     }
+    vec2 dir = d > 0.0001 ? (pos / d) : vec2(0.0);
+    pos += dir * ring * (0.0075 * uAnimStrength);
+    return vec2((pos.x + 1.0) * 0.5, (1.0 - pos.y) * 0.5);
+  }
+
+  // Coons patch in normalized canvas coordinates.
+  vec2 patchPosition(int patchIndex, float u, float v) {
+    vec4 c0 = patchTexel(patchIndex, 0);
+    vec4 c1 = patchTexel(patchIndex, 1);
+    vec4 top = patchTexel(patchIndex, 2);
+    vec4 bottom = patchTexel(patchIndex, 3);
+    vec4 left = patchTexel(patchIndex, 4);
+    vec4 right = patchTexel(patchIndex, 5);
+    vec2 tl = waterDrop(c0.xy);
+    vec2 tr = waterDrop(c0.zw);
+    vec2 bl = waterDrop(c1.xy);
+    vec2 br = waterDrop(c1.zw);
+    vec2 topCurve = bezier(tl, waterDrop(top.xy), waterDrop(top.zw), tr, u);
+    vec2 bottomCurve = bezier(bl, waterDrop(bottom.xy), waterDrop(bottom.zw), br, u);
+    vec2 leftCurve = bezier(tl, waterDrop(left.xy), waterDrop(left.zw), bl, v);
+    vec2 rightCurve = bezier(tr, waterDrop(right.xy), waterDrop(right.zw), br, v);
+    vec2 ruled = tl * (1.0 - u) * (1.0 - v) + tr * u * (1.0 - v) + bl * (1.0 - u) * v + br * u * v;
+    return leftCurve * (1.0 - u) + rightCurve * u + topCurve * (1.0 - v) + bottomCurve * v - ruled;
+  }
+
+  float hueDelta(float a, float b) {
+    float d = b - a;
+    if (uHuePath == 0) {
+      if (d > 180.0) d -= 360.0;
+      else if (d < -180.0) d += 360.0;
+    } else if (uHuePath == 1) {
+      if (d > 0.0 && d < 180.0) d -= 360.0;
+      else if (d > -180.0 && d <= 0.0) d += 360.0;
+    } else if (uHuePath == 2) {
+      if (d < 0.0) d += 360.0;
+    } else {
+      if (d > 0.0) d -= 360.0;
+    }
+    return d;
+  }
+
+  vec4 mixCoords(vec4 a, vec4 b, float t) {
+    vec4 o = a + (b - a) * t;
+    if (uColorSpace == 3) {
+      // A grey endpoint keeps the other hue constant.
+      if (a.z < GREY_LIMIT) o.z = b.z;
+      else if (b.z < GREY_LIMIT) o.z = a.z;
+      else o.z = mod(a.z + hueDelta(a.z, b.z) * t, 360.0);
+    }
+    return o;
+  }
+
+  float linearToSrgb(float c) {
+    return c <= 0.0031308 ? c * 12.92 : 1.055 * pow(c, 1.0 / 2.4) - 0.055;
+  }
+
+  vec3 oklabToLinear(vec3 lab) {
+    float l = pow(lab.x + 0.3963377774 * lab.y + 0.2158037573 * lab.z, 3.0);
+    float m = pow(lab.x - 0.1055613458 * lab.y - 0.0638541728 * lab.z, 3.0);
+    float s = pow(lab.x - 0.0894841775 * lab.y - 1.291485548 * lab.z, 3.0);
+    return vec3(
+      4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+      -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+      -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+    );
+  }
+
+  // OKLCH hue must be a real angle here (greys resolved by the caller).
+  vec4 fromInterpolationSpace(vec4 c) {
+    if (uColorSpace == 0) return clamp(c, 0.0, 1.0);
+    vec3 lin = c.xyz;
+    if (uColorSpace == 2) {
+      lin = oklabToLinear(c.xyz);
+    } else if (uColorSpace == 3) {
+      float h = radians(c.z);
+      lin = oklabToLinear(vec3(c.x, c.y * cos(h), c.y * sin(h)));
+    }
+    lin = clamp(lin, 0.0, 1.0);
+    vec3 srgb = vec3(linearToSrgb(lin.r), linearToSrgb(lin.g), linearToSrgb(lin.b));
+    return vec4(clamp(srgb, 0.0, 1.0), clamp(c.a, 0.0, 1.0));
+  }
+
+  vec4 patchColor(int patchIndex, float u, float v) {
+    if (!uBicubic) {
+      vec4 top = mixCoords(patchTexel(patchIndex, 6), patchTexel(patchIndex, 7), u);
+      vec4 bottom = mixCoords(patchTexel(patchIndex, 8), patchTexel(patchIndex, 9), u);
+      vec4 c = mixCoords(top, bottom, v);
+      if (uColorSpace == 3 && c.z < GREY_LIMIT) c.z = 0.0;
+      return fromInterpolationSpace(c);
+    }
+    // Hermite basis: a*/c* weigh values, b*/d* weigh tangents.
+    float u2 = u * u;
+    float u3 = u2 * u;
+    float v2 = v * v;
+    float v3 = v2 * v;
+    vec4 wu = vec4(2.0 * u3 - 3.0 * u2 + 1.0, -2.0 * u3 + 3.0 * u2, u3 - 2.0 * u2 + u, u3 - u2);
+    vec4 wv = vec4(2.0 * v3 - 3.0 * v2 + 1.0, -2.0 * v3 + 3.0 * v2, v3 - 2.0 * v2 + v, v3 - v2);
+    vec4 c =
+      wu.x * wv.x * patchTexel(patchIndex, 6) + wu.y * wv.x * patchTexel(patchIndex, 7)
+      + wu.x * wv.y * patchTexel(patchIndex, 8) + wu.y * wv.y * patchTexel(patchIndex, 9)
+      + wu.z * wv.x * patchTexel(patchIndex, 10) + wu.w * wv.x * patchTexel(patchIndex, 11)
+      + wu.z * wv.y * patchTexel(patchIndex, 12) + wu.w * wv.y * patchTexel(patchIndex, 13)
+      + wu.x * wv.z * patchTexel(patchIndex, 14) + wu.y * wv.z * patchTexel(patchIndex, 15)
+      + wu.x * wv.w * patchTexel(patchIndex, 16) + wu.y * wv.w * patchTexel(patchIndex, 17);
+    // Overshoot below zero chroma would flip the hue.
+    if (uColorSpace == 3) c.y = max(0.0, c.y);
+    return fromInterpolationSpace(c);
+  }
+
+  void main() {
+    int patchIndex = int(position.z + 0.5);
+    vec2 p = patchPosition(patchIndex, position.x, position.y);
+    // Normalized to clip space, Y flipped.
+    vec2 pos = vec2(p.x * 2.0 - 1.0, -(p.y * 2.0 - 1.0));
+    vec4 color = patchColor(patchIndex, position.x, position.y);
 
     if (uAnimStyle >= 5.5 && uAnimStyle < 6.5) {
       // Rotate: rotate whole color field instead of adding pulsing color layer.
@@ -401,6 +553,15 @@ export class MeshRenderer {
   geometry:   THREE.BufferGeometry | null = null
   material:   THREE.ShaderMaterial
   subdivision = 20
+  // Refine patches by curvature and color change, up to `subdivision`.
+  adaptive = true
+  // Vertex counts of the last update().
+  stats: Pick<PatchCoordTessellation, 'vertexCount' | 'uniformVertexCount'> | null = null
+  // Inputs and output of the last tessellation, for in-place updates.
+  private source: { grid: MeshGrid; interpolation: ColorInterpolationSettings } | null = null
+  private tessellation: PatchCoordTessellation | null = null
+  // Control points and colors of every patch (see writePatchData).
+  private patchData: THREE.DataTexture | null = null
 
   constructor(canvas: HTMLCanvasElement) {
     this.renderer = new THREE.WebGLRenderer({
@@ -437,8 +598,12 @@ export class MeshRenderer {
         uNoiseIntensity: { value: 0 },
         uNoiseScale: { value: 1 },
         uNoiseSpeed: { value: 1 },
+        uPatchData: { value: null },
+        uColorSpace: { value: 0 },
+        uHuePath: { value: 0 },
+        uBicubic: { value: false },
       },
-      // Custom shader reads `attribute vec4 color` directly.
+      // Vertex colors are evaluated in the vertex shader.
       vertexColors: false,
       side: THREE.DoubleSide,
       depthTest: false,
@@ -457,23 +622,94 @@ export class MeshRenderer {
     this.renderer.setClearColor(new THREE.Color(r, g, b), background.opacity)
   }
 
-  update(grid: MeshGrid) {
+  // Re-tessellates the mesh. With `changes` from the store (null: nothing
+  // in the grid changed) only the edited patches are rewritten into the
+  // patch data texture, as long as the grid object, settings and levels
+  // still match the last tessellation; otherwise the geometry is rebuilt.
+  update(
+    grid: MeshGrid,
+    interpolation: ColorInterpolationSettings = SRGB_INTERPOLATION,
+    changes?: PatchChanges | null,
+  ) {
+    const adaptive = this.adaptive
+    const previous = this.source
+    const current = this.tessellation
+    const reusable = !!current && !!previous
+      && previous.grid === grid
+      && previous.interpolation.space === interpolation.space
+      && previous.interpolation.hue === interpolation.hue
+      && previous.interpolation.mode === interpolation.mode
+      && current.layout.subdivision === Math.max(1, Math.round(this.subdivision))
+      && current.layout.adaptive === adaptive
+
+    if (reusable && changes !== undefined && this.patchData) {
+      if (changes === null) return
+      const dirty = changedPatches(grid, interpolation, changes)
+      if (layoutFits(grid, interpolation, current.layout, dirty, changes.colors)) {
+        const texture = this.patchData
+        writePatchData(grid, interpolation, texture.image.data as Float32Array, dirty)
+        // Each patch sits in a single texture row.
+        const patchCols = grid.cols - 1
+        for (const { row, col } of dirty) {
+          texture.addUpdateRange((row * patchCols + col) * PATCH_TEXELS * 4, PATCH_TEXELS * 4)
+        }
+        texture.needsUpdate = true
+        return
+      }
+    }
+
     // ── Tessellate mesh patches ──────────────────────────────────────────
-    const { positions, colors, indices } = tessellate(grid, this.subdivision)
+    const tessellation = tessellatePatchCoords(grid, this.subdivision, interpolation, adaptive)
+    const { coords, indices, vertexCount, uniformVertexCount } = tessellation
+    this.source = { grid, interpolation: { ...interpolation } }
+    this.tessellation = tessellation
+    this.stats = { vertexCount, uniformVertexCount }
+
+    // ── Patch data ───────────────────────────────────────────────────────
+    const patchCount = (grid.rows - 1) * (grid.cols - 1)
+    const dataWidth = PATCH_TEXELS * PATCHES_PER_ROW
+    const dataHeight = Math.max(1, Math.ceil(patchCount / PATCHES_PER_ROW))
+    if (!this.patchData || this.patchData.image.height !== dataHeight) {
+      this.patchData?.dispose()
+      this.patchData = new THREE.DataTexture(
+        new Float32Array(dataWidth * dataHeight * 4),
+        dataWidth,
+        dataHeight,
+        THREE.RGBAFormat,
+        THREE.FloatType,
+      )
+      this.material.uniforms.uPatchData.value = this.patchData
+    }
+    writePatchData(grid, interpolation, this.patchData.image.data as Float32Array)
+    this.patchData.needsUpdate = true
 
-    if (this.mesh) {
-      this.scene.remove(this.mesh)
-      this.geometry?.dispose()
+    const u = this.material.uniforms
+    const spaceMap: Record<ColorInterpolationSettings['space'], number> = { srgb: 0, linear: 1, oklab: 2, oklch: 3 }
+    const hueMap: Record<ColorInterpolationSettings['hue'], number> = {
+      shorter: 0,
+      longer: 1,
+      increasing: 2,
+      decreasing: 3,
     }
+    u.uColorSpace.value = spaceMap[interpolation.space]
+    u.uHuePath.value = hueMap[interpolation.hue]
+    u.uBicubic.value = interpolation.mode === 'bicubic'
 
+    const previousGeometry = this.geometry
     this.geometry = new THREE.BufferGeometry()
-    this.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-    this.geometry.setAttribute('color',    new THREE.BufferAttribute(colors, 4))
+    this.geometry.setAttribute('position', new THREE.BufferAttribute(coords, 3))
     this.geometry.setIndex(new THREE.BufferAttribute(indices, 1))
+    previousGeometry?.dispose()
 
-    this.mesh = new THREE.Mesh(this.geometry, this.material)
-    this.mesh.renderOrder = 1
-    this.scene.add(this.mesh)
+    if (this.mesh) {
+      this.mesh.geometry = this.geometry
+    } else {
+      this.mesh = new THREE.Mesh(this.geometry, this.material)
+      this.mesh.renderOrder = 1
+      // Positions are patch coordinates, not world space.
+      this.mesh.frustumCulled = false
+      this.scene.add(this.mesh)
+    }
   }
 
   render() {
@@ -540,6 +776,7 @@ export class MeshRenderer {
 
   dispose() {
     this.geometry?.dispose()
+    this.patchData?.dispose()
     this.material.dispose()
     this.renderer.dispose()
   }
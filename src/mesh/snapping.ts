@@ -0,0 +1,112 @@
+import type { MeshGrid, PointRef, Vec2 } from './types'
+
+// ─── Snapping ─────────────────────────────────────────────────────────────────
+// Dragged points (and handle tips) snap per axis to the nearest target
+// within a few screen pixels: artboard edges and centre lines, lines of a
+// grid in artboard pixels, and the x/y of the other mesh points. Everything
+// is in normalized coordinates; each snapped axis reports a guide line for
+// the overlay.
+
+export interface SnapSettings {
+  enabled: boolean
+  artboard: boolean
+  grid: boolean
+  gridSize: number      // artboard px
+  points: boolean
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  artboard: true,
+  grid: false,
+  gridSize: 50,
+  points: true,
+}
+
+export const MIN_SNAP_GRID_SIZE = 5
+export const MAX_SNAP_GRID_SIZE = 200
+
+// Screen distance (px) within which a target catches.
+export const SNAP_DISTANCE = 6
+
+// Handle angles snap to multiples of this while Shift is held.
+export const HANDLE_ANGLE_STEP = 15
+
+// A vertical (axis 'x') or horizontal (axis 'y') guide line.
+export interface SnapGuide {
+  axis: 'x' | 'y'
+  at: number
+}
+
+// Targets of one drag, collected when it starts.
+export interface SnapTargets {
+  x: number[]
+  y: number[]
+  // Grid spacing per axis, or null without grid snapping.
+  gridStep: Vec2 | null
+}
+
+export function snapTargets(
+  settings: SnapSettings,
+  artboard: { width: number; height: number },
+  grid: MeshGrid,
+  exclude: PointRef[],
+): SnapTargets {
+  const x: number[] = []
+  const y: number[] = []
+  if (settings.artboard) {
+    x.push(0, 0.5, 1)
+    y.push(0, 0.5, 1)
+  }
+  if (settings.points) {
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.cols; col++) {
+        if (exclude.some(p => p.row === row && p.col === col)) continue
+        const { position } = grid.points[row][col]
+        x.push(position.x)
+        y.push(position.y)
+      }
+    }
+  }
+  const gridStep = settings.grid
+    ? { x: settings.gridSize / artboard.width, y: settings.gridSize / artboard.height }
+    : null
+  return { x, y, gridStep }
+}
+
+// Nearest target to v within `tolerance`, or null.
+function snapAxis(v: number, targets: number[], step: number | null, tolerance: number): number | null {
+  const candidates = step ? [...targets, Math.round(v / step) * step] : targets
+  let best: number | null = null
+  let bestDist = tolerance
+  for (const t of candidates) {
+    const d = Math.abs(v - t)
+    if (d <= bestDist) {
+      best = t
+      bestDist = d
+    }
+  }
+  return best
+}
+
+// `tolerance` is SNAP_DISTANCE in normalized units of each axis.
+export function snapPosition(p: Vec2, targets: SnapTargets, tolerance: Vec2): { position: Vec2; guides: SnapGuide[] } {
+  const x = snapAxis(p.x, targets.x, targets.gridStep?.x ?? null, tolerance.x)
+  const y = snapAxis(p.y, targets.y, targets.gridStep?.y ?? null, tolerance.y)
+  const guides: SnapGuide[] = []
+  if (x !== null) guides.push({ axis: 'x', at: x })
+  if (y !== null) guides.push({ axis: 'y', at: y })
+  return { position: { x: x ?? p.x, y: y ?? p.y }, guides }
+}
+
+// Turns a handle (normalized) to the nearest multiple of `step` degrees as
+// seen on a `width` × `height` canvas, keeping its on-screen length.
+export function snapHandleAngle(v: Vec2, width: number, height: number, step = HANDLE_ANGLE_STEP): Vec2 {
+  const x = v.x * width
+  const y = v.y * height
+  const length = Math.hypot(x, y)
+  if (length === 0) return v
+  const unit = (step * Math.PI) / 180
+  const angle = Math.round(Math.atan2(y, x) / unit) * unit
+  return { x: (Math.cos(angle) * length) / width, y: (Math.sin(angle) * length) / height }
+}
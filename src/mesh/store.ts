@@ -1,12 +1,48 @@
-import { createDefaultGrid } from './math'
+import {
+  applyAutoHandles,
+  autoHandleDependents,
+  createDefaultGrid,
+  MAX_COLOR_TANGENT,
+  patchesAroundPoint,
+  sampleGridColor,
+  withAutoHandles,
+} from './math'
+import { deleteColumn, deleteRow, insertColumn, insertRow } from './topology'
+import {
+  editKeyframedGrid,
+  MAX_TIMELINE_DURATION,
+  MIN_TIMELINE_DURATION,
+  moveKeyframe,
+  pointAtTime,
+  removeKeyframe,
+  sameTime,
+  setKeyframe,
+  setKeyframeEasing,
+  timelineTime,
+} from './keyframes'
+import { createDefaultDocument, DEFAULT_GLASS } from './defaults'
+import { DocumentHistory, type HistoryEntry } from './history'
+import { loadKeymap, rebind, saveKeymap, DEFAULT_KEYMAP, type Keymap, type ShortcutAction } from './keymap'
+import { normalizeRandomizeSettings, randomizeGrid } from './randomize'
+import { DEFAULT_SNAP_SETTINGS, MAX_SNAP_GRID_SIZE, MIN_SNAP_GRID_SIZE, type SnapSettings } from './snapping'
 import type {
+  DocumentSettings,
+  MeshDocument,
   MeshGrid,
   MeshPoint,
+  PointRef,
+  PointStyle,
+  RandomizeSettings,
+  SelectedHandle,
   Color,
   HandleType,
+  Handles,
+  Vec2,
   AnimationSettings,
   AnimationStyle,
   CanvasBackgroundSettings,
+  ColorBlendMode,
+  ColorInterpolationSpace,
   EffectSettings,
   EffectType,
   NoiseSettings,
@@ -15,48 +51,56 @@ import type {
   HexagonSettings,
   SquaresSettings,
   PixelationSettings,
+  HueInterpolation,
+  KeyframeEasing,
+  PatchChanges,
 } from './types'
 
 // Simple reactive store using callbacks
 type Listener = () => void
 
-const DEFAULT_GLASS: GlassSettings = {
-  shape: 'grid',
-  cells: 4,
-  distortion: 123,
-  angle: 30,
-  aberration: 1.79,
-  ior: 1.76,
-  fresnel: 0.56,
-  frost: 0.05,
-  bevel: 0.33,
-  corner: 0.033,
-  ringThickness: 0.32,
+// Points may be dragged somewhat outside the artboard.
+const clampPosition = (v: number) => Math.max(-1.5, Math.min(2.5, v))
+
+// 'ringThickness' -> 'Glass ring thickness'
+function paramLabel(group: string, key: string) {
+  return `${group} ${key.replace(/[A-Z]/g, m => ` ${m.toLowerCase()}`)}`
 }
 
-export interface EditorState {
-  grid: MeshGrid
-  selectedPoint: { row: number; col: number } | null
-  hoveredPoint: { row: number; col: number } | null
+export interface EditorState extends MeshDocument {
+  // Active point: its handles are shown and single-value fields read from it.
+  selectedPoint: PointRef | null
+  // Every selected point, including the active one.
+  selectedPoints: PointRef[]
+  // Handle of the active point that was last grabbed; keyboard nudges move it.
+  selectedHandle: SelectedHandle
+  hoveredPoint: PointRef | null
   canvasSize: { width: number; height: number }
-  artboardSize: { width: number; height: number }
   subdivision: number
+  // Adaptive tessellation: `subdivision` becomes the per-edge maximum.
+  adaptiveTessellation: boolean
+  // Vertex counts of the canvas mesh, as last tessellated.
+  tessellationStats: { vertexCount: number; uniformVertexCount: number } | null
   showMeshOverlay: boolean
-  animation: AnimationSettings
-  canvasBackground: CanvasBackgroundSettings
-  effect: EffectSettings
-  noise: NoiseSettings
-  glass: GlassSettings
-  hexagon: HexagonSettings
-  squares: SquaresSettings
-  pixelation: PixelationSettings
+  snapping: SnapSettings
+  keymap: Keymap
+  // Playhead on the keyframe timeline (seconds). While playing it holds the
+  // time playback started from; see playbackTime().
+  timelineTime: number
+  timelinePlaying: boolean
 }
 
 class EditorStore {
   state: EditorState
   private listeners: Set<Listener> = new Set()
-  private history: MeshGrid[] = []
-  private historyIndex = -1
+  private history: DocumentHistory
+  private batchDepth = 0
+  private pendingNotify = false
+  private pendingRecord: { label: string; mergeKey?: string } | null = null
+  // In-place point edits since the canvas last took them (takePatchChanges).
+  private patchChanges: PatchChanges | null = null
+  // performance.now() when playback started.
+  private playStartedAt = 0
 
   private animSpeedBounds(style: AnimationStyle) {
     return style === 'smooth' ? { min: 2, max: 6 } : { min: 0.1, max: 4 }
@@ -66,127 +110,24 @@ class EditorStore {
     return style === 'smooth' ? { min: 0.5, max: 2 } : { min: 0, max: 1 }
   }
 
-  private lerp(a: number, b: number, t: number) {
-    return a + (b - a) * t
-  }
-
-  private sampleColorFromGrid(grid: MeshGrid, u: number, v: number): Color {
-    const rowMax = Math.max(0, grid.rows - 1)
-    const colMax = Math.max(0, grid.cols - 1)
-    const gx = Math.max(0, Math.min(colMax, u * colMax))
-    const gy = Math.max(0, Math.min(rowMax, v * rowMax))
-    const c0 = Math.floor(gx)
-    const c1 = Math.min(colMax, c0 + 1)
-    const r0 = Math.floor(gy)
-    const r1 = Math.min(rowMax, r0 + 1)
-    const tx = gx - c0
-    const ty = gy - r0
-
-    const a = grid.points[r0][c0].color
-    const b = grid.points[r0][c1].color
-    const c = grid.points[r1][c0].color
-    const d = grid.points[r1][c1].color
-
-    const top: Color = {
-      r: this.lerp(a.r, b.r, tx),
-      g: this.lerp(a.g, b.g, tx),
-      b: this.lerp(a.b, b.b, tx),
-      a: this.lerp(a.a, b.a, tx),
-    }
-    const bottom: Color = {
-      r: this.lerp(c.r, d.r, tx),
-      g: this.lerp(c.g, d.g, tx),
-      b: this.lerp(c.b, d.b, tx),
-      a: this.lerp(c.a, d.a, tx),
-    }
-
-    return {
-      r: this.lerp(top.r, bottom.r, ty),
-      g: this.lerp(top.g, bottom.g, ty),
-      b: this.lerp(top.b, bottom.b, ty),
-      a: this.lerp(top.a, bottom.a, ty),
-    }
-  }
-
   constructor() {
     this.state = {
-      grid: createDefaultGrid(3, 3, 800, 600),
+      ...createDefaultDocument(800, 600),
       selectedPoint: null,
+      selectedPoints: [],
+      selectedHandle: null,
       hoveredPoint: null,
       canvasSize: { width: 800, height: 600 },
-      artboardSize: { width: 1600, height: 1000 },
       subdivision: 20,
+      adaptiveTessellation: true,
+      tessellationStats: null,
       showMeshOverlay: true,
-      animation: {
-        style: 'static',
-        speed: 1,
-        strength: 0.5,
-      },
-      canvasBackground: {
-        color: {
-          r: 0x11 / 255,
-          g: 0x11 / 255,
-          b: 0x11 / 255,
-          a: 1,
-        },
-        opacity: 1,
-      },
-      effect: {
-        type: 'none',
-        color: {
-          r: 0xe5 / 255,
-          g: 0xe5 / 255,
-          b: 0xf7 / 255,
-          a: 1,
-        },
-        lineColor: {
-          r: 0,
-          g: 0,
-          b: 0,
-          a: 1,
-        },
-        opacity: 0.3,
-        scale: 30,
-        rotate: 0,
-      },
-      noise: {
-        enabled: false,
-        animated: false,
-        color: {
-          r: 1,
-          g: 1,
-          b: 1,
-          a: 1,
-        },
-        intensity: 0.30,
-        size: 1.34,
-        speed: 0.40,
-      },
-      glass: { ...DEFAULT_GLASS },
-      hexagon: {
-        color: { r: 1, g: 1, b: 1, a: 1 },
-        opacity: 10,
-        size: 71,
-        density: 0.7,
-        strokeWidth: 0.8,
-        strokeOpacity: 1,
-        randomOpacity: 0.5,
-      },
-      squares: {
-        color: { r: 1, g: 1, b: 1, a: 1 },
-        opacity: 10,
-        size: 100,
-        density: 0.65,
-        strokeWidth: 2,
-        strokeOpacity: 0.8,
-        randomOpacity: 0.5,
-      },
-      pixelation: {
-        pixelSize: 12,
-        density: 1,
-      },
+      snapping: { ...DEFAULT_SNAP_SETTINGS },
+      keymap: loadKeymap(),
+      timelineTime: 0,
+      timelinePlaying: false,
     }
-    this.snapshot()
+    this.history = new DocumentHistory(this.serializeDocument())
   }
 
   subscribe(fn: Listener): () => void {
@@ -195,36 +136,123 @@ class EditorStore {
   }
 
   private notify() {
+    if (this.batchDepth > 0) {
+      this.pendingNotify = true
+      return
+    }
     this.listeners.forEach(fn => fn())
   }
 
-  private snapshot() {
-    // Deep clone grid for undo
-    const clone = JSON.parse(JSON.stringify(this.state.grid))
-    this.history = this.history.slice(0, this.historyIndex + 1)
-    this.history.push(clone)
-    this.historyIndex++
-    // Keep history bounded
-    if (this.history.length > 50) {
-      this.history.shift()
-      this.historyIndex--
+  // Runs several mutations with a single notification at the end.
+  batch(fn: () => void) {
+    this.batchDepth++
+    try {
+      fn()
+    } finally {
+      this.batchDepth--
+      if (this.batchDepth === 0 && this.pendingRecord) {
+        const { label, mergeKey } = this.pendingRecord
+        this.pendingRecord = null
+        this.record(label, mergeKey)
+      }
+      if (this.batchDepth === 0 && this.pendingNotify) {
+        this.pendingNotify = false
+        this.notify()
+      }
     }
   }
 
-  undo() {
-    if (this.historyIndex > 0) {
-      this.historyIndex--
-      this.state.grid = JSON.parse(JSON.stringify(this.history[this.historyIndex]))
-      this.notify()
+  // ─── History ───────────────────────────────────────────────────────────────
+  // Only the document is versioned; selection, hover, viewport size and the
+  // mesh overlay/subdivision view settings are editor state and stay put.
+
+  // Grid width/height follow the viewport, so they are left out of snapshots.
+  private serializeDocument(): string {
+    const s = this.state
+    const doc: MeshDocument = {
+      artboardSize: s.artboardSize,
+      grid: { ...s.grid, width: 0, height: 0 },
+      animation: s.animation,
+      canvasBackground: s.canvasBackground,
+      effect: s.effect,
+      noise: s.noise,
+      glass: s.glass,
+      hexagon: s.hexagon,
+      squares: s.squares,
+      pixelation: s.pixelation,
+      colorInterpolation: s.colorInterpolation,
+      timeline: s.timeline,
+      randomize: s.randomize,
+    }
+    return JSON.stringify(doc)
+  }
+
+  private restoreDocument(serialized: string) {
+    const doc = JSON.parse(serialized) as MeshDocument
+    const { width, height } = this.state.canvasSize
+    this.state = { ...this.state, ...doc, grid: { ...doc.grid, width, height } }
+    this.dropOutOfRangeSelection()
+    this.applyTimeline()
+    this.notify()
+  }
+
+  private record(label: string, mergeKey?: string) {
+    if (this.batchDepth > 0) {
+      this.pendingRecord = { label, mergeKey }
+      return
     }
+    this.history.record(label, this.serializeDocument(), mergeKey)
+  }
+
+  // Records a history entry for the mutation just made, then notifies.
+  private commit(label: string, mergeKey?: string) {
+    this.record(label, mergeKey)
+    this.notify()
+  }
+
+  undo() {
+    const doc = this.history.undo()
+    if (doc !== null) this.restoreDocument(doc)
   }
 
   redo() {
-    if (this.historyIndex < this.history.length - 1) {
-      this.historyIndex++
-      this.state.grid = JSON.parse(JSON.stringify(this.history[this.historyIndex]))
-      this.notify()
+    const doc = this.history.redo()
+    if (doc !== null) this.restoreDocument(doc)
+  }
+
+  // -1 jumps to the oldest state still in the history.
+  jumpToHistory(index: number) {
+    const doc = this.history.jumpTo(index)
+    if (doc !== null) this.restoreDocument(doc)
+  }
+
+  getHistory(): { entries: readonly HistoryEntry[]; index: number; canUndo: boolean; canRedo: boolean } {
+    const { entries, index, canUndo, canRedo } = this.history
+    return { entries, index, canUndo, canRedo }
+  }
+
+  // Ends a drag gesture so the next change starts a new history entry.
+  endGesture() {
+    this.history.seal()
+  }
+
+  // Replaces the whole document (e.g. after opening a project file).
+  // The grid keeps the current viewport size; only normalized data is loaded.
+  loadDocument(doc: MeshDocument) {
+    const { width, height } = this.state.canvasSize
+    this.state = {
+      ...this.state,
+      ...doc,
+      grid: { ...doc.grid, width, height },
+      selectedPoint: null,
+      selectedPoints: [],
+      selectedHandle: null,
+      hoveredPoint: null,
+      timelineTime: 0,
+      timelinePlaying: false,
     }
+    this.applyTimeline()
+    this.commit('Open project')
   }
 
   setCanvasSize(width: number, height: number) {
@@ -237,18 +265,166 @@ class EditorStore {
     const w = Math.round(Math.max(128, Math.min(8192, width)))
     const h = Math.round(Math.max(128, Math.min(8192, height)))
     this.state.artboardSize = { width: w, height: h }
-    this.notify()
+    this.commit('Resize artboard')
   }
 
   selectPoint(row: number | null, col: number | null) {
     if (row === null || col === null) {
-      this.state.selectedPoint = null
+      this.clearSelection()
+    } else {
+      this.state.selectedPoint = { row, col }
+      this.state.selectedPoints = [{ row, col }]
+      this.state.selectedHandle = null
+    }
+    this.notify()
+  }
+
+  isPointSelected(row: number, col: number) {
+    return this.state.selectedPoints.some(p => p.row === row && p.col === col)
+  }
+
+  // Shift/Cmd-click: adds the point (making it active) or removes it.
+  togglePointSelection(row: number, col: number) {
+    if (this.isPointSelected(row, col)) {
+      const rest = this.state.selectedPoints.filter(p => p.row !== row || p.col !== col)
+      const active = this.state.selectedPoint
+      this.state.selectedPoints = rest
+      if (active && active.row === row && active.col === col) {
+        this.state.selectedPoint = rest[rest.length - 1] ?? null
+        this.state.selectedHandle = null
+      }
     } else {
+      this.state.selectedPoints = [...this.state.selectedPoints, { row, col }]
       this.state.selectedPoint = { row, col }
+      this.state.selectedHandle = null
+    }
+    this.notify()
+  }
+
+  // Makes an already selected point active without dropping the others.
+  setActivePoint(row: number, col: number) {
+    if (!this.isPointSelected(row, col)) return this.selectPoint(row, col)
+    this.state.selectedPoint = { row, col }
+    this.state.selectedHandle = null
+    this.notify()
+  }
+
+  selectPoints(points: PointRef[], additive = false) {
+    const next = additive ? [...this.state.selectedPoints] : []
+    for (const p of points) {
+      if (!next.some(q => q.row === p.row && q.col === p.col)) next.push({ row: p.row, col: p.col })
     }
+    const active = this.state.selectedPoint
+    this.state.selectedPoints = next
+    if (!active || !next.some(q => q.row === active.row && q.col === active.col)) {
+      this.state.selectedPoint = next[0] ?? null
+      this.state.selectedHandle = null
+    }
+    this.notify()
+  }
+
+  selectRow(row: number) {
+    this.selectPoints(this.state.grid.points[row].map((_, col) => ({ row, col })))
+  }
+
+  selectColumn(col: number) {
+    this.selectPoints(this.state.grid.points.map((_, row) => ({ row, col })))
+  }
+
+  selectAll() {
+    this.selectPoints(this.state.grid.points.flatMap((points, row) => points.map((_, col) => ({ row, col }))))
+  }
+
+  private clearSelection() {
+    this.state.selectedPoint = null
+    this.state.selectedPoints = []
+    this.state.selectedHandle = null
+  }
+
+  // Picks one handle of the active point for keyboard nudging; null for the
+  // point itself.
+  selectHandle(handle: SelectedHandle) {
+    if (handle === this.state.selectedHandle) return
+    this.state.selectedHandle = this.state.selectedPoint ? handle : null
     this.notify()
   }
 
+  // Tab order: row by row. Makes the next (or previous) point the only
+  // selected one.
+  cycleSelection(step: 1 | -1) {
+    const { rows, cols } = this.state.grid
+    const count = rows * cols
+    const active = this.state.selectedPoint
+    const index = active
+      ? (active.row * cols + active.col + step + count) % count
+      : step > 0 ? 0 : count - 1
+    this.selectPoint(Math.floor(index / cols), index % cols)
+  }
+
+  // Restored grids can be smaller than the one the selection was made on.
+  private dropOutOfRangeSelection() {
+    const { rows, cols } = this.state.grid
+    this.remapSelection(p => (p.row < rows && p.col < cols ? p : null))
+    const hov = this.state.hoveredPoint
+    if (hov && (hov.row >= rows || hov.col >= cols)) this.state.hoveredPoint = null
+  }
+
+  // Re-indexes the selection after a topology edit; `map` returns null for
+  // points that no longer exist.
+  private remapSelection(map: (p: PointRef) => PointRef | null) {
+    const active = this.state.selectedPoint ? map(this.state.selectedPoint) : null
+    this.state.selectedPoints = this.state.selectedPoints
+      .map(map)
+      .filter((p): p is PointRef => p !== null)
+    this.state.selectedPoint = active ?? this.state.selectedPoints[0] ?? null
+    if (!active) this.state.selectedHandle = null
+  }
+
+  // ─── Canvas change tracking ────────────────────────────────────────────────
+  // Point edits replace the point in place and record the patches around it,
+  // so the canvas can rewrite just those vertices. Anything that replaces
+  // `state.grid` (topology, resize, undo, loading) needs no record: the
+  // renderer rebuilds whenever it is handed a different grid.
+  // Edits to a keyframed point are recorded at the playhead (auto-key).
+  // Moving a point refreshes the auto handles it affects.
+
+  private setPoint(row: number, col: number, point: MeshPoint, autoKey = true) {
+    const { grid } = this.state
+    const prev = grid.points[row][col]
+    const moved = point.position !== prev.position || point.handles !== prev.handles
+    const recolored = point.color !== prev.color
+    if (autoKey && (moved || recolored)) point = this.keyed(point)
+    grid.points[row][col] = point
+    const changes = this.patchChanges ??= { patches: new Set(), positions: false, colors: false }
+    if (moved) changes.positions = true
+    if (recolored || point.colorTangent !== prev.colorTangent) changes.colors = true
+    for (const id of patchesAroundPoint(grid, row, col)) changes.patches.add(id)
+    if (point.position !== prev.position || (point.handles.type === 'auto' && prev.handles.type !== 'auto')) {
+      this.refreshAutoHandles(row, col)
+    }
+  }
+
+  // Auto handles are derived from positions, so they are not keyed.
+  private refreshAutoHandles(row: number, col: number) {
+    const { grid } = this.state
+    for (const ref of autoHandleDependents(grid, row, col)) {
+      const next = withAutoHandles(grid, ref.row, ref.col)
+      if (next !== grid.points[ref.row][ref.col]) this.setPoint(ref.row, ref.col, next, false)
+    }
+  }
+
+  private keyed(point: MeshPoint) {
+    return point.keyframes.length > 0 ? setKeyframe(point, this.state.timelineTime) : point
+  }
+
+  // Returns and clears the point edits made since the last call; null when
+  // there were none. Called by the canvas on every notification.
+  takePatchChanges(): PatchChanges | null {
+    const changes = this.patchChanges
+    this.patchChanges = null
+    return changes
+  }
+
   hoverPoint(row: number | null, col: number | null) {
     const prev = this.state.hoveredPoint
     const next = (row === null || col === null) ? null : { row, col }
@@ -261,17 +437,36 @@ class EditorStore {
 
   movePoint(row: number, col: number, dx: number, dy: number) {
     const p = this.state.grid.points[row][col]
-    const clamp = (v: number) => Math.max(-1.5, Math.min(2.5, v))
     const newPos = {
-      x: clamp(p.position.x + dx / this.state.grid.width),
-      y: clamp(p.position.y + dy / this.state.grid.height),
+      x: clampPosition(p.position.x + dx / this.state.grid.width),
+      y: clampPosition(p.position.y + dy / this.state.grid.height),
     }
-    this.state.grid.points[row][col] = { ...p, position: newPos }
-    this.notify()
+    this.setPoint(row, col, { ...p, position: newPos })
+    this.commit('Move point', 'move-points')
+  }
+
+  // Group move: every selected point goes through movePoint, with one
+  // notification and one history entry for the whole step.
+  moveSelection(dx: number, dy: number) {
+    const count = this.state.selectedPoints.length
+    this.batch(() => {
+      for (const { row, col } of this.state.selectedPoints) this.movePoint(row, col, dx, dy)
+      if (count > 1) this.record(`Move ${count} points`, 'move-points')
+    })
   }
 
-  commitSnapshot() {
-    this.snapshot()
+  // Keyboard nudge by (dx, dy) artboard pixels: the selected handle, or
+  // every selected point. Repeated nudges merge into one history entry.
+  nudgeSelection(dx: number, dy: number) {
+    this.setTimelinePlaying(false)
+    const { grid, artboardSize, selectedPoint, selectedHandle } = this.state
+    const sx = grid.width / artboardSize.width
+    const sy = grid.height / artboardSize.height
+    if (selectedPoint && selectedHandle) {
+      this.moveHandle(selectedPoint.row, selectedPoint.col, selectedHandle, dx * sx, dy * sy)
+    } else {
+      this.moveSelection(dx * sx, dy * sy)
+    }
   }
 
   moveHandle(
@@ -288,42 +483,233 @@ class EditorStore {
     const nx = p.handles[handle].x + dx / w
     const ny = p.handles[handle].y + dy / h
 
-    const newHandles = { ...p.handles, [handle]: { x: nx, y: ny } }
+    this.setPoint(row, col, { ...p, handles: this.withHandle(p, handle, nx, ny) })
+    this.commit('Move handle', 'move-handle')
+  }
+
+  // Sets one handle (normalized vector) from the inspector.
+  setHandle(row: number, col: number, handle: 'left' | 'right' | 'up' | 'down', vector: Vec2) {
+    const p = this.state.grid.points[row][col]
+    this.setPoint(row, col, { ...p, handles: this.withHandle(p, handle, vector.x, vector.y) })
+    this.commit('Edit handle')
+  }
+
+  // The point's handles with `handle` set to (nx, ny) and the opposite one
+  // following the handle type.
+  private withHandle(p: MeshPoint, handle: 'left' | 'right' | 'up' | 'down', nx: number, ny: number): Handles {
+    // Editing an auto handle takes over the point: it becomes a smooth
+    // (mirror angle) point with the current handles as a starting shape.
+    const type = p.handles.type === 'auto' ? 'mirrorAngle' : p.handles.type
+    const newHandles = { ...p.handles, [handle]: { x: nx, y: ny }, type }
 
+    const opposite = { left: 'right', right: 'left', up: 'down', down: 'up' } as const
+    const opp = opposite[handle]
     // Mirror angle: opposite handle mirrors direction
-    if (p.handles.type === 'mirrorAngle') {
-      const opposite = { left: 'right', right: 'left', up: 'down', down: 'up' } as const
-      const opp    = opposite[handle]
+    if (type === 'mirrorAngle') {
       const len    = Math.hypot(p.handles[opp].x, p.handles[opp].y)
       const newLen = Math.hypot(nx, ny)
       if (newLen > 0.0001) {
         newHandles[opp] = { x: (-nx / newLen) * len, y: (-ny / newLen) * len }
       }
     }
-
-    this.state.grid.points[row][col] = { ...p, handles: newHandles }
-    this.notify()
+    // Mirror length: opposite handle is the exact negation
+    if (type === 'mirrorLength') {
+      newHandles[opp] = { x: -nx, y: -ny }
+    }
+    return newHandles
   }
 
   setPointColor(row: number, col: number, color: Color) {
     const p = this.state.grid.points[row][col]
-    this.state.grid.points[row][col] = { ...p, color }
-    this.notify()
-    this.snapshot()
+    this.setPoint(row, col, { ...p, color })
+    this.commit('Change color', 'point-color')
   }
 
   setPointOpacity(row: number, col: number, opacity: number) {
     const p = this.state.grid.points[row][col]
     const a = Math.max(0, Math.min(1, opacity))
-    this.state.grid.points[row][col] = { ...p, color: { ...p.color, a } }
-    this.notify()
+    this.setPoint(row, col, { ...p, color: { ...p.color, a } })
+    this.commit('Change opacity', 'point-opacity')
+  }
+
+  // Inspector edit of the selected positions: `update` maps each point's
+  // normalized position to its new one.
+  setSelectionPosition(update: (position: Vec2) => Vec2) {
+    const count = this.state.selectedPoints.length
+    if (count === 0) return
+    this.updateSelectedPoints(p => {
+      const next = update(p.position)
+      return { ...p, position: { x: clampPosition(next.x), y: clampPosition(next.y) } }
+    })
+    this.commit(count > 1 ? `Move ${count} points` : 'Move point')
   }
 
   setHandleType(row: number, col: number, type: HandleType) {
     const p = this.state.grid.points[row][col]
-    this.state.grid.points[row][col] = { ...p, handles: { ...p.handles, type } }
+    this.setPoint(row, col, { ...p, handles: { ...p.handles, type } })
+    this.commit('Change handle type')
+  }
+
+  // ─── Selection-wide edits ──────────────────────────────────────────────────
+
+  getSelectedPoints(): MeshPoint[] {
+    return this.state.selectedPoints.map(({ row, col }) => this.state.grid.points[row][col])
+  }
+
+  private updateSelectedPoints(fn: (p: MeshPoint) => MeshPoint) {
+    for (const { row, col } of this.state.selectedPoints) {
+      this.setPoint(row, col, fn(this.state.grid.points[row][col]))
+    }
+  }
+
+  // Sets the hue of every selected point; each keeps its own opacity.
+  setSelectionColor(color: Color) {
+    this.updateSelectedPoints(p => ({ ...p, color: { ...color, a: p.color.a } }))
+    this.commit('Change color', 'point-color')
+  }
+
+  setSelectionOpacity(opacity: number) {
+    const a = Math.max(0, Math.min(1, opacity))
+    this.updateSelectedPoints(p => ({ ...p, color: { ...p.color, a } }))
+    this.commit('Change opacity', 'point-opacity')
+  }
+
+  setSelectionColorTangent(value: number) {
+    const colorTangent = Math.max(0, Math.min(MAX_COLOR_TANGENT, value))
+    this.updateSelectedPoints(p => ({ ...p, colorTangent }))
+    this.commit('Change color tangent', 'point-color-tangent')
+  }
+
+  setSelectionHandleType(type: HandleType) {
+    this.updateSelectedPoints(p => ({ ...p, handles: { ...p.handles, type } }))
+    this.commit('Change handle type')
+  }
+
+  // Gives every selected point the color, opacity, color tangent and handles
+  // of a copied one.
+  pasteSelectionStyle(style: PointStyle) {
+    const count = this.state.selectedPoints.length
+    if (count === 0) return
+    this.updateSelectedPoints(p => ({
+      ...p,
+      color: { ...style.color },
+      colorTangent: style.colorTangent,
+      handles: { ...style.handles },
+    }))
+    this.commit(count > 1 ? `Paste style to ${count} points` : 'Paste style')
+  }
+
+  // ─── Timeline ──────────────────────────────────────────────────────────────
+  // While paused, keyframed points hold their values at the playhead, so
+  // what the canvas shows is what gets edited. During playback the canvas
+  // animates a copy of the grid (KeyframePlayer) and the store is left alone.
+
+  // Current time on the timeline, advancing while playing.
+  playbackTime(now = performance.now()) {
+    const { timelineTime: time, timelinePlaying, timeline } = this.state
+    if (!timelinePlaying) return time
+    const elapsed = (now - this.playStartedAt) / 1000
+    return timeline.loop ? timelineTime(timeline, time + elapsed) : Math.min(timeline.duration, time + elapsed)
+  }
+
+  // Re-evaluates every keyframed point at the playhead.
+  private applyTimeline() {
+    const { grid, timelineTime: time, colorInterpolation } = this.state
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.cols; col++) {
+        const p = grid.points[row][col]
+        if (p.keyframes.length > 0) this.setPoint(row, col, pointAtTime(p, time, colorInterpolation), false)
+      }
+    }
+  }
+
+  setTimelinePlaying(playing: boolean) {
+    if (playing === this.state.timelinePlaying) return
+    const { timeline } = this.state
+    if (playing) {
+      if (!timeline.loop && this.state.timelineTime >= timeline.duration) this.state.timelineTime = 0
+      this.playStartedAt = performance.now()
+    } else {
+      this.state.timelineTime = this.playbackTime()
+      this.applyTimeline()
+    }
+    this.state.timelinePlaying = playing
     this.notify()
-    this.snapshot()
+  }
+
+  seekTimeline(time: number) {
+    this.state.timelineTime = Math.max(0, Math.min(this.state.timeline.duration, time))
+    this.playStartedAt = performance.now()
+    this.applyTimeline()
+    this.notify()
+  }
+
+  // Points a keyframe edit applies to: the selection, or every point when
+  // nothing is selected.
+  private keyframeTargets() {
+    return this.state.selectedPoints.length > 0
+      ? this.state.selectedPoints
+      : this.state.grid.points.flatMap((points, row) => points.map((_, col) => ({ row, col })))
+  }
+
+  addKeyframe() {
+    const time = this.state.timelineTime
+    const count = this.state.selectedPoints.length
+    if (count === 0) return
+    this.updateSelectedPoints(p => setKeyframe(p, time))
+    this.commit(count > 1 ? `Add ${count} keyframes` : 'Add keyframe')
+  }
+
+  // Without a selection, removes the keyframes at the playhead of every point.
+  removeKeyframe() {
+    const time = this.state.timelineTime
+    for (const { row, col } of this.keyframeTargets()) {
+      const p = this.state.grid.points[row][col]
+      const next = removeKeyframe(p, time)
+      if (next !== p) this.setPoint(row, col, next, false)
+    }
+    this.applyTimeline()
+    this.commit('Remove keyframe')
+  }
+
+  setKeyframeEasing(easing: KeyframeEasing) {
+    const time = this.state.timelineTime
+    for (const { row, col } of this.keyframeTargets()) {
+      const p = this.state.grid.points[row][col]
+      const next = setKeyframeEasing(p, time, easing)
+      if (next !== p) this.setPoint(row, col, next, false)
+    }
+    this.applyTimeline()
+    this.commit('Keyframe easing')
+  }
+
+  // Moves the keyframes at `from` (selected points, or all) to `to`; the
+  // playhead follows them.
+  moveKeyframes(from: number, to: number) {
+    const time = Math.max(0, Math.min(this.state.timeline.duration, to))
+    if (sameTime(from, time)) return
+    for (const { row, col } of this.keyframeTargets()) {
+      const p = this.state.grid.points[row][col]
+      const next = moveKeyframe(p, from, time)
+      if (next !== p) this.setPoint(row, col, next, false)
+    }
+    this.state.timelineTime = time
+    this.applyTimeline()
+    this.commit('Move keyframe')
+  }
+
+  setTimelineDuration(duration: number) {
+    this.state.timeline.duration = Math.max(MIN_TIMELINE_DURATION, Math.min(MAX_TIMELINE_DURATION, duration))
+    if (this.state.timelineTime > this.state.timeline.duration) {
+      this.state.timelineTime = this.state.timeline.duration
+      this.applyTimeline()
+    }
+    this.commit('Timeline duration', 'timeline.duration')
+  }
+
+  setTimelineLoop(loop: boolean) {
+    this.state.timeline.loop = loop
+    this.commit(loop ? 'Loop timeline' : 'Play timeline once')
   }
 
   setSubdivision(s: number) {
@@ -331,46 +717,94 @@ class EditorStore {
     this.notify()
   }
 
+  setAdaptiveTessellation(adaptive: boolean) {
+    this.state.adaptiveTessellation = adaptive
+    this.notify()
+  }
+
+  // Written by the canvas while it handles a notification, so it does not
+  // notify again; panels pick it up on the re-render already scheduled.
+  reportTessellationStats(stats: EditorState['tessellationStats']) {
+    this.state.tessellationStats = stats
+  }
+
   setShowMeshOverlay(show: boolean) {
     this.state.showMeshOverlay = show
     this.notify()
   }
 
+  setShortcut(action: ShortcutAction, binding: string | null) {
+    this.state.keymap = rebind(this.state.keymap, action, binding)
+    saveKeymap(this.state.keymap)
+    this.notify()
+  }
+
+  resetShortcuts() {
+    this.state.keymap = { ...DEFAULT_KEYMAP }
+    saveKeymap(this.state.keymap)
+    this.notify()
+  }
+
+  setSnapping(patch: Partial<SnapSettings>) {
+    const next = { ...this.state.snapping, ...patch }
+    next.gridSize = Math.round(Math.max(MIN_SNAP_GRID_SIZE, Math.min(MAX_SNAP_GRID_SIZE, next.gridSize)))
+    this.state.snapping = next
+    this.notify()
+  }
+
   setAnimationStyle(style: AnimationStyle) {
     this.state.animation.style = style
     const speedBounds = this.animSpeedBounds(style)
     const strengthBounds = this.animStrengthBounds(style)
     this.state.animation.speed = Math.max(speedBounds.min, Math.min(speedBounds.max, this.state.animation.speed))
     this.state.animation.strength = Math.max(strengthBounds.min, Math.min(strengthBounds.max, this.state.animation.strength))
-    this.notify()
+    this.commit('Animation style')
   }
 
   setAnimationSpeed(speed: number) {
     const b = this.animSpeedBounds(this.state.animation.style)
     this.state.animation.speed = Math.max(b.min, Math.min(b.max, speed))
-    this.notify()
+    this.commit('Animation speed', 'animation.speed')
   }
 
   setAnimationStrength(strength: number) {
     const b = this.animStrengthBounds(this.state.animation.style)
     this.state.animation.strength = Math.max(b.min, Math.min(b.max, strength))
-    this.notify()
+    this.commit('Animation strength', 'animation.strength')
   }
 
   setCanvasBackgroundColor(color: Color) {
     this.state.canvasBackground.color = { ...color, a: 1 }
-    this.notify()
+    this.commit('Background color', 'background.color')
   }
 
   setCanvasBackgroundOpacity(opacity: number) {
     this.state.canvasBackground.opacity = Math.max(0, Math.min(1, opacity))
-    this.notify()
+    this.commit('Background opacity', 'background.opacity')
+  }
+
+  setColorInterpolationSpace(space: ColorInterpolationSpace) {
+    if (this.state.colorInterpolation.space === space) return
+    this.state.colorInterpolation = { ...this.state.colorInterpolation, space }
+    this.commit('Color interpolation')
+  }
+
+  setColorBlendMode(mode: ColorBlendMode) {
+    if (this.state.colorInterpolation.mode === mode) return
+    this.state.colorInterpolation = { ...this.state.colorInterpolation, mode }
+    this.commit(mode === 'bicubic' ? 'Smooth color blending' : 'Bilinear color blending')
+  }
+
+  setHueInterpolation(hue: HueInterpolation) {
+    if (this.state.colorInterpolation.hue === hue) return
+    this.state.colorInterpolation = { ...this.state.colorInterpolation, hue }
+    this.commit('Hue interpolation')
   }
 
   setEffectType(type: EffectType) {
     const prevType = this.state.effect.type
     if (prevType === type) {
-      this.notify()
+      this.commit('Change effect')
       return
     }
     this.state.effect.type = type
@@ -401,67 +835,67 @@ class EditorStore {
         this.state.glass = { ...DEFAULT_GLASS }
       }
     }
-    this.notify()
+    this.commit('Change effect')
   }
 
   setEffectColor(color: Color) {
     this.state.effect.color = { ...color, a: 1 }
-    this.notify()
+    this.commit('Effect color', 'effect.color')
   }
 
   setEffectLineColor(color: Color) {
     this.state.effect.lineColor = { ...color, a: 1 }
-    this.notify()
+    this.commit('Effect line color', 'effect.lineColor')
   }
 
   setEffectOpacity(opacity: number) {
     this.state.effect.opacity = Math.max(0, Math.min(1, opacity))
-    this.notify()
+    this.commit('Effect opacity', 'effect.opacity')
   }
 
   setEffectScale(scale: number) {
     this.state.effect.scale = Math.round(Math.max(4, Math.min(128, scale)))
-    this.notify()
+    this.commit('Effect scale', 'effect.scale')
   }
 
   setEffectRotate(rotate: number) {
     this.state.effect.rotate = Math.max(-180, Math.min(180, rotate))
-    this.notify()
+    this.commit('Effect rotation', 'effect.rotate')
   }
 
   setNoiseAnimated(animated: boolean) {
     this.state.noise.animated = animated
-    this.notify()
+    this.commit(animated ? 'Animate noise' : 'Freeze noise')
   }
 
   setNoiseEnabled(enabled: boolean) {
     this.state.noise.enabled = enabled
-    this.notify()
+    this.commit(enabled ? 'Enable noise' : 'Disable noise')
   }
 
   setNoiseIntensity(intensity: number) {
     this.state.noise.intensity = Math.max(0, Math.min(1, intensity))
-    this.notify()
+    this.commit('Noise intensity', 'noise.intensity')
   }
 
   setNoiseColor(color: Color) {
     this.state.noise.color = { ...color, a: 1 }
-    this.notify()
+    this.commit('Noise color', 'noise.color')
   }
 
   setNoiseSize(size: number) {
     this.state.noise.size = Math.max(0.1, Math.min(4, size))
-    this.notify()
+    this.commit('Noise size', 'noise.size')
   }
 
   setNoiseSpeed(speed: number) {
     this.state.noise.speed = Math.max(0, Math.min(1.5, speed))
-    this.notify()
+    this.commit('Noise speed', 'noise.speed')
   }
 
   setGlassShape(shape: GlassShape) {
     this.state.glass.shape = shape
-    this.notify()
+    this.commit('Glass shape')
   }
 
   setGlassParam(
@@ -503,12 +937,12 @@ class EditorStore {
       default:
         break
     }
-    this.notify()
+    this.commit(paramLabel('Glass', key), `glass.${key}`)
   }
 
   setHexagonColor(color: Color) {
     this.state.hexagon.color = { ...color, a: 1 }
-    this.notify()
+    this.commit('Hexagon color', 'hexagon.color')
   }
 
   setHexagonParam(
@@ -538,12 +972,12 @@ class EditorStore {
       default:
         break
     }
-    this.notify()
+    this.commit(paramLabel('Hexagon', key), `hexagon.${key}`)
   }
 
   setSquaresColor(color: Color) {
     this.state.squares.color = { ...color, a: 1 }
-    this.notify()
+    this.commit('Squares color', 'squares.color')
   }
 
   setSquaresParam(
@@ -573,7 +1007,7 @@ class EditorStore {
       default:
         break
     }
-    this.notify()
+    this.commit(paramLabel('Squares', key), `squares.${key}`)
   }
 
   setPixelationParam(
@@ -591,7 +1025,14 @@ class EditorStore {
       default:
         break
     }
-    this.notify()
+    this.commit(paramLabel('Pixelation', key), `pixelation.${key}`)
+  }
+
+  // Replaces the pasted settings sections (already validated, see
+  // clipboard.ts) as one undoable step.
+  pasteSettings(settings: Partial<DocumentSettings>) {
+    this.state = { ...this.state, ...settings }
+    this.commit('Paste settings')
   }
 
   setGridSize(rows: number, cols: number) {
@@ -602,54 +1043,104 @@ class EditorStore {
       row.map((p, c) => {
         const u = cols > 1 ? c / (cols - 1) : 0
         const v = rows > 1 ? r / (rows - 1) : 0
-        return { ...p, color: this.sampleColorFromGrid(source, u, v) }
+        return { ...p, color: sampleGridColor(source, u * (source.cols - 1), v * (source.rows - 1), this.state.colorInterpolation) }
       })
     )
     this.state.grid = { ...next, points }
-    this.state.selectedPoint = null
-    this.snapshot()
-    this.notify()
+    this.clearSelection()
+    this.commit(`Grid size ${rows}×${cols}`)
+  }
+
+  // Splits patch row `patchRow` at v = t. The surface keeps its shape (auto
+  // points refit to their new neighbours); the selection follows its point
+  // to the shifted index.
+  insertRow(patchRow: number, t: number) {
+    const { grid } = this.state
+    if (patchRow < 0 || patchRow >= grid.rows - 1) return
+    const interpolation = this.state.colorInterpolation
+    const split = Math.max(0.01, Math.min(0.99, t))
+    this.state.grid = applyAutoHandles(editKeyframedGrid(grid, interpolation, g => insertRow(g, patchRow, split, interpolation)))
+    this.remapSelection(p => (p.row > patchRow ? { row: p.row + 1, col: p.col } : p))
+    this.state.hoveredPoint = null
+    this.commit('Insert row')
+  }
+
+  insertColumn(patchCol: number, t: number) {
+    const { grid } = this.state
+    if (patchCol < 0 || patchCol >= grid.cols - 1) return
+    const interpolation = this.state.colorInterpolation
+    const split = Math.max(0.01, Math.min(0.99, t))
+    this.state.grid = applyAutoHandles(editKeyframedGrid(grid, interpolation, g => insertColumn(g, patchCol, split, interpolation)))
+    this.remapSelection(p => (p.col > patchCol ? { row: p.row, col: p.col + 1 } : p))
+    this.state.hoveredPoint = null
+    this.commit('Insert column')
+  }
+
+  // Removes an interior row; the merged patches are refitted to the removed
+  // geometry and every remaining point stays where it is.
+  deleteRow(row: number) {
+    const { grid } = this.state
+    if (row <= 0 || row >= grid.rows - 1) return
+    this.state.grid = applyAutoHandles(editKeyframedGrid(grid, this.state.colorInterpolation, g => deleteRow(g, row)))
+    this.remapSelection(p => (p.row === row ? null : p.row > row ? { row: p.row - 1, col: p.col } : p))
+    this.state.hoveredPoint = null
+    this.commit('Delete row')
+  }
+
+  deleteColumn(col: number) {
+    const { grid } = this.state
+    if (col <= 0 || col >= grid.cols - 1) return
+    this.state.grid = applyAutoHandles(editKeyframedGrid(grid, this.state.colorInterpolation, g => deleteColumn(g, col)))
+    this.remapSelection(p => (p.col === col ? null : p.col > col ? { row: p.row, col: p.col - 1 } : p))
+    this.state.hoveredPoint = null
+    this.commit('Delete column')
+  }
+
+  // Replaces the mesh with one fitted to an image (see imageFit.ts). With
+  // `artboardSize` the artboard takes the image's proportions too.
+  setGridFromImage(grid: MeshGrid, artboardSize: { width: number; height: number } | null) {
+    const { width, height } = this.state.canvasSize
+    this.state.grid = { ...grid, width, height }
+    if (artboardSize) {
+      this.state.artboardSize = {
+        width: Math.round(Math.max(128, Math.min(8192, artboardSize.width))),
+        height: Math.round(Math.max(128, Math.min(8192, artboardSize.height))),
+      }
+    }
+    this.clearSelection()
+    this.commit('Mesh from image')
   }
 
   resetGrid(rows: number, cols: number) {
     const { width, height } = this.state.canvasSize
     this.state.grid = createDefaultGrid(rows, cols, width, height)
-    this.state.selectedPoint = null
-    this.snapshot()
-    this.notify()
+    this.clearSelection()
+    this.commit('Reset grid')
   }
 
-  applyPreset(colors: { r: number; g: number; b: number; a: number }[][]) {
+  // Colors repeat when the grid is larger than `colors`.
+  applyPreset(colors: { r: number; g: number; b: number; a: number }[][], label = 'Apply preset') {
     const { rows, cols } = this.state.grid
     const points = this.state.grid.points.map((row, r) =>
-      row.map((p, c) => ({
+      row.map((p, c) => this.keyed({
         ...p,
         color: colors[r % colors.length][c % colors[r % colors.length].length],
       }))
     )
     this.state.grid = { ...this.state.grid, points }
-    this.state.selectedPoint = null
-    this.snapshot()
-    this.notify()
+    this.clearSelection()
+    this.commit(label)
   }
 
-  randomize() {
-    const { rows, cols, width, height } = this.state.grid
-    const points = this.state.grid.points.map(row =>
-      row.map(p => ({
-        ...p,
-        color: {
-          r: Math.random(),
-          g: Math.random(),
-          b: Math.random(),
-          a: 1,
-        },
-      }))
-    )
-    this.state.grid = { rows, cols, width, height, points }
-    this.state.selectedPoint = null
-    this.snapshot()
-    this.notify()
+  // Recolors the mesh from a seed (and jitters it, if asked); see
+  // randomize.ts. The settings are saved with the document.
+  randomize(settings: Partial<RandomizeSettings> = {}) {
+    const next = normalizeRandomizeSettings({ ...this.state.randomize, ...settings })
+    this.state.randomize = next
+    const randomized = applyAutoHandles(randomizeGrid(this.state.grid, next, this.state.artboardSize))
+    this.state.grid = { ...randomized, points: randomized.points.map(row => row.map(p => this.keyed(p))) }
+    this.clearSelection()
+    this.commit('Randomize')
   }
 
   getSelectedPoint(): MeshPoint | null {
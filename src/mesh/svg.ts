@@ -0,0 +1,368 @@
+import { overlayHash } from './overlays'
+import { tessellate } from './math'
+import type { Color, ColorInterpolationSettings, EffectSettings, MeshDocument, MeshGrid, Vec2 } from './types'
+
+// ─── Vector SVG export ────────────────────────────────────────────────────────
+// Builds a resolution-independent SVG from the document instead of wrapping a
+// PNG. The mesh is written as finely tessellated flat-colour triangles (each
+// stroked in its own colour so anti-aliasing seams do not show). The shader
+// patterns from renderer.ts become SVG <pattern>s / gradients with the same
+// geometry, clipped to the mesh outline, and the hexagon/squares overlays are
+// drawn shape by shape with the same per-cell randomness as overlays.ts.
+// Animation colour modulation is not part of a still vector image, and the
+// raster post effects (glass, pixelation, grain) are left out and reported.
+
+export interface MeshSvgResult {
+  svg: string
+  // Human-readable names of enabled effects that could not be vectorized.
+  omitted: string[]
+}
+
+// Upper bound for the triangle count; the subdivision is picked per grid.
+const MAX_TRIANGLES = 12000
+const ID_PREFIX = 'mesh-'
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v))
+const num = (n: number) => String(Math.round(n * 100) / 100)
+const hex = (c: Pick<Color, 'r' | 'g' | 'b'>) =>
+  '#' + [c.r, c.g, c.b].map(v => Math.round(clamp01(v) * 255).toString(16).padStart(2, '0')).join('')
+const points = (pts: Vec2[]) => pts.map(p => `${num(p.x)},${num(p.y)}`).join(' ')
+
+export function buildMeshSvg(doc: MeshDocument, width: number, height: number, scale = 1): MeshSvgResult {
+  const defs: string[] = []
+  const body: string[] = []
+  const omitted: string[] = []
+  const { canvasBackground, effect } = doc
+
+  if (canvasBackground.opacity > 0) {
+    body.push(`<rect width="${num(width)}" height="${num(height)}" fill="${hex(canvasBackground.color)}"${opacityAttr('fill-opacity', canvasBackground.opacity)}/>`)
+  }
+
+  body.push(meshTriangles(doc.grid, doc.colorInterpolation, width, height))
+
+  const pattern = shaderPattern(effect, width, height, defs)
+  if (pattern) {
+    defs.push(`<clipPath id="${ID_PREFIX}outline"><path d="${meshOutline(doc.grid, width, height)}"/></clipPath>`)
+    body.push(`<g clip-path="url(#${ID_PREFIX}outline)"${opacityAttr('opacity', effect.opacity)} style="isolation:isolate">${pattern}</g>`)
+  }
+
+  if (effect.type === 'hexagon') body.push(hexagonShapes(doc, width, height))
+  if (effect.type === 'squares') body.push(squaresShapes(doc, width, height))
+  if (effect.type === 'glass') omitted.push('glass')
+  if (effect.type === 'pixelation') omitted.push('pixelation')
+  if (doc.noise.enabled && doc.noise.intensity > 0.0001) omitted.push('grain')
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width * scale)}" height="${num(height * scale)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+    defs.length ? `<defs>${defs.join('')}</defs>` : '',
+    ...body,
+    '</svg>',
+  ].join('\n')
+  return { svg, omitted }
+}
+
+function opacityAttr(name: string, value: number) {
+  const v = clamp01(value)
+  return v >= 0.999 ? '' : ` ${name}="${num(v)}"`
+}
+
+// ─── Mesh ─────────────────────────────────────────────────────────────────────
+
+function meshTriangles(grid: MeshGrid, interpolation: ColorInterpolationSettings, W: number, H: number): string {
+  const patches = Math.max(1, (grid.rows - 1) * (grid.cols - 1))
+  const subdivision = Math.max(4, Math.min(32, Math.floor(Math.sqrt(MAX_TRIANGLES / (2 * patches)))))
+  // Positions are normalized; evaluate them against the export size.
+  const { positions, colors, indices } = tessellate({ ...grid, width: W, height: H }, subdivision, interpolation)
+
+  const out: string[] = ['<g stroke-width="0.5" stroke-linejoin="round">']
+  for (let i = 0; i < indices.length; i += 3) {
+    const tri = [indices[i], indices[i + 1], indices[i + 2]]
+    const pts = tri.map(v => ({
+      x: (positions[v * 3] + 1) * 0.5 * W,
+      y: (1 - positions[v * 3 + 1]) * 0.5 * H,
+    }))
+    const area = (pts[1].x - pts[0].x) * (pts[2].y - pts[0].y) - (pts[2].x - pts[0].x) * (pts[1].y - pts[0].y)
+    if (Math.abs(area) < 1e-6) continue
+
+    const avg = (k: number) => (colors[tri[0] * 4 + k] + colors[tri[1] * 4 + k] + colors[tri[2] * 4 + k]) / 3
+    const fill = hex({ r: avg(0), g: avg(1), b: avg(2) })
+    const alpha = clamp01(avg(3))
+    if (alpha <= 0.001) continue
+    const d = `M${num(pts[0].x)} ${num(pts[0].y)}L${num(pts[1].x)} ${num(pts[1].y)}L${num(pts[2].x)} ${num(pts[2].y)}Z`
+    // Seam-hiding strokes would double up on translucent triangles.
+    out.push(alpha >= 0.999
+      ? `<path d="${d}" fill="${fill}" stroke="${fill}"/>`
+      : `<path d="${d}" fill="${fill}" fill-opacity="${num(alpha)}"/>`)
+  }
+  out.push('</g>')
+  return out.join('')
+}
+
+// Outer boundary of the mesh as one closed Bezier path.
+function meshOutline(grid: MeshGrid, W: number, H: number): string {
+  const { rows, cols, points: pts } = grid
+  const at = (v: Vec2) => `${num(v.x * W)} ${num(v.y * H)}`
+  const ctrl = (p: Vec2, h: Vec2) => at({ x: p.x + h.x, y: p.y + h.y })
+  const segs: string[] = [`M${at(pts[0][0].position)}`]
+  for (let c = 0; c < cols - 1; c++) {
+    const a = pts[0][c], b = pts[0][c + 1]
+    segs.push(`C${ctrl(a.position, a.handles.right)} ${ctrl(b.position, b.handles.left)} ${at(b.position)}`)
+  }
+  for (let r = 0; r < rows - 1; r++) {
+    const a = pts[r][cols - 1], b = pts[r + 1][cols - 1]
+    segs.push(`C${ctrl(a.position, a.handles.down)} ${ctrl(b.position, b.handles.up)} ${at(b.position)}`)
+  }
+  for (let c = cols - 1; c > 0; c--) {
+    const a = pts[rows - 1][c], b = pts[rows - 1][c - 1]
+    segs.push(`C${ctrl(a.position, a.handles.left)} ${ctrl(b.position, b.handles.right)} ${at(b.position)}`)
+  }
+  for (let r = rows - 1; r > 0; r--) {
+    const a = pts[r][0], b = pts[r - 1][0]
+    segs.push(`C${ctrl(a.position, a.handles.up)} ${ctrl(b.position, b.handles.down)} ${at(b.position)}`)
+  }
+  segs.push('Z')
+  return segs.join('')
+}
+
+// ─── Shader patterns ──────────────────────────────────────────────────────────
+// Mirrors the uEffectType branches of the fragment shader. Coordinates are
+// viewport pixels with the origin at the top-left, as `px` in the shader.
+
+// Part of a tile where the CSS-style linear gradient parameter (cssLinearT in
+// renderer.ts) lies within [t0, t1].
+function linearTileRegion(tile: Vec2, angleDeg: number, t0: number, t1: number): Vec2[] {
+  const rad = (angleDeg * Math.PI) / 180
+  const dir = { x: Math.sin(rad), y: -Math.cos(rad) }
+  const l = 0.5 * (Math.abs(dir.x) * tile.x + Math.abs(dir.y) * tile.y)
+  const t = (p: Vec2) => ((p.x - tile.x / 2) * dir.x + (p.y - tile.y / 2) * dir.y + l) / (2 * Math.max(1e-5, l))
+
+  // Sutherland–Hodgman against t >= t0 and t <= t1.
+  const clip = (poly: Vec2[], inside: (p: Vec2) => number) => {
+    const out: Vec2[] = []
+    for (let i = 0; i < poly.length; i++) {
+      const a = poly[i]
+      const b = poly[(i + 1) % poly.length]
+      const da = inside(a)
+      const db = inside(b)
+      if (da >= 0) out.push(a)
+      if ((da >= 0) !== (db >= 0)) {
+        const k = da / (da - db)
+        out.push({ x: a.x + (b.x - a.x) * k, y: a.y + (b.y - a.y) * k })
+      }
+    }
+    return out
+  }
+  let poly: Vec2[] = [{ x: 0, y: 0 }, { x: tile.x, y: 0 }, { x: tile.x, y: tile.y }, { x: 0, y: tile.y }]
+  poly = clip(poly, p => t(p) - t0)
+  poly = clip(poly, p => t1 - t(p))
+  return poly
+}
+
+interface MaskLayer {
+  angle: number
+  offset: Vec2
+  // Gradient ranges painted with the line colour.
+  ranges: [number, number][]
+  alpha: number
+}
+
+function maskLayers(layers: MaskLayer[], tile: Vec2, line: string, W: number, H: number, defs: string[], key: string) {
+  return layers.map((layer, i) => {
+    const id = `${ID_PREFIX}${key}-${i}`
+    const shapes = layer.ranges
+      .map(([t0, t1]) => linearTileRegion(tile, layer.angle, t0, t1))
+      .filter(poly => poly.length >= 3)
+      .map(poly => `<polygon points="${points(poly)}"/>`)
+      .join('')
+    defs.push(
+      `<pattern id="${id}" patternUnits="userSpaceOnUse" x="${num(layer.offset.x)}" y="${num(layer.offset.y)}" width="${num(tile.x)}" height="${num(tile.y)}">`
+      + `<g fill="${line}"${opacityAttr('fill-opacity', layer.alpha)}>${shapes}</g></pattern>`,
+    )
+    return `<rect width="${num(W)}" height="${num(H)}" fill="url(#${id})"/>`
+  }).join('')
+}
+
+function shaderPattern(effect: EffectSettings, W: number, H: number, defs: string[]): string | null {
+  const base = hex(effect.color)
+  const line = hex(effect.lineColor)
+  const s = Math.max(2, effect.scale)
+  const cx = W / 2
+  const cy = H / 2
+  const full = `<rect width="${num(W)}" height="${num(H)}" fill="${base}"/>`
+  const fillWith = (id: string) => `<rect width="${num(W)}" height="${num(H)}" fill="url(#${ID_PREFIX}${id})"/>`
+  // Inverse of rotateAround(px, center, rad) in the shader.
+  const rotated = `patternTransform="rotate(${num(-effect.rotate)} ${num(cx)} ${num(cy)})"`
+
+  switch (effect.type) {
+    case 'wavy': {
+      defs.push(
+        `<radialGradient id="${ID_PREFIX}wavy" gradientUnits="userSpaceOnUse" cx="0" cy="0" r="${num(s)}" spreadMethod="repeat">`
+        + `<stop offset="0" stop-color="${line}"/><stop offset="1" stop-color="${line}" stop-opacity="0"/></radialGradient>`,
+        `<linearGradient id="${ID_PREFIX}wavy-fade" x1="0" y1="0" x2="0" y2="1">`
+        + `<stop offset="0" stop-color="#fff" stop-opacity="0.333"/><stop offset="1" stop-color="#fff"/></linearGradient>`,
+        `<mask id="${ID_PREFIX}wavy-mask"><rect width="${num(W)}" height="${num(H)}" fill="url(#${ID_PREFIX}wavy-fade)"/></mask>`,
+      )
+      return full + `<rect width="${num(W)}" height="${num(H)}" fill="url(#${ID_PREFIX}wavy)" mask="url(#${ID_PREFIX}wavy-mask)"/>`
+    }
+    case 'zigzag': {
+      const tile = { x: s, y: s }
+      return full + maskLayers([
+        { angle: 135, offset: { x: s / 2, y: 0 }, ranges: [[-1, 0.25]], alpha: 1 },
+        { angle: 225, offset: { x: s / 2, y: 0 }, ranges: [[-1, 0.25]], alpha: 1 },
+        { angle: 45, offset: { x: 0, y: 0 }, ranges: [[-1, 0.25]], alpha: 1 },
+        { angle: 315, offset: { x: 0, y: 0 }, ranges: [[-1, 0.25]], alpha: 1 },
+      ], tile, line, W, H, defs, 'zigzag')
+    }
+    case 'zigzag3d': {
+      const tile = { x: s, y: s }
+      return full + maskLayers([
+        { angle: 45, offset: { x: 0, y: 0 }, ranges: [[-1, 0.25]], alpha: 1 },
+        { angle: 315, offset: { x: 0, y: 0 }, ranges: [[-1, 0.25]], alpha: 0.333 },
+        { angle: 225, offset: { x: -s / 2, y: 0 }, ranges: [[-1, 0.25]], alpha: 1 },
+        { angle: 135, offset: { x: -s / 2, y: 0 }, ranges: [[-1, 0.25]], alpha: 0.333 },
+      ], tile, line, W, H, defs, 'zigzag3d')
+    }
+    case 'isometric': {
+      // The shader fades over half a percent of the tile; hard edges at the
+      // middle of each fade are indistinguishable.
+      const tile = { x: s, y: s * 1.75 }
+      const offB = { x: tile.x * 0.5, y: tile.y * 0.5142857 }
+      const origin = { x: 0, y: 0 }
+      const thin: [number, number][] = [[-1, 0.1225], [0.8725, 2]]
+      const wide: [number, number][] = [[-1, 0.2525], [0.7525, 2]]
+      return full + maskLayers([
+        { angle: 60, offset: offB, ranges: wide, alpha: 0.47 },
+        { angle: 60, offset: origin, ranges: wide, alpha: 0.47 },
+        { angle: 150, offset: offB, ranges: thin, alpha: 1 },
+        { angle: 30, offset: offB, ranges: thin, alpha: 1 },
+        { angle: 150, offset: origin, ranges: thin, alpha: 1 },
+        { angle: 30, offset: origin, ranges: thin, alpha: 1 },
+      ], tile, line, W, H, defs, 'isometric')
+    }
+    case 'circle': {
+      const maxDist = Math.max(1, Math.hypot(cx, cy))
+      const band = Math.max(1, s)
+      // 1 - smoothstep(0.75 band, 2 band, ringPos) over one 2-band cycle.
+      const ringStops = [0, 0.375, 0.5, 0.625, 0.75, 0.875, 1].map(offset => {
+        const k = clamp01((offset - 0.375) / 0.625)
+        const fade = 1 - k * k * (3 - 2 * k)
+        return `<stop offset="${offset}" stop-color="${line}" stop-opacity="${num(fade)}"/>`
+      }).join('')
+      defs.push(
+        `<radialGradient id="${ID_PREFIX}circle-a" gradientUnits="userSpaceOnUse" cx="${num(cx)}" cy="${num(cy)}" r="${num(maxDist)}">`
+        + `<stop offset="0" stop-color="${line}"/><stop offset="1" stop-color="${base}"/></radialGradient>`,
+        `<radialGradient id="${ID_PREFIX}circle-b" gradientUnits="userSpaceOnUse" cx="${num(cx)}" cy="${num(cy)}" r="${num(band * 2)}" spreadMethod="repeat">${ringStops}</radialGradient>`,
+      )
+      // Layer B is line-over-white multiplied onto layer A.
+      return fillWith('circle-a')
+        + `<g style="mix-blend-mode:multiply"><rect width="${num(W)}" height="${num(H)}" fill="#fff"/>${fillWith('circle-b')}</g>`
+    }
+    case 'polka': {
+      const radius = Math.max(0.25, 0.5 * (s / 10))
+      defs.push(
+        `<pattern id="${ID_PREFIX}polka" patternUnits="userSpaceOnUse" width="${num(s)}" height="${num(s)}" ${rotated}>`
+        + `<circle cx="${num(s / 2)}" cy="${num(s / 2)}" r="${num(radius)}" fill="${line}"/></pattern>`,
+      )
+      return full + fillWith('polka')
+    }
+    case 'lines': {
+      defs.push(
+        `<pattern id="${ID_PREFIX}lines" patternUnits="userSpaceOnUse" width="${num(s)}" height="${num(s)}" ${rotated}>`
+        + `<rect width="${num(s)}" height="${num(s / 2)}" fill="${line}"/></pattern>`,
+      )
+      return full + fillWith('lines')
+    }
+    case 'boxes': {
+      defs.push(
+        `<pattern id="${ID_PREFIX}boxes" patternUnits="userSpaceOnUse" width="${num(s)}" height="${num(s)}">`
+        + `<path d="M0 0H${num(s)}V1H0ZM0 ${num(s - 1)}H${num(s)}V${num(s)}H0ZM0 0H1V${num(s)}H0ZM${num(s - 1)} 0H${num(s)}V${num(s)}H${num(s - 1)}Z" fill="${line}"/></pattern>`,
+      )
+      return full + fillWith('boxes')
+    }
+    case 'triangle': {
+      defs.push(
+        `<pattern id="${ID_PREFIX}triangle" patternUnits="userSpaceOnUse" width="${num(s)}" height="${num(s)}">`
+        + `<polygon points="0,0 ${num(s)},0 0,${num(s)}" fill="${line}"/></pattern>`,
+      )
+      return full + fillWith('triangle')
+    }
+    case 'rhombus': {
+      const unit = Math.max(4, s) * 1.35
+      defs.push(
+        `<pattern id="${ID_PREFIX}rhombus" patternUnits="userSpaceOnUse" width="${num(unit * 2)}" height="${num(unit * 2)}" patternTransform="rotate(45)">`
+        + `<path d="M${num(unit)} 0h${num(unit)}v${num(unit)}h${num(-unit)}ZM0 ${num(unit)}h${num(unit)}v${num(unit)}H0Z" fill="${line}"/></pattern>`,
+      )
+      return full + fillWith('rhombus')
+    }
+    default:
+      return null
+  }
+}
+
+// ─── Overlays ─────────────────────────────────────────────────────────────────
+// Same layout, clamping and per-cell hash as drawHexagonOverlay /
+// drawSquaresOverlay at export scale 1.
+
+function hexagonShapes(doc: Pick<MeshDocument, 'hexagon'>, W: number, H: number): string {
+  const { hexagon } = doc
+  const fillBaseAlpha = clamp01(hexagon.opacity / 100)
+  const size = Math.max(20, Math.min(150, hexagon.size))
+  const density = Math.max(0.1, Math.min(1, hexagon.density))
+  const strokeWidth = Math.max(0.5, Math.min(5, hexagon.strokeWidth))
+  const strokeOpacity = clamp01(hexagon.strokeOpacity)
+  const randomOpacity = clamp01(hexagon.randomOpacity)
+
+  const height = size * 0.8660254037844386
+  const xOffset = size * 0.75
+  const yOffset = height
+  const cols = Math.ceil(W / xOffset) + 2
+  const rows = Math.ceil(H / yOffset) + 2
+
+  const stroke = strokeOpacity > 0
+    ? ` stroke="${hex(hexagon.color)}" stroke-width="${num(strokeWidth)}"${opacityAttr('stroke-opacity', strokeOpacity)}`
+    : ''
+  const out: string[] = [`<g fill="${hex(hexagon.color)}"${stroke}>`]
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (overlayHash(col, row, 11) > density) continue
+      const x = col * xOffset
+      const y = row * yOffset + (col % 2 === 1 ? yOffset / 2 : 0)
+      const opacityNoise = clamp01(1 - randomOpacity + overlayHash(col, row, 47) * randomOpacity)
+      const corners: Vec2[] = []
+      for (let i = 0; i < 6; i++) {
+        const angle = (Math.PI / 3) * i
+        corners.push({ x: x + (size / 2) * Math.cos(angle), y: y + (size / 2) * Math.sin(angle) })
+      }
+      out.push(`<polygon points="${points(corners)}" fill-opacity="${num(fillBaseAlpha * opacityNoise)}"/>`)
+    }
+  }
+  out.push('</g>')
+  return out.join('')
+}
+
+function squaresShapes(doc: Pick<MeshDocument, 'squares'>, W: number, H: number): string {
+  const { squares } = doc
+  const fillBaseAlpha = clamp01(squares.opacity / 100)
+  const size = Math.max(20, Math.min(150, squares.size))
+  const density = Math.max(0.1, Math.min(1, squares.density))
+  const strokeWidth = Math.max(1, Math.min(8, squares.strokeWidth))
+  const strokeOpacity = clamp01(squares.strokeOpacity)
+  const randomOpacity = clamp01(squares.randomOpacity)
+
+  const cols = Math.ceil(W / size) + 1
+  const rows = Math.ceil(H / size) + 1
+
+  const stroke = strokeOpacity > 0
+    ? ` stroke="${hex(squares.color)}" stroke-width="${num(strokeWidth)}"${opacityAttr('stroke-opacity', strokeOpacity)}`
+    : ''
+  const out: string[] = [`<g fill="${hex(squares.color)}"${stroke}>`]
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (overlayHash(col, row, 17) > density) continue
+      const opacityNoise = clamp01(1 - randomOpacity + overlayHash(col, row, 59) * randomOpacity)
+      out.push(`<rect x="${num(col * size)}" y="${num(row * size)}" width="${num(size)}" height="${num(size)}" fill-opacity="${num(fillBaseAlpha * opacityNoise)}"/>`)
+    }
+  }
+  out.push('</g>')
+  return out.join('')
+}
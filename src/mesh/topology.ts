@@ -0,0 +1,387 @@
+import { cubicBezierVec2, evalPatchPosition, makeId, sampleGridColor } from './math'
+import type { PatchCorners } from './math'
+import type { ColorInterpolationSettings, Handles, MeshGrid, MeshPoint, Vec2 } from './types'
+
+// ─── Mesh topology edits ──────────────────────────────────────────────────────
+// Row/column insertion splits every patch of a patch row (or column) at the
+// same parameter. Boundary curves are cut with de Casteljau; the new interior
+// curve is the Coons iso-curve P(u, t), which is itself a cubic, so the
+// rendered surface is reproduced exactly by the two resulting patches.
+// Everything works in normalized coordinates: positions and handles are both
+// scaled by (width, height) in evalPatchPosition, so the math is unchanged.
+
+const add = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x + b.x, y: a.y + b.y })
+const sub = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x - b.x, y: a.y - b.y })
+const lerp = (a: Vec2, b: Vec2, t: number): Vec2 => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+
+// Splits the cubic p0..p3 at t; returns both halves' control points.
+export function splitCubic(p0: Vec2, p1: Vec2, p2: Vec2, p3: Vec2, t: number) {
+  const q01 = lerp(p0, p1, t)
+  const q12 = lerp(p1, p2, t)
+  const q23 = lerp(p2, p3, t)
+  const r0 = lerp(q01, q12, t)
+  const r1 = lerp(q12, q23, t)
+  const s = lerp(r0, r1, t)
+  return {
+    left: [p0, q01, r0, s] as const,
+    right: [s, r1, q23, p3] as const,
+  }
+}
+
+// Bezier control points of the Coons iso-curve v = t across one patch.
+function isoCurveU(patch: PatchCorners, t: number): [Vec2, Vec2, Vec2, Vec2] {
+  const { tl, tr, bl, br } = patch
+  const top = [
+    tl.position,
+    add(tl.position, tl.handles.right),
+    add(tr.position, tr.handles.left),
+    tr.position,
+  ]
+  const bot = [
+    bl.position,
+    add(bl.position, bl.handles.right),
+    add(br.position, br.handles.left),
+    br.position,
+  ]
+  const leftEdge = splitCubic(tl.position, add(tl.position, tl.handles.down), add(bl.position, bl.handles.up), bl.position, t)
+  const rightEdge = splitCubic(tr.position, add(tr.position, tr.handles.down), add(br.position, br.handles.up), br.position, t)
+  const L = leftEdge.left[3]
+  const R = rightEdge.left[3]
+
+  // Lc is linear in u, Ld is the blended cubic, B the linear corner blend.
+  const D = top.map((p, k) => lerp(p, bot[k], t))
+  const lin = (a: Vec2, b: Vec2, k: number) => lerp(a, b, k / 3)
+  return [0, 1, 2, 3].map(k => add(sub(D[k], lin(D[0], D[3], k)), lin(L, R, k))) as [Vec2, Vec2, Vec2, Vec2]
+}
+
+// Swaps the row/column roles of a grid. Coons patches are symmetric in u/v,
+// so the transposed grid renders the same surface.
+function transpose(grid: MeshGrid): MeshGrid {
+  const swap = (h: Handles): Handles => ({ left: h.up, right: h.down, up: h.left, down: h.right, type: h.type })
+  const points: MeshPoint[][] = []
+  for (let c = 0; c < grid.cols; c++) {
+    points.push(grid.points.map(row => ({ ...row[c], handles: swap(row[c].handles) })))
+  }
+  return { ...grid, rows: grid.cols, cols: grid.rows, points }
+}
+
+// Inserted colors are sampled from the rendered color surface at that
+// parameter. In bicubic mode color tangents are re-derived from the new
+// neighbours, so colors between the points can shift slightly.
+export function insertRow(
+  grid: MeshGrid,
+  patchRow: number,
+  t: number,
+  interpolation?: ColorInterpolationSettings,
+): MeshGrid {
+  const { rows, cols, points } = grid
+  if (patchRow < 0 || patchRow >= rows - 1) throw new Error(`Patch row ${patchRow} out of range`)
+
+  const upper = points[patchRow].map(p => ({ ...p, handles: { ...p.handles } }))
+  const lower = points[patchRow + 1].map(p => ({ ...p, handles: { ...p.handles } }))
+  const inserted: MeshPoint[] = []
+
+  for (let c = 0; c < cols; c++) {
+    const a = points[patchRow][c]
+    const b = points[patchRow + 1][c]
+    const { left: top, right: bottom } = splitCubic(
+      a.position,
+      add(a.position, a.handles.down),
+      add(b.position, b.handles.up),
+      b.position,
+      t,
+    )
+    upper[c].handles.down = sub(top[1], top[0])
+    lower[c].handles.up = sub(bottom[2], bottom[3])
+
+    const position = top[3]
+    inserted.push({
+      id: makeId(),
+      position,
+      color: sampleGridColor(grid, c, patchRow + t, interpolation),
+      colorTangent: a.colorTangent + (b.colorTangent - a.colorTangent) * t,
+      // Keyed afterwards from the neighbours' animation (editKeyframedGrid).
+      keyframes: [],
+      handles: {
+        // Outer-boundary handles are never evaluated; keep them plausible.
+        left: lerp(a.handles.left, b.handles.left, t),
+        right: lerp(a.handles.right, b.handles.right, t),
+        up: sub(top[2], position),
+        down: sub(bottom[1], position),
+        type: 'free',
+      },
+    })
+  }
+
+  for (let c = 0; c < cols - 1; c++) {
+    const curve = isoCurveU({
+      tl: points[patchRow][c],
+      tr: points[patchRow][c + 1],
+      bl: points[patchRow + 1][c],
+      br: points[patchRow + 1][c + 1],
+    }, t)
+    inserted[c].handles.right = sub(curve[1], curve[0])
+    inserted[c + 1].handles.left = sub(curve[2], curve[3])
+  }
+
+  return {
+    ...grid,
+    rows: rows + 1,
+    points: [
+      ...points.slice(0, patchRow),
+      upper,
+      inserted,
+      lower,
+      ...points.slice(patchRow + 2),
+    ],
+  }
+}
+
+export function insertColumn(
+  grid: MeshGrid,
+  patchCol: number,
+  t: number,
+  interpolation?: ColorInterpolationSettings,
+): MeshGrid {
+  if (patchCol < 0 || patchCol >= grid.cols - 1) throw new Error(`Patch column ${patchCol} out of range`)
+  return transpose(insertRow(transpose(grid), patchCol, t, interpolation))
+}
+
+// ─── Deletion ─────────────────────────────────────────────────────────────────
+// Removing a row merges two stacked patches into one. A Coons patch depends
+// only on its four boundary curves, and the horizontal boundaries are kept
+// as they are, so the only freedom left is the pair of vertical handles on
+// each column. They are fitted to the removed two-segment curve by least
+// squares with fixed endpoints.
+
+const FIT_SAMPLES = 24
+const FIT_PASSES = 8
+const SPLIT_SEARCH_STEPS = 40
+
+const dot = (a: Vec2, b: Vec2) => a.x * b.x + a.y * b.y
+const scale = (a: Vec2, k: number): Vec2 => ({ x: a.x * k, y: a.y * k })
+
+function bezierDerivatives(c: readonly Vec2[], t: number) {
+  const mt = 1 - t
+  const d1 = add(add(
+    scale(sub(c[1], c[0]), 3 * mt * mt),
+    scale(sub(c[2], c[1]), 6 * mt * t)),
+    scale(sub(c[3], c[2]), 3 * t * t))
+  const d2 = add(
+    scale(add(sub(c[2], scale(c[1], 2)), c[0]), 6 * mt),
+    scale(add(sub(c[3], scale(c[2], 2)), c[1]), 6 * t))
+  return { d1, d2 }
+}
+
+// Least-squares inner control points for samples `pts` at parameters `us`,
+// with both endpoints fixed (normal equations of a 2x2 system per axis).
+function solveInner(pts: Vec2[], us: number[], p0: Vec2, p3: Vec2): [Vec2, Vec2] | null {
+  let c00 = 0, c01 = 0, c11 = 0
+  let r0: Vec2 = { x: 0, y: 0 }
+  let r1: Vec2 = { x: 0, y: 0 }
+  for (let i = 0; i < pts.length; i++) {
+    const u = us[i]
+    const mu = 1 - u
+    const b1 = 3 * mu * mu * u
+    const b2 = 3 * mu * u * u
+    const r = sub(pts[i], add(scale(p0, mu * mu * mu), scale(p3, u * u * u)))
+    c00 += b1 * b1
+    c01 += b1 * b2
+    c11 += b2 * b2
+    r0 = add(r0, scale(r, b1))
+    r1 = add(r1, scale(r, b2))
+  }
+  const det = c00 * c11 - c01 * c01
+  if (Math.abs(det) < 1e-12) return null
+  return [
+    scale(sub(scale(r0, c11), scale(r1, c01)), 1 / det),
+    scale(sub(scale(r1, c00), scale(r0, c01)), 1 / det),
+  ]
+}
+
+function fitError(pts: Vec2[], us: number[], p0: Vec2, inner: [Vec2, Vec2], p3: Vec2) {
+  let err = 0
+  for (let i = 0; i < pts.length; i++) {
+    const q = cubicBezierVec2(p0, inner[0], inner[1], p3, us[i])
+    err += (q.x - pts[i].x) ** 2 + (q.y - pts[i].y) ** 2
+  }
+  return err
+}
+
+// Fits one cubic from `first[0]` to `second[3]` through the two-segment
+// curve `first` + `second` and returns its inner control points. Samples
+// start out uniform in each segment's own parameter, joined at a split value
+// found by golden-section search; when the two segments came from splitting
+// a single cubic this recovers it exactly. Newton passes then polish the
+// parameters for the general case.
+function fitMergedCubic(first: readonly Vec2[], second: readonly Vec2[]): [Vec2, Vec2] {
+  const p0 = first[0]
+  const p3 = second[3]
+  const pts: Vec2[] = []
+  const local: number[] = []
+  for (const [k, seg] of [first, second].entries()) {
+    for (let i = k === 0 ? 0 : 1; i <= FIT_SAMPLES; i++) {
+      pts.push(cubicBezierVec2(seg[0], seg[1], seg[2], seg[3], i / FIT_SAMPLES))
+      local.push(k + i / FIT_SAMPLES)
+    }
+  }
+
+  const paramsAt = (split: number) => local.map(l => (l <= 1 ? l * split : split + (l - 1) * (1 - split)))
+  const evaluate = (split: number) => {
+    const us = paramsAt(split)
+    const inner = solveInner(pts, us, p0, p3)
+    return { us, inner, err: inner ? fitError(pts, us, p0, inner, p3) : Infinity }
+  }
+
+  const ratio = (Math.sqrt(5) - 1) / 2
+  let lo = 0.02
+  let hi = 0.98
+  let a = hi - ratio * (hi - lo)
+  let b = lo + ratio * (hi - lo)
+  let fa = evaluate(a).err
+  let fb = evaluate(b).err
+  for (let iter = 0; iter < SPLIT_SEARCH_STEPS; iter++) {
+    if (fa < fb) {
+      hi = b; b = a; fb = fa
+      a = hi - ratio * (hi - lo)
+      fa = evaluate(a).err
+    } else {
+      lo = a; a = b; fa = fb
+      b = lo + ratio * (hi - lo)
+      fb = evaluate(b).err
+    }
+  }
+
+  let { us, inner, err } = evaluate((lo + hi) / 2)
+  if (!inner) {
+    const third = scale(sub(p3, p0), 1 / 3)
+    return [add(p0, third), sub(p3, third)]
+  }
+  for (let pass = 0; pass < FIT_PASSES; pass++) {
+    const curve = [p0, inner[0], inner[1], p3]
+    const next = us.slice()
+    for (let i = 1; i < next.length - 1; i++) {
+      const q = cubicBezierVec2(p0, inner[0], inner[1], p3, next[i])
+      const { d1, d2 } = bezierDerivatives(curve, next[i])
+      const diff = sub(q, pts[i])
+      const den = dot(d1, d1) + dot(diff, d2)
+      if (Math.abs(den) > 1e-12) next[i] = Math.max(0, Math.min(1, next[i] - dot(diff, d1) / den))
+    }
+    const refit = solveInner(pts, next, p0, p3)
+    if (!refit) break
+    const nextErr = fitError(pts, next, p0, refit, p3)
+    if (nextErr >= err) break
+    us = next
+    inner = refit
+    err = nextErr
+  }
+  return inner
+}
+
+export function deleteRow(grid: MeshGrid, row: number): MeshGrid {
+  const { rows, cols, points, width, height } = grid
+  if (row <= 0 || row >= rows - 1) throw new Error(`Only interior rows can be deleted (got ${row})`)
+
+  // Fit in pixel space so chord lengths respect the aspect ratio.
+  const toPx = (v: Vec2): Vec2 => ({ x: v.x * width, y: v.y * height })
+  const toNorm = (v: Vec2): Vec2 => ({ x: v.x / width, y: v.y / height })
+
+  const upper = points[row - 1].map(p => ({ ...p, handles: { ...p.handles } }))
+  const lower = points[row + 1].map(p => ({ ...p, handles: { ...p.handles } }))
+  for (let c = 0; c < cols; c++) {
+    const a = points[row - 1][c]
+    const m = points[row][c]
+    const b = points[row + 1][c]
+    const first = [a.position, add(a.position, a.handles.down), add(m.position, m.handles.up), m.position].map(toPx)
+    const second = [m.position, add(m.position, m.handles.down), add(b.position, b.handles.up), b.position].map(toPx)
+    const [p1, p2] = fitMergedCubic(first, second)
+    upper[c].handles.down = sub(toNorm(p1), a.position)
+    lower[c].handles.up = sub(toNorm(p2), b.position)
+  }
+
+  return {
+    ...grid,
+    rows: rows - 1,
+    points: [
+      ...points.slice(0, row - 1),
+      upper,
+      lower,
+      ...points.slice(row + 2),
+    ],
+  }
+}
+
+export function deleteColumn(grid: MeshGrid, col: number): MeshGrid {
+  if (col <= 0 || col >= grid.cols - 1) throw new Error(`Only interior columns can be deleted (got ${col})`)
+  return transpose(deleteRow(transpose(grid), col))
+}
+
+// ─── Inverse mapping ──────────────────────────────────────────────────────────
+
+export interface PatchHit {
+  patchRow: number
+  patchCol: number
+  u: number
+  v: number
+}
+
+// Finds the patch and (u, v) under a normalized canvas position: coarse
+// sampling picks a start, a few Newton steps refine it.
+export function locatePatch(grid: MeshGrid, x: number, y: number): PatchHit | null {
+  const SAMPLES = 8
+  const w = 1
+  const h = 1
+  let best: PatchHit | null = null
+  let bestDist = Infinity
+
+  const patchAt = (pr: number, pc: number): PatchCorners => ({
+    tl: grid.points[pr][pc],
+    tr: grid.points[pr][pc + 1],
+    bl: grid.points[pr + 1][pc],
+    br: grid.points[pr + 1][pc + 1],
+  })
+
+  for (let pr = 0; pr < grid.rows - 1; pr++) {
+    for (let pc = 0; pc < grid.cols - 1; pc++) {
+      const patch = patchAt(pr, pc)
+      for (let i = 0; i <= SAMPLES; i++) {
+        for (let j = 0; j <= SAMPLES; j++) {
+          const u = j / SAMPLES
+          const v = i / SAMPLES
+          const p = evalPatchPosition(patch, u, v, w, h)
+          const d = Math.hypot(p.x - x, p.y - y)
+          if (d < bestDist) {
+            bestDist = d
+            best = { patchRow: pr, patchCol: pc, u, v }
+          }
+        }
+      }
+    }
+  }
+  if (!best) return null
+
+  const patch = patchAt(best.patchRow, best.patchCol)
+  let { u, v } = best
+  const eps = 1e-4
+  for (let iter = 0; iter < 12; iter++) {
+    const p = evalPatchPosition(patch, u, v, w, h)
+    const ex = p.x - x
+    const ey = p.y - y
+    if (Math.hypot(ex, ey) < 1e-6) break
+    const pu = evalPatchPosition(patch, u + eps, v, w, h)
+    const pv = evalPatchPosition(patch, u, v + eps, w, h)
+    const a = (pu.x - p.x) / eps
+    const b = (pv.x - p.x) / eps
+    const c = (pu.y - p.y) / eps
+    const d = (pv.y - p.y) / eps
+    const det = a * d - b * c
+    if (Math.abs(det) < 1e-12) break
+    u = Math.max(0, Math.min(1, u - (d * ex - b * ey) / det))
+    v = Math.max(0, Math.min(1, v - (-c * ex + a * ey) / det))
+  }
+
+  const p = evalPatchPosition(patch, u, v, w, h)
+  // Reject clicks outside the mesh (the clamped solution lands on the border).
+  if (Math.hypot(p.x - x, p.y - y) > 0.01) return null
+  return { patchRow: best.patchRow, patchCol: best.patchCol, u, v }
+}
@@ -10,7 +10,10 @@ export interface Color {
   a: number
 }
 
-export type HandleType = 'mirrorAngle' | 'mirrorLength' | 'free'
+// mirrorAngle: opposite handles stay collinear, each keeps its length.
+// mirrorLength: the opposite handle is the exact negation. auto: handles are
+// derived from the neighbouring points (Catmull-Rom) and not edited directly.
+export type HandleType = 'mirrorAngle' | 'mirrorLength' | 'free' | 'auto'
 export type AnimationStyle = 'static' | 'fluid' | 'smooth' | 'pulse' | 'wave' | 'waterDrop' | 'rotate'
 export type EffectType =
   | 'none'
@@ -30,6 +33,15 @@ export type EffectType =
   | 'glass'
 
 export type GlassShape = 'strips' | 'grid' | 'circle'
+export type ColorInterpolationSpace = 'srgb' | 'linear' | 'oklab' | 'oklch'
+// CSS Color 4 hue-interpolation methods, used by the OKLCH space.
+export type HueInterpolation = 'shorter' | 'longer' | 'increasing' | 'decreasing'
+// bilinear: per-patch blend of the four corners. bicubic: Hermite blend with
+// color tangents derived from neighbouring points (C1 across patch edges).
+export type ColorBlendMode = 'bilinear' | 'bicubic'
+// Timing of the segment that starts at a keyframe. `hold` keeps the value
+// until the next keyframe.
+export type KeyframeEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'hold'
 
 export interface Handles {
   left: Vec2
@@ -39,11 +51,26 @@ export interface Handles {
   type: HandleType
 }
 
+// The animated state of a point at `time` (seconds on the timeline).
+export interface PointKeyframe {
+  time: number
+  easing: KeyframeEasing
+  position: Vec2
+  handles: Omit<Handles, 'type'>
+  color: Color
+}
+
 export interface MeshPoint {
   id: string
   position: Vec2        // normalized 0-1
   color: Color
   handles: Handles
+  // Scale of the automatic color tangents in bicubic mode (1 = Catmull-Rom,
+  // 0 = flat at this point).
+  colorTangent: number
+  // Sorted by time. With any keyframes, position, handles and color follow
+  // the timeline and the fields above hold the values at the playhead.
+  keyframes: PointKeyframe[]
 }
 
 export interface MeshGrid {
@@ -122,4 +149,75 @@ export interface PixelationSettings {
   density: number
 }
 
+// Hue relationship the colors of a palette or a randomized mesh follow.
+export type HarmonyRule = 'analogous' | 'triadic' | 'complementary' | 'splitComplementary'
+
+// Inputs of the last seeded randomization (see randomize.ts); saved with the
+// document so the same seed reproduces the same mesh.
+export interface RandomizeSettings {
+  seed: number            // unsigned 32-bit
+  hueMin: number          // degrees; hueMin > hueMax wraps through 0
+  hueMax: number
+  saturationMin: number   // HSL, 0-1
+  saturationMax: number
+  lightnessMin: number    // HSL, 0-1
+  lightnessMax: number
+  // Hues follow the rule around one base hue drawn from the range.
+  harmony: HarmonyRule | 'none'
+  positionJitter: number  // share of the grid spacing, 0-0.4
+  handleJitter: number    // degrees, 0-45
+}
+
+export interface TimelineSettings {
+  duration: number      // seconds
+  loop: boolean
+}
+
+export interface ColorInterpolationSettings {
+  space: ColorInterpolationSpace
+  hue: HueInterpolation
+  mode: ColorBlendMode
+}
+
+// Everything that belongs to a saved document (as opposed to editor/UI state).
+export interface MeshDocument {
+  artboardSize: { width: number; height: number }
+  grid: MeshGrid
+  animation: AnimationSettings
+  canvasBackground: CanvasBackgroundSettings
+  effect: EffectSettings
+  noise: NoiseSettings
+  glass: GlassSettings
+  hexagon: HexagonSettings
+  squares: SquaresSettings
+  pixelation: PixelationSettings
+  colorInterpolation: ColorInterpolationSettings
+  timeline: TimelineSettings
+  randomize: RandomizeSettings
+}
+
+// The look of a document apart from its mesh; copied between documents as a
+// whole (see clipboard.ts).
+export type DocumentSettings = Pick<
+  MeshDocument,
+  'animation' | 'effect' | 'noise' | 'glass' | 'hexagon' | 'squares' | 'pixelation'
+>
+
+// What Copy/Paste carries from one mesh point to others.
+export type PointStyle = Pick<MeshPoint, 'color' | 'colorTangent' | 'handles'>
+
 export type SelectedHandle = 'left' | 'right' | 'up' | 'down' | null
+
+// Grid index of a mesh point: points[row][col].
+export interface PointRef {
+  row: number
+  col: number
+}
+
+// Patches (patchRow * (cols - 1) + patchCol) whose corner points were edited
+// in place, and what about them changed.
+export interface PatchChanges {
+  patches: Set<number>
+  positions: boolean
+  colors: boolean
+}
@@ -0,0 +1,288 @@
+import { ApngEncoder } from './encoders/apng'
+import { GIF_MAX_FPS, GifEncoder } from './encoders/gif'
+import { WebpAnimationEncoder } from './encoders/webp'
+import { ZIP_MAX_ENTRIES, ZipWriter } from './encoders/zip'
+import { Mp4Muxer } from './muxers/mp4'
+import { WebmMuxer, type WebmCodec } from './muxers/webm'
+import type { ExportAnimatedImageFormat, ExportMovieFormat } from './exportApi'
+
+// ─── Offline video export ─────────────────────────────────────────────────────
+// Deterministic replacement for the MediaRecorder capture: frame i is rendered
+// at exactly t = i / fps, encoded with WebCodecs and muxed in memory. Wall
+// clock and machine load only affect how long the export takes, never which
+// frames end up in the file.
+
+interface VideoMuxer {
+  addChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void
+  finalize(): Blob
+  readonly frameCount: number
+}
+
+interface CodecChoice {
+  format: ExportMovieFormat
+  mime: string
+  config: VideoEncoderConfig
+  webmCodec?: WebmCodec
+}
+
+export interface OfflineVideoOptions {
+  format: ExportMovieFormat
+  fps: number
+  frameCount: number
+  // Frame source; `renderFrame` redraws it for the given time.
+  canvas: HTMLCanvasElement
+  renderFrame: (tSec: number) => void
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface OfflineVideoResult {
+  blob: Blob
+  format: ExportMovieFormat
+  mime: string
+  width: number
+  height: number
+  usedFallback: boolean
+}
+
+// Highest profile/level first; the browser picks what it can do at this size.
+const AVC_CODECS = ['avc1.640034', 'avc1.640033', 'avc1.64002A', 'avc1.4D0028', 'avc1.42E01F']
+const VP9_CODECS = ['vp09.00.51.08', 'vp09.00.41.08', 'vp09.00.10.08']
+const KEYFRAME_INTERVAL_SEC = 2
+// Frames allowed to wait in the encoder before rendering pauses.
+const MAX_ENCODE_QUEUE = 4
+
+export function supportsOfflineVideo() {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined'
+}
+
+function bitrateFor(width: number, height: number, fps: number) {
+  return Math.round(Math.max(10_000_000, Math.min(100_000_000, width * height * fps * 0.12)))
+}
+
+async function pickCodec(format: ExportMovieFormat, width: number, height: number, fps: number): Promise<CodecChoice | null> {
+  const base = { width, height, framerate: fps, bitrate: bitrateFor(width, height, fps) }
+  const candidates: CodecChoice[] = [
+    ...AVC_CODECS.map(codec => ({
+      format: 'mp4' as const,
+      mime: 'video/mp4',
+      config: { ...base, codec, avc: { format: 'avc' as const } },
+    })),
+    ...VP9_CODECS.map(codec => ({
+      format: 'webm' as const,
+      mime: 'video/webm',
+      config: { ...base, codec },
+      webmCodec: 'vp9' as const,
+    })),
+    { format: 'webm', mime: 'video/webm', config: { ...base, codec: 'vp8' }, webmCodec: 'vp8' },
+  ]
+  // Preferred container first, the other one as fallback.
+  const ordered = [
+    ...candidates.filter(c => c.format === format),
+    ...candidates.filter(c => c.format !== format),
+  ]
+  for (const candidate of ordered) {
+    try {
+      const support = await VideoEncoder.isConfigSupported(candidate.config)
+      if (support.supported) return candidate
+    } catch {
+      // Malformed or unknown codec string on this browser; try the next one.
+    }
+  }
+  return null
+}
+
+export async function encodeOfflineVideo(options: OfflineVideoOptions): Promise<OfflineVideoResult> {
+  const { canvas, fps, frameCount, renderFrame, onProgress } = options
+  // 4:2:0 encoders need even dimensions; drop the odd edge pixel if any.
+  const width = canvas.width & ~1
+  const height = canvas.height & ~1
+  if (width < 2 || height < 2) throw new Error('Video size is too small')
+
+  const choice = await pickCodec(options.format, width, height, fps)
+  if (!choice) throw new Error('No supported video encoder for this size')
+
+  const muxer: VideoMuxer = choice.format === 'mp4'
+    ? new Mp4Muxer({ width, height, fps })
+    : new WebmMuxer({ codec: choice.webmCodec ?? 'vp9', width, height, fps })
+
+  const failure: { error: Error | null } = { error: null }
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addChunk(chunk, meta),
+    error: err => {
+      failure.error = err instanceof Error ? err : new Error(String(err))
+    },
+  })
+  encoder.configure(choice.config)
+
+  const keyInterval = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SEC))
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      if (failure.error) throw failure.error
+      renderFrame(i / fps)
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((i * 1_000_000) / fps),
+        duration: Math.round(1_000_000 / fps),
+        visibleRect: { x: 0, y: 0, width, height },
+      })
+      encoder.encode(frame, { keyFrame: i % keyInterval === 0 })
+      frame.close()
+      onProgress?.(i + 1, frameCount)
+
+      // Backpressure also gives the page a chance to paint progress.
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !failure.error) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+      if (i % 10 === 9) await new Promise(resolve => setTimeout(resolve, 0))
+    }
+    await encoder.flush()
+    if (failure.error) throw failure.error
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  if (muxer.frameCount !== frameCount) {
+    throw new Error(`Encoder returned ${muxer.frameCount} of ${frameCount} frames`)
+  }
+  return {
+    blob: muxer.finalize(),
+    format: choice.format,
+    mime: choice.mime,
+    width,
+    height,
+    usedFallback: choice.format !== options.format,
+  }
+}
+
+// ─── Animated images ──────────────────────────────────────────────────────────
+// GIF / APNG / animated WebP from the same t = i / fps frame sampling. Frames
+// are encoded one by one so only compressed data stays in memory.
+
+export interface AnimatedImageOptions {
+  format: ExportAnimatedImageFormat
+  fps: number
+  durationSec: number
+  loopCount: number
+  canvas: HTMLCanvasElement
+  renderFrame: (tSec: number) => void
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface AnimatedImageResult {
+  blob: Blob
+  ext: 'gif' | 'png' | 'webp'
+  mime: string
+  width: number
+  height: number
+  fps: number
+}
+
+export async function encodeAnimatedImage(options: AnimatedImageOptions): Promise<AnimatedImageResult> {
+  const { format, canvas, renderFrame, onProgress } = options
+  const fps = format === 'gif' ? Math.min(options.fps, GIF_MAX_FPS) : options.fps
+  const frameCount = Math.max(1, Math.round(options.durationSec * fps))
+  const loopCount = Math.max(0, Math.floor(options.loopCount))
+  const { width, height } = canvas
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('2D context alinamadi')
+
+  const { encoder, ext, mime } = animatedImageEncoder(format, { width, height, fps, loopCount })
+
+  for (let i = 0; i < frameCount; i++) {
+    renderFrame(i / fps)
+    const { data } = ctx.getImageData(0, 0, width, height)
+    await encoder.addFrame(data)
+    onProgress?.(i + 1, frameCount)
+    // Let the page paint progress between frames.
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  return { blob: encoder.finalize(), ext, mime, width, height, fps }
+}
+
+interface AnimatedImageEncoder {
+  addFrame(rgba: Uint8ClampedArray): void | Promise<void>
+  finalize(): Blob
+}
+
+function animatedImageEncoder(
+  format: ExportAnimatedImageFormat,
+  settings: { width: number; height: number; fps: number; loopCount: number },
+): { encoder: AnimatedImageEncoder; ext: AnimatedImageResult['ext']; mime: string } {
+  switch (format) {
+    case 'gif':
+      return { encoder: new GifEncoder(settings), ext: 'gif', mime: 'image/gif' }
+    case 'apng':
+      return { encoder: new ApngEncoder(settings), ext: 'png', mime: 'image/apng' }
+    case 'webp':
+      return { encoder: new WebpAnimationEncoder(settings), ext: 'webp', mime: 'image/webp' }
+  }
+}
+
+// ─── PNG image sequence ───────────────────────────────────────────────────────
+// Numbered frames for compositing apps (After Effects, Nuke), zipped with a
+// sidecar describing timing and size.
+
+export interface ImageSequenceOptions {
+  fps: number
+  durationSec: number
+  scale: number
+  // Base name of the frames and the sidecar.
+  name: string
+  canvas: HTMLCanvasElement
+  renderFrame: (tSec: number) => void
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface ImageSequenceResult {
+  blob: Blob
+  width: number
+  height: number
+  frameCount: number
+}
+
+function canvasToPng(canvas: HTMLCanvasElement) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('PNG frame could not be encoded'))
+        return
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject)
+    }, 'image/png')
+  })
+}
+
+export async function encodeImageSequence(options: ImageSequenceOptions): Promise<ImageSequenceResult> {
+  const { fps, name, canvas, renderFrame, onProgress } = options
+  const frameCount = Math.max(1, Math.round(options.durationSec * fps))
+  // One entry is left for the sidecar.
+  if (frameCount >= ZIP_MAX_ENTRIES) {
+    throw new Error(`Too many frames for a PNG sequence: ${frameCount} (at most ${ZIP_MAX_ENTRIES - 1})`)
+  }
+  const digits = Math.max(4, String(frameCount - 1).length)
+  const frameName = (i: number) => `${name}_${String(i).padStart(digits, '0')}.png`
+  const { width, height } = canvas
+  const zip = new ZipWriter()
+
+  for (let i = 0; i < frameCount; i++) {
+    renderFrame(i / fps)
+    zip.add(`${name}/${frameName(i)}`, await canvasToPng(canvas))
+    onProgress?.(i + 1, frameCount)
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  zip.addText(`${name}/${name}.json`, JSON.stringify({
+    fps,
+    frameCount,
+    durationSec: frameCount / fps,
+    width,
+    height,
+    scale: options.scale,
+    firstFrame: frameName(0),
+    framePattern: `${name}_${'#'.repeat(digits)}.png`,
+    colorSpace: 'sRGB',
+    premultipliedAlpha: false,
+  }, null, 2))
+
+  return { blob: zip.finalize(), width, height, frameCount }
+}
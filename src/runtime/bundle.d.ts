@@ -0,0 +1,5 @@
+// Source text of the bundled runtime, provided by the vite plugin in vite.config.ts.
+declare module 'virtual:mesh-runtime-bundle' {
+  const source: string
+  export default source
+}
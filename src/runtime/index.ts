@@ -0,0 +1,187 @@
+import { GlassRenderer } from '../mesh/glass'
+import { hasKeyframes, KeyframePlayer, timelineTime } from '../mesh/keyframes'
+import {
+  composeLayers,
+  createOverlayCache,
+  drawHexagonOverlay,
+  drawNoiseOverlay,
+  drawPixelationOverlay,
+  drawSquaresOverlay,
+  type LayerCanvases,
+  type OverlayCache,
+} from '../mesh/overlays'
+import { readProject } from '../mesh/project'
+import { MeshRenderer } from '../mesh/renderer'
+import type { AnimationSettings, MeshDocument } from '../mesh/types'
+
+// ─── mesh-runtime ─────────────────────────────────────────────────────────────
+// Standalone player for presets produced by the export modal. It renders the
+// same layer stack as the editor viewport (WebGL mesh + pattern, pixelation,
+// hexagon, squares, glass and grain overlays) into a single 2D canvas.
+// This module is bundled on its own (see vite.config.ts) and offered as
+// `mesh-runtime.js` next to the generated component code.
+
+export interface MeshGradientRuntimeOptions {
+  // Start the animation loop immediately (default: true).
+  autoplay?: boolean
+  // Backing-store resolution multiplier (default: window.devicePixelRatio).
+  pixelRatio?: number
+  // Freeze shader animation when the OS asks for reduced motion (default: true).
+  respectReducedMotion?: boolean
+}
+
+const SUBDIVISION = 20
+
+export class MeshGradientRuntime {
+  document: MeshDocument
+  private canvas: HTMLCanvasElement
+  private ctx: CanvasRenderingContext2D
+  private layers: LayerCanvases
+  private renderer: MeshRenderer
+  private glass = new GlassRenderer()
+  private keyframes = new KeyframePlayer()
+  // Time passed to renderAt() when the keyframe timeline was at 0.
+  private timelineOrigin: number | null = null
+  private overlayCache: OverlayCache = createOverlayCache()
+  private pixelRatio: number
+  private reducedMotion: MediaQueryList | null
+  private resizeObserver: ResizeObserver | null = null
+  private rafId = 0
+  private disposed = false
+
+  constructor(canvas: HTMLCanvasElement, preset: unknown, options: MeshGradientRuntimeOptions = {}) {
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('mesh-runtime: canvas already has a non-2D context')
+
+    this.canvas = canvas
+    this.ctx = ctx
+    this.document = readProject(preset).document
+    this.pixelRatio = options.pixelRatio ?? (window.devicePixelRatio || 1)
+    this.reducedMotion = options.respectReducedMotion === false
+      ? null
+      : window.matchMedia('(prefers-reduced-motion: reduce)')
+
+    const offscreen = () => document.createElement('canvas')
+    this.layers = {
+      gl: offscreen(),
+      pixelation: offscreen(),
+      hexagon: offscreen(),
+      squares: offscreen(),
+      glass: offscreen(),
+      noise: offscreen(),
+    }
+
+    this.renderer = new MeshRenderer(this.layers.gl)
+    this.renderer.subdivision = SUBDIVISION
+    this.renderer.renderer.setPixelRatio(this.pixelRatio)
+    this.renderer.update(this.document.grid, this.document.colorInterpolation)
+
+    this.resize()
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.resize())
+      this.resizeObserver.observe(canvas)
+    }
+
+    if (options.autoplay === false) {
+      this.renderAt(0)
+    } else {
+      this.play()
+    }
+  }
+
+  // Swaps in a new preset without recreating GL resources.
+  setPreset(preset: unknown) {
+    this.document = readProject(preset).document
+    this.timelineOrigin = null
+    this.overlayCache.hexagonKey = ''
+    this.overlayCache.squaresKey = ''
+    this.renderer.update(this.document.grid, this.document.colorInterpolation)
+    if (!this.rafId) this.renderAt(performance.now() / 1000)
+  }
+
+  // Matches the canvas backing store to its CSS size. Called automatically
+  // through a ResizeObserver when available.
+  resize() {
+    const cssW = Math.max(1, Math.round(this.canvas.clientWidth || this.canvas.width))
+    const cssH = Math.max(1, Math.round(this.canvas.clientHeight || this.canvas.height))
+    const outW = Math.max(1, Math.round(cssW * this.pixelRatio))
+    const outH = Math.max(1, Math.round(cssH * this.pixelRatio))
+    if (this.canvas.width !== outW) this.canvas.width = outW
+    if (this.canvas.height !== outH) this.canvas.height = outH
+
+    // Same sizing as the editor viewport: GL at device pixels, pattern
+    // uniforms and 2D overlays in CSS pixels.
+    this.renderer.setSize(cssW, cssH)
+    const { pixelation, hexagon, squares, glass, noise } = this.layers
+    for (const layer of [pixelation, hexagon, squares, glass, noise]) {
+      layer.width = cssW
+      layer.height = cssH
+    }
+    this.overlayCache.hexagonKey = ''
+    this.overlayCache.squaresKey = ''
+    if (!this.rafId) this.renderAt(performance.now() / 1000)
+  }
+
+  renderAt(timeSec: number) {
+    if (this.disposed) return
+    const doc = this.document
+    const anim = doc.animation
+    const animation: AnimationSettings = this.reducedMotion?.matches
+      ? { ...anim, style: 'static', strength: 0 }
+      : anim
+
+    this.renderer.setBackground(doc.canvasBackground)
+    this.renderer.setEffect(doc.effect)
+    this.renderer.setAnimation(animation, timeSec)
+    if (hasKeyframes(doc.grid)) {
+      this.timelineOrigin ??= timeSec
+      const time = timelineTime(doc.timeline, timeSec - this.timelineOrigin)
+      const frame = this.keyframes.frame(doc.grid, time, doc.colorInterpolation)
+      this.renderer.update(frame.grid, doc.colorInterpolation, frame.changes)
+    }
+    this.renderer.render()
+
+    const { layers, overlayCache } = this
+    drawPixelationOverlay(layers.pixelation, layers.gl, doc, 1, overlayCache)
+    drawHexagonOverlay(layers.hexagon, doc, 1, overlayCache)
+    drawSquaresOverlay(layers.squares, doc, 1, overlayCache)
+    this.glass.draw(layers.glass, layers.gl, doc, 1)
+    drawNoiseOverlay(layers.noise, doc, timeSec, 1, overlayCache)
+
+    composeLayers(this.ctx, layers, this.canvas.width, this.canvas.height)
+  }
+
+  // Starts the animation loop; the keyframe timeline restarts from 0.
+  play() {
+    if (this.rafId || this.disposed) return
+    this.timelineOrigin = null
+    const frame = (now: number) => {
+      this.renderAt(now / 1000)
+      this.rafId = requestAnimationFrame(frame)
+    }
+    this.rafId = requestAnimationFrame(frame)
+  }
+
+  pause() {
+    cancelAnimationFrame(this.rafId)
+    this.rafId = 0
+  }
+
+  dispose() {
+    if (this.disposed) return
+    this.pause()
+    this.disposed = true
+    this.resizeObserver?.disconnect()
+    this.resizeObserver = null
+    this.renderer.dispose()
+    this.glass.dispose()
+  }
+}
+
+export function initMeshGradientRuntime(
+  canvas: HTMLCanvasElement,
+  preset: unknown,
+  options?: MeshGradientRuntimeOptions,
+): MeshGradientRuntime {
+  return new MeshGradientRuntime(canvas, preset, options)
+}
@@ -1,6 +1,41 @@
-import { defineConfig } from 'vite'
+import { build } from 'esbuild'
+import { resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const RUNTIME_BUNDLE_ID = 'virtual:mesh-runtime-bundle'
+const RUNTIME_ENTRY = fileURLToPath(new URL('./src/runtime/index.ts', import.meta.url))
+
+// Bundles src/runtime into a single self-contained ES module and exposes its
+// source text, so the export modal can offer `mesh-runtime.js` as a download.
+function meshRuntimeBundle(): Plugin {
+  const resolvedId = '\0' + RUNTIME_BUNDLE_ID
+  return {
+    name: 'mesh-runtime-bundle',
+    resolveId(source) {
+      if (source === RUNTIME_BUNDLE_ID) return resolvedId
+    },
+    async load(id) {
+      if (id !== resolvedId) return
+      const result = await build({
+        entryPoints: [RUNTIME_ENTRY],
+        bundle: true,
+        format: 'esm',
+        target: 'es2020',
+        minify: true,
+        write: false,
+        metafile: true,
+        banner: { js: '// mesh-runtime.js — generated by Mesh Editor' },
+      })
+      for (const input of Object.keys(result.metafile.inputs)) {
+        this.addWatchFile(resolve(input))
+      }
+      return `export default ${JSON.stringify(result.outputFiles[0].text)}`
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), meshRuntimeBundle()],
 })